@@ -49,14 +49,75 @@ import {
   MessageSquare,
   BrainCircuit,
   Package,
+  RotateCcw,
+  FilePlus2,
+  ListPlus,
+  Loader2,
+  Clock,
+  Info,
+  Languages,
+  ListChecks,
+  BookMarked,
+  Network,
 } from "lucide-react";
 import KnowledgeGraph from "./components/KnowledgeGraph";
+import LibraryGraphView from "./components/LibraryGraphView";
 import ThinkingModal from "./components/ThinkingModal";
 import NodeInspector from "./components/NodeInspector";
 import ChatInterface from "./components/ChatInterface";
 import BioBackground from "./components/BioBackground";
 import ExportModal from "./components/ExportModal";
-import { GeminiService } from "./services/geminiService";
+import SourceMergeModal from "./components/SourceMergeModal";
+import GenerationDetailsModal from "./components/GenerationDetailsModal";
+import PhiReviewModal from "./components/PhiReviewModal";
+import VerificationReportModal from "./components/VerificationReportModal";
+import SectionActions from "./components/SectionActions";
+import { ApiKeyError, GeminiService } from "./services/geminiService";
+import {
+  DEFAULT_OPENAI_COMPATIBLE_MODEL,
+  isAbortError,
+} from "./services/llmProvider";
+import {
+  OUTPUT_LANGUAGES,
+  resolveOutputLanguage,
+} from "./services/outputLanguage";
+import {
+  applyPhiReview,
+  scanFiles,
+  type PhiDecision,
+  type PhiScan,
+} from "./services/phiScanner";
+import { detectInjection } from "./services/promptSafety";
+import {
+  annotateClaimReviews,
+  type ClaimVerdict,
+  type GuideClaim,
+} from "./services/claimVerification";
+import {
+  annotateNumericFindings,
+  checkNumericClaims,
+} from "./services/numericClaims";
+import {
+  conceptKey,
+  mapGraphTerminology,
+  sameConcept,
+} from "./services/terminology";
+import {
+  applyGraphEdit,
+  describeGraphEdit,
+  type GraphEdit,
+} from "./services/graphEditing";
+import {
+  mergeCandidates,
+  previewGraph,
+  type NodeExpansion,
+} from "./services/graphExpansion";
+import { buildLibraryGraph } from "./services/libraryGraph";
+import { typeNoteLinks } from "./services/relationshipTypes";
+import {
+  MODEL_TASK_LABELS,
+  resolveTaskSettings,
+} from "./services/modelSettings";
 import {
   NoteRepository,
   ProfileRepository,
@@ -67,12 +128,24 @@ import {
   noteToRecord,
   recordToProfile,
   profileToRecord,
+  fileRecordToInput,
 } from "./src/lib";
 import {
   ProcessingStatus,
   AugmentedNote,
   FileInput,
+  GraphRevision,
+  KnowledgeGraphData,
   KnowledgeNode,
+  ModelTask,
+  Phase1ValidationReport,
+  QueueEntry,
+  RedactionLogEntry,
+  SourceChunkProgress,
+  SectionAction,
+  SectionRevision,
+  SourceMergePreview,
+  TrainingLevel,
   UserProfile,
 } from "./types";
 import Onboarding from "./components/Onboarding";
@@ -206,6 +279,37 @@ const AttachmentRow: React.FC<AttachmentRowProps> = ({ fileId }) => {
 // Initialize Gemini service for API interactions
 const gemini = new GeminiService();
 
+// Per-note undo depth for section rewrites
+const MAX_SECTION_HISTORY = 20;
+
+// Revisions saved before positions were recorded match on the heading alone
+const isRevisionOf = (
+  revision: SectionRevision,
+  heading: string,
+  position: number
+) =>
+  revision.heading === heading &&
+  (revision.position === undefined || revision.position === position);
+
+// Per-note undo depth for manual graph edits
+const MAX_GRAPH_HISTORY = 20;
+
+// Background queue topics generated at once unless the profile overrides it
+const DEFAULT_QUEUE_CONCURRENCY = 2;
+
+const QUEUE_STATUS_LABELS: Record<QueueEntry["status"], string> = {
+  queued: "Queued",
+  "building-graph": "Building graph",
+  writing: "Writing guide",
+  failed: "Failed",
+};
+
+// Uploads after the PHI review, with the decisions made for them
+interface ReviewedUploads {
+  files: FileInput[];
+  redactionLog: RedactionLogEntry[];
+}
+
 const App: React.FC = () => {
   // ===============================
   // APPLICATION STATE MANAGEMENT
@@ -217,12 +321,19 @@ const App: React.FC = () => {
   const [activeNav, setActiveNav] = useState<"dashboard" | "library" | "stats">(
     "dashboard"
   ); // Top-level navigation
+  const [libraryView, setLibraryView] = useState<"guides" | "network">(
+    "guides"
+  ); // Library as guide cards or as one merged graph
 
   // ===============================
   // DASHBOARD STATE (File Upload & Topic Input)
   // ===============================
   const [stagingFiles, setStagingFiles] = useState<FileInput[]>([]); // Files queued for processing
   const [topicName, setTopicName] = useState(""); // User-defined topic for the session
+  const [noteLanguage, setNoteLanguage] = useState(""); // Output language override ("" = profile default)
+  const [stagingRedactionLog, setStagingRedactionLog] = useState<
+    RedactionLogEntry[]
+  >([]); // PHI review decisions for the staged files
 
   // ===============================
   // WORKSPACE STATE (Note Viewing & Interaction)
@@ -230,6 +341,7 @@ const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<"guide" | "graph">("guide"); // Tab in study workspace (guide or graph)
   const [showEli5, setShowEli5] = useState(false); // Toggle for ELI5 analogy display
   const [selectedNode, setSelectedNode] = useState<KnowledgeNode | null>(null); // Selected node in knowledge graph
+  const [expansion, setExpansion] = useState<NodeExpansion | null>(null); // "Expand" suggestions awaiting review
   const [isGeneratingCards, setIsGeneratingCards] = useState(false); // Unused in current implementation
 
   // ===============================
@@ -237,11 +349,43 @@ const App: React.FC = () => {
   // ===============================
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [selectedText, setSelectedText] = useState<string | null>(null);
+  const [chatPrompt, setChatPrompt] = useState<string | null>(null); // Question to send on open
 
   // ===============================
   // EXPORT MODAL STATE
   // ===============================
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+  const [isVerificationOpen, setIsVerificationOpen] = useState(false);
+
+  // ===============================
+  // ADD SOURCES STATE (merge new files into the active note)
+  // ===============================
+  const [sourceMerge, setSourceMerge] = useState<{
+    preview: SourceMergePreview;
+    files: FileInput[];
+    redactionLog: RedactionLogEntry[];
+  } | null>(null);
+  const [isSavingMerge, setIsSavingMerge] = useState(false);
+
+  // PHI pre-flight: scans awaiting review and the run to continue afterwards
+  const [phiReview, setPhiReview] = useState<{
+    scans: PhiScan[];
+    action: "generate" | "queue" | "add-sources";
+  } | null>(null);
+  const [isApplyingPhiReview, setIsApplyingPhiReview] = useState(false);
+  const phiReviewedRef = useRef(new WeakSet<FileInput>()); // Already scanned or produced by a review
+  const addSourcesInputRef = useRef<HTMLInputElement>(null);
+
+  // ===============================
+  // SECTION ACTIONS STATE (one heading rewritten at a time)
+  // ===============================
+  const [sectionJob, setSectionJob] = useState<{
+    noteId: string;
+    heading: string;
+    position: number; // Index among the guide's '## ' sections
+  } | null>(null);
+  const sectionAbortRef = useRef<AbortController | null>(null);
 
   // ===============================
   // THINKING MODAL STATE (Real-Time Streaming UI)
@@ -261,6 +405,14 @@ const App: React.FC = () => {
   const [retryError, setRetryError] = useState<string>("");
   const [retryCountdown, setRetryCountdown] = useState<number>(0);
   const [isMarkdownComplete, setIsMarkdownComplete] = useState(false);
+  const [validationReport, setValidationReport] =
+    useState<Phase1ValidationReport | null>(null);
+  const [chunkProgress, setChunkProgress] = useState<SourceChunkProgress[]>(
+    []
+  );
+  // Abort handle for whatever the ThinkingModal is showing
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
 
   // ===============================
   // USER PROFILE (Onboarding)
@@ -374,6 +526,29 @@ const App: React.FC = () => {
     console.log("✅ [Profile] Updated:", updatedProfile);
   }, []);
 
+  // Dashboard label for whichever backend the profile points at: the model
+  // every task runs on, or "custom" when per-task overrides differ
+  const modelLabel = useMemo(() => {
+    const backendModel =
+      userProfile?.llmProvider === "openai-compatible"
+        ? userProfile.llmModel || DEFAULT_OPENAI_COMPATIBLE_MODEL
+        : userProfile?.llmProvider === "demo"
+        ? "Demo (offline)"
+        : "Gemini 2.5 Flash";
+    if (userProfile?.llmProvider === "demo") return backendModel;
+
+    const models = new Set(
+      (Object.keys(MODEL_TASK_LABELS) as ModelTask[]).map(
+        (task) =>
+          resolveTaskSettings(task, userProfile || undefined).model ||
+          backendModel
+      )
+    );
+    return models.size > 1
+      ? `${backendModel} + custom per task`
+      : [...models][0];
+  }, [userProfile]);
+
   const isBirthday = useMemo(() => {
     if (!userProfile?.birthday) return false;
     const today = new Date();
@@ -412,6 +587,61 @@ const App: React.FC = () => {
     () => library.find((n) => n.id === activeNoteId),
     [library, activeNoteId]
   );
+  // Sets lang/dir on the guide so RTL languages lay out right-to-left
+  const activeLanguage = resolveOutputLanguage(
+    userProfile || undefined,
+    activeNote?.outputLanguage
+  );
+  // Doses and cutoffs that disagree across guide, topic map and pearls
+  const numericFindings = useMemo(
+    () => (activeNote ? checkNumericClaims(activeNote) : []),
+    [activeNote?.markdownContent, activeNote?.graphData, activeNote?.pearls]
+  );
+  // Other notes with the selected node's concept (by code when mapped)
+  const conceptNotes = useMemo(
+    () =>
+      selectedNode
+        ? library
+            .filter(
+              (n) =>
+                n.id !== activeNoteId &&
+                n.graphData.nodes.some((m) => sameConcept(m, selectedNode))
+            )
+            .map((n) => ({ id: n.id, title: n.title }))
+        : [],
+    [library, activeNoteId, selectedNode]
+  );
+  // Expansion candidates drawn as ghosts on their note's graph
+  const expansionPreview = useMemo(
+    () =>
+      expansion && expansion.noteId === activeNoteId
+        ? previewGraph(expansion.candidates)
+        : undefined,
+    [expansion, activeNoteId]
+  );
+  // All notes' graphs merged: the library network, and library-wide paths
+  // in a note's graph view
+  const showsLibraryGraph =
+    activeNav === "library" ? libraryView === "network" : activeTab === "graph";
+  const libraryGraph = useMemo(
+    () => (showsLibraryGraph ? buildLibraryGraph(library) : undefined),
+    [library, showsLibraryGraph]
+  );
+  // Guide as rendered: claim review and numeric check badges are added for
+  // display only
+  const guideMarkdown = useMemo(
+    () =>
+      activeNote
+        ? annotateNumericFindings(
+            annotateClaimReviews(
+              activeNote.markdownContent,
+              activeNote.claimReviews
+            ),
+            numericFindings
+          )
+        : "",
+    [activeNote?.markdownContent, activeNote?.claimReviews, numericFindings]
+  );
 
   // ===============================
   // PERSISTENCE: Load/Save Library to IndexedDB
@@ -425,9 +655,22 @@ const App: React.FC = () => {
       try {
         const records = await NoteRepository.list();
         // Convert records to AugmentedNote format
-        const notes: AugmentedNote[] = records.map(recordToNote);
+        let typed = 0;
+        const notes: AugmentedNote[] = records.map((record) => {
+          // Notes saved before links had types get them from their text
+          const loaded = recordToNote(record);
+          const note = typeNoteLinks(loaded);
+          if (note !== loaded) typed++;
+          // A reload stops in-flight queue runs - put them back in line
+          return note.queue && note.queue.status !== "failed"
+            ? { ...note, queue: { ...note.queue, status: "queued" } }
+            : note;
+        });
         setLibrary(notes);
         console.log(`📚 [Library] Loaded ${notes.length} notes from IndexedDB`);
+        if (typed > 0) {
+          console.log(`🏷️ [Library] Typed graph links on ${typed} older notes`);
+        }
       } catch (e) {
         console.warn("Failed to load library from IndexedDB:", e);
       } finally {
@@ -487,14 +730,300 @@ const App: React.FC = () => {
     setStagingFiles((prev) => prev.filter((_, i) => i !== index));
   }, []);
 
+  // ===============================
+  // PHI PRE-FLIGHT: Scan uploads before anything is sent
+  // ===============================
+  // Scans the files not reviewed yet. Returns true when identifiers were
+  // found or a file couldn't be scanned: the review modal takes over and
+  // continues `action` afterwards.
+  const needsPhiReview = async (
+    files: FileInput[],
+    action: "generate" | "queue" | "add-sources"
+  ): Promise<boolean> => {
+    const pending = files.filter((f) => !phiReviewedRef.current.has(f));
+    if (pending.length === 0) return false;
+
+    // Instruction-like passages are shown in the same review
+    const scans = await scanFiles(pending);
+    if (
+      scans.every(
+        (s) =>
+          !s.unscannedReason &&
+          s.findings.length === 0 &&
+          (!s.text || detectInjection(s.text).length === 0)
+      )
+    ) {
+      pending.forEach((f) => phiReviewedRef.current.add(f));
+      return false;
+    }
+
+    const count = scans.reduce((n, s) => n + s.findings.length, 0);
+    console.log(`🛡️ [PHI] ${count} possible identifier(s) to review`);
+    setPhiReview({ scans, action });
+    return true;
+  };
+
+  const continuePhiReview = async (
+    decisions: Record<string, PhiDecision>
+  ) => {
+    if (!phiReview) return;
+    const { scans, action } = phiReview;
+    setIsApplyingPhiReview(true);
+
+    try {
+      const { files, log } = await applyPhiReview(scans, decisions);
+      scans.forEach((scan) => phiReviewedRef.current.add(scan.input!));
+      files.forEach((f) => phiReviewedRef.current.add(f));
+      setPhiReview(null);
+
+      if (action === "add-sources") {
+        runAddSources({ files, redactionLog: log });
+        return;
+      }
+
+      // Swap the reviewed files into the staging list in place
+      const replaced = new Map(scans.map((scan, i) => [scan.input!, files[i]]));
+      const reviewed: ReviewedUploads = {
+        files: stagingFiles.map((f) => replaced.get(f) || f),
+        redactionLog: [...stagingRedactionLog, ...log],
+      };
+      setStagingFiles(reviewed.files);
+      setStagingRedactionLog(reviewed.redactionLog);
+
+      if (action === "generate") {
+        startDeepDiveStreaming(reviewed);
+      } else {
+        enqueueStagedTopic(reviewed);
+      }
+    } catch (e) {
+      console.error("❌ [PHI] Couldn't apply the review:", e);
+      alert("Couldn't apply the redactions. Nothing was sent.");
+    } finally {
+      setIsApplyingPhiReview(false);
+    }
+  };
+
   // ===============================
   // PROCESSING LOGIC: Streaming Note Generation
   // ===============================
   // Main function: Orchestrates two-phase streaming (Phase 1: Graph, Phase 2: Guide)
   // Backend callbacks: "metadata" → "markdown" (multiple) → "complete"
   // Frontend stages: "building-graph" → "writing-guide" → modal close
-  const startDeepDiveStreaming = async () => {
-    if (stagingFiles.length === 0) return;
+  // Shared by fresh runs and "Resume generation": streams into the note with
+  // baseNote.id and keeps its draft checkpoint current in IndexedDB
+  const runGeneration = async (
+    baseNote: AugmentedNote,
+    files: FileInput[],
+    topic: string,
+    resumeFrom?: AugmentedNote,
+    onDraftSaved?: () => void,
+    signal?: AbortSignal
+  ) => {
+    const tempNoteId = baseNote.id;
+    let lastPhase1Stage: string | null = null;
+    let lastPhase2Stage: string | null = null;
+
+    const result = await gemini.augmentClinicalNoteStreaming(
+      files,
+      topic,
+      userProfile,
+      (update) => {
+        if (update.stage === "metadata") {
+          if (update.subStage && update.subStage !== lastPhase1Stage) {
+            lastPhase1Stage = update.subStage;
+            setThinkingStage(update.subStage as any);
+            console.log(`📊 Phase 1: ${update.subStage}`);
+          }
+
+          if (update.validationReport) {
+            setValidationReport(update.validationReport);
+          }
+          if (update.chunkProgress) {
+            setChunkProgress(update.chunkProgress);
+          }
+
+          if (update.data?.graphData) {
+            setThinkingStage("structuring");
+            setStatus(ProcessingStatus.WRITING_GUIDE);
+
+            setLibrary((prev) => {
+              const exists = prev.find((n) => n.id === tempNoteId);
+              if (exists) {
+                return prev.map((n) =>
+                  n.id === tempNoteId
+                    ? {
+                        ...n,
+                        title: update.data?.title || n.title,
+                        summary: update.data?.summary || n.summary,
+                        eli5Analogy: update.data?.eli5Analogy,
+                        pearls: update.data?.pearls || [],
+                        graphData: update.data?.graphData || n.graphData,
+                        provenance: update.data?.provenance,
+                      }
+                    : n
+                );
+              }
+              return [
+                {
+                  ...baseNote,
+                  title: update.data?.title || baseNote.title,
+                  summary: update.data?.summary || baseNote.summary,
+                  eli5Analogy: update.data?.eli5Analogy,
+                  pearls: update.data?.pearls || [],
+                  graphData: update.data?.graphData || baseNote.graphData,
+                  provenance: update.data?.provenance,
+                },
+                ...prev,
+              ];
+            });
+
+            setActiveNoteId(tempNoteId);
+            setActiveNav("dashboard");
+            setActiveTab("guide");
+          }
+        } else if (update.stage === "markdown") {
+          if (update.subStage && update.subStage !== lastPhase2Stage) {
+            lastPhase2Stage = update.subStage;
+            setThinkingStage(update.subStage as any);
+            console.log(`📝 Phase 2: ${update.subStage}`);
+          }
+
+          const content = update.data?.markdownContent || "";
+          setMarkdownProgress(content.length);
+
+          setLibrary((prev) =>
+            prev.map((n) =>
+              n.id === tempNoteId ? { ...n, markdownContent: content } : n
+            )
+          );
+        } else if (update.stage === "complete") {
+          // Update with final result including smart links and sources
+          if (update.data) {
+            setLibrary((prev) =>
+              prev.map((n) =>
+                n.id === tempNoteId
+                  ? {
+                      ...n,
+                      markdownContent:
+                        update.data?.markdownContent || n.markdownContent,
+                      sources: update.data?.sources || [],
+                    }
+                  : n
+              )
+            );
+            // Update progress to final length
+            setMarkdownProgress(update.data.markdownContent?.length || 0);
+          }
+          setIsThinking(false);
+          setIsMarkdownComplete(true);
+          setStatus(ProcessingStatus.COMPLETE);
+        }
+      },
+      (thought) => {
+        if (thought && thought.trim()) {
+          setCurrentThought(thought);
+        }
+      },
+      {
+        resumeFrom,
+        signal,
+        noteId: tempNoteId,
+        outputLanguage: baseNote.outputLanguage,
+        // Persisted through the library save effect
+        onCheckpoint: (checkpoint) => {
+          setLibrary((prev) =>
+            prev.map((n) =>
+              n.id === tempNoteId ? { ...n, draft: checkpoint } : n
+            )
+          );
+          onDraftSaved?.();
+        },
+      }
+    );
+
+    //  Final update with complete result (smart links + sources)
+    // This ensures the processed markdown with node links is saved
+    setLibrary((prev) =>
+      prev.map((n) =>
+        n.id === tempNoteId
+          ? {
+              ...n,
+              ...result, // Overwrite with full result including smart links
+              id: tempNoteId, // Keep the temp ID
+              timestamp: n.timestamp,
+              sourceFileIds: n.sourceFileIds,
+              draft: undefined, // Generation finished - no longer resumable
+            }
+          : n
+      )
+    );
+  };
+
+  // Record why a run stopped so the library can offer "Resume generation"
+  const markDraftFailed = (noteId: string, error: any) => {
+    setLibrary((prev) =>
+      prev.map((n) =>
+        n.id === noteId && n.draft
+          ? {
+              ...n,
+              draft: {
+                ...n.draft,
+                error: error?.message || "Generation interrupted",
+                updatedAt: Date.now(),
+              },
+            }
+          : n
+      )
+    );
+  };
+
+  // Fresh AbortController for a ThinkingModal run; Cancel aborts it
+  const startAbortableRun = (): AbortSignal => {
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    setIsCancelling(false);
+    return controller.signal;
+  };
+
+  const endAbortableRun = () => {
+    generationAbortRef.current = null;
+    setIsCancelling(false);
+  };
+
+  const cancelGeneration = () => {
+    if (!generationAbortRef.current) return;
+    console.log("⏹️ Cancelling generation...");
+    setIsCancelling(true);
+    generationAbortRef.current.abort();
+  };
+
+  const handleGenerationError = (e: any) => {
+    setIsThinking(false);
+
+    // Cancelled on purpose - the draft (if any) was already marked
+    if (isAbortError(e)) {
+      setStatus(ProcessingStatus.IDLE);
+      return;
+    }
+
+    console.error(e);
+
+    // Check if it's an empty content error
+    if (e.code === "EMPTY_CONTENT") {
+      setRetryError(e.message || "Content generation incomplete");
+      setShowRetryModal(true);
+      setStatus(ProcessingStatus.ERROR);
+    } else {
+      setStatus(ProcessingStatus.ERROR);
+      alert("Analysis failed. Please try again.");
+    }
+  };
+
+  const startDeepDiveStreaming = async (reviewed?: ReviewedUploads) => {
+    const files = reviewed?.files ?? stagingFiles;
+    if (files.length === 0) return;
+    if (!reviewed && (await needsPhiReview(files, "generate"))) return;
+    const redactionLog = reviewed?.redactionLog ?? stagingRedactionLog;
     // REMOVED: API_KEY environment check - users will provide their key via Onboarding/Settings
     // This allows the app to work on GitHub Pages with BYOK architecture
     // if (!process.env.API_KEY) {
@@ -502,198 +1031,805 @@ const App: React.FC = () => {
     //   return;
     // }
 
+    const tempNoteId = crypto.randomUUID();
+    const topic = topicName || "Untitled Session";
+    const uploadedIds: string[] = [];
+    let hasDraft = false;
+    const signal = startAbortableRun();
+
     try {
       setIsThinking(true);
       setThinkingStage("extracting");
       setCurrentThought("");
+      setValidationReport(null);
+      setChunkProgress([]);
       setMarkdownProgress(0);
       setIsMarkdownComplete(false);
       setStatus(ProcessingStatus.BUILDING_GRAPH);
 
+      // Persist original uploaded files to IndexedDB (StorageRepository) up
+      // front: the draft needs them to resume, and the note links them later.
+      for (const f of files) {
+        try {
+          // f.file is a File object (from input); upload as Blob
+          if (f.file) {
+            const id = await StorageRepository.upload(f.file, {
+              fileName: f.file.name,
+              relatedNoteId: tempNoteId,
+            });
+            uploadedIds.push(id);
+          }
+        } catch (innerErr) {
+          console.warn("Failed to upload source file to IndexedDB:", innerErr);
+        }
+      }
+
       await new Promise((r) => setTimeout(r, 300));
 
-      const tempNoteId = crypto.randomUUID();
       const tempNote: AugmentedNote = {
         id: tempNoteId,
         timestamp: Date.now(),
         title: "Generating...",
-        sourceFileNames: stagingFiles.map((f) => f.file.name),
-        markdownContent: "_Connecting to Gemini 2.5 Flash (Thinking Mode)..._",
+        sourceFileNames: files.map((f) => f.file.name),
+        sourceFileIds: uploadedIds,
+        markdownContent: `_Connecting to ${modelLabel} (Thinking Mode)..._`,
         summary: "",
         pearls: [],
         graphData: { nodes: [], links: [] },
         sources: [],
+        outputLanguage: noteLanguage || undefined,
+        redactionLog: redactionLog.length > 0 ? redactionLog : undefined,
       };
 
-      let lastPhase1Stage: string | null = null;
-      let lastPhase2Stage: string | null = null;
+      await runGeneration(
+        tempNote,
+        files,
+        topic,
+        undefined,
+        () => {
+          hasDraft = true;
+        },
+        signal
+      );
+
+      setStagingFiles([]);
+      setStagingRedactionLog([]);
+      setTopicName("");
+      setStatus(ProcessingStatus.COMPLETE);
+      setIsThinking(false);
+      setIsMarkdownComplete(true);
+    } catch (e: any) {
+      if (hasDraft) {
+        markDraftFailed(tempNoteId, e);
+        // Staged files now live on the draft; resume re-reads them from IndexedDB
+        setStagingFiles([]);
+        setStagingRedactionLog([]);
+        setTopicName("");
+      } else {
+        // Phase 1 never produced a note - don't leave its uploads orphaned
+        uploadedIds.forEach((id) =>
+          StorageRepository.delete(id).catch(() => {})
+        );
+      }
+
+      handleGenerationError(e);
+    } finally {
+      endAbortableRun();
+    }
+  };
+
+  // Re-read a note's stored uploads in their original order
+  const loadNoteFiles = async (note: AugmentedNote): Promise<FileInput[]> => {
+    const records = await StorageRepository.getFilesForNote(note.id);
+    const ordered = (note.sourceFileIds || [])
+      .map((id) => records.find((r) => r.id === id))
+      .filter((r): r is NonNullable<typeof r> => !!r);
+    return Promise.all(ordered.map(fileRecordToInput));
+  };
+
+  // Continue an interrupted generation from its last checkpoint
+  const resumeGeneration = async (note: AugmentedNote) => {
+    if (!note.draft || isThinking) return;
+
+    try {
+      const files = await loadNoteFiles(note);
+
+      if (files.length === 0) {
+        alert("The source files for this draft are no longer available.");
+        return;
+      }
+
+      setIsThinking(true);
+      setThinkingStage(
+        note.draft.phase === "metadata" ? "structuring" : "writing"
+      );
+      setCurrentThought("");
+      setValidationReport(null);
+      setChunkProgress([]);
+      setMarkdownProgress(note.draft.partialMarkdown?.length || 0);
+      setIsMarkdownComplete(false);
+      setStatus(ProcessingStatus.WRITING_GUIDE);
+      setActiveNoteId(note.id);
+      setActiveNav("dashboard");
+      setActiveTab("guide");
+
+      await runGeneration(
+        note,
+        files,
+        note.draft.topicName,
+        note,
+        undefined,
+        startAbortableRun()
+      );
+
+      setStatus(ProcessingStatus.COMPLETE);
+      setIsThinking(false);
+      setIsMarkdownComplete(true);
+    } catch (e: any) {
+      markDraftFailed(note.id, e);
+      handleGenerationError(e);
+    } finally {
+      endAbortableRun();
+    }
+  };
+
+  // ===============================
+  // BACKGROUND QUEUE: Batch generation without the thinking modal
+  // ===============================
+  // Queued topics are ordinary notes carrying a `queue` entry, so they show
+  // up in the library and survive a reload. The scheduler effect below starts
+  // up to `queueConcurrency` of them; each run streams into its own note.
+  const runningQueueIds = useRef<Set<string>>(new Set());
+  // One controller per running topic; aborted when it leaves the queue or the
+  // queue pauses (see the effect below the scheduler)
+  const queueAbortControllers = useRef<Map<string, AbortController>>(
+    new Map()
+  );
+  const [queuePausedReason, setQueuePausedReason] = useState<string | null>(
+    null
+  );
+
+  const updateQueueEntry = (noteId: string, patch: Partial<QueueEntry>) => {
+    setLibrary((prev) =>
+      prev.map((n) =>
+        n.id === noteId && n.queue
+          ? { ...n, queue: { ...n.queue, ...patch } }
+          : n
+      )
+    );
+  };
+
+  // Stage the current files + topic as a queued note and clear the dashboard
+  const enqueueStagedTopic = async (reviewed?: ReviewedUploads) => {
+    const files = reviewed?.files ?? stagingFiles;
+    if (files.length === 0) return;
+    if (!reviewed && (await needsPhiReview(files, "queue"))) return;
+    const redactionLog = reviewed?.redactionLog ?? stagingRedactionLog;
+
+    const noteId = crypto.randomUUID();
+    const topic = topicName || "Untitled Session";
+    const uploadedIds: string[] = [];
+
+    for (const f of files) {
+      try {
+        uploadedIds.push(
+          await StorageRepository.upload(f.file, {
+            fileName: f.file.name,
+            relatedNoteId: noteId,
+          })
+        );
+      } catch (e) {
+        console.warn("Failed to upload source file to IndexedDB:", e);
+      }
+    }
+
+    if (uploadedIds.length === 0) {
+      alert("Couldn't store these files for the queue. Please try again.");
+      return;
+    }
+
+    setLibrary((prev) => [
+      {
+        id: noteId,
+        timestamp: Date.now(),
+        title: topic,
+        sourceFileNames: files.map((f) => f.file.name),
+        sourceFileIds: uploadedIds,
+        markdownContent: "_Waiting in the generation queue..._",
+        summary: "",
+        pearls: [],
+        graphData: { nodes: [], links: [] },
+        sources: [],
+        outputLanguage: noteLanguage || undefined,
+        redactionLog: redactionLog.length > 0 ? redactionLog : undefined,
+        queue: {
+          status: "queued",
+          topicName: topic,
+          attempts: 0,
+          enqueuedAt: Date.now(),
+        },
+      },
+      ...prev,
+    ]);
+    setStagingFiles([]);
+    setStagingRedactionLog([]);
+    setTopicName("");
+    console.log(`📥 [Queue] Added "${topic}" (${uploadedIds.length} files)`);
+  };
+
+  // One background run. Mirrors runGeneration but only touches its own note;
+  // retries and quota handling come from GeminiService (retryWithBackoff)
+  const processQueuedNote = async (note: AugmentedNote) => {
+    const noteId = note.id;
+    const entry = note.queue!;
+    const controller = new AbortController();
+    queueAbortControllers.current.set(noteId, controller);
+    console.log(`⚙️ [Queue] Starting "${entry.topicName}"`);
+
+    try {
+      const files = await loadNoteFiles(note);
+      if (files.length === 0) {
+        throw new Error(
+          "The source files for this topic are no longer available."
+        );
+      }
+
+      updateQueueEntry(noteId, {
+        status: note.draft ? "writing" : "building-graph",
+        error: undefined,
+      });
 
       const result = await gemini.augmentClinicalNoteStreaming(
-        stagingFiles,
-        topicName || "Untitled Session",
+        files,
+        entry.topicName,
         userProfile,
         (update) => {
-          if (update.stage === "metadata") {
-            if (update.subStage && update.subStage !== lastPhase1Stage) {
-              lastPhase1Stage = update.subStage;
-              setThinkingStage(update.subStage as any);
-              console.log(`📊 Phase 1: ${update.subStage}`);
-            }
-
-            if (update.data?.graphData) {
-              setThinkingStage("structuring");
-              setStatus(ProcessingStatus.WRITING_GUIDE);
-
-              setLibrary((prev) => {
-                const exists = prev.find((n) => n.id === tempNoteId);
-                if (exists) {
-                  return prev.map((n) =>
-                    n.id === tempNoteId
-                      ? {
-                          ...n,
-                          title: update.data?.title || n.title,
-                          summary: update.data?.summary || n.summary,
-                          eli5Analogy: update.data?.eli5Analogy,
-                          pearls: update.data?.pearls || [],
-                          graphData: update.data?.graphData || n.graphData,
-                        }
-                      : n
-                  );
-                }
-                return [
-                  {
-                    ...tempNote,
-                    title: update.data?.title || tempNote.title,
-                    summary: update.data?.summary || tempNote.summary,
-                    eli5Analogy: update.data?.eli5Analogy,
-                    pearls: update.data?.pearls || [],
-                    graphData: update.data?.graphData || tempNote.graphData,
-                  },
-                  ...prev,
-                ];
-              });
-
-              setActiveNoteId(tempNoteId);
-              setActiveNav("dashboard");
-              setActiveTab("guide");
-            }
+          if (update.stage === "metadata" && update.data?.graphData) {
+            setLibrary((prev) =>
+              prev.map((n) =>
+                n.id === noteId
+                  ? {
+                      ...n,
+                      title: update.data?.title || n.title,
+                      summary: update.data?.summary || n.summary,
+                      eli5Analogy: update.data?.eli5Analogy,
+                      pearls: update.data?.pearls || [],
+                      graphData: update.data?.graphData || n.graphData,
+                      provenance: update.data?.provenance,
+                      queue: n.queue && { ...n.queue, status: "writing" },
+                    }
+                  : n
+              )
+            );
           } else if (update.stage === "markdown") {
-            if (update.subStage && update.subStage !== lastPhase2Stage) {
-              lastPhase2Stage = update.subStage;
-              setThinkingStage(update.subStage as any);
-              console.log(`📝 Phase 2: ${update.subStage}`);
-            }
-
             const content = update.data?.markdownContent || "";
-            setMarkdownProgress(content.length);
-
             setLibrary((prev) =>
               prev.map((n) =>
-                n.id === tempNoteId ? { ...n, markdownContent: content } : n
+                n.id === noteId ? { ...n, markdownContent: content } : n
               )
             );
-          } else if (update.stage === "complete") {
-            // Update with final result including smart links and sources
-            if (update.data) {
-              setLibrary((prev) =>
-                prev.map((n) =>
-                  n.id === tempNoteId
-                    ? {
-                        ...n,
-                        markdownContent:
-                          update.data?.markdownContent || n.markdownContent,
-                        sources: update.data?.sources || [],
-                      }
-                    : n
-                )
-              );
-              // Update progress to final length
-              setMarkdownProgress(update.data.markdownContent?.length || 0);
-            }
-            setIsThinking(false);
-            setIsMarkdownComplete(true);
-            setStatus(ProcessingStatus.COMPLETE);
           }
         },
-        (thought) => {
-          if (thought && thought.trim()) {
-            setCurrentThought(thought);
-          }
+        undefined,
+        {
+          resumeFrom: note.draft ? note : undefined,
+          signal: controller.signal,
+          noteId,
+          outputLanguage: note.outputLanguage,
+          onCheckpoint: (checkpoint) => {
+            setLibrary((prev) =>
+              prev.map((n) =>
+                n.id === noteId ? { ...n, draft: checkpoint } : n
+              )
+            );
+          },
         }
       );
 
-      //  Final update with complete result (smart links + sources)
-      // This ensures the processed markdown with node links is saved
-      result.id = tempNoteId;
       setLibrary((prev) =>
         prev.map((n) =>
-          n.id === tempNoteId
+          n.id === noteId
             ? {
                 ...n,
-                ...result, // Overwrite with full result including smart links
-                id: tempNoteId, // Keep the temp ID
+                ...result,
+                id: noteId,
+                timestamp: n.timestamp,
+                sourceFileIds: n.sourceFileIds,
+                draft: undefined,
+                queue: undefined, // Done - drops out of the queue
               }
             : n
         )
       );
+      console.log(`✅ [Queue] Finished "${entry.topicName}"`);
+    } catch (e: any) {
+      markDraftFailed(noteId, e);
+
+      // Stopped on purpose: a removed note is gone, a paused one waits its
+      // turn again and resumes from its checkpoint
+      if (isAbortError(e, controller.signal)) {
+        console.log(`⏹️ [Queue] Stopped "${entry.topicName}"`);
+        updateQueueEntry(noteId, { status: "queued" });
+        return;
+      }
 
-      // Persist original uploaded files to IndexedDB (StorageRepository)
-      // so PDFs/audio/images are available later and linked to the note.
-      try {
-        if (stagingFiles && stagingFiles.length > 0) {
-          const uploadedIds: string[] = [];
-          for (const f of stagingFiles) {
-            try {
-              // f.file is a File object (from input); upload as Blob
-              if (f.file) {
-                const id = await StorageRepository.upload(f.file, {
-                  fileName: f.file.name,
-                  relatedNoteId: tempNoteId,
+      console.error(`❌ [Queue] "${entry.topicName}" failed:`, e);
+      updateQueueEntry(noteId, {
+        status: "failed",
+        error: e?.message || "Generation failed",
+        attempts: entry.attempts + 1,
+      });
+
+      // Key/quota problems would fail every remaining topic the same way
+      if (e instanceof ApiKeyError) {
+        setQueuePausedReason(e.message);
+      }
+    } finally {
+      runningQueueIds.current.delete(noteId);
+      queueAbortControllers.current.delete(noteId);
+    }
+  };
+
+  const retryQueuedNote = (noteId: string) => {
+    updateQueueEntry(noteId, { status: "queued", error: undefined });
+    setQueuePausedReason(null);
+  };
+
+  // Scheduler: fill free slots with the oldest queued topics
+  useEffect(() => {
+    if (!isLibraryLoaded || queuePausedReason) return;
+
+    const limit = userProfile?.queueConcurrency || DEFAULT_QUEUE_CONCURRENCY;
+    const free = limit - runningQueueIds.current.size;
+    if (free <= 0) return;
+
+    library
+      .filter(
+        (n) =>
+          n.queue?.status === "queued" && !runningQueueIds.current.has(n.id)
+      )
+      .sort((a, b) => a.queue!.enqueuedAt - b.queue!.enqueuedAt)
+      .slice(0, free)
+      .forEach((note) => {
+        runningQueueIds.current.add(note.id);
+        processQueuedNote(note);
+      });
+  }, [
+    library,
+    isLibraryLoaded,
+    queuePausedReason,
+    userProfile?.queueConcurrency,
+  ]);
+
+  // Stop runs whose note was removed (or left the queue) and, while paused,
+  // every run still in flight
+  useEffect(() => {
+    queueAbortControllers.current.forEach((controller, noteId) => {
+      const note = library.find((n) => n.id === noteId);
+      if (queuePausedReason || !note?.queue) controller.abort();
+    });
+  }, [library, queuePausedReason]);
+
+  const queueCounts = useMemo(() => {
+    const queued = library.filter((n) => n.queue?.status === "queued").length;
+    const failed = library.filter((n) => n.queue?.status === "failed").length;
+    const running = library.filter(
+      (n) =>
+        n.queue?.status === "building-graph" || n.queue?.status === "writing"
+    ).length;
+    return { queued, running, failed };
+  }, [library]);
+
+  // ===============================
+  // ADD SOURCES: Incremental merge into the active note
+  // ===============================
+  // Runs Phase 1 on the picked files only, then opens the merge preview.
+  // The library is untouched until the user accepts.
+  const handleAddSources = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const picked: File[] = Array.from(event.target.files || []);
+    if (addSourcesInputRef.current) addSourcesInputRef.current.value = "";
+    if (!activeNote || picked.length === 0 || isThinking) return;
+
+    let files: FileInput[];
+    try {
+      files = await Promise.all(
+        picked.map(
+          (file) =>
+            new Promise<FileInput>((resolve, reject) => {
+              const reader = new FileReader();
+              reader.onload = (e) =>
+                resolve({
+                  file,
+                  base64: e.target?.result as string,
+                  type: file.type,
                 });
-                uploadedIds.push(id);
-              }
-            } catch (innerErr) {
-              console.warn(
-                "Failed to upload source file to IndexedDB:",
-                innerErr
-              );
-            }
-          }
+              reader.onerror = () => reject(reader.error);
+              reader.readAsDataURL(file);
+            })
+        )
+      );
+    } catch (e: any) {
+      console.error(e);
+      alert(`Couldn't read the files: ${e?.message || "please try again."}`);
+      return;
+    }
 
-          if (uploadedIds.length > 0) {
-            // Attach file IDs to the generated note in local state
-            setLibrary((prev) =>
-              prev.map((n) =>
-                n.id === tempNoteId ? { ...n, sourceFileIds: uploadedIds } : n
-              )
-            );
+    if (await needsPhiReview(files, "add-sources")) return;
+    runAddSources({ files, redactionLog: [] });
+  };
+
+  const runAddSources = async ({ files, redactionLog }: ReviewedUploads) => {
+    if (!activeNote) return;
+
+    try {
+      setIsThinking(true);
+      setThinkingStage("extracting");
+      setCurrentThought("");
+      setValidationReport(null);
+      setChunkProgress([]);
+      setMarkdownProgress(0);
+
+      const preview = await gemini.augmentNoteWithSources(
+        activeNote,
+        files,
+        userProfile || undefined,
+        (update) => {
+          if (update.subStage) setThinkingStage(update.subStage);
+          if (update.validationReport) {
+            setValidationReport(update.validationReport);
           }
-        }
-      } catch (e) {
-        console.warn("Error persisting staged files:", e);
-      }
+          if (update.chunkProgress) {
+            setChunkProgress(update.chunkProgress);
+          }
+        },
+        (thought) => {
+          if (thought && thought.trim()) {
+            setCurrentThought(thought);
+          }
+        },
+        startAbortableRun()
+      );
 
-      setStagingFiles([]);
-      setTopicName("");
-      setStatus(ProcessingStatus.COMPLETE);
       setIsThinking(false);
-      setIsMarkdownComplete(true);
+      setSourceMerge({ preview, files, redactionLog });
     } catch (e: any) {
-      console.error(e);
       setIsThinking(false);
+      if (!isAbortError(e)) {
+        console.error(e);
+        alert(`Couldn't add sources: ${e?.message || "please try again."}`);
+      }
+    } finally {
+      endAbortableRun();
+    }
+  };
 
-      // Check if it's an empty content error
-      if (e.code === "EMPTY_CONTENT") {
-        setRetryError(e.message || "Content generation incomplete");
-        setShowRetryModal(true);
-        setStatus(ProcessingStatus.ERROR);
-      } else {
-        setStatus(ProcessingStatus.ERROR);
-        alert("Analysis failed. Please try again.");
+  // Persist the merged note and link the new files to it
+  const acceptSourceMerge = async () => {
+    if (!sourceMerge) return;
+    const { preview, files, redactionLog } = sourceMerge;
+    setIsSavingMerge(true);
+
+    const uploadedIds: string[] = [];
+    for (const f of files) {
+      try {
+        uploadedIds.push(
+          await StorageRepository.upload(f.file, {
+            fileName: f.file.name,
+            relatedNoteId: preview.note.id,
+          })
+        );
+      } catch (innerErr) {
+        console.warn("Failed to upload source file to IndexedDB:", innerErr);
+      }
+    }
+
+    setLibrary((prev) =>
+      prev.map((n) =>
+        n.id === preview.note.id
+          ? {
+              ...preview.note,
+              sourceFileIds: [...(n.sourceFileIds || []), ...uploadedIds],
+              redactionLog:
+                redactionLog.length > 0
+                  ? [...(n.redactionLog || []), ...redactionLog]
+                  : n.redactionLog,
+            }
+          : n
+      )
+    );
+    setIsSavingMerge(false);
+    setSourceMerge(null);
+  };
+
+  // ===============================
+  // SECTION ACTIONS: Regenerate / expand / condense / re-level
+  // ===============================
+  // Streams the new section into the guide in place; the old section is
+  // pushed onto the note's sectionHistory for undo
+  const runSectionAction = async (
+    heading: string,
+    position: number,
+    action: SectionAction,
+    targetLevel?: TrainingLevel
+  ) => {
+    if (!activeNote || sectionJob || isThinking) return;
+    const note = activeNote;
+    const controller = new AbortController();
+    sectionAbortRef.current = controller;
+    setSectionJob({ noteId: note.id, heading, position });
+
+    try {
+      // Regenerate is grounded in the original uploads when they're still stored
+      let files: FileInput[] | undefined;
+      if (action === "regenerate" && note.sourceFileIds?.length) {
+        const records = await StorageRepository.getFilesForNote(note.id);
+        files = await Promise.all(records.map(fileRecordToInput));
       }
+
+      const result = await gemini.rewriteSectionStreaming(
+        note,
+        heading,
+        action,
+        (markdown) => {
+          setLibrary((prev) =>
+            prev.map((n) =>
+              n.id === note.id ? { ...n, markdownContent: markdown } : n
+            )
+          );
+        },
+        {
+          files,
+          targetLevel,
+          position,
+          userProfile: userProfile || undefined,
+          signal: controller.signal,
+        }
+      );
+
+      setLibrary((prev) =>
+        prev.map((n) =>
+          n.id === note.id
+            ? {
+                ...n,
+                markdownContent: result.markdown,
+                sources: result.sources,
+                sectionHistory: [
+                  ...(n.sectionHistory || []),
+                  result.revision,
+                ].slice(-MAX_SECTION_HISTORY),
+              }
+            : n
+        )
+      );
+    } catch (e: any) {
+      // Put the untouched section back
+      setLibrary((prev) =>
+        prev.map((n) =>
+          n.id === note.id
+            ? { ...n, markdownContent: note.markdownContent }
+            : n
+        )
+      );
+      if (!isAbortError(e, controller.signal)) {
+        console.error(e);
+        alert(
+          `Couldn't update this section: ${e?.message || "please try again."}`
+        );
+      }
+    } finally {
+      sectionAbortRef.current = null;
+      setSectionJob(null);
+    }
+  };
+
+  const cancelSectionAction = () => sectionAbortRef.current?.abort();
+
+  // A rewrite stops with its note
+  useEffect(() => {
+    if (sectionJob && !library.some((n) => n.id === sectionJob.noteId)) {
+      cancelSectionAction();
+    }
+  }, [library, sectionJob]);
+
+  // Restore the most recent revision of a section
+  const undoSectionAction = (heading: string, position: number) => {
+    setLibrary((prev) =>
+      prev.map((n) => {
+        if (n.id !== activeNoteId || !n.sectionHistory) return n;
+        const index = n.sectionHistory
+          .map((r) => isRevisionOf(r, heading, position))
+          .lastIndexOf(true);
+        if (index === -1) return n;
+        const revision = n.sectionHistory[index];
+        return {
+          ...n,
+          markdownContent: gemini.replaceSection(
+            n.markdownContent,
+            revision.heading,
+            revision.previousContent,
+            revision.position
+          ),
+          sectionHistory: n.sectionHistory.filter((_, i) => i !== index),
+        };
+      })
+    );
+  };
+
+  // The inspector holds a copy of the node - swap in the updated version
+  const refreshSelectedNode = (graphData: KnowledgeGraphData) => {
+    if (!selectedNode) return;
+    setSelectedNode(
+      graphData.nodes.find((n) => n.id === selectedNode.id) || null
+    );
+  };
+
+  // Terminology mapping: link the active note's nodes to standard codes
+  const mapTerminology = () => {
+    if (!activeNote) return;
+    const { graphData, mapped } = mapGraphTerminology(activeNote.graphData);
+    console.log(
+      `🏷️ [Terminology] ${mapped}/${graphData.nodes.length} nodes mapped`
+    );
+    setLibrary((prev) =>
+      prev.map((n) => (n.id === activeNote.id ? { ...n, graphData } : n))
+    );
+    refreshSelectedNode(graphData);
+  };
+
+  // Manual graph edits: the previous graph goes onto the note's graphHistory
+  // for undo, and the guide's smart links are rebuilt to match
+  const editGraph = (edit: GraphEdit) => {
+    if (!activeNote || activeNote.draft) return;
+    const note = activeNote;
+    const graphData = applyGraphEdit(note.graphData, edit);
+    if (graphData === note.graphData) return;
+
+    const revision: GraphRevision = {
+      summary: describeGraphEdit(note.graphData, edit),
+      previousGraph: note.graphData,
+      createdAt: Date.now(),
+    };
+    console.log(`✏️ [Graph] ${revision.summary}`);
+    setLibrary((prev) =>
+      prev.map((n) =>
+        n.id === note.id
+          ? {
+              ...n,
+              graphData,
+              markdownContent: gemini.relinkGuide(
+                n.markdownContent,
+                graphData.nodes
+              ),
+              graphHistory: [...(n.graphHistory || []), revision].slice(
+                -MAX_GRAPH_HISTORY
+              ),
+            }
+          : n
+      )
+    );
+
+    // A new node opens in the inspector, ready to fill in
+    if (edit.type === "add-node") {
+      setSelectedNode(graphData.nodes[graphData.nodes.length - 1]);
+    } else {
+      refreshSelectedNode(graphData);
+    }
+  };
+
+  // Restore the graph as it was before the latest manual edit
+  const undoGraphEdit = () => {
+    const history = activeNote?.graphHistory;
+    if (!activeNote || !history?.length) return;
+    const revision = history[history.length - 1];
+    const graphData = revision.previousGraph;
+    console.log(`↩️ [Graph] Undo: ${revision.summary}`);
+    setLibrary((prev) =>
+      prev.map((n) =>
+        n.id === activeNote.id
+          ? {
+              ...n,
+              graphData,
+              markdownContent: gemini.relinkGuide(
+                n.markdownContent,
+                graphData.nodes
+              ),
+              graphHistory: n.graphHistory?.slice(0, -1),
+            }
+          : n
+      )
+    );
+    refreshSelectedNode(graphData);
+  };
+
+  // ===============================
+  // NODE EXPANSION: Model-suggested neighbours, merged once accepted
+  // ===============================
+  const expandNode = async (nodeId: string) => {
+    if (!activeNote || activeNote.draft) return;
+    if (expansion?.status === "loading") return;
+    const note = activeNote;
+    const pending = { noteId: note.id, anchorId: nodeId };
+    setExpansion({ ...pending, status: "loading", candidates: [] });
+
+    try {
+      const candidates = await gemini.expandNode(note, nodeId, {
+        userProfile: userProfile || undefined,
+      });
+      setExpansion({ ...pending, status: "ready", candidates });
+    } catch (e: any) {
+      console.error(e);
+      setExpansion({
+        ...pending,
+        status: "failed",
+        candidates: [],
+        error: e?.message || "Couldn't get suggestions - please try again.",
+      });
     }
   };
 
+  // Accepted candidates merge as one undoable edit; rejected ones are dropped
+  const resolveCandidates = (ids: string[], accept: boolean) => {
+    if (!expansion) return;
+    const chosen = expansion.candidates.filter((c) => ids.includes(c.id));
+    if (accept && chosen.length > 0) editGraph(mergeCandidates(chosen));
+
+    const remaining = expansion.candidates.filter((c) => !ids.includes(c.id));
+    setExpansion(
+      remaining.length > 0 ? { ...expansion, candidates: remaining } : null
+    );
+  };
+
+  // Open another note at the node for the same concept
+  const openConceptNote = (noteId: string) => {
+    const note = library.find((n) => n.id === noteId);
+    if (!note || !selectedNode) return;
+    const node =
+      note.graphData.nodes.find(
+        (n) => conceptKey(n) === conceptKey(selectedNode)
+      ) || note.graphData.nodes.find((n) => sameConcept(n, selectedNode));
+    setActiveNoteId(note.id);
+    setSelectedNode(node || null);
+  };
+
+  // From a concept in the library network to one guide that covers it
+  const openLibraryGuide = (noteId: string, nodeId: string) => {
+    const note = library.find((n) => n.id === noteId);
+    if (!note) return;
+    setActiveNoteId(note.id);
+    setActiveNav("dashboard");
+    setActiveTab("guide");
+    setSelectedNode(note.graphData.nodes.find((n) => n.id === nodeId) || null);
+  };
+
+  // Verification report verdicts - one review per claim, null clears it
+  const reviewClaim = (claim: GuideClaim, verdict: ClaimVerdict | null) => {
+    setLibrary((prev) =>
+      prev.map((n) => {
+        if (n.id !== activeNoteId) return n;
+        const others = (n.claimReviews || []).filter(
+          (r) => r.claimId !== claim.id
+        );
+        const claimReviews = verdict
+          ? [
+              ...others,
+              {
+                ...verdict,
+                claimId: claim.id,
+                text: claim.text,
+                reviewedAt: Date.now(),
+              },
+            ]
+          : others;
+        return {
+          ...n,
+          claimReviews: claimReviews.length > 0 ? claimReviews : undefined,
+        };
+      })
+    );
+  };
+
   // ===============================
   // TEXT SELECTION HANDLER (Chat Integration)
   // ===============================
@@ -715,6 +1851,17 @@ const App: React.FC = () => {
     setSelectedText(null);
   }, []);
 
+  // "Explain this causal chain" from the graph's path finder: the chat lives
+  // beside the guide, so switch there and ask the tutor
+  const handleExplainPath = useCallback((prompt: string) => {
+    setSelectedText(null);
+    setChatPrompt(prompt);
+    setActiveTab("guide");
+    setIsChatOpen(true);
+  }, []);
+
+  const handlePromptSent = useCallback(() => setChatPrompt(null), []);
+
   // Toggle chat panel
   const handleToggleChat = useCallback(() => {
     setIsChatOpen((prev) => !prev);
@@ -815,6 +1962,10 @@ const App: React.FC = () => {
           stage={thinkingStage}
           currentThought={currentThought}
           markdownProgress={markdownProgress}
+          validationReport={validationReport}
+          chunkProgress={chunkProgress}
+          onCancel={cancelGeneration}
+          isCancelling={isCancelling}
         />
 
         {/* Profile Editor Modal */}
@@ -823,6 +1974,9 @@ const App: React.FC = () => {
             profile={userProfile}
             onSave={handleProfileSave}
             onClose={() => setShowProfileEditor(false)}
+            noteTitles={Object.fromEntries(
+              library.map((note) => [note.id, note.title])
+            )}
           />
         )}
 
@@ -835,6 +1989,44 @@ const App: React.FC = () => {
           />
         )}
 
+        {/* Generation Details */}
+        {activeNote && isDetailsOpen && (
+          <GenerationDetailsModal
+            note={activeNote}
+            onClose={() => setIsDetailsOpen(false)}
+          />
+        )}
+
+        {/* Verification Report */}
+        {activeNote && isVerificationOpen && (
+          <VerificationReportModal
+            note={activeNote}
+            onReview={reviewClaim}
+            onClose={() => setIsVerificationOpen(false)}
+          />
+        )}
+
+        {/* Add Sources Preview */}
+        {sourceMerge && (
+          <SourceMergeModal
+            preview={sourceMerge.preview}
+            fileNames={sourceMerge.files.map((f) => f.file.name)}
+            isSaving={isSavingMerge}
+            onAccept={acceptSourceMerge}
+            onDiscard={() => setSourceMerge(null)}
+          />
+        )}
+
+        {/* PHI Pre-flight Review */}
+        {phiReview && (
+          <PhiReviewModal
+            scans={phiReview.scans}
+            isApplying={isApplyingPhiReview}
+            onContinue={continuePhiReview}
+            onCancel={() => setPhiReview(null)}
+          />
+        )}
+
         {/* Retry Modal for Empty Content Error */}
         {showRetryModal && (
           <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-black/80 backdrop-blur-xl animate-fadeIn">
@@ -918,16 +2110,23 @@ const App: React.FC = () => {
               <div className="flex gap-4">
                 <button
                   onClick={() => {
+                    // Keep a checkpointed draft so it can be resumed later
+                    const hasDraft = library.some(
+                      (n) => n.id === activeNoteId && n.draft
+                    );
                     setShowRetryModal(false);
                     setRetryCountdown(0);
                     setStatus(ProcessingStatus.IDLE);
-                    setLibrary((prev) =>
-                      prev.filter((n) => n.id !== activeNoteId)
-                    );
+                    if (!hasDraft) {
+                      setLibrary((prev) =>
+                        prev.filter((n) => n.id !== activeNoteId)
+                      );
+                    }
                     setActiveNoteId(null);
                     setStagingFiles([]);
+                    setStagingRedactionLog([]);
                     setTopicName("");
-                    setActiveNav("dashboard");
+                    setActiveNav(hasDraft ? "library" : "dashboard");
                   }}
                   className="flex-1 px-6 py-4 rounded-xl bg-white/[0.03] border border-white/[0.08] text-gray-200 font-medium hover:bg-white/[0.06] hover:border-white/[0.15] hover:text-serum-white transition-all duration-300 flex items-center justify-center gap-2 group"
                 >
@@ -941,6 +2140,9 @@ const App: React.FC = () => {
                 <button
                   onClick={async () => {
                     if (retryCountdown > 0) return;
+                    const draftNote = library.find(
+                      (n) => n.id === activeNoteId && n.draft
+                    );
                     setRetryCountdown(60);
                     const interval = setInterval(() => {
                       setRetryCountdown((prev) => {
@@ -949,7 +2151,11 @@ const App: React.FC = () => {
                           setShowRetryModal(false);
                           setStatus(ProcessingStatus.BUILDING_GRAPH);
                           setIsThinking(true);
-                          startDeepDiveStreaming().catch((e) => {
+                          // Resume from the checkpoint instead of paying for Phase 1 again
+                          (draftNote
+                            ? resumeGeneration(draftNote)
+                            : startDeepDiveStreaming()
+                          ).catch((e) => {
                             console.error("Auto-retry failed:", e);
                             setShowRetryModal(true);
                             setRetryError(
@@ -1091,7 +2297,10 @@ const App: React.FC = () => {
               {activeNote && (
                 <>
                   <span className="h-4 w-px bg-white/10" />
-                  <span className="text-sm font-serif italic text-vital-cyan/80 truncate max-w-[220px]">
+                  <span
+                    dir="auto"
+                    className="text-sm font-serif italic text-vital-cyan/80 truncate max-w-[220px]"
+                  >
                     {activeNote.title}
                   </span>
                 </>
@@ -1220,6 +2429,30 @@ const App: React.FC = () => {
                         onChange={(e) => setTopicName(e.target.value)}
                         className="w-full bg-transparent border-b border-white/10 py-2 font-serif text-2xl lg:text-3xl text-serum-white/95 placeholder-gray-400 focus:outline-none focus:border-vital-cyan transition-colors"
                       />
+                      <label className="mt-4 flex items-center gap-2 text-xs text-gray-400">
+                        <Languages size={14} className="text-vital-cyan/70" />
+                        <select
+                          value={noteLanguage}
+                          onChange={(e) => setNoteLanguage(e.target.value)}
+                          className="bg-transparent border-b border-white/10 py-1 text-gray-200 focus:outline-none focus:border-vital-cyan transition-colors"
+                        >
+                          <option value="" className="bg-bio-deep">
+                            {`Profile language (${
+                              resolveOutputLanguage(userProfile || undefined)
+                                .label
+                            })`}
+                          </option>
+                          {OUTPUT_LANGUAGES.map((language) => (
+                            <option
+                              key={language.code}
+                              value={language.code}
+                              className="bg-bio-deep"
+                            >
+                              {`${language.label} · ${language.nativeLabel}`}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
                     </div>
 
                     {/* Step 02: Source Info */}
@@ -1256,7 +2489,7 @@ const App: React.FC = () => {
                             AI Model
                           </p>
                           <p className="font-mono text-xs text-vital-cyan/85">
-                            Gemini 2.5 Flash
+                            {modelLabel}
                           </p>
                         </div>
                       </div>
@@ -1429,7 +2662,7 @@ const App: React.FC = () => {
 
                     {/* Synthesize Button - Enhanced */}
                     <button
-                      onClick={startDeepDiveStreaming}
+                      onClick={() => startDeepDiveStreaming()}
                       disabled={stagingFiles.length === 0}
                       className={`w-full mt-6 py-5 rounded-2xl font-mono font-bold tracking-[0.15em] uppercase text-sm flex items-center justify-center gap-3 transition-all duration-500 ${
                         stagingFiles.length > 0
@@ -1446,12 +2679,23 @@ const App: React.FC = () => {
                         <span>Add Files to Begin</span>
                       )}
                     </button>
+
+                    {/* Queue instead of generating now */}
+                    {stagingFiles.length > 0 && (
+                      <button
+                        onClick={() => enqueueStagedTopic()}
+                        className="w-full mt-3 py-3 rounded-2xl font-mono text-xs tracking-[0.15em] uppercase flex items-center justify-center gap-2 text-gray-400 border border-white/[0.06] hover:text-vital-cyan hover:border-vital-cyan/30 hover:bg-vital-cyan/5 transition-all"
+                      >
+                        <ListPlus size={15} />
+                        Add to Queue
+                      </button>
+                    )}
                   </div>
                 </div>
 
                 {/* Footer Meta */}
                 <footer className="mt-12 lg:mt-10 pt-8 border-t border-white/[0.04] flex justify-between text-[9px] font-mono text-gray-500 tracking-[0.15em] uppercase">
-                  <div>AI Model: Gemini 2.5 Flash</div>
+                  <div>AI Model: {modelLabel}</div>
                   <div>
                     Status:{" "}
                     {stagingFiles.length > 0
@@ -1481,16 +2725,66 @@ const App: React.FC = () => {
                       Study Archive
                     </span>
                   </div>
-                  <h2 className="font-serif text-4xl lg:text-5xl text-serum-white italic">
-                    Your Study Library
-                  </h2>
+                  <div className="flex items-end justify-between gap-6">
+                    <h2 className="font-serif text-4xl lg:text-5xl text-serum-white italic">
+                      Your Study Library
+                    </h2>
+                    {/* Guides as cards, or merged into one network */}
+                    <div className="flex rounded-xl border border-white/[0.06] overflow-hidden shrink-0">
+                      {(["guides", "network"] as const).map((view) => (
+                        <button
+                          key={view}
+                          onClick={() => setLibraryView(view)}
+                          className={`flex items-center gap-2 px-4 py-2 text-xs font-medium transition-colors ${
+                            libraryView === view
+                              ? "bg-vital-cyan/10 text-vital-cyan"
+                              : "text-gray-500 hover:text-serum-white"
+                          }`}
+                        >
+                          {view === "guides" ? (
+                            <LayoutGrid size={14} />
+                          ) : (
+                            <Network size={14} />
+                          )}
+                          {view === "guides" ? "Guides" : "Network"}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                   <p className="text-gray-500 mt-3 font-sans text-sm">
                     {library.length} study guides • Click to explore
+                    {queueCounts.running + queueCounts.queued > 0 &&
+                      ` • ${queueCounts.running} generating, ${queueCounts.queued} queued`}
                   </p>
+
+                  {queuePausedReason && (
+                    <div className="mt-6 p-4 rounded-xl bg-synapse-amber/10 border border-synapse-amber/20 flex items-center gap-3 max-w-2xl">
+                      <AlertTriangle
+                        size={16}
+                        className="text-synapse-amber shrink-0"
+                      />
+                      <p className="flex-1 text-xs text-synapse-amber/90">
+                        Queue paused: {queuePausedReason}
+                      </p>
+                      <button
+                        onClick={() => setQueuePausedReason(null)}
+                        className="px-3 py-1.5 rounded-lg text-xs font-medium text-synapse-amber hover:bg-synapse-amber/15 transition-colors"
+                      >
+                        Resume queue
+                      </button>
+                    </div>
+                  )}
                 </div>
 
-                {/* Library Grid */}
-                {library.length > 0 ? (
+                {/* Library Network / Grid */}
+                {libraryView === "network" && libraryGraph ? (
+                  <div className="animate-[fadeInUp_0.6s_ease-out_0.1s_both]">
+                    <LibraryGraphView
+                      graph={libraryGraph}
+                      onOpenGuide={openLibraryGuide}
+                    />
+                  </div>
+                ) : library.length > 0 ? (
                   <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 animate-[fadeInUp_0.6s_ease-out_0.1s_both]">
                     {library.map((note, index) => (
                       <div
@@ -1541,7 +2835,75 @@ const App: React.FC = () => {
                                 {note.graphData.nodes.length} nodes
                               </span>
                             </div>
+                            {note.queue && (
+                              <span
+                                className={`flex items-center gap-1.5 text-[10px] font-mono uppercase tracking-wider ${
+                                  note.queue.status === "failed"
+                                    ? "text-tissue-rose"
+                                    : note.queue.status === "queued"
+                                    ? "text-gray-400"
+                                    : "text-vital-cyan"
+                                }`}
+                                title={note.queue.error}
+                              >
+                                {note.queue.status === "queued" ? (
+                                  <Clock size={11} />
+                                ) : note.queue.status === "failed" ? (
+                                  <AlertTriangle size={11} />
+                                ) : (
+                                  <Loader2 size={11} className="animate-spin" />
+                                )}
+                                {QUEUE_STATUS_LABELS[note.queue.status]}
+                              </span>
+                            )}
+                            {note.draft && !note.queue && (
+                              <span
+                                className="text-[10px] font-mono uppercase tracking-wider text-synapse-amber/80"
+                                title={note.draft.error}
+                              >
+                                Draft ·{" "}
+                                {note.draft.lastCompleteHeading
+                                  ? `after "${note.draft.lastCompleteHeading}"`
+                                  : "graph ready"}
+                              </span>
+                            )}
                           </div>
+
+                          {/* Retry a failed queue run */}
+                          {note.queue?.status === "failed" && (
+                            <>
+                              <p className="mt-4 text-[11px] text-tissue-rose/80 line-clamp-2">
+                                {note.queue.error}
+                              </p>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  retryQueuedNote(note.id);
+                                }}
+                                className="mt-3 w-full px-4 py-2.5 rounded-xl bg-tissue-rose/10 border border-tissue-rose/20 text-tissue-rose text-xs font-medium hover:bg-tissue-rose/20 transition-colors flex items-center justify-center gap-2"
+                              >
+                                <RotateCcw size={13} />
+                                Retry
+                                {note.queue.attempts > 1 &&
+                                  ` (attempt ${note.queue.attempts + 1})`}
+                              </button>
+                            </>
+                          )}
+
+                          {/* Resume interrupted generation */}
+                          {note.draft && !note.queue && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                resumeGeneration(note);
+                              }}
+                              disabled={isThinking}
+                              className="mt-4 w-full px-4 py-2.5 rounded-xl bg-synapse-amber/10 border border-synapse-amber/20 text-synapse-amber text-xs font-medium hover:bg-synapse-amber/20 transition-colors flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                              <RotateCcw size={13} />
+                              Resume generation
+                            </button>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -1620,6 +2982,58 @@ const App: React.FC = () => {
                           )}
                         </button>
 
+                        {/* Add Sources Button */}
+                        <input
+                          ref={addSourcesInputRef}
+                          type="file"
+                          multiple
+                          className="hidden"
+                          onChange={handleAddSources}
+                          accept=".pdf,.txt,.png,.jpg,.jpeg,.heic,.heif,.webp,.aac,.flac,.mp3,.m4a,.mpeg,.mpga,.mp4,.ogg,.pcm,.wav,.webm,.flv,.mov,.mpg,.mp4,.webm,.wmv,.3gpp"
+                        />
+                        <button
+                          onClick={() => addSourcesInputRef.current?.click()}
+                          disabled={isThinking || !!activeNote.draft}
+                          className="px-4 py-2 bg-clinical-teal/10 hover:bg-clinical-teal/15 border border-clinical-teal/20 rounded-xl text-clinical-teal text-[10px] font-sans font-semibold uppercase tracking-[0.1em] transition-all flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+                          title="Add lecture files to this guide"
+                        >
+                          <FilePlus2 size={12} />
+                          <span className="hidden md:block">Add sources</span>
+                        </button>
+
+                        {/* Verification Report Button */}
+                        <button
+                          onClick={() => setIsVerificationOpen(true)}
+                          disabled={!!activeNote.draft}
+                          className="p-2 rounded-xl border border-white/[0.06] text-gray-500 hover:text-serum-white hover:border-clinical-teal/30 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                          title="Verification report"
+                        >
+                          <ListChecks size={14} />
+                        </button>
+
+                        {/* Terminology Mapping Button */}
+                        <button
+                          onClick={mapTerminology}
+                          disabled={!!activeNote.draft}
+                          className="p-2 rounded-xl border border-white/[0.06] text-gray-500 hover:text-serum-white hover:border-clinical-teal/30 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                          title={
+                            activeNote.graphData.nodes.some((n) => n.codes)
+                              ? "Re-map nodes to standard codes"
+                              : "Map nodes to standard codes (ICD-10, ATC, anatomy)"
+                          }
+                        >
+                          <BookMarked size={14} />
+                        </button>
+
+                        {/* Generation Details Button */}
+                        <button
+                          onClick={() => setIsDetailsOpen(true)}
+                          className="p-2 rounded-xl border border-white/[0.06] text-gray-500 hover:text-serum-white hover:border-vital-cyan/30 transition-all"
+                          title="Generation details"
+                        >
+                          <Info size={14} />
+                        </button>
+
                         {/* Export Button */}
                         <button
                           onClick={() => setIsExportModalOpen(true)}
@@ -1652,7 +3066,11 @@ const App: React.FC = () => {
                           {/* Atmospheric Background - brighter glow */}
                           <div className="absolute top-0 -right-1/4 w-[500px] h-[500px] bg-vital-cyan/[0.025] rounded-full blur-[120px] pointer-events-none z-0" />
                           <div className="absolute bottom-1/3 -left-1/4 w-[400px] h-[400px] bg-neural-purple/[0.015] rounded-full blur-[100px] pointer-events-none z-0" />
-                          <div className="relative z-10">
+                          <div
+                            className="relative z-10"
+                            lang={activeLanguage.code}
+                            dir={activeLanguage.rtl ? "rtl" : "ltr"}
+                          >
                             {showEli5 && activeNote.eli5Analogy && (
                               <div className="mb-10 p-7 bg-gradient-to-br from-neural-purple/10 to-transparent border border-neural-purple/20 rounded-2xl">
                                 <h3 className="text-neural-purple font-sans font-semibold mb-3 text-[10px] uppercase tracking-[0.15em]">
@@ -1673,9 +3091,71 @@ const App: React.FC = () => {
                                   h1: ({ node, children, ...props }) => (
                                     <h1 {...props}>{children}</h1>
                                   ),
-                                  h2: ({ node, children, ...props }) => (
-                                    <h2 {...props}>{children}</h2>
-                                  ),
+                                  h2: ({ node, children, ...props }) => {
+                                    // Raw heading text from the source offsets - the
+                                    // rendered children may contain smart links
+                                    const start = node?.position?.start.offset;
+                                    const end = node?.position?.end.offset;
+                                    const heading =
+                                      start !== undefined && end !== undefined
+                                        ? guideMarkdown
+                                            .slice(start, end)
+                                            .replace(/^##\s+/, "")
+                                            .trim()
+                                        : "";
+                                    // Which '## ' section this is - headings
+                                    // can read alike once normalised
+                                    const position = [
+                                      ...guideMarkdown
+                                        .slice(0, start)
+                                        .matchAll(/^##\s+(.+)$/gm),
+                                    ].length;
+
+                                    if (!heading || activeNote.draft) {
+                                      return <h2 {...props}>{children}</h2>;
+                                    }
+
+                                    return (
+                                      <h2 {...props} className="group">
+                                        {children}
+                                        <SectionActions
+                                          isBusy={
+                                            sectionJob?.noteId ===
+                                              activeNote.id &&
+                                            sectionJob.heading === heading &&
+                                            sectionJob.position === position
+                                          }
+                                          isDisabled={!!sectionJob || isThinking}
+                                          canUndo={
+                                            !!activeNote.sectionHistory?.some(
+                                              (r) =>
+                                                isRevisionOf(
+                                                  r,
+                                                  heading,
+                                                  position
+                                                )
+                                            )
+                                          }
+                                          currentLevel={userProfile?.level}
+                                          onAction={(action, level) =>
+                                            runSectionAction(
+                                              heading,
+                                              position,
+                                              action,
+                                              level
+                                            )
+                                          }
+                                          onUndo={() =>
+                                            undoSectionAction(
+                                              heading,
+                                              position
+                                            )
+                                          }
+                                          onCancel={cancelSectionAction}
+                                        />
+                                      </h2>
+                                    );
+                                  },
                                   h3: ({ node, children, ...props }) => (
                                     <h3 {...props}>{children}</h3>
                                   ),
@@ -1735,6 +3215,84 @@ const App: React.FC = () => {
                                         </span>
                                       );
                                     }
+                                    // Numbered marker tied to a Verified Source
+                                    if (href.startsWith("cite:")) {
+                                      const source =
+                                        activeNote.sources[
+                                          Number(href.slice(5)) - 1
+                                        ];
+                                      return (
+                                        <sup className="mx-0.5">
+                                          <a
+                                            href={source?.uri}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            title={source?.title}
+                                            className="text-[0.7em] font-sans font-semibold text-clinical-teal/80 hover:text-clinical-teal"
+                                          >
+                                            [{props.children}]
+                                          </a>
+                                        </sup>
+                                      );
+                                    }
+                                    // Verification report status after a claim
+                                    if (href.startsWith("claim:")) {
+                                      const review =
+                                        activeNote.claimReviews?.find(
+                                          (r) => r.claimId === href.slice(6)
+                                        );
+                                      return (
+                                        <button
+                                          onClick={() =>
+                                            setIsVerificationOpen(true)
+                                          }
+                                          title={review?.correction}
+                                          className={`mx-1 px-1.5 py-0.5 rounded border text-[0.65em] font-sans font-semibold uppercase tracking-wide align-middle ${
+                                            review?.status === "verified"
+                                              ? "border-clinical-teal/30 text-clinical-teal"
+                                              : review?.status === "disputed"
+                                              ? "border-tissue-rose/30 text-tissue-rose"
+                                              : "border-synapse-amber/30 text-synapse-amber"
+                                          }`}
+                                        >
+                                          {props.children}
+                                        </button>
+                                      );
+                                    }
+                                    // Numeric check: opens the topic map
+                                    // node the other value was written on
+                                    if (href.startsWith("numeric:")) {
+                                      const finding = numericFindings.find(
+                                        (f) => f.id === href.slice(8)
+                                      );
+                                      const origin = finding?.claims.find(
+                                        (c) => c.origin.source === "graph"
+                                      )?.origin;
+                                      const targetNode =
+                                        origin?.source === "graph"
+                                          ? activeNote.graphData.nodes.find(
+                                              (n) => n.id === origin.nodeId
+                                            )
+                                          : undefined;
+                                      return (
+                                        <button
+                                          onClick={() => {
+                                            if (!targetNode) return;
+                                            setSelectedNode(targetNode);
+                                            setActiveTab("graph");
+                                          }}
+                                          title={finding?.message}
+                                          className={`mx-1 inline-flex items-center gap-1 px-1.5 py-0.5 rounded border border-tissue-rose/30 bg-tissue-rose/10 text-tissue-rose text-[0.65em] font-sans font-semibold uppercase tracking-wide align-middle ${
+                                            targetNode
+                                              ? "hover:bg-tissue-rose/20"
+                                              : "cursor-help"
+                                          }`}
+                                        >
+                                          <AlertTriangle size={9} />
+                                          {props.children}
+                                        </button>
+                                      );
+                                    }
                                     if (href.startsWith("http")) {
                                       return (
                                         <a
@@ -1759,7 +3317,7 @@ const App: React.FC = () => {
                                   },
                                 }}
                               >
-                                {activeNote.markdownContent}
+                                {guideMarkdown}
                               </ReactMarkdown>
                             </div>
                           </div>
@@ -1943,7 +3501,7 @@ const App: React.FC = () => {
                                       className="flex flex-col p-4 bg-white/[0.02] border border-white/[0.04] rounded-xl hover:bg-white/[0.04] hover:border-vital-cyan/20 transition-all group"
                                     >
                                       <span className="text-xs font-sans font-medium text-gray-200 truncate group-hover:text-vital-cyan transition-colors">
-                                        {source.title}
+                                        {`${idx + 1}. ${source.title}`}
                                       </span>
                                       <span className="text-[10px] text-gray-500 truncate font-mono mt-1">
                                         {new URL(source.uri).hostname}
@@ -2010,7 +3568,25 @@ const App: React.FC = () => {
                             graphNodes={activeNote.graphData.nodes}
                             noteTitle={activeNote.title}
                             noteId={activeNote.id}
+                            outputLanguage={activeNote.outputLanguage}
                             initialSelection={selectedText}
+                            initialPrompt={chatPrompt}
+                            onPromptSent={handlePromptSent}
+                            onRedaction={(entries) =>
+                              setLibrary((prev) =>
+                                prev.map((n) =>
+                                  n.id === activeNote.id
+                                    ? {
+                                        ...n,
+                                        redactionLog: [
+                                          ...(n.redactionLog || []),
+                                          ...entries,
+                                        ],
+                                      }
+                                    : n
+                                )
+                              )
+                            }
                             onClose={() => {
                               setIsChatOpen(false);
                               setSelectedText(null);
@@ -2078,6 +3654,17 @@ const App: React.FC = () => {
                         onNodeSelect={(node) => setSelectedNode(node)}
                         selectedNodeId={selectedNode?.id}
                         inspectorOpen={selectedNode !== null}
+                        onEdit={activeNote.draft ? undefined : editGraph}
+                        onUndo={undoGraphEdit}
+                        preview={expansionPreview}
+                        libraryGraph={libraryGraph}
+                        noteId={activeNote.id}
+                        onExplainPath={handleExplainPath}
+                        undoLabel={
+                          activeNote.graphHistory?.[
+                            activeNote.graphHistory.length - 1
+                          ]?.summary
+                        }
                         className="w-full h-full"
                       />
 
@@ -2098,6 +3685,17 @@ const App: React.FC = () => {
                       <NodeInspector
                         node={selectedNode}
                         graphData={activeNote.graphData}
+                        numericFindings={numericFindings}
+                        conceptNotes={conceptNotes}
+                        onOpenNote={openConceptNote}
+                        onEdit={activeNote.draft ? undefined : editGraph}
+                        expansion={
+                          expansion?.noteId === activeNote.id
+                            ? expansion
+                            : undefined
+                        }
+                        onExpand={expandNode}
+                        onResolveCandidates={resolveCandidates}
                         onClose={() => setSelectedNode(null)}
                         onNodeClick={(nodeId) => {
                           const node = activeNote.graphData.nodes.find(
@@ -34,6 +34,8 @@ import {
   Info,
   ChevronUp,
   ChevronDown,
+  Square,
+  ShieldAlert,
 } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
@@ -44,8 +46,19 @@ import {
   QuizQuestion,
   QuizTopic,
 } from "../services/geminiChatService";
+import { isAbortError } from "../services/llmProvider";
+import { checkChatReply } from "../services/promptSafety";
+import { resolveOutputLanguage } from "../services/outputLanguage";
+import {
+  PHI_CATEGORY_LABELS,
+  assignPlaceholders,
+  redactText,
+  scanText,
+  type PhiFinding,
+  type PhiScan,
+} from "../services/phiScanner";
 import { ChatRepository } from "../src/lib";
-import { UserProfile, KnowledgeNode } from "../types";
+import { UserProfile, KnowledgeNode, RedactionLogEntry } from "../types";
 
 // ═══════════════════════════════════════════════════════════
 // TYPES & CONSTANTS
@@ -57,9 +70,13 @@ interface Props {
   graphNodes: KnowledgeNode[];
   noteTitle: string;
   noteId?: string;
+  outputLanguage?: string; // The note's language override, if any
   initialSelection?: string | null;
+  initialPrompt?: string | null; // Sent as a tutor question, e.g. a graph path
   onClose: () => void;
   onClearSelection?: () => void;
+  onPromptSent?: () => void; // initialPrompt was taken up; clear it
+  onRedaction?: (entries: RedactionLogEntry[]) => void; // PHI review decisions
 }
 
 // Mode descriptions for tooltips - memoized outside component
@@ -927,6 +944,22 @@ const MessageBubble: React.FC<{
             </div>
           )}
 
+          {message.isStopped && (
+            <p className="mt-2 text-[10px] font-mono uppercase tracking-wider text-zinc-500">
+              Stopped
+            </p>
+          )}
+
+          {message.safetyWarning && (
+            <p
+              className="mt-2 flex items-center gap-1.5 text-[10px] text-amber-400/80"
+              title={message.safetyWarning.excerpt}
+            >
+              <ShieldAlert size={11} />
+              {`${message.safetyWarning.message} - the study material may contain instructions aimed at the tutor.`}
+            </p>
+          )}
+
           {/* Copy */}
           {!isUser && message.text && (
             <button
@@ -1357,21 +1390,35 @@ const QuickActions: React.FC<{
 
 const ChatInterface: React.FC<Props> = ({
   contextMarkdown,
-  userProfile,
+  userProfile: profile,
   graphNodes,
   noteTitle,
   noteId,
+  outputLanguage,
   initialSelection,
+  initialPrompt,
   onClose,
   onClearSelection,
+  onPromptSent,
+  onRedaction,
 }) => {
   const effectiveNoteId =
     noteId || noteTitle?.toLowerCase().replace(/\s+/g, "-") || "default";
 
+  // Replies follow the note's language when it overrides the profile's
+  const userProfile = useMemo(
+    () => (outputLanguage ? { ...profile, outputLanguage } : profile),
+    [profile, outputLanguage]
+  );
+  const language = resolveOutputLanguage(userProfile);
+  const textDirection = language.rtl ? "rtl" : "ltr";
+
   // ═══ STATE ═══
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  // Abort handle for the reply in flight (Stop button, unmount)
+  const streamAbortRef = useRef<AbortController | null>(null);
   // Track if a clinical simulation is currently active
   const [simulationActive, setSimulationActive] = useState(false);
   // If user performed a reset, allow starting a new simulation even if previously active
@@ -1379,6 +1426,9 @@ const ChatInterface: React.FC<Props> = ({
     useState(false);
   // Banner text when navigation is blocked due to active simulation
   const [blockedNotice, setBlockedNotice] = useState<string | null>(null);
+  // Likely patient identifiers in the typed message, shown before sending
+  const [phiFindings, setPhiFindings] = useState<PhiFinding[] | null>(null);
+  const phiClearedInputRef = useRef<string | null>(null); // "Send as is" for this text
   const [mode, setMode] = useState<ChatMode>("tutor");
   const [quizTopics, setQuizTopics] = useState<QuizTopic[]>([]);
   const [selectedQuizTopic, setSelectedQuizTopic] = useState("full-guide");
@@ -1429,9 +1479,42 @@ const ChatInterface: React.FC<Props> = ({
     []
   );
 
+  // ═══ CANCELLATION ═══
+  // Each request gets a fresh signal; Stop (or leaving the chat) aborts it
+  const beginStream = useCallback((): AbortSignal => {
+    streamAbortRef.current?.abort();
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  const stopStreaming = useCallback(() => {
+    streamAbortRef.current?.abort();
+  }, []);
+
+  // Keep the partial reply, flagged, instead of a stuck thinking indicator
+  const markStopped = useCallback((messageId: string) => {
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.id === messageId
+          ? {
+              ...m,
+              isThinking: false,
+              isStreaming: false,
+              isStopped: true,
+              text: m.text || "_Stopped before a reply arrived._",
+            }
+          : m
+      )
+    );
+  }, []);
+
+  useEffect(() => () => streamAbortRef.current?.abort(), []);
+
   // ═══ PERSISTENCE (debounced to prevent lag) ═══
   // Track if initial load is done
   const initialLoadDoneRef = useRef(false);
+  const [chatLoaded, setChatLoaded] = useState(false);
 
   // Load saved chat from IndexedDB on mount
   useEffect(() => {
@@ -1459,6 +1542,7 @@ const ChatInterface: React.FC<Props> = ({
         setMessages([]);
       } finally {
         initialLoadDoneRef.current = true;
+        setChatLoaded(true);
       }
     };
     loadChat();
@@ -1564,6 +1648,10 @@ const ChatInterface: React.FC<Props> = ({
       text: "",
       timestamp: Date.now(),
       isThinking: true,
+      promptVersions: chatService.promptVersionsFor(
+        "clinical-simulation",
+        userProfile
+      ),
       thinkingText: `Analyzing learner profile... Setting difficulty... Creating patient scenario...`,
     };
 
@@ -1591,18 +1679,27 @@ const ChatInterface: React.FC<Props> = ({
         (chunk) =>
           setMessages((prev) =>
             prev.map((m) => (m.id === thinkingId ? { ...m, text: chunk } : m))
-          )
+          ),
+        undefined,
+        beginStream(),
+        noteId
       )
       .then((response) => {
         setMessages((prev) =>
           prev.map((m) =>
             m.id === thinkingId
-              ? { ...m, text: response, isThinking: false }
+              ? {
+                  ...m,
+                  text: response,
+                  isThinking: false,
+                  safetyWarning: checkChatReply(response),
+                }
               : m
           )
         );
       })
       .catch((e) => {
+        if (isAbortError(e)) return markStopped(thinkingId);
         console.error("Clinical case generation error:", e);
         setMessages((prev) =>
           prev.map((m) =>
@@ -1651,6 +1748,10 @@ const ChatInterface: React.FC<Props> = ({
       text: "",
       timestamp: Date.now(),
       isThinking: true,
+      promptVersions: chatService.promptVersionsFor(
+        "clinical-evaluation",
+        userProfile
+      ),
       thinkingText:
         "Analyzing decisions... Calculating score... Identifying gaps...",
     };
@@ -1678,17 +1779,27 @@ const ChatInterface: React.FC<Props> = ({
           setMessages((prev) =>
             prev.map((m) => (m.id === thinkingId ? { ...m, text: chunk } : m))
           ),
-        evalPrompt // Pass as custom system instruction override
+        evalPrompt, // Pass as custom system instruction override
+        beginStream(),
+        noteId
       );
 
       setMessages((prev) =>
         prev.map((m) =>
-          m.id === thinkingId ? { ...m, text: response, isThinking: false } : m
+          m.id === thinkingId
+            ? {
+                ...m,
+                text: response,
+                isThinking: false,
+                safetyWarning: checkChatReply(response),
+              }
+            : m
         )
       );
 
       setMode("tutor");
     } catch (e) {
+      if (isAbortError(e)) return markStopped(thinkingId);
       console.error("Clinical evaluation error:", e);
       setMessages((prev) =>
         prev.map((m) =>
@@ -1790,6 +1901,15 @@ const ChatInterface: React.FC<Props> = ({
   const handleSend = useCallback(async () => {
     if (!input.trim() || isLoading) return;
 
+    // PHI pre-flight: hold the message until identifiers are reviewed
+    if (phiClearedInputRef.current !== input) {
+      const findings = scanText(input);
+      if (findings.length > 0) {
+        setPhiFindings(findings);
+        return;
+      }
+    }
+
     // Build the full message with selection context if present
     let fullMessage = input;
     if (initialSelection) {
@@ -1816,6 +1936,10 @@ const ChatInterface: React.FC<Props> = ({
         text: "",
         timestamp: Date.now(),
         isThinking: true,
+        promptVersions: chatService.promptVersionsFor(
+          "quiz-feedback",
+          userProfile
+        ),
         thinkingText: "",
       };
 
@@ -1845,7 +1969,9 @@ const ChatInterface: React.FC<Props> = ({
           (chunk) =>
             setMessages((prev) =>
               prev.map((m) => (m.id === thinkingId ? { ...m, text: chunk } : m))
-            )
+            ),
+          beginStream(),
+          noteId
         );
 
         setMessages((prev) =>
@@ -1861,6 +1987,7 @@ const ChatInterface: React.FC<Props> = ({
           )
         );
       } catch (e) {
+        if (isAbortError(e)) return markStopped(thinkingId);
         console.error(e);
         setMessages((prev) =>
           prev.map((m) =>
@@ -1906,6 +2033,11 @@ const ChatInterface: React.FC<Props> = ({
       text: "",
       timestamp: Date.now(),
       isThinking: true,
+      promptVersions: chatService.promptVersionsFor(
+        "persona",
+        userProfile,
+        effectiveMode
+      ),
       thinkingText: "",
     };
 
@@ -1939,7 +2071,10 @@ const ChatInterface: React.FC<Props> = ({
         (chunk) =>
           setMessages((prev) =>
             prev.map((m) => (m.id === thinkingId ? { ...m, text: chunk } : m))
-          )
+          ),
+        undefined,
+        beginStream(),
+        noteId
       );
 
       // Try to parse quiz from response (works in quiz mode or when quiz is detected)
@@ -1955,11 +2090,13 @@ const ChatInterface: React.FC<Props> = ({
                 text: response,
                 isThinking: false,
                 quizData: quizData || undefined,
+                safetyWarning: checkChatReply(response),
               }
             : m
         )
       );
     } catch (e) {
+      if (isAbortError(e)) return markStopped(thinkingId);
       console.error(e);
       setMessages((prev) =>
         prev.map((m) =>
@@ -1998,6 +2135,51 @@ const ChatInterface: React.FC<Props> = ({
     lastQuizContext,
   ]);
 
+  // ═══ PROMPT FROM OUTSIDE (e.g. "Explain this causal chain") ═══
+  // Waits for the saved chat so the restore can't wipe it, then goes through
+  // handleSend like a typed message once the input holds it
+  const pendingPromptRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!initialPrompt || !chatLoaded) return;
+    pendingPromptRef.current = initialPrompt;
+    setMode("tutor");
+    setInput(initialPrompt);
+    onPromptSent?.();
+  }, [initialPrompt, chatLoaded, onPromptSent]);
+
+  useEffect(() => {
+    if (pendingPromptRef.current !== input || isLoading) return;
+    pendingPromptRef.current = null;
+    handleSend();
+  }, [input, isLoading, handleSend]);
+
+  // ═══ PHI REVIEW ═══
+  // Replace every finding with a placeholder, or send the text unchanged;
+  // either way the decision is logged on the note (without the values)
+  const resolvePhiFindings = (decision: "replace" | "keep") => {
+    if (!phiFindings) return;
+    const scan: PhiScan = {
+      source: "Chat",
+      text: input,
+      findings: phiFindings,
+    };
+    const { text, log } = redactText(
+      scan,
+      Object.fromEntries(phiFindings.map((f) => [f.id, decision])),
+      assignPlaceholders([scan])
+    );
+    onRedaction?.(log);
+    setPhiFindings(null);
+
+    if (decision === "replace") {
+      setInput(text);
+      inputRef.current?.focus();
+    } else {
+      phiClearedInputRef.current = input;
+      handleSend();
+    }
+  };
+
   // ═══ QUIZ HANDLERS ═══
   const handleQuizSelect = (messageId: string, answer: string) => {
     setMessages((prev) =>
@@ -2033,6 +2215,10 @@ const ChatInterface: React.FC<Props> = ({
       text: "",
       timestamp: Date.now(),
       isThinking: true,
+      promptVersions: chatService.promptVersionsFor(
+        "quiz-feedback",
+        userProfile
+      ),
       thinkingText: "",
     };
 
@@ -2058,7 +2244,9 @@ const ChatInterface: React.FC<Props> = ({
         (chunk) =>
           setMessages((prev) =>
             prev.map((m) => (m.id === thinkingId ? { ...m, text: chunk } : m))
-          )
+          ),
+        beginStream(),
+        noteId
       );
 
       // Finalize the thinking message
@@ -2075,6 +2263,7 @@ const ChatInterface: React.FC<Props> = ({
         )
       );
     } catch (e) {
+      if (isAbortError(e)) return markStopped(thinkingId);
       console.error(e);
       setMessages((prev) =>
         prev.map((m) =>
@@ -2113,6 +2302,7 @@ const ChatInterface: React.FC<Props> = ({
       text: "",
       timestamp: Date.now(),
       isThinking: true,
+      promptVersions: chatService.promptVersionsFor("idk", userProfile),
       thinkingText: "",
     };
 
@@ -2137,16 +2327,26 @@ const ChatInterface: React.FC<Props> = ({
         (chunk) =>
           setMessages((prev) =>
             prev.map((m) => (m.id === thinkingId ? { ...m, text: chunk } : m))
-          )
+          ),
+        beginStream(),
+        noteId
       );
 
       // Finalize the thinking message
       setMessages((prev) =>
         prev.map((m) =>
-          m.id === thinkingId ? { ...m, text: finalText, isThinking: false } : m
+          m.id === thinkingId
+            ? {
+                ...m,
+                text: finalText,
+                isThinking: false,
+                safetyWarning: checkChatReply(finalText),
+              }
+            : m
         )
       );
     } catch (e) {
+      if (isAbortError(e)) return markStopped(thinkingId);
       console.error(e);
       setMessages((prev) =>
         prev.map((m) =>
@@ -2287,6 +2487,11 @@ const ChatInterface: React.FC<Props> = ({
       text: "",
       timestamp: Date.now(),
       isThinking: true,
+      promptVersions: chatService.promptVersionsFor(
+        "persona",
+        userProfile,
+        "quiz"
+      ),
       thinkingText: "",
     };
 
@@ -2327,7 +2532,10 @@ const ChatInterface: React.FC<Props> = ({
               prev.map((m) => (m.id === thinkingId ? { ...m, text: chunk } : m))
             );
           }
-        }
+        },
+        undefined,
+        beginStream(),
+        noteId
       )
       .then((fullText) => {
         const quiz = chatService.parseQuizFromResponse(fullText);
@@ -2336,12 +2544,18 @@ const ChatInterface: React.FC<Props> = ({
             m.id === thinkingId
               ? quiz
                 ? { ...m, text: "", isThinking: false, quizData: quiz }
-                : { ...m, text: fullText, isThinking: false }
+                : {
+                    ...m,
+                    text: fullText,
+                    isThinking: false,
+                    safetyWarning: checkChatReply(fullText),
+                  }
               : m
           )
         );
       })
       .catch((error) => {
+        if (isAbortError(error)) return markStopped(thinkingId);
         console.error("Next quiz error:", error);
         setMessages((prev) =>
           prev.map((m) =>
@@ -2448,6 +2662,11 @@ const ChatInterface: React.FC<Props> = ({
         text: "",
         timestamp: Date.now(),
         isThinking: true,
+        promptVersions: chatService.promptVersionsFor(
+          "persona",
+          userProfile,
+          "quiz"
+        ),
         thinkingText: "",
       };
 
@@ -2475,7 +2694,10 @@ const ChatInterface: React.FC<Props> = ({
           (chunk) =>
             setMessages((prev) =>
               prev.map((m) => (m.id === thinkingId ? { ...m, text: chunk } : m))
-            )
+            ),
+          undefined,
+          beginStream(),
+          noteId
         )
         .then((response) => {
           const quizData = chatService.parseQuizFromResponse(response);
@@ -2487,12 +2709,14 @@ const ChatInterface: React.FC<Props> = ({
                     text: response,
                     isThinking: false,
                     quizData: quizData || undefined,
+                    safetyWarning: checkChatReply(response),
                   }
                 : m
             )
           );
         })
         .catch((e) => {
+          if (isAbortError(e)) return markStopped(thinkingId);
           console.error(e);
           setMessages((prev) =>
             prev.map((m) =>
@@ -2604,6 +2828,8 @@ const ChatInterface: React.FC<Props> = ({
       {/* ═══ MESSAGES ═══ */}
       <div
         ref={scrollRef}
+        dir={textDirection}
+        lang={language.code}
         className="flex-1 overflow-y-auto px-4 py-5 space-y-4 custom-scrollbar"
       >
         {/* Topic Panel for Quiz Mode - ALWAYS shows at bottom when in quiz mode */}
@@ -2869,14 +3095,52 @@ const ChatInterface: React.FC<Props> = ({
         </div>
       )}
 
+      {/* PHI notice: the message is held until the user decides */}
+      {phiFindings && (
+        <div className="px-4">
+          <div className="mx-auto max-w-3xl w-full px-4 py-3 bg-amber-900/10 border border-amber-700/20 text-amber-200 rounded-2xl space-y-2">
+            <div className="flex items-start gap-3">
+              <ShieldAlert
+                size={16}
+                className="mt-0.5 text-amber-300 shrink-0"
+              />
+              <div className="text-[13px] leading-snug">
+                Possible patient identifiers:{" "}
+                {phiFindings
+                  .map(
+                    (f) => `${PHI_CATEGORY_LABELS[f.category]} "${f.value}"`
+                  )
+                  .join(", ")}
+              </div>
+            </div>
+            <div className="flex items-center justify-end gap-2 text-[12px]">
+              <button
+                onClick={() => resolvePhiFindings("keep")}
+                className="px-3 py-1 rounded-lg text-amber-200/70 hover:text-amber-100 hover:bg-white/5 transition-colors"
+              >
+                Send as is
+              </button>
+              <button
+                onClick={() => resolvePhiFindings("replace")}
+                className="px-3 py-1 rounded-lg bg-amber-500/15 border border-amber-500/30 text-amber-200 hover:bg-amber-500/25 transition-colors"
+              >
+                Replace with placeholders
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="px-5 pb-5 pt-3 bg-gradient-to-t from-bio-void via-bio-void/95 to-transparent relative z-10">
         <div className="relative glass-slide border border-white/[0.06] rounded-2xl overflow-hidden focus-within:border-vital-cyan/30 focus-within:shadow-[0_0_30px_rgba(42,212,212,0.1)] transition-all duration-300">
           <textarea
             ref={inputRef}
+            dir={textDirection}
             value={input}
             onChange={(e) => {
               const newValue = e.target.value;
               setInput(newValue);
+              setPhiFindings(null);
               // Auto-resize: reset to default if empty, otherwise expand
               const target = e.target;
               if (!newValue.trim()) {
@@ -2892,18 +3156,24 @@ const ChatInterface: React.FC<Props> = ({
             className="w-full bg-transparent px-5 py-4 pr-16 text-[15px] font-sans text-serum-white placeholder:text-zinc-400 focus:outline-none resize-none custom-scrollbar leading-relaxed"
             style={{ minHeight: "56px", maxHeight: "160px" }}
           />
-          <button
-            onClick={handleSend}
-            disabled={!input.trim() || isLoading}
-            data-send-button
-            className="absolute right-3 bottom-3 p-3 bg-vital-cyan text-bio-void rounded-xl hover:bg-vital-cyan/90 disabled:opacity-20 disabled:cursor-not-allowed transition-all duration-300 shadow-[0_0_20px_rgba(42,212,212,0.3)] disabled:shadow-none"
-          >
-            {isLoading ? (
-              <Loader2 size={16} className="animate-spin" />
-            ) : (
+          {isLoading || isSubmittingQuiz ? (
+            <button
+              onClick={stopStreaming}
+              title="Stop generating"
+              className="absolute right-3 bottom-3 p-3 bg-zinc-800 text-zinc-200 rounded-xl border border-white/10 hover:bg-zinc-700 transition-all duration-300"
+            >
+              <Square size={16} className="fill-current" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!input.trim()}
+              data-send-button
+              className="absolute right-3 bottom-3 p-3 bg-vital-cyan text-bio-void rounded-xl hover:bg-vital-cyan/90 disabled:opacity-20 disabled:cursor-not-allowed transition-all duration-300 shadow-[0_0_20px_rgba(42,212,212,0.3)] disabled:shadow-none"
+            >
               <Send size={16} />
-            )}
-          </button>
+            </button>
+          )}
         </div>
 
         <p className="text-[11px] text-zinc-400 text-center mt-3 tracking-wide font-sans">
@@ -0,0 +1,273 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * SYNAPSE MED — GENERATION DETAILS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Read-only view of a note's provenance: the model and provider, prompt
+ * template versions, per-phase request settings, the learner profile it was
+ * personalised for and how long each phase took. Also lists the PHI review
+ * decisions made for its sources and chat, and any prompt-safety warnings.
+ */
+
+import React from "react";
+import {
+  X,
+  Info,
+  Cpu,
+  FileCode2,
+  Package,
+  User,
+  ShieldCheck,
+  ShieldAlert,
+} from "lucide-react";
+import {
+  AugmentedNote,
+  GenerationSettings,
+  LLMProviderType,
+  PhaseTiming,
+  SafetyWarning,
+} from "../types";
+import { PHI_CATEGORY_LABELS } from "../services/phiScanner";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPONENT PROPS
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface GenerationDetailsModalProps {
+  note: AugmentedNote;
+  onClose: () => void;
+}
+
+const PROVIDER_LABELS: Record<LLMProviderType, string> = {
+  gemini: "Google Gemini",
+  "openai-compatible": "OpenAI-compatible",
+  demo: "Demo (recorded)",
+};
+
+const WARNING_KIND_LABELS: Record<SafetyWarning["kind"], string> = {
+  "instruction-like-input": "Instruction-like text",
+  "schema-mismatch": "Unexpected shape",
+  "persona-drift": "Persona drift",
+};
+
+const formatDuration = (t?: PhaseTiming) => {
+  if (!t) return "—";
+  const seconds = Math.round((t.completedAt - t.startedAt) / 1000);
+  return seconds >= 60
+    ? `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+    : `${seconds}s`;
+};
+
+const formatSettings = (s: GenerationSettings) =>
+  [
+    s.model,
+    `temperature ${s.temperature}`,
+    s.thinkingBudget === undefined
+      ? "default thinking"
+      : s.thinkingBudget === 0
+      ? "thinking off"
+      : `thinking ${s.thinkingBudget} tokens`,
+    s.maxOutputTokens && `max ${s.maxOutputTokens} output tokens`,
+    s.grounding ? "search grounding" : "no grounding",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const GenerationDetailsModal: React.FC<GenerationDetailsModalProps> = ({
+  note,
+  onClose,
+}) => {
+  const provenance = note.provenance;
+
+  const rows = (items: [string, React.ReactNode][]) => (
+    <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] divide-y divide-white/[0.04]">
+      {items.map(([label, value]) => (
+        <div key={label} className="px-4 py-2.5 flex items-start gap-4 text-xs">
+          <span className="w-32 shrink-0 text-gray-500">{label}</span>
+          <span className="flex-1 text-gray-200">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  const heading = (icon: React.ReactNode, label: string) => (
+    <h3 className="flex items-center gap-2 text-[10px] font-semibold uppercase tracking-[0.15em] text-gray-500 mb-3">
+      {icon}
+      {label}
+    </h3>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-black/80 backdrop-blur-xl animate-fadeIn">
+      <div className="relative bg-gradient-to-b from-bio-deep to-bio-void border border-white/[0.06] rounded-3xl shadow-2xl w-full max-w-2xl transform animate-scaleIn overflow-hidden max-h-[90vh] flex flex-col">
+        {/* Atmospheric Glows */}
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-vital-cyan/10 rounded-full blur-[120px] pointer-events-none" />
+        <div className="absolute top-0 left-1/2 -translate-x-1/2 w-48 h-px bg-gradient-to-r from-transparent via-vital-cyan/50 to-transparent" />
+
+        {/* Header */}
+        <div className="relative px-8 pt-8 pb-6 border-b border-white/[0.04]">
+          <button
+            onClick={onClose}
+            className="absolute top-6 right-6 p-2 rounded-xl text-gray-500 hover:text-white hover:bg-white/5 transition-all"
+          >
+            <X size={20} />
+          </button>
+
+          <div className="flex items-center gap-4">
+            <div className="w-14 h-14 rounded-2xl bg-gradient-to-br from-vital-cyan/15 to-neural-purple/10 border border-vital-cyan/20 flex items-center justify-center">
+              <Info size={24} className="text-vital-cyan" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-2xl font-serif italic text-serum-white">
+                Generation Details
+              </h2>
+              <p className="text-sm text-gray-500 mt-1 font-sans truncate">
+                {note.title}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Scrollable Content */}
+        <div className="flex-1 overflow-y-auto px-8 py-6 custom-scrollbar space-y-6">
+          {!provenance ? (
+            <p className="text-sm text-gray-400 text-center py-4">
+              This note was generated before generation details were recorded.
+            </p>
+          ) : (
+            <>
+              <div>
+                {heading(<Cpu size={12} />, "Model")}
+                {rows([
+                  ["Provider", PROVIDER_LABELS[provenance.provider]],
+                  [
+                    "Model",
+                    <span className="font-mono">{provenance.model}</span>,
+                  ],
+                  [
+                    "Phase 1 · graph",
+                    `${formatDuration(provenance.phases.metadata)} (${formatSettings(provenance.settings.metadata)})`,
+                  ],
+                  [
+                    "Phase 2 · guide",
+                    `${formatDuration(provenance.phases.markdown)} (${formatSettings(provenance.settings.guide)})`,
+                  ],
+                  ["Continuations", String(provenance.continuationCount)],
+                  [
+                    "Completed",
+                    provenance.phases.markdown
+                      ? new Date(
+                          provenance.phases.markdown.completedAt
+                        ).toLocaleString()
+                      : "—",
+                  ],
+                ])}
+              </div>
+
+              <div>
+                {heading(<User size={12} />, "Personalised for")}
+                {rows([
+                  ["Discipline", provenance.profile.discipline || "—"],
+                  ["Level", provenance.profile.level || "—"],
+                  ["Teaching style", provenance.profile.teachingStyle || "—"],
+                  ["Exam goal", provenance.profile.examGoal || "—"],
+                ])}
+              </div>
+
+              <div>
+                {heading(<FileCode2 size={12} />, "Prompt templates")}
+                {provenance.promptVersions.length > 0 ? (
+                  <div className="flex flex-wrap gap-1.5">
+                    {provenance.promptVersions.map((tag) => (
+                      <span
+                        key={tag}
+                        className="px-2.5 py-1 rounded-lg text-[11px] font-mono bg-white/[0.03] border border-white/[0.06] text-gray-300"
+                      >
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500">
+                    No personalised templates (no learner profile was set).
+                  </p>
+                )}
+              </div>
+
+              <p className="flex items-start gap-2 text-[11px] text-gray-500">
+                <Package size={12} className="mt-0.5 shrink-0" />
+                Included as generation.json when the guide is exported.
+              </p>
+            </>
+          )}
+
+          {note.redactionLog && note.redactionLog.length > 0 && (
+            <div>
+              {heading(<ShieldCheck size={12} />, "Privacy review")}
+              <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] divide-y divide-white/[0.04]">
+                {note.redactionLog.map((entry, i) => (
+                  <div
+                    key={i}
+                    className="px-4 py-2.5 flex items-start gap-4 text-xs"
+                  >
+                    <span className="w-32 shrink-0 text-gray-500 truncate">
+                      {entry.source}
+                    </span>
+                    <span className="flex-1 text-gray-200">
+                      {`${PHI_CATEGORY_LABELS[entry.category]} ${
+                        entry.action
+                      }${entry.placeholder ? ` as ${entry.placeholder}` : ""}${
+                        entry.occurrences > 1 ? ` (×${entry.occurrences})` : ""
+                      }`}
+                    </span>
+                    <span className="text-gray-500 shrink-0">
+                      {new Date(entry.timestamp).toLocaleDateString()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {note.safetyWarnings && note.safetyWarnings.length > 0 && (
+            <div>
+              {heading(<ShieldAlert size={12} />, "Safety checks")}
+              <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] divide-y divide-white/[0.04]">
+                {note.safetyWarnings.map((warning, i) => (
+                  <div key={i} className="px-4 py-2.5 space-y-1 text-xs">
+                    <div className="flex items-start gap-4">
+                      <span className="w-32 shrink-0 text-gray-500 truncate">
+                        {warning.source}
+                      </span>
+                      <span className="flex-1 text-gray-200">
+                        {`${WARNING_KIND_LABELS[warning.kind]}: ${
+                          warning.message
+                        }`}
+                      </span>
+                    </div>
+                    {warning.excerpt && (
+                      <p className="pl-36 text-[11px] text-gray-500 truncate">
+                        {`…${warning.excerpt}…`}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 text-[11px] text-gray-500">
+                Uploads are sent as untrusted reference material. These
+                warnings come from local checks; review the flagged parts of
+                the guide before relying on them.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationDetailsModal;
@@ -7,7 +7,19 @@ import React, {
   memo,
 } from "react";
 import * as d3 from "d3";
-import { KnowledgeGraphData, KnowledgeNode } from "../types";
+import {
+  KnowledgeGraphData,
+  KnowledgeLink,
+  KnowledgeNode,
+  RelationshipType,
+} from "../types";
+import { GraphEdit, linkEndId, sameLink } from "../services/graphEditing";
+import { explainPathPrompt, findPaths } from "../services/conceptPaths";
+import { LibraryGraph, libraryNodeId } from "../services/libraryGraph";
+import {
+  RELATIONSHIP_TYPES,
+  RELATIONSHIP_TYPE_LABELS,
+} from "../services/relationshipTypes";
 import {
   ZoomIn,
   ZoomOut,
@@ -31,6 +43,14 @@ import {
   Activity,
   Stethoscope,
   TestTube,
+  PencilLine,
+  Plus,
+  Spline,
+  Undo2,
+  Trash2,
+  Check,
+  Route,
+  MessageCircle,
 } from "lucide-react";
 
 interface KnowledgeGraphProps {
@@ -39,9 +59,17 @@ interface KnowledgeGraphProps {
   onNodeSelect: (node: KnowledgeNode | null) => void;
   selectedNodeId?: string | null;
   inspectorOpen?: boolean;
+  onEdit?: (edit: GraphEdit) => void; // Enables the edit tools
+  onUndo?: () => void;
+  undoLabel?: string; // Edit that Undo reverts; absent = nothing to undo
+  preview?: KnowledgeGraphData; // Suggested nodes/links, drawn as ghosts
+  libraryGraph?: LibraryGraph; // Enables library-wide paths (needs noteId)
+  noteId?: string; // The note whose graph this is
+  onExplainPath?: (prompt: string) => void; // Sends a path to the tutor chat
 }
 
 interface GraphNode extends KnowledgeNode, d3.SimulationNodeDatum {
+  ghost?: boolean; // Suggestion awaiting review (see graphExpansion)
   x?: number;
   y?: number;
   fx?: number | null;
@@ -50,8 +78,10 @@ interface GraphNode extends KnowledgeNode, d3.SimulationNodeDatum {
 
 interface GraphLink extends d3.SimulationLinkDatum<GraphNode> {
   relationship: string;
+  type?: RelationshipType;
   source: GraphNode | string;
   target: GraphNode | string;
+  ghost?: boolean;
 }
 
 // Optimized layout constants - reduced for better performance
@@ -65,6 +95,60 @@ const LAYOUT = {
   ANIMATION_DURATION: 600, // Reduced from 800
 } as const;
 
+// Ghost (suggested) nodes and links
+const GHOST_COLOR = "#fbbf24";
+const GHOST_DASH = "6,4";
+
+// Link styling by relationship type: colour, arrowhead (marker path in a
+// "0 -5 10 10" box) and dash; untyped links are "other"
+type LinkKind = RelationshipType | "other";
+
+const LINK_KINDS: LinkKind[] = [...RELATIONSHIP_TYPES, "other"];
+
+const LINK_KIND_STYLES: Record<
+  LinkKind,
+  { color: string; marker: string; dash: string | null }
+> = {
+  causes: { color: "#f87171", marker: "M0,-5L10,0L0,5", dash: null },
+  treats: { color: "#34d399", marker: "M0,-5L10,0L0,5L4,0Z", dash: null },
+  "contraindicated-in": {
+    color: "#e879f9",
+    marker: "M6,-5L10,-5L10,5L6,5Z", // Bar: "blocked"
+    dash: null,
+  },
+  diagnoses: { color: "#60a5fa", marker: "M0,0L5,-5L10,0L5,5Z", dash: null },
+  "presents-with": {
+    color: "#fb923c",
+    marker: "M0,0A5,5 0 1,1 10,0A5,5 0 1,1 0,0Z",
+    dash: null,
+  },
+  "part-of": { color: "#2dd4bf", marker: "M1,-4L9,-4L9,4L1,4Z", dash: null },
+  "risk-factor-for": {
+    color: "#c084fc",
+    marker: "M0,-5L10,0L0,5",
+    dash: "4,3",
+  },
+  "complication-of": {
+    color: "#fda4af",
+    marker: "M0,-5L10,0L0,5L4,0Z",
+    dash: "1,3",
+  },
+  other: { color: "#9ca3af", marker: "M0,-5L10,0L0,5", dash: null },
+};
+
+const linkKind = (l: GraphLink): LinkKind => l.type || "other";
+
+// Resting, highlighted and ghost looks of a link
+const linkStroke = (l: GraphLink) =>
+  l.ghost ? GHOST_COLOR : l.type ? LINK_KIND_STYLES[l.type].color : "#374151";
+const activeLinkStroke = (l: GraphLink) =>
+  l.ghost ? GHOST_COLOR : l.type ? LINK_KIND_STYLES[l.type].color : "#ffffff";
+const linkMarker = (l: GraphLink) => `url(#arrow-${linkKind(l)})`;
+const activeLinkMarker = (l: GraphLink) =>
+  l.type ? linkMarker(l) : "url(#arrow-active)";
+const linkDash = (l: GraphLink) =>
+  l.ghost ? GHOST_DASH : LINK_KIND_STYLES[linkKind(l)].dash;
+
 // Group configuration - memoized outside component
 const GROUP_CONFIG: Record<
   number,
@@ -87,6 +171,36 @@ const getGroupConfig = (group: number) =>
     icon: "●",
   };
 
+// Control point of a link's curve - the label sits here
+const curveControl = (source: GraphNode, target: GraphNode) => {
+  const midX = (source.x! + target.x!) / 2;
+  const midY = (source.y! + target.y!) / 2;
+
+  // Normal vector for a slight curve; the amount depends on distance
+  const dx = target.x! - source.x!;
+  const dy = target.y! - source.y!;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  const curveAmount = dist * 0.1;
+  return {
+    cX: midX + (-dy / dist) * curveAmount,
+    cY: midY + (dx / dist) * curveAmount,
+  };
+};
+
+const linkCurve = (d: GraphLink) => {
+  const source = d.source as GraphNode;
+  const target = d.target as GraphNode;
+  const { cX, cY } = curveControl(source, target);
+  return `M${source.x},${source.y} Q${cX},${cY} ${target.x},${target.y}`;
+};
+
+// Link being drawn: source, then target, then its relationship
+interface LinkDraft {
+  source?: string;
+  target?: string;
+  relationship: string;
+}
+
 const getGroupIcon = (group: number) => {
   switch (group) {
     case 1: return Brain;
@@ -101,7 +215,19 @@ const getGroupIcon = (group: number) => {
 };
 
 const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
-  ({ data, className, onNodeSelect, selectedNodeId }) => {
+  ({
+    data,
+    className,
+    onNodeSelect,
+    selectedNodeId,
+    onEdit,
+    onUndo,
+    undoLabel,
+    preview,
+    libraryGraph,
+    noteId,
+    onExplainPath,
+  }) => {
     const svgRef = useRef<SVGSVGElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
 
@@ -111,10 +237,36 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
     const [activeFilters, setActiveFilters] = useState<Set<number>>(
       new Set([1, 2, 3, 4, 5, 6, 7])
     );
+    const [activeLinkKinds, setActiveLinkKinds] = useState<Set<LinkKind>>(
+      new Set(LINK_KINDS)
+    );
     const [showLabels, setShowLabels] = useState(true);
     const [layoutMode, setLayoutMode] = useState<"clustered" | "radial" | "force">("clustered");
     const [hoveredNode, setHoveredNode] = useState<GraphNode | null>(null);
 
+    // Edit tools
+    const [editMode, setEditMode] = useState(false);
+    const [newNode, setNewNode] = useState<{
+      label: string;
+      group: number;
+    } | null>(null);
+    const [linkDraft, setLinkDraft] = useState<LinkDraft | null>(null);
+    const [selectedLink, setSelectedLink] = useState<{
+      link: KnowledgeLink;
+      relationship: string;
+      linkType: RelationshipType | ""; // "" = read off the text
+    } | null>(null);
+    const editing = editMode && !!onEdit;
+
+    // Path finder: pick two nodes, see the chains of links between them
+    const [pathMode, setPathMode] = useState(false);
+    const [pathEnds, setPathEnds] = useState<{ from?: string; to?: string }>(
+      {}
+    );
+    const [pathScope, setPathScope] = useState<"note" | "library">("note");
+    const [activePath, setActivePath] = useState(0);
+    const libraryPaths = !!libraryGraph && !!noteId;
+
     // Refs for click outside
     const searchContainerRef = useRef<HTMLDivElement>(null);
     const toolbarContainerRef = useRef<HTMLDivElement>(null);
@@ -126,6 +278,50 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
     const svgSelectionRef = useRef<d3.Selection<SVGSVGElement, unknown, null, undefined> | null>(null);
     const gRef = useRef<d3.Selection<SVGGElement, unknown, null, undefined> | null>(null);
 
+    // Where nodes were when the graph was last rebuilt, so an edit doesn't
+    // scatter the layout
+    const positionsRef = useRef(new Map<string, { x: number; y: number }>());
+
+    // Clicks reach d3 through refs so edit state doesn't rebuild the graph
+    const handleNodeClick = (d: GraphNode) => {
+      if (d.ghost) return; // Reviewed in the inspector, not selectable
+      if (pathMode) {
+        // Third click starts a new pair
+        setPathEnds(
+          !pathEnds.from || pathEnds.to
+            ? { from: d.id }
+            : d.id === pathEnds.from
+            ? pathEnds
+            : { from: pathEnds.from, to: d.id }
+        );
+        setActivePath(0);
+        return;
+      }
+      if (editing && linkDraft) {
+        if (!linkDraft.source) {
+          setLinkDraft({ ...linkDraft, source: d.id });
+        } else if (d.id !== linkDraft.source) {
+          setLinkDraft({ ...linkDraft, target: d.id });
+        }
+        return;
+      }
+      onNodeSelect(d.id === selectedNodeId ? null : d);
+    };
+    const handleLinkClick = (d: GraphLink) => {
+      if (!editing || linkDraft || d.ghost) return;
+      const link = {
+        source: linkEndId(d.source),
+        target: linkEndId(d.target),
+        relationship: d.relationship,
+        type: d.type,
+      };
+      setSelectedLink({ link, relationship: d.relationship, linkType: "" });
+    };
+    const nodeClickRef = useRef(handleNodeClick);
+    nodeClickRef.current = handleNodeClick;
+    const linkClickRef = useRef(handleLinkClick);
+    linkClickRef.current = handleLinkClick;
+
     // Filtered data - optimized with deep clone prevention
     const filteredData = useMemo(() => {
       let nodes = data.nodes.filter((n) => activeFilters.has(n.group));
@@ -138,18 +334,40 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
         );
       }
       
-      const nodeIds = new Set(nodes.map((n) => n.id));
-      const links = data.links.filter((l) => {
+      // Ghosts show regardless of filters, next to the node they extend
+      const ghostNodes = (preview?.nodes || []).map((n) => ({
+        ...n,
+        ghost: true,
+      }));
+      const nodeIds = new Set([...nodes, ...ghostNodes].map((n) => n.id));
+      const visible = (l: KnowledgeLink) => {
         const sId = typeof l.source === "object" ? (l.source as GraphNode).id : l.source;
         const tId = typeof l.target === "object" ? (l.target as GraphNode).id : l.target;
         return nodeIds.has(sId as string) && nodeIds.has(tId as string);
-      });
+      };
+      const links = data.links
+        .filter(visible)
+        .filter((l) => activeLinkKinds.has(l.type || "other"));
+      const ghostLinks = (preview?.links || []).filter(visible);
 
       return {
-        nodes: nodes.map((n) => ({ ...n })) as GraphNode[],
-        links: links.map((l) => ({ ...l })) as GraphLink[],
+        nodes: [...nodes.map((n) => ({ ...n })), ...ghostNodes] as GraphNode[],
+        links: [
+          ...links.map((l) => ({ ...l })),
+          ...ghostLinks.map((l) => ({ ...l, ghost: true })),
+        ] as GraphLink[],
       };
-    }, [data, activeFilters, searchQuery]);
+    }, [data, preview, activeFilters, activeLinkKinds, searchQuery]);
+
+    // Links per relationship type, for the legend (types in use only)
+    const linkKindCounts = useMemo(() => {
+      const counts = new Map<LinkKind, number>();
+      data.links.forEach((l) => {
+        const kind = l.type || "other";
+        counts.set(kind, (counts.get(kind) || 0) + 1);
+      });
+      return counts;
+    }, [data.links]);
 
     // Connected nodes for highlighting
     const connectedNodeIds = useMemo(() => {
@@ -164,6 +382,60 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
       return ids;
     }, [selectedNodeId, filteredData.links]);
 
+    // Paths between the picked nodes, in this note or across the library
+    const pathSearch = useMemo(() => {
+      const { from, to } = pathEnds;
+      if (!pathMode || !from || !to) return null;
+
+      if (pathScope === "library" && libraryGraph && noteId) {
+        const labels = new Map(libraryGraph.nodes.map((n) => [n.id, n.label]));
+        // Library ids of the concepts drawn here (merged nodes keep the first)
+        const local = new Map<string, string>();
+        data.nodes.forEach((n) => {
+          const id = libraryNodeId(libraryGraph, noteId, n.id);
+          if (id && !local.has(id)) local.set(id, n.id);
+        });
+        const start = libraryNodeId(libraryGraph, noteId, from);
+        const end = libraryNodeId(libraryGraph, noteId, to);
+        return {
+          paths: start && end ? findPaths(libraryGraph, start, end) : [],
+          labelOf: (id: string) => labels.get(id) || id,
+          localId: (id: string) => local.get(id),
+        };
+      }
+
+      const labels = new Map(data.nodes.map((n) => [n.id, n.label]));
+      return {
+        paths: findPaths(data, from, to),
+        labelOf: (id: string) => labels.get(id) || id,
+        localId: (id: string) => (labels.has(id) ? id : undefined),
+      };
+    }, [pathMode, pathEnds, pathScope, data, libraryGraph, noteId]);
+
+    // What the path finder lights up: the picked ends, plus the chosen path's
+    // nodes and links as far as they are drawn in this graph (links keyed by
+    // source and target id)
+    const pathHighlight = useMemo(() => {
+      if (!pathMode || !pathEnds.from) return null;
+      const ends = new Set(
+        [pathEnds.from, pathEnds.to].filter((id): id is string => !!id)
+      );
+      const nodes = new Set(ends);
+      const links = new Set<string>();
+      pathSearch?.paths[activePath]?.steps.forEach((step) => {
+        const from = pathSearch.localId(step.from);
+        const to = pathSearch.localId(step.to);
+        if (from) nodes.add(from);
+        if (to) nodes.add(to);
+        if (from && to) {
+          links.add(
+            step.forward ? `${from}\u0000${to}` : `${to}\u0000${from}`
+          );
+        }
+      });
+      return { ends, nodes, links };
+    }, [pathMode, pathEnds, pathSearch, activePath]);
+
     // Node connection counts for sizing - optimized
     const nodeConnections = useMemo(() => {
       const counts: Record<string, number> = {};
@@ -232,14 +504,6 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
       });
 
       // Arrow markers
-      defs.append("marker")
-        .attr("id", "arrow")
-        .attr("viewBox", "0 -5 10 10")
-        .attr("refX", 25).attr("refY", 0)
-        .attr("markerWidth", 5).attr("markerHeight", 5)
-        .attr("orient", "auto")
-        .append("path").attr("fill", "#9ca3af").attr("d", "M0,-5L10,0L0,5");
-
       defs.append("marker")
         .attr("id", "arrow-active")
         .attr("viewBox", "0 -5 10 10")
@@ -248,6 +512,18 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
         .attr("orient", "auto")
         .append("path").attr("fill", "#ffffff").attr("d", "M0,-5L10,0L0,5");
 
+      // One arrowhead per relationship type
+      LINK_KINDS.forEach((kind) => {
+        const style = LINK_KIND_STYLES[kind];
+        defs.append("marker")
+          .attr("id", `arrow-${kind}`)
+          .attr("viewBox", "0 -5 10 10")
+          .attr("refX", 25).attr("refY", 0)
+          .attr("markerWidth", 6).attr("markerHeight", 6)
+          .attr("orient", "auto")
+          .append("path").attr("fill", style.color).attr("d", style.marker);
+      });
+
       // --- LAYERS ---
       const g = svg.append("g");
       gRef.current = g;
@@ -302,6 +578,8 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
 
       // Initial positions
       nodes.forEach((node) => {
+        const previous = positionsRef.current.get(node.id);
+        if (previous) Object.assign(node, previous);
         if (!node.x) node.x = centerX + (Math.random() - 0.5) * 200;
         if (!node.y) node.y = centerY + (Math.random() - 0.5) * 200;
       });
@@ -353,10 +631,11 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
         .data(links)
         .join("path")
         .attr("fill", "none")
-        .attr("stroke", "#374151")
+        .attr("stroke", linkStroke)
         .attr("stroke-width", 1.5)
-        .attr("stroke-opacity", 0.3)
-        .attr("marker-end", "url(#arrow)");
+        .attr("stroke-opacity", (d) => (d.ghost ? 0.7 : 0.3))
+        .attr("stroke-dasharray", linkDash)
+        .attr("marker-end", linkMarker);
 
       // Link Labels (Background + Text)
       const linkLabelGroup = g.append("g").attr("class", "link-labels");
@@ -383,6 +662,22 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
         .attr("text-anchor", "middle")
         .attr("dy", "0.35em");
 
+      // Wide invisible strokes, so links can be picked in edit mode
+      const linkHitGroup = g.append("g").attr("class", "link-hits");
+      const linkHit = linkHitGroup
+        .selectAll<SVGPathElement, GraphLink>("path")
+        .data(links)
+        .join("path")
+        .attr("fill", "none")
+        .attr("stroke", "transparent")
+        .attr("stroke-width", 14)
+        .attr("cursor", "pointer")
+        .style("pointer-events", "none")
+        .on("click", (event, d) => {
+          event.stopPropagation();
+          linkClickRef.current(d);
+        });
+
       // Nodes
       const nodeGroup = g.append("g").attr("class", "nodes");
       const node = nodeGroup
@@ -426,7 +721,7 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
         setHoveredNode(null);
         // Use setTimeout to ensure state updates don't conflict
         requestAnimationFrame(() => {
-          onNodeSelect(d.id === selectedNodeId ? null : d);
+          nodeClickRef.current(d);
         });
       });
 
@@ -443,7 +738,7 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
         setHoveredNode(null);
 
         requestAnimationFrame(() => {
-          onNodeSelect(d.id === selectedNodeId ? null : d);
+          nodeClickRef.current(d);
         });
       });
 
@@ -491,7 +786,9 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
         .attr("class", "node-main")
         .attr("r", (d) => getNodeRadius(d))
         .attr("fill", (d) => `url(#gradient-${d.group})`)
+        .attr("fill-opacity", (d) => (d.ghost ? 0.25 : 1))
         .attr("stroke", (d) => getGroupConfig(d.group).color)
+        .attr("stroke-dasharray", (d) => (d.ghost ? "4,3" : null))
         .attr("stroke-width", 2);
 
       node
@@ -526,7 +823,8 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
         .attr("font-family", "Inter, sans-serif")
         .attr("font-size", "11px")
         .attr("font-weight", "500")
-        .attr("fill", "#e5e7eb")
+        .attr("font-style", (d) => (d.ghost ? "italic" : null))
+        .attr("fill", (d) => (d.ghost ? GHOST_COLOR : "#e5e7eb"))
         .attr("text-anchor", "middle")
         .attr("dy", "0.35em")
         .each(function (d) {
@@ -569,44 +867,16 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
           hullGroup.selectAll("path").remove();
         }
 
-        // Curved Lines
-        linkPath.attr("d", (d) => {
-          const source = d.source as GraphNode;
-          const target = d.target as GraphNode;
-          // Simple quadratic bezier for curve
-          // Midpoint with offset for curve
-          const midX = (source.x! + target.x!) / 2;
-          const midY = (source.y! + target.y!) / 2;
-
-          // Calculate normal vector for slight curve
-          const dx = target.x! - source.x!;
-          const dy = target.y! - source.y!;
-          const dist = Math.sqrt(dx * dx + dy * dy);
-          const normalX = -dy / dist;
-          const normalY = dx / dist;
-
-          // Curve amount depends on distance
-          const curveAmount = dist * 0.1;
-          const cX = midX + normalX * curveAmount;
-          const cY = midY + normalY * curveAmount;
-
-          return `M${source.x},${source.y} Q${cX},${cY} ${target.x},${target.y}`;
-        });
+        // Curved Lines (simple quadratic bezier)
+        linkPath.attr("d", linkCurve);
+        linkHit.attr("d", linkCurve);
 
         // Update Link Labels position (at curve midpoint)
         linkLabelG.attr("transform", (d) => {
-          const source = d.source as GraphNode;
-          const target = d.target as GraphNode;
-          const midX = (source.x! + target.x!) / 2;
-          const midY = (source.y! + target.y!) / 2;
-          const dx = target.x! - source.x!;
-          const dy = target.y! - source.y!;
-          const dist = Math.sqrt(dx * dx + dy * dy);
-          const normalX = -dy / dist;
-          const normalY = dx / dist;
-          const curveAmount = dist * 0.1;
-          const cX = midX + normalX * curveAmount;
-          const cY = midY + normalY * curveAmount;
+          const { cX, cY } = curveControl(
+            d.source as GraphNode,
+            d.target as GraphNode
+          );
           return `translate(${cX},${cY})`;
         });
 
@@ -619,9 +889,72 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
 
       return () => {
         simulation.stop();
+        nodes.forEach((n) => {
+          if (n.x !== undefined && n.y !== undefined) {
+            positionsRef.current.set(n.id, { x: n.x, y: n.y });
+          }
+        });
       };
     }, [filteredData, getNodeRadius, onNodeSelect, showLabels]);
 
+    // Links are only clickable while editing; the picked one is outlined
+    useEffect(() => {
+      if (!gRef.current) return;
+      gRef.current
+        .selectAll<SVGPathElement, GraphLink>(".link-hits path")
+        .style("pointer-events", editing && !linkDraft ? "stroke" : "none")
+        .attr("stroke", (d) =>
+          selectedLink &&
+          sameLink(
+            {
+              source: linkEndId(d.source),
+              target: linkEndId(d.target),
+              relationship: d.relationship,
+            },
+            selectedLink.link
+          )
+            ? "rgba(245, 158, 11, 0.35)"
+            : "transparent"
+        );
+    }, [editing, linkDraft, selectedLink, filteredData]);
+
+    // Leaving edit mode drops anything half-done
+    useEffect(() => {
+      if (editing) return;
+      setNewNode(null);
+      setLinkDraft(null);
+      setSelectedLink(null);
+    }, [editing]);
+
+    useEffect(() => {
+      if (pathMode) return;
+      setPathEnds({});
+      setActivePath(0);
+    }, [pathMode]);
+
+    const submitNewNode = () => {
+      if (!onEdit || !newNode?.label.trim()) return;
+      onEdit({ type: "add-node", label: newNode.label, group: newNode.group });
+      setNewNode(null);
+    };
+
+    const submitLink = () => {
+      if (!onEdit || !linkDraft?.source || !linkDraft.target) return;
+      if (!linkDraft.relationship.trim()) return;
+      onEdit({
+        type: "add-link",
+        link: {
+          source: linkDraft.source,
+          target: linkDraft.target,
+          relationship: linkDraft.relationship,
+        },
+      });
+      setLinkDraft(null);
+    };
+
+    const nodeName = (id?: string) =>
+      data.nodes.find((n) => n.id === id)?.label || "…";
+
     // --- FOCUS MODE & SELECTION EFFECTS ---
     useEffect(() => {
       if (!simulationRef.current || !containerRef.current) return;
@@ -710,6 +1043,63 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
       const linkLabels = g.selectAll<SVGGElement, GraphLink>(".link-labels g");
       const labels = g.selectAll<SVGGElement, GraphNode>(".labels g");
 
+      if (pathHighlight) {
+        const onPath = (l: GraphLink) =>
+          pathHighlight.links.has(
+            `${linkEndId(l.source)}\u0000${linkEndId(l.target)}`
+          );
+
+        nodes
+          .transition()
+          .duration(400)
+          .style("opacity", (d) => (pathHighlight.nodes.has(d.id) ? 1 : 0.1));
+        nodes
+          .select(".node-main")
+          .attr("filter", (d) =>
+            pathHighlight.ends.has(d.id)
+              ? "url(#strong-glow)"
+              : pathHighlight.nodes.has(d.id)
+              ? "url(#glow)"
+              : null
+          )
+          .attr("stroke-width", (d) => (pathHighlight.ends.has(d.id) ? 4 : 2));
+        nodes
+          .select(".node-ring")
+          .attr("stroke", (d) =>
+            pathHighlight.ends.has(d.id)
+              ? "#ffffff"
+              : getGroupConfig(d.group).color
+          )
+          .attr("stroke-opacity", (d) =>
+            pathHighlight.nodes.has(d.id) ? 0.8 : 0.1
+          );
+
+        links
+          .attr("stroke", (l) =>
+            onPath(l) ? activeLinkStroke(l) : linkStroke(l)
+          )
+          .attr("stroke-opacity", (l) => (onPath(l) ? 1 : 0.05))
+          .attr("stroke-width", (l) => (onPath(l) ? 3 : 1))
+          .attr("marker-end", (l) =>
+            onPath(l) ? activeLinkMarker(l) : linkMarker(l)
+          )
+          .attr("stroke-dasharray", (l) =>
+            onPath(l) ? "10,5" : linkDash(l)
+          )
+          .classed("animate-flow", onPath);
+
+        // Each step's relationship stays readable along the chain
+        linkLabels
+          .transition()
+          .duration(400)
+          .attr("opacity", (l) => (onPath(l) ? 1 : 0));
+        labels
+          .transition()
+          .duration(400)
+          .style("opacity", (d) => (pathHighlight.nodes.has(d.id) ? 1 : 0));
+        return;
+      }
+
       if (!selectedNodeId) {
         // Reset visuals
         nodes.style("opacity", 1);
@@ -720,11 +1110,11 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
           .attr("stroke", (d) => getGroupConfig(d.group).color);
 
         links
-          .attr("stroke", "#374151")
-          .attr("stroke-opacity", 0.3)
+          .attr("stroke", linkStroke)
+          .attr("stroke-opacity", (l) => (l.ghost ? 0.7 : 0.3))
           .attr("stroke-width", 1.5)
-          .attr("marker-end", "url(#arrow)")
-          .attr("stroke-dasharray", null) // Remove animation
+          .attr("marker-end", linkMarker)
+          .attr("stroke-dasharray", linkDash) // Remove animation
           .classed("animate-flow", false);
 
         linkLabels.transition().duration(200).attr("opacity", 0);
@@ -775,8 +1165,8 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
           const sId = (l.source as GraphNode).id;
           const tId = (l.target as GraphNode).id;
           if (sId === selectedNodeId || tId === selectedNodeId)
-            return "#ffffff";
-          return "#374151";
+            return activeLinkStroke(l);
+          return linkStroke(l);
         })
         .attr("stroke-opacity", (l) => {
           const sId = (l.source as GraphNode).id;
@@ -794,8 +1184,8 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
           const sId = (l.source as GraphNode).id;
           const tId = (l.target as GraphNode).id;
           if (sId === selectedNodeId || tId === selectedNodeId)
-            return "url(#arrow-active)";
-          return "url(#arrow)";
+            return activeLinkMarker(l);
+          return linkMarker(l);
         })
         .on("end", function (l) {
           // Add animation class after transition
@@ -839,7 +1229,7 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
               .scale(1) // Reset zoom to see the organized cluster
           );
       }
-    }, [selectedNodeId, connectedNodeIds, layoutMode]);
+    }, [selectedNodeId, connectedNodeIds, layoutMode, pathHighlight]);
 
     // Click outside to dismiss search
     useEffect(() => {
@@ -884,6 +1274,18 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
       return () => window.removeEventListener("keydown", handleKey);
     }, [showSearch]);
 
+    const toggleLinkKind = (kind: LinkKind) => {
+      setActiveLinkKinds((prev) => {
+        const next = new Set(prev);
+        if (next.has(kind)) {
+          if (next.size > 1) next.delete(kind);
+        } else {
+          next.add(kind);
+        }
+        return next;
+      });
+    };
+
     const toggleFilter = (group: number) => {
       setActiveFilters((prev) => {
         const next = new Set(prev);
@@ -1085,6 +1487,50 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
                 );
               })}
             </div>
+
+            {/* Relationship Legend - doubles as link type filters */}
+            {[...linkKindCounts.keys()].some((kind) => kind !== "other") && (
+              <div className="flex gap-1.5 flex-wrap max-w-[320px] md:max-w-[400px]">
+                {LINK_KINDS.filter((kind) => linkKindCounts.has(kind)).map(
+                  (kind) => {
+                    const style = LINK_KIND_STYLES[kind];
+                    const isActive = activeLinkKinds.has(kind);
+                    return (
+                      <button
+                        key={kind}
+                        onClick={() => toggleLinkKind(kind)}
+                        title={`${linkKindCounts.get(kind)} links`}
+                        className={`kg-filter-pill flex items-center gap-1.5 px-2 py-1 rounded-md text-[10px] font-medium border transition-all ${
+                          isActive
+                            ? "bg-black/60 border-white/15 text-gray-200"
+                            : "bg-black/40 border-white/5 text-gray-500 line-through"
+                        }`}
+                      >
+                        <svg width="22" height="8" viewBox="0 0 22 8">
+                          <line
+                            x1="0"
+                            y1="4"
+                            x2="14"
+                            y2="4"
+                            stroke={style.color}
+                            strokeWidth="1.5"
+                            strokeDasharray={style.dash ?? undefined}
+                          />
+                          <path
+                            d={style.marker}
+                            fill={style.color}
+                            transform="translate(13 4) scale(0.7)"
+                          />
+                        </svg>
+                        {kind === "other"
+                          ? "Other"
+                          : RELATIONSHIP_TYPE_LABELS[kind]}
+                      </button>
+                    );
+                  }
+                )}
+              </div>
+            )}
           </div>
 
           {/* Right: Search & View Controls */}
@@ -1097,6 +1543,81 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
               className="flex gap-2 items-center"
               style={{ minWidth: 0 }}
             >
+              <button
+                onClick={() => {
+                  if (!pathMode) {
+                    setEditMode(false);
+                    onNodeSelect(null);
+                  }
+                  setPathMode(!pathMode);
+                }}
+                className={`kg-control-btn kg-touch-target p-2.5 rounded-lg border transition-all ${
+                  pathMode
+                    ? "bg-vital-cyan/15 border-vital-cyan/40 text-vital-cyan"
+                    : "bg-black/40 border-white/5 text-gray-300 hover:text-white hover:bg-white/10 active:bg-white/15"
+                }`}
+                title={pathMode ? "Close Path Finder" : "Find Path Between Nodes"}
+              >
+                <Route size={18} />
+              </button>
+              {onEdit && (
+                <>
+                  {editing && (
+                    <>
+                      <button
+                        onClick={() => {
+                          setLinkDraft(null);
+                          setSelectedLink(null);
+                          setNewNode({ label: "", group: 1 });
+                        }}
+                        className="kg-control-btn kg-touch-target p-2.5 rounded-lg bg-black/40 border border-white/5 text-gray-300 hover:text-white hover:bg-white/10 active:bg-white/15 transition-all"
+                        title="Add Node"
+                      >
+                        <Plus size={18} />
+                      </button>
+                      <button
+                        onClick={() => {
+                          setNewNode(null);
+                          setSelectedLink(null);
+                          setLinkDraft(
+                            linkDraft ? null : { relationship: "" }
+                          );
+                        }}
+                        className={`kg-control-btn kg-touch-target p-2.5 rounded-lg border transition-all ${
+                          linkDraft
+                            ? "bg-synapse-amber/15 border-synapse-amber/40 text-synapse-amber"
+                            : "bg-black/40 border-white/5 text-gray-300 hover:text-white hover:bg-white/10 active:bg-white/15"
+                        }`}
+                        title="Draw Link"
+                      >
+                        <Spline size={18} />
+                      </button>
+                      <button
+                        onClick={onUndo}
+                        disabled={!undoLabel}
+                        className="kg-control-btn kg-touch-target p-2.5 rounded-lg bg-black/40 border border-white/5 text-gray-300 hover:text-white hover:bg-white/10 active:bg-white/15 transition-all disabled:opacity-30 disabled:pointer-events-none"
+                        title={undoLabel ? `Undo: ${undoLabel}` : "Nothing to undo"}
+                      >
+                        <Undo2 size={18} />
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => {
+                      setPathMode(false);
+                      setEditMode(!editMode);
+                    }}
+                    className={`kg-control-btn kg-touch-target p-2.5 rounded-lg border transition-all ${
+                      editing
+                        ? "bg-synapse-amber/15 border-synapse-amber/40 text-synapse-amber"
+                        : "bg-black/40 border-white/5 text-gray-300 hover:text-white hover:bg-white/10 active:bg-white/15"
+                    }`}
+                    title={editing ? "Done Editing" : "Edit Graph"}
+                  >
+                    <PencilLine size={18} />
+                  </button>
+                </>
+              )}
               <button
                 onClick={() => setShowLabels(!showLabels)}
                 className={`kg-control-btn kg-touch-target p-2.5 rounded-lg border transition-all ${
@@ -1255,6 +1776,7 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
           ref={svgRef}
           className="w-full h-full cursor-grab active:cursor-grabbing"
           onClick={() => {
+            setSelectedLink(null);
             if (showSearch) {
               setShowSearch(false);
               setSearchQuery("");
@@ -1263,8 +1785,325 @@ const KnowledgeGraph: React.FC<KnowledgeGraphProps> = memo(
           }}
         />
 
+        {/* Edit Panel */}
+        {editing && (
+          <div className="absolute bottom-6 left-4 z-20 w-80 bg-black/80 backdrop-blur-xl border border-synapse-amber/20 rounded-xl shadow-2xl p-4 space-y-3 text-[11px] text-gray-300">
+            {newNode ? (
+              <>
+                <div className="font-semibold uppercase tracking-wider text-synapse-amber">
+                  New Node
+                </div>
+                <input
+                  value={newNode.label}
+                  onChange={(e) =>
+                    setNewNode({ ...newNode, label: e.target.value })
+                  }
+                  onKeyDown={(e) => e.key === "Enter" && submitNewNode()}
+                  autoFocus
+                  placeholder="Label, e.g. Torsades de Pointes"
+                  className="w-full px-3 py-2 rounded-lg bg-white/[0.03] border border-white/[0.08] text-xs text-white focus:outline-none focus:border-synapse-amber/40"
+                />
+                <select
+                  value={newNode.group}
+                  onChange={(e) =>
+                    setNewNode({ ...newNode, group: Number(e.target.value) })
+                  }
+                  className="w-full px-3 py-2 rounded-lg bg-black border border-white/[0.08] text-xs text-white focus:outline-none"
+                >
+                  {Object.entries(GROUP_CONFIG).map(([group, config]) => (
+                    <option key={group} value={group}>
+                      {config.name}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setNewNode(null)}
+                    className="px-3 py-1 rounded-lg text-gray-400 hover:text-white"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={submitNewNode}
+                    disabled={!newNode.label.trim()}
+                    className="flex items-center gap-1 px-3 py-1 rounded-lg bg-synapse-amber/20 text-synapse-amber disabled:opacity-40"
+                  >
+                    <Plus size={11} />
+                    Add
+                  </button>
+                </div>
+              </>
+            ) : linkDraft ? (
+              <>
+                <div className="font-semibold uppercase tracking-wider text-synapse-amber">
+                  Draw Link
+                </div>
+                {!linkDraft.target ? (
+                  <p>
+                    {linkDraft.source
+                      ? `From "${nodeName(linkDraft.source)}" - now pick the target node.`
+                      : "Pick the source node."}
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-gray-200">
+                      {nodeName(linkDraft.source)} → {nodeName(linkDraft.target)}
+                    </p>
+                    <input
+                      value={linkDraft.relationship}
+                      onChange={(e) =>
+                        setLinkDraft({
+                          ...linkDraft,
+                          relationship: e.target.value,
+                        })
+                      }
+                      onKeyDown={(e) => e.key === "Enter" && submitLink()}
+                      autoFocus
+                      placeholder="Relationship, e.g. causes"
+                      className="w-full px-3 py-2 rounded-lg bg-white/[0.03] border border-white/[0.08] text-xs text-white focus:outline-none focus:border-synapse-amber/40"
+                    />
+                  </>
+                )}
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setLinkDraft(null)}
+                    className="px-3 py-1 rounded-lg text-gray-400 hover:text-white"
+                  >
+                    Cancel
+                  </button>
+                  {linkDraft.target && (
+                    <button
+                      onClick={submitLink}
+                      disabled={!linkDraft.relationship.trim()}
+                      className="flex items-center gap-1 px-3 py-1 rounded-lg bg-synapse-amber/20 text-synapse-amber disabled:opacity-40"
+                    >
+                      <Check size={11} />
+                      Link
+                    </button>
+                  )}
+                </div>
+              </>
+            ) : selectedLink ? (
+              <>
+                <div className="font-semibold uppercase tracking-wider text-synapse-amber">
+                  Link
+                </div>
+                <p className="text-gray-200">
+                  {nodeName(selectedLink.link.source)} →{" "}
+                  {nodeName(selectedLink.link.target)}
+                </p>
+                <input
+                  value={selectedLink.relationship}
+                  onChange={(e) =>
+                    setSelectedLink({
+                      ...selectedLink,
+                      relationship: e.target.value,
+                    })
+                  }
+                  className="w-full px-3 py-2 rounded-lg bg-white/[0.03] border border-white/[0.08] text-xs text-white focus:outline-none focus:border-synapse-amber/40"
+                />
+                <select
+                  value={selectedLink.linkType}
+                  onChange={(e) =>
+                    setSelectedLink({
+                      ...selectedLink,
+                      linkType: e.target.value as RelationshipType | "",
+                    })
+                  }
+                  className="w-full px-3 py-2 rounded-lg bg-black border border-white/[0.08] text-xs text-white focus:outline-none"
+                >
+                  <option value="">
+                    Type from text
+                    {selectedLink.link.type &&
+                      ` (now ${RELATIONSHIP_TYPE_LABELS[selectedLink.link.type]})`}
+                  </option>
+                  {RELATIONSHIP_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {RELATIONSHIP_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => {
+                      onEdit!({ type: "delete-link", link: selectedLink.link });
+                      setSelectedLink(null);
+                    }}
+                    className="flex items-center gap-1 px-3 py-1 rounded-lg text-tissue-rose hover:bg-tissue-rose/10"
+                  >
+                    <Trash2 size={11} />
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => setSelectedLink(null)}
+                    className="ml-auto px-3 py-1 rounded-lg text-gray-400 hover:text-white"
+                  >
+                    Close
+                  </button>
+                  <button
+                    onClick={() => {
+                      onEdit!({
+                        type: "relabel-link",
+                        link: selectedLink.link,
+                        relationship: selectedLink.relationship,
+                        linkType: selectedLink.linkType || undefined,
+                      });
+                      setSelectedLink(null);
+                    }}
+                    disabled={
+                      !selectedLink.relationship.trim() ||
+                      (selectedLink.relationship.trim() ===
+                        selectedLink.link.relationship &&
+                        (!selectedLink.linkType ||
+                          selectedLink.linkType === selectedLink.link.type))
+                    }
+                    className="flex items-center gap-1 px-3 py-1 rounded-lg bg-synapse-amber/20 text-synapse-amber disabled:opacity-40"
+                  >
+                    <Check size={11} />
+                    Save
+                  </button>
+                </div>
+              </>
+            ) : (
+              <p className="leading-relaxed">
+                Add a node or draw a link from the toolbar. Click a link to
+                relabel or delete it; select a node to edit it in the
+                inspector.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Path Finder Panel */}
+        {pathMode && (
+          <div className="absolute bottom-6 left-4 z-20 w-80 max-h-[60%] overflow-y-auto bg-black/80 backdrop-blur-xl border border-vital-cyan/20 rounded-xl shadow-2xl p-4 space-y-3 text-[11px] text-gray-300">
+            <div className="flex items-center justify-between">
+              <span className="font-semibold uppercase tracking-wider text-vital-cyan">
+                Path Finder
+              </span>
+              {libraryPaths && (
+                <div className="flex rounded-lg border border-white/[0.08] overflow-hidden">
+                  {(["note", "library"] as const).map((scope) => (
+                    <button
+                      key={scope}
+                      onClick={() => {
+                        setPathScope(scope);
+                        setActivePath(0);
+                      }}
+                      className={`px-2 py-1 ${
+                        pathScope === scope
+                          ? "bg-vital-cyan/15 text-vital-cyan"
+                          : "text-gray-500 hover:text-white"
+                      }`}
+                    >
+                      {scope === "note" ? "This note" : "Library"}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {!pathEnds.to ? (
+              <p>
+                {pathEnds.from
+                  ? `From "${nodeName(pathEnds.from)}" - now pick the end node.`
+                  : "Pick the start node."}
+              </p>
+            ) : !pathSearch?.paths.length ? (
+              <p>
+                No chain of links connects "{nodeName(pathEnds.from)}" and "
+                {nodeName(pathEnds.to)}"
+                {pathScope === "note" && libraryPaths
+                  ? " in this note - try the library."
+                  : "."}
+              </p>
+            ) : (
+              <>
+                <div className="flex gap-1">
+                  {pathSearch.paths.map((path, i) => (
+                    <button
+                      key={path.nodeIds.join("/")}
+                      onClick={() => setActivePath(i)}
+                      className={`px-2 py-1 rounded-lg border ${
+                        i === activePath
+                          ? "bg-vital-cyan/15 border-vital-cyan/40 text-vital-cyan"
+                          : "border-white/[0.08] text-gray-400 hover:text-white"
+                      }`}
+                    >
+                      {i === 0 ? "Shortest" : `Alt ${i}`} ·{" "}
+                      {path.steps.length}
+                    </button>
+                  ))}
+                </div>
+                {pathSearch.paths[activePath] && (
+                  <div className="flex flex-wrap items-center gap-1 leading-relaxed">
+                    {pathSearch.paths[activePath].nodeIds.map((id, i) => {
+                      const step = pathSearch.paths[activePath].steps[i];
+                      return (
+                        <React.Fragment key={id}>
+                          <span
+                            className={
+                              pathSearch.localId(id)
+                                ? "text-gray-100"
+                                : "italic text-gray-500"
+                            }
+                            title={
+                              pathSearch.localId(id)
+                                ? undefined
+                                : "From another note"
+                            }
+                          >
+                            {pathSearch.labelOf(id)}
+                          </span>
+                          {step && (
+                            <span className="px-1.5 py-0.5 rounded bg-vital-cyan/10 text-vital-cyan font-mono text-[10px]">
+                              {step.forward
+                                ? `${step.relationship} →`
+                                : `← ${step.relationship}`}
+                            </span>
+                          )}
+                        </React.Fragment>
+                      );
+                    })}
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="flex justify-end gap-2">
+              {pathEnds.from && (
+                <button
+                  onClick={() => {
+                    setPathEnds({});
+                    setActivePath(0);
+                  }}
+                  className="px-3 py-1 rounded-lg text-gray-400 hover:text-white"
+                >
+                  Clear
+                </button>
+              )}
+              {onExplainPath && pathSearch?.paths[activePath] && (
+                <button
+                  onClick={() =>
+                    onExplainPath(
+                      explainPathPrompt(
+                        pathSearch.paths[activePath],
+                        pathSearch.labelOf
+                      )
+                    )
+                  }
+                  className="flex items-center gap-1 px-3 py-1 rounded-lg bg-vital-cyan/15 text-vital-cyan"
+                >
+                  <MessageCircle size={11} />
+                  Explain this causal chain
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Select Node Hint - Positioned better */}
-        {!selectedNodeId && (
+        {!selectedNodeId && !editing && !pathMode && (
           <div className="absolute bottom-10 left-1/2 -translate-x-1/2 glass-slide border border-white/[0.06] px-8 py-4 rounded-2xl shadow-2xl flex items-center gap-4 animate-[fadeInUp_0.5s_ease-out_1s_both] pointer-events-none">
             <div className="flex items-center gap-3 text-gray-400">
               <div className="w-3 h-3 rounded-full bg-vital-cyan/60 animate-pulse" />
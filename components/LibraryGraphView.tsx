@@ -0,0 +1,203 @@
+import React, { useMemo, useState, memo } from "react";
+import { BookOpen, Library, Network, X } from "lucide-react";
+import KnowledgeGraph from "./KnowledgeGraph";
+import {
+  libraryGraphForNotes,
+  type LibraryGraph,
+  type LibraryNode,
+} from "../services/libraryGraph";
+import { TERMINOLOGY_SYSTEM_LABELS } from "../services/terminology";
+
+interface Props {
+  graph: LibraryGraph;
+  onOpenGuide: (noteId: string, nodeId: string) => void; // Node within that note
+}
+
+// Specialty filter value for notes without mapped codes
+const UNCLASSIFIED = "__unclassified__";
+
+const SELECT_CLASS =
+  "px-3 py-2 rounded-lg bg-black border border-white/[0.08] text-xs text-white focus:outline-none focus:border-vital-cyan/30";
+
+/**
+ * The whole library as one network: every note's topic map merged by
+ * concept (see libraryGraph), filterable by note and specialty on top of the
+ * graph's own group filters. Selecting a concept lists the guides that cover
+ * it.
+ */
+const LibraryGraphView: React.FC<Props> = memo(({ graph, onOpenGuide }) => {
+  const [noteFilter, setNoteFilter] = useState(""); // "" = all notes
+  const [specialtyFilter, setSpecialtyFilter] = useState(""); // "" = all
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const specialties = useMemo(
+    () =>
+      [
+        ...new Set(
+          graph.notes.flatMap((n) => (n.specialty ? [n.specialty] : []))
+        ),
+      ].sort(),
+    [graph.notes]
+  );
+
+  const visible = useMemo(() => {
+    const noteIds = new Set(
+      graph.notes
+        .filter((n) => !noteFilter || n.id === noteFilter)
+        .filter(
+          (n) =>
+            !specialtyFilter ||
+            (specialtyFilter === UNCLASSIFIED
+              ? !n.specialty
+              : n.specialty === specialtyFilter)
+        )
+        .map((n) => n.id)
+    );
+    return libraryGraphForNotes(graph, noteIds);
+  }, [graph, noteFilter, specialtyFilter]);
+
+  const selected = useMemo(
+    () => visible.nodes.find((n) => n.id === selectedId) || null,
+    [visible.nodes, selectedId]
+  );
+  const shared = useMemo(
+    () => visible.nodes.filter((n) => n.noteIds.length > 1).length,
+    [visible.nodes]
+  );
+  const titleOf = (noteId: string) =>
+    graph.notes.find((n) => n.id === noteId)?.title || "Untitled";
+
+  if (graph.nodes.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-center">
+        <Network size={36} className="text-gray-500 mb-4" />
+        <p className="text-gray-500 text-sm font-sans">
+          Finished guides' topic maps will appear here as one network
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-20rem)] min-h-[480px] rounded-2xl border border-white/[0.04] overflow-hidden bg-[#030406]">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 px-5 py-3 border-b border-white/[0.04]">
+        <select
+          value={noteFilter}
+          onChange={(e) => setNoteFilter(e.target.value)}
+          className={SELECT_CLASS}
+        >
+          <option value="">All guides</option>
+          {graph.notes.map((note) => (
+            <option key={note.id} value={note.id}>
+              {note.title}
+            </option>
+          ))}
+        </select>
+        <select
+          value={specialtyFilter}
+          onChange={(e) => setSpecialtyFilter(e.target.value)}
+          className={SELECT_CLASS}
+          title="Specialties come from mapped terminology codes"
+        >
+          <option value="">All specialties</option>
+          {specialties.map((specialty) => (
+            <option key={specialty} value={specialty}>
+              {specialty}
+            </option>
+          ))}
+          <option value={UNCLASSIFIED}>Unclassified (not mapped)</option>
+        </select>
+        <span className="ml-auto text-[10px] font-mono text-gray-500">
+          {visible.nodes.length} concepts • {visible.links.length} links •{" "}
+          {shared} in 2+ guides
+        </span>
+      </div>
+
+      <div className="relative flex-1 min-h-0">
+        {visible.nodes.length > 0 ? (
+          <KnowledgeGraph
+            data={visible}
+            onNodeSelect={(node) => setSelectedId(node?.id ?? null)}
+            selectedNodeId={selected?.id}
+            inspectorOpen={!!selected}
+            className="w-full h-full"
+          />
+        ) : (
+          <p className="p-10 text-center text-sm text-gray-500">
+            No concepts match these filters.
+          </p>
+        )}
+
+        {/* Guides covering the selected concept */}
+        {selected && (
+          <ConceptPanel
+            node={selected}
+            titleOf={titleOf}
+            onOpenGuide={onOpenGuide}
+            onClose={() => setSelectedId(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+});
+
+const ConceptPanel: React.FC<{
+  node: LibraryNode;
+  titleOf: (noteId: string) => string;
+  onOpenGuide: Props["onOpenGuide"];
+  onClose: () => void;
+}> = ({ node, titleOf, onOpenGuide, onClose }) => (
+  <div className="absolute top-20 right-4 z-20 w-80 max-h-[calc(100%-6rem)] overflow-y-auto bg-black/80 backdrop-blur-xl border border-white/[0.08] rounded-xl shadow-2xl p-5 space-y-4 text-[11px] text-gray-300">
+    <div className="flex items-start justify-between gap-3">
+      <h3 className="text-base font-serif text-serum-white">{node.label}</h3>
+      <button
+        onClick={onClose}
+        className="text-gray-500 hover:text-white shrink-0"
+        title="Close"
+      >
+        <X size={14} />
+      </button>
+    </div>
+    {node.description && (
+      <p className="leading-relaxed text-gray-400">{node.description}</p>
+    )}
+    {node.synonyms && node.synonyms.length > 0 && (
+      <p className="text-gray-500">Also called {node.synonyms.join(", ")}</p>
+    )}
+    {node.codes && node.codes.length > 0 && (
+      <div className="flex flex-wrap gap-1.5">
+        {node.codes.map((code) => (
+          <span
+            key={`${code.system}:${code.code}`}
+            className="px-2 py-0.5 rounded border border-white/[0.08] font-mono text-[10px] text-gray-400"
+            title={code.display}
+          >
+            {TERMINOLOGY_SYSTEM_LABELS[code.system]} {code.code}
+          </span>
+        ))}
+      </div>
+    )}
+
+    <div className="pt-3 border-t border-white/[0.06] space-y-2">
+      <div className="flex items-center gap-2 text-gray-500">
+        <Library size={11} />
+        Covered in {node.noteIds.length} guide
+        {node.noteIds.length === 1 ? "" : "s"}
+      </div>
+      {node.sources.map((source) => (
+        <button
+          key={`${source.noteId}/${source.nodeId}`}
+          onClick={() => onOpenGuide(source.noteId, source.nodeId)}
+          className="w-full flex items-center gap-2 px-3 py-2 rounded-lg border border-clinical-cyan/20 text-clinical-cyan/90 hover:bg-clinical-cyan/10 transition-all text-left"
+        >
+          <BookOpen size={12} className="shrink-0" />
+          <span className="truncate">{titleOf(source.noteId)}</span>
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default LibraryGraphView;
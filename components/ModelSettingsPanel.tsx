@@ -0,0 +1,246 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * SYNAPSE MED — MODEL SETTINGS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Settings tab for per-task model choice and generation parameters, plus the
+ * guide-length preset. Empty fields use the defaults; out-of-range values are
+ * flagged here and block saving. Model names are kept per backend: one typed
+ * for Gemini is shown but not used while a local endpoint is selected.
+ */
+
+import React from "react";
+import { SlidersHorizontal, Ruler, RotateCcw } from "lucide-react";
+import {
+  GuideLength,
+  LLMProviderType,
+  ModelTask,
+  TaskModelSettings,
+  UserProfile,
+} from "../types";
+import {
+  DEFAULT_TASK_SETTINGS,
+  GUIDE_LENGTH_PRESETS,
+  MODEL_TASK_LABELS,
+  TASK_SETTING_LIMITS,
+  validateTaskSettings,
+} from "../services/modelSettings";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPONENT PROPS
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface ModelSettingsPanelProps {
+  taskSettings?: UserProfile["taskSettings"]; // Profile overrides (unsaved edits)
+  guideLength?: GuideLength;
+  defaultModel: string; // Model configured on the API Key tab
+  provider: LLMProviderType; // Backend selected on the API Key tab
+  onTaskSettingsChange: (taskSettings: UserProfile["taskSettings"]) => void;
+  onGuideLengthChange: (guideLength: GuideLength) => void;
+}
+
+const NUMBER_FIELDS: {
+  key: "temperature" | "thinkingBudget" | "maxOutputTokens";
+  label: string;
+  step: string;
+}[] = [
+  { key: "temperature", label: "Temp", step: "0.05" },
+  { key: "thinkingBudget", label: "Thinking", step: "1024" },
+  { key: "maxOutputTokens", label: "Max out", step: "1024" },
+];
+
+const FIELD_LABELS: Record<keyof TaskModelSettings, string> = {
+  model: "Model",
+  modelProvider: "Model backend",
+  temperature: "Temperature",
+  thinkingBudget: "Thinking budget",
+  maxOutputTokens: "Max output tokens",
+};
+
+const TASKS = Object.keys(MODEL_TASK_LABELS) as ModelTask[];
+
+const PROVIDER_LABELS: Record<LLMProviderType, string> = {
+  gemini: "Gemini",
+  "openai-compatible": "the OpenAI-compatible endpoint",
+  demo: "demo mode",
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const ModelSettingsPanel: React.FC<ModelSettingsPanelProps> = ({
+  taskSettings,
+  guideLength,
+  defaultModel,
+  provider,
+  onTaskSettingsChange,
+  onGuideLengthChange,
+}) => {
+  const issues = validateTaskSettings(taskSettings);
+  const issueFor = (task: ModelTask, field: keyof TaskModelSettings) =>
+    issues.find((i) => i.task === task && i.field === field);
+
+  // Empty input removes the override so the default applies again
+  const updateField = (
+    task: ModelTask,
+    field: keyof TaskModelSettings,
+    raw: string
+  ) => {
+    const { [field]: _previous, ...rest } = taskSettings?.[task] || {};
+    const value =
+      raw.trim() === ""
+        ? undefined
+        : field === "model"
+        ? raw.trim()
+        : Number(raw);
+    let next: TaskModelSettings =
+      value === undefined ? rest : { ...rest, [field]: value };
+    // A model name belongs to the backend it was typed for
+    if (field === "model") {
+      const { modelProvider: _backend, ...others } = next;
+      next =
+        value === undefined ? others : { ...others, modelProvider: provider };
+    }
+
+    const { [task]: _task, ...others } = taskSettings || {};
+    onTaskSettingsChange(
+      Object.keys(next).length > 0 ? { ...others, [task]: next } : others
+    );
+  };
+
+  const selectedLength = guideLength || "standard";
+
+  return (
+    <div className="space-y-8">
+      {/* Guide length */}
+      <div className="space-y-3">
+        <label className="text-sm font-semibold text-serum-white flex items-center gap-2">
+          <Ruler className="w-4 h-4 text-vital-cyan" />
+          Guide length
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(GUIDE_LENGTH_PRESETS) as GuideLength[]).map((id) => {
+            const preset = GUIDE_LENGTH_PRESETS[id];
+            const isSelected = selectedLength === id;
+            return (
+              <button
+                key={id}
+                onClick={() => onGuideLengthChange(id)}
+                className={`p-3 rounded-xl border text-left transition-all ${
+                  isSelected
+                    ? "border-vital-cyan/40 bg-vital-cyan/10"
+                    : "border-white/[0.06] bg-white/[0.02] hover:border-white/[0.12]"
+                }`}
+              >
+                <div
+                  className={`text-sm font-medium ${
+                    isSelected ? "text-vital-cyan" : "text-serum-white"
+                  }`}
+                >
+                  {preset.label}
+                </div>
+                <div className="text-[11px] text-clinical-text/50 mt-0.5">
+                  {preset.description}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Per-task settings */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-semibold text-serum-white flex items-center gap-2">
+            <SlidersHorizontal className="w-4 h-4 text-synapse-amber" />
+            Models per task
+          </label>
+          <button
+            onClick={() => onTaskSettingsChange({})}
+            className="flex items-center gap-1.5 text-[11px] text-clinical-text/40 hover:text-clinical-text/80 transition-colors"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Defaults
+          </button>
+        </div>
+
+        <div className="rounded-xl border border-white/[0.05] divide-y divide-white/[0.04]">
+          {TASKS.map((task) => {
+            const overrides = taskSettings?.[task] || {};
+            const defaults = DEFAULT_TASK_SETTINGS[task];
+            const modelBackend = overrides.modelProvider || "gemini";
+            const taskIssues = issues.filter((i) => i.task === task);
+
+            return (
+              <div key={task} className="px-4 py-3 space-y-2">
+                <div className="flex items-baseline justify-between gap-3">
+                  <span className="text-xs font-medium text-serum-white">
+                    {MODEL_TASK_LABELS[task].label}
+                  </span>
+                  <span className="text-[11px] text-clinical-text/40 truncate">
+                    {MODEL_TASK_LABELS[task].description}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={overrides.model ?? ""}
+                    onChange={(e) => updateField(task, "model", e.target.value)}
+                    placeholder={defaultModel}
+                    title="Model"
+                    className={`flex-1 min-w-0 px-2 py-1.5 rounded-lg bg-white/[0.03] border text-xs font-mono text-serum-white focus:outline-none ${
+                      issueFor(task, "model")
+                        ? "border-tissue-rose/50"
+                        : "border-white/[0.08] focus:border-vital-cyan/40"
+                    }`}
+                  />
+                  {NUMBER_FIELDS.map(({ key, label, step }) => (
+                    <input
+                      key={key}
+                      type="number"
+                      min={TASK_SETTING_LIMITS[key].min}
+                      max={TASK_SETTING_LIMITS[key].max}
+                      step={step}
+                      value={overrides[key] ?? ""}
+                      onChange={(e) => updateField(task, key, e.target.value)}
+                      placeholder={
+                        defaults[key] !== undefined
+                          ? `${label} ${defaults[key]}`
+                          : `${label} auto`
+                      }
+                      title={label}
+                      className={`w-24 px-2 py-1.5 rounded-lg bg-white/[0.03] border text-xs font-mono text-serum-white focus:outline-none ${
+                        issueFor(task, key)
+                          ? "border-tissue-rose/50"
+                          : "border-white/[0.08] focus:border-vital-cyan/40"
+                      }`}
+                    />
+                  ))}
+                </div>
+                {overrides.model && modelBackend !== provider && (
+                  <p className="text-[11px] text-synapse-amber/80">
+                    Set for {PROVIDER_LABELS[modelBackend]} - {defaultModel} is
+                    used until you switch back or enter a model here.
+                  </p>
+                )}
+                {taskIssues.map((issue) => (
+                  <p key={issue.field} className="text-[11px] text-tissue-rose">
+                    {FIELD_LABELS[issue.field]}: {issue.message}
+                  </p>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <p className="text-[11px] text-clinical-text/40">
+          Leave a field empty to use the default shown. Thinking 0 turns
+          thinking off; models without thinking support ignore it.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettingsPanel;
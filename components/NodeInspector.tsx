@@ -1,4 +1,10 @@
-import React, { useState, useMemo, useCallback, memo } from "react";
+import React, {
+  useState,
+  useMemo,
+  useCallback,
+  useEffect,
+  memo,
+} from "react";
 import {
   X,
   Search,
@@ -22,14 +28,54 @@ import {
   Lightbulb,
   FileText,
   Microscope,
+  BookMarked,
+  Library,
+  PencilLine,
+  Trash2,
+  GitBranchPlus,
+  Loader2,
+  RotateCcw,
 } from "lucide-react";
 import { KnowledgeNode, KnowledgeGraphData } from "../types";
+import type { GraphEdit } from "../services/graphEditing";
+import {
+  EXPANSION_CATEGORY_LABELS,
+  type NodeExpansion,
+} from "../services/graphExpansion";
+import {
+  NUMERIC_FINDING_LABELS,
+  findingsForNode,
+  type NumericFinding,
+} from "../services/numericClaims";
+import {
+  LAB_UNIT_SYSTEM_LABELS,
+  REFERENCE_STATUS_LABELS,
+  compareToReference,
+  convertLab,
+  formatLabRange,
+  parseLabValues,
+  referenceRange,
+  unitSystemOf,
+  type LabUnitSystem,
+  type ReferenceStatus,
+} from "../services/labValues";
+import {
+  TERMINOLOGY_SYSTEM_LABELS,
+  atcClassOf,
+} from "../services/terminology";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 
 interface Props {
   node: KnowledgeNode | null;
   graphData: KnowledgeGraphData;
+  numericFindings?: NumericFinding[]; // Dose/value checks across the note
+  conceptNotes?: { id: string; title: string }[]; // Other notes with this concept
+  onOpenNote?: (noteId: string) => void;
+  onEdit?: (edit: GraphEdit) => void; // Absent = read-only (e.g. while drafting)
+  expansion?: NodeExpansion; // Suggested neighbours, shown on their node
+  onExpand?: (nodeId: string) => void;
+  onResolveCandidates?: (ids: string[], accept: boolean) => void;
   onClose: () => void;
   onNodeClick: (nodeId: string) => void;
 }
@@ -58,6 +104,27 @@ const getColor = (group: number) => COLOR_MAP[group] || DEFAULT_COLOR;
 const getIconComponent = (group: number) => ICON_MAP[group] || Circle;
 const getLabel = (group: number) => LABEL_MAP[group] || "Entity";
 
+// Inspector edit form; synonyms are comma-separated while typing
+interface NodeDraft {
+  label: string;
+  group: number;
+  description: string;
+  synonyms: string;
+  clinicalPearl: string;
+  details: string;
+}
+
+const EDIT_INPUT_CLASS =
+  "w-full px-3 py-2 rounded-lg bg-white/[0.03] border border-white/[0.08] text-[13px] text-white focus:outline-none focus:border-white/20";
+
+const REFERENCE_STATUS_COLORS: Record<ReferenceStatus, string> = {
+  matches: "text-clinical-teal border-clinical-teal/30",
+  within: "text-gray-300 border-white/15",
+  above: "text-tissue-rose border-tissue-rose/30",
+  below: "text-tissue-rose border-tissue-rose/30",
+  differs: "text-synapse-amber border-synapse-amber/30",
+};
+
 // Memoized ReactMarkdown components (stable references)
 const markdownComponents = {
   p: ({ children }: any) => <p className="mb-4 text-gray-100">{children}</p>,
@@ -70,6 +137,13 @@ const markdownComponents = {
 const NodeInspector: React.FC<Props> = memo(({
   node,
   graphData,
+  numericFindings,
+  conceptNotes,
+  onOpenNote,
+  onEdit,
+  expansion,
+  onExpand,
+  onResolveCandidates,
   onClose,
   onNodeClick,
 }) => {
@@ -89,6 +163,70 @@ const NodeInspector: React.FC<Props> = memo(({
     return { outgoingLinks: outgoing, incomingLinks: incoming, connectionCount: outgoing.length + incoming.length };
   }, [node?.id, graphData.links]);
 
+  // Lab values shown as written until a unit system is picked
+  const [labUnits, setLabUnits] = useState<LabUnitSystem | null>(null);
+  const labs = useMemo(
+    () => parseLabValues(node?.labValues),
+    [node?.labValues]
+  );
+
+  const nodeFindings = useMemo(
+    () => (node && numericFindings ? findingsForNode(numericFindings, node.id) : []),
+    [node?.id, numericFindings]
+  );
+
+  // Edit form - closed whenever another node is shown
+  const [draft, setDraft] = useState<NodeDraft | null>(null);
+  useEffect(() => setDraft(null), [node?.id]);
+
+  const startEditing = () => {
+    if (!node) return;
+    setDraft({
+      label: node.label,
+      group: node.group,
+      description: node.description || "",
+      synonyms: (node.synonyms || []).join(", "),
+      clinicalPearl: node.clinicalPearl || "",
+      details: node.details || "",
+    });
+  };
+
+  const saveDraft = () => {
+    if (!node || !draft || !onEdit || !draft.label.trim()) return;
+    onEdit({
+      type: "update-node",
+      id: node.id,
+      changes: {
+        label: draft.label,
+        group: draft.group,
+        description: draft.description.trim() || undefined,
+        synonyms: draft.synonyms.split(","),
+        clinicalPearl: draft.clinicalPearl.trim() || undefined,
+        details: draft.details.trim() || undefined,
+      },
+    });
+    setDraft(null);
+  };
+
+  const deleteNode = () => {
+    if (!node || !onEdit) return;
+    if (
+      !confirm(
+        `Delete "${node.label}" and its ${connectionCount} link${
+          connectionCount === 1 ? "" : "s"
+        }? You can undo this from the graph toolbar.`
+      )
+    ) {
+      return;
+    }
+    onEdit({ type: "delete-node", id: node.id });
+  };
+
+  const nodeExpansion =
+    node && expansion?.anchorId === node.id ? expansion : undefined;
+  const labelOf = (id: string) =>
+    graphData.nodes.find((n) => n.id === id)?.label || id;
+
   // Memoize color and icon lookups
   const colors = useMemo(() => node ? getColor(node.group) : DEFAULT_COLOR, [node?.group]);
   const IconComponent = useMemo(() => node ? getIconComponent(node.group) : Circle, [node?.group]);
@@ -125,12 +263,54 @@ const NodeInspector: React.FC<Props> = memo(({
                 {nodeLabel}
               </span>
             </div>
-            <button
-              onClick={onClose}
-              className="p-2 text-gray-300 hover:text-white hover:bg-white/5 rounded-lg transition-all"
-            >
-              <X size={16} />
-            </button>
+            {nodeFindings.length > 0 && (
+              <button
+                onClick={() => setActiveSection("details")}
+                className="ml-2 mr-auto inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded-md border border-tissue-rose/30 bg-tissue-rose/10 text-tissue-rose"
+              >
+                <AlertTriangle size={11} />
+                <span className="text-[9px] font-black tracking-widest uppercase">
+                  {nodeFindings.length} value check
+                  {nodeFindings.length === 1 ? "" : "s"}
+                </span>
+              </button>
+            )}
+            <div className="flex items-center gap-1">
+              {onEdit && !draft && (
+                <>
+                  {onExpand && (
+                    <button
+                      onClick={() => onExpand(node.id)}
+                      disabled={expansion?.status === "loading"}
+                      className="p-2 text-gray-300 hover:text-white hover:bg-white/5 rounded-lg transition-all disabled:opacity-40"
+                      title="Expand: suggest neighbours for this node"
+                    >
+                      <GitBranchPlus size={16} />
+                    </button>
+                  )}
+                  <button
+                    onClick={startEditing}
+                    className="p-2 text-gray-300 hover:text-white hover:bg-white/5 rounded-lg transition-all"
+                    title="Edit node"
+                  >
+                    <PencilLine size={16} />
+                  </button>
+                  <button
+                    onClick={deleteNode}
+                    className="p-2 text-gray-300 hover:text-tissue-rose hover:bg-tissue-rose/10 rounded-lg transition-all"
+                    title="Delete node"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={onClose}
+                className="p-2 text-gray-300 hover:text-white hover:bg-white/5 rounded-lg transition-all"
+              >
+                <X size={16} />
+              </button>
+            </div>
           </div>
 
           <h2 className="text-4xl font-sans font-medium text-white leading-tight tracking-tight mb-3">
@@ -158,6 +338,64 @@ const NodeInspector: React.FC<Props> = memo(({
             </div>
           )}
 
+          {/* Standard codes */}
+          {node.codes && node.codes.length > 0 && (
+            <div className="flex items-center gap-2 mt-3 flex-wrap">
+              <BookMarked size={11} className="text-gray-400" />
+              {node.codes.map((code) => {
+                const drugClass =
+                  code.system === "ATC" ? atcClassOf(code.code) : undefined;
+                return (
+                  <span
+                    key={`${code.system}:${code.code}`}
+                    title={`${code.display}${
+                      drugClass && drugClass !== code.display
+                        ? ` · ${drugClass}`
+                        : ""
+                    }${
+                      code.match === "fuzzy"
+                        ? ` · fuzzy match (${Math.round(code.score * 100)}%)`
+                        : ""
+                    }`}
+                    className={`text-[11px] px-2 py-1 rounded border font-mono ${
+                      code.match === "exact"
+                        ? "bg-white/5 border-white/10 text-gray-200"
+                        : "bg-white/[0.02] border-dashed border-white/15 text-gray-400"
+                    }`}
+                  >
+                    <span className="text-gray-500">
+                      {TERMINOLOGY_SYSTEM_LABELS[code.system]}
+                    </span>{" "}
+                    {code.code}
+                    {drugClass && drugClass !== code.display && (
+                      <span className="font-sans text-gray-400">
+                        {" "}
+                        · {drugClass}
+                      </span>
+                    )}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Same concept in other notes */}
+          {conceptNotes && conceptNotes.length > 0 && (
+            <div className="flex items-center gap-2 mt-3 flex-wrap">
+              <Library size={11} className="text-gray-400" />
+              <span className="text-[11px] text-gray-500">Also in</span>
+              {conceptNotes.map((note) => (
+                <button
+                  key={note.id}
+                  onClick={() => onOpenNote?.(note.id)}
+                  className="text-[11px] px-2 py-1 rounded border border-clinical-cyan/20 text-clinical-cyan/90 hover:bg-clinical-cyan/10 transition-all truncate max-w-[200px]"
+                >
+                  {note.title}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Stats */}
           <div className="grid grid-cols-3 gap-4 mt-6 pt-5 border-t border-white/[0.06]">
             <div>
@@ -220,8 +458,237 @@ const NodeInspector: React.FC<Props> = memo(({
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto px-6 py-5 space-y-6">
-          {activeSection === "details" && (
+          {/* Expansion suggestions */}
+          {nodeExpansion && !draft && (
+            <div className="p-4 rounded-lg border border-dashed border-amber-400/30 bg-amber-400/[0.04] space-y-3">
+              <div className="flex items-center gap-2">
+                <GitBranchPlus size={15} className="text-amber-400" />
+                <span className="text-[11px] font-bold text-amber-300 uppercase tracking-wider">
+                  Suggested Neighbours
+                </span>
+                {nodeExpansion.status === "ready" && (
+                  <span className="ml-auto text-[10px] text-gray-400">
+                    {nodeExpansion.candidates.length} to review
+                  </span>
+                )}
+              </div>
+
+              {nodeExpansion.status === "loading" && (
+                <p className="flex items-center gap-2 text-[13px] text-gray-300">
+                  <Loader2 size={13} className="animate-spin" />
+                  Asking the model for complications, differentials,
+                  mechanisms and drugs…
+                </p>
+              )}
+
+              {nodeExpansion.status === "failed" && (
+                <div className="flex items-center gap-2 text-[13px] text-tissue-rose">
+                  <AlertTriangle size={13} />
+                  <span className="flex-1">{nodeExpansion.error}</span>
+                  <button
+                    onClick={() => onExpand?.(node.id)}
+                    className="flex items-center gap-1 text-[11px] text-gray-300 hover:text-white"
+                  >
+                    <RotateCcw size={11} />
+                    Retry
+                  </button>
+                </div>
+              )}
+
+              {nodeExpansion.status === "ready" &&
+                nodeExpansion.candidates.length === 0 && (
+                  <p className="text-[13px] text-gray-400">
+                    No new neighbours were suggested for this node.
+                  </p>
+                )}
+
+              {nodeExpansion.candidates.map((candidate) => (
+                <div
+                  key={candidate.id}
+                  className="p-3 rounded-lg border border-dashed border-white/10 bg-black/30 space-y-1.5"
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-[9px] font-bold uppercase tracking-widest text-amber-300/80">
+                      {EXPANSION_CATEGORY_LABELS[candidate.category]}
+                    </span>
+                    {!candidate.node && (
+                      <span className="text-[9px] uppercase tracking-widest text-gray-500">
+                        Link only
+                      </span>
+                    )}
+                    <div className="ml-auto flex items-center gap-1">
+                      <button
+                        onClick={() =>
+                          onResolveCandidates?.([candidate.id], true)
+                        }
+                        className="p-1.5 rounded-md text-clinical-teal hover:bg-clinical-teal/10"
+                        title="Accept"
+                      >
+                        <Check size={13} />
+                      </button>
+                      <button
+                        onClick={() =>
+                          onResolveCandidates?.([candidate.id], false)
+                        }
+                        className="p-1.5 rounded-md text-gray-400 hover:text-tissue-rose hover:bg-tissue-rose/10"
+                        title="Reject"
+                      >
+                        <X size={13} />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="text-[14px] text-gray-100">
+                    {candidate.node?.label ||
+                      labelOf(
+                        candidate.link.source === node.id
+                          ? candidate.link.target
+                          : candidate.link.source
+                      )}
+                  </div>
+                  <div className="text-[10px] text-gray-400 font-mono uppercase">
+                    {[candidate.link.source, candidate.link.target]
+                      .map((id) =>
+                        candidate.node?.id === id
+                          ? candidate.node.label
+                          : labelOf(id)
+                      )
+                      .join(` → ${candidate.link.relationship} → `)}
+                  </div>
+                  {candidate.node?.description && (
+                    <p className="text-[13px] text-gray-300 leading-relaxed">
+                      {candidate.node.description}
+                    </p>
+                  )}
+                </div>
+              ))}
+
+              {nodeExpansion.status !== "loading" && (
+                <div className="flex justify-end gap-2 text-[11px]">
+                  {nodeExpansion.candidates.length > 1 && (
+                    <button
+                      onClick={() =>
+                        onResolveCandidates?.(
+                          nodeExpansion.candidates.map((c) => c.id),
+                          true
+                        )
+                      }
+                      className="px-3 py-1 rounded-lg bg-clinical-teal/15 text-clinical-teal"
+                    >
+                      Accept all
+                    </button>
+                  )}
+                  <button
+                    onClick={() =>
+                      onResolveCandidates?.(
+                        nodeExpansion.candidates.map((c) => c.id),
+                        false
+                      )
+                    }
+                    className="px-3 py-1 rounded-lg text-gray-400 hover:text-white"
+                  >
+                    {nodeExpansion.candidates.length > 0
+                      ? "Reject all"
+                      : "Dismiss"}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {draft && (
+            <div className="space-y-4">
+              {[
+                { key: "label", label: "Label" },
+                { key: "description", label: "Summary" },
+                { key: "synonyms", label: "Synonyms (comma-separated)" },
+                { key: "clinicalPearl", label: "High-Yield Pearl" },
+              ].map(({ key, label }) => (
+                <label key={key} className="block space-y-1.5">
+                  <span className="text-[10px] text-gray-400 uppercase tracking-widest">
+                    {label}
+                  </span>
+                  <input
+                    value={draft[key as keyof NodeDraft]}
+                    onChange={(e) =>
+                      setDraft({ ...draft, [key]: e.target.value })
+                    }
+                    className={EDIT_INPUT_CLASS}
+                  />
+                </label>
+              ))}
+              <label className="block space-y-1.5">
+                <span className="text-[10px] text-gray-400 uppercase tracking-widest">
+                  Type
+                </span>
+                <select
+                  value={draft.group}
+                  onChange={(e) =>
+                    setDraft({ ...draft, group: Number(e.target.value) })
+                  }
+                  className={`${EDIT_INPUT_CLASS} bg-black`}
+                >
+                  {Object.entries(LABEL_MAP).map(([group, label]) => (
+                    <option key={group} value={group}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block space-y-1.5">
+                <span className="text-[10px] text-gray-400 uppercase tracking-widest">
+                  In-Depth Analysis (markdown)
+                </span>
+                <textarea
+                  value={draft.details}
+                  onChange={(e) =>
+                    setDraft({ ...draft, details: e.target.value })
+                  }
+                  rows={10}
+                  className={`${EDIT_INPUT_CLASS} resize-y font-mono text-[12px]`}
+                />
+              </label>
+              <div className="flex justify-end gap-2 text-[11px]">
+                <button
+                  onClick={() => setDraft(null)}
+                  className="px-3 py-1.5 rounded-lg text-gray-400 hover:text-white"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={saveDraft}
+                  disabled={!draft.label.trim()}
+                  className={`px-3 py-1.5 rounded-lg border ${colors.border}/30 ${colors.text} bg-white/[0.04] disabled:opacity-40`}
+                >
+                  Save changes
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!draft && activeSection === "details" && (
             <>
+              {/* Numeric checks */}
+              {nodeFindings.length > 0 && (
+                <div className="p-4 rounded-lg bg-gradient-to-r from-tissue-rose/10 to-transparent border border-tissue-rose/20 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle size={15} className="text-tissue-rose" />
+                    <span className="text-[11px] font-bold text-tissue-rose uppercase tracking-wider">
+                      Check These Values
+                    </span>
+                  </div>
+                  {nodeFindings.map((finding) => (
+                    <div key={finding.id} className="space-y-1">
+                      <span className="text-[10px] font-bold text-tissue-rose/80 uppercase tracking-widest">
+                        {NUMERIC_FINDING_LABELS[finding.kind]}
+                      </span>
+                      <p className="text-[14px] text-gray-100 leading-relaxed">
+                        {finding.message}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Clinical Pearl */}
               {node.clinicalPearl && (
                 <div className="p-4 rounded-lg bg-gradient-to-r from-amber-500/10 to-transparent border border-amber-500/20">
@@ -281,6 +748,90 @@ const NodeInspector: React.FC<Props> = memo(({
                 </div>
               )}
 
+              {/* Lab Values */}
+              {labs.length > 0 && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-[11px] font-bold text-gray-300 uppercase tracking-widest flex items-center gap-2">
+                      <TestTube size={13} className="text-clinical-cyan" />
+                      Lab Values
+                    </h4>
+                    <div className="flex items-center gap-1 text-[10px]">
+                      {(["conventional", "si"] as LabUnitSystem[]).map(
+                        (system) => (
+                          <button
+                            key={system}
+                            onClick={() =>
+                              setLabUnits(labUnits === system ? null : system)
+                            }
+                            title={
+                              labUnits === system
+                                ? "Show as written"
+                                : `Show in ${LAB_UNIT_SYSTEM_LABELS[system]} units`
+                            }
+                            className={`px-2 py-0.5 rounded border transition-colors ${
+                              labUnits === system
+                                ? "border-clinical-cyan/40 bg-clinical-cyan/10 text-clinical-cyan"
+                                : "border-white/10 text-gray-400 hover:text-gray-200"
+                            }`}
+                          >
+                            {LAB_UNIT_SYSTEM_LABELS[system]}
+                          </button>
+                        )
+                      )}
+                    </div>
+                  </div>
+                  <div className="divide-y divide-white/[0.05] rounded-lg border border-white/[0.06] bg-white/[0.02]">
+                    {labs.map((lab, i) => {
+                      const shown = labUnits ? convertLab(lab, labUnits) : lab;
+                      const status = compareToReference(lab);
+                      // Unparsed labs show their note as the value
+                      const note =
+                        lab.low !== undefined || lab.high !== undefined
+                          ? lab.note
+                          : undefined;
+                      const reference =
+                        lab.reference &&
+                        referenceRange(
+                          lab.reference,
+                          labUnits || unitSystemOf(lab) || "conventional"
+                        );
+                      return (
+                        <div key={i} className="px-3 py-2.5 space-y-1">
+                          <div className="flex items-baseline justify-between gap-3">
+                            <span className="text-[13px] text-gray-200">
+                              {lab.analyte}
+                            </span>
+                            <span className="text-[13px] font-mono text-white">
+                              {formatLabRange(shown)}
+                            </span>
+                          </div>
+                          {(reference || status || note) && (
+                            <div className="flex items-center gap-2 text-[10px] text-gray-500">
+                              {note && <span className="italic">{note}</span>}
+                              {reference && (
+                                <span className="ml-auto font-mono">
+                                  Ref {formatLabRange(reference)}
+                                </span>
+                              )}
+                              {status && (
+                                <span
+                                  className={`px-1.5 py-0.5 rounded border ${
+                                    REFERENCE_STATUS_COLORS[status]
+                                  } ${reference ? "" : "ml-auto"}`}
+                                >
+                                  {REFERENCE_STATUS_LABELS[status]}
+                                </span>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* Differentials */}
               {node.differentials && node.differentials.length > 0 && (
                 <div className="space-y-3">
@@ -302,7 +853,7 @@ const NodeInspector: React.FC<Props> = memo(({
             </>
           )}
 
-          {activeSection === "network" && (
+          {!draft && activeSection === "network" && (
             <>
               {outgoingLinks.length > 0 && (
                 <div className="space-y-4">
@@ -322,27 +873,39 @@ const NodeInspector: React.FC<Props> = memo(({
                       if (!targetNode) return null;
                       const targetColors = getColor(targetNode.group);
                       return (
-                        <button
-                          key={i}
-                          onClick={() => onNodeClick(targetNode.id)}
-                          className="w-full group flex items-center gap-3 p-3 rounded-lg bg-white/[0.02] hover:bg-white/[0.06] border border-white/[0.04] hover:border-white/[0.1] transition-all text-left"
-                        >
-                          <div
-                            className={`w-1.5 h-8 rounded-full ${targetColors.bg}/50`}
-                          />
-                          <div className="flex-1 min-w-0">
-                            <div className="text-[10px] text-gray-400 font-mono uppercase">
-                              {link.relationship}
-                            </div>
-                            <div className="text-[15px] text-gray-100 group-hover:text-white truncate">
-                              {targetNode.label}
+                        <div key={i} className="flex items-center gap-2">
+                          <button
+                            onClick={() => onNodeClick(targetNode.id)}
+                            className="flex-1 min-w-0 group flex items-center gap-3 p-3 rounded-lg bg-white/[0.02] hover:bg-white/[0.06] border border-white/[0.04] hover:border-white/[0.1] transition-all text-left"
+                          >
+                            <div
+                              className={`w-1.5 h-8 rounded-full ${targetColors.bg}/50`}
+                            />
+                            <div className="flex-1 min-w-0">
+                              <div className="text-[10px] text-gray-400 font-mono uppercase">
+                                {link.relationship}
+                              </div>
+                              <div className="text-[15px] text-gray-100 group-hover:text-white truncate">
+                                {targetNode.label}
+                              </div>
                             </div>
-                          </div>
-                          <ChevronRight
-                            size={14}
-                            className="text-gray-500 group-hover:text-white opacity-0 group-hover:opacity-100 transition-all"
-                          />
-                        </button>
+                            <ChevronRight
+                              size={14}
+                              className="text-gray-500 group-hover:text-white opacity-0 group-hover:opacity-100 transition-all"
+                            />
+                          </button>
+                          {onEdit && (
+                            <button
+                              onClick={() =>
+                                onEdit({ type: "delete-link", link })
+                              }
+                              className="p-2 text-gray-500 hover:text-tissue-rose hover:bg-tissue-rose/10 rounded-lg transition-all"
+                              title="Delete link"
+                            >
+                              <Trash2 size={13} />
+                            </button>
+                          )}
+                        </div>
                       );
                     })}
                   </div>
@@ -367,27 +930,39 @@ const NodeInspector: React.FC<Props> = memo(({
                       if (!sourceNode) return null;
                       const sourceColors = getColor(sourceNode.group);
                       return (
-                        <button
-                          key={i}
-                          onClick={() => onNodeClick(sourceNode.id)}
-                          className="w-full group flex items-center gap-3 p-3 rounded-lg bg-white/[0.02] hover:bg-white/[0.06] border border-white/[0.04] hover:border-white/[0.1] transition-all text-left"
-                        >
-                          <div
-                            className={`w-1.5 h-8 rounded-full ${sourceColors.bg}/50`}
-                          />
-                          <div className="flex-1 min-w-0">
-                            <div className="text-[10px] text-gray-400 font-mono uppercase">
-                              {link.relationship}
-                            </div>
-                            <div className="text-[15px] text-gray-100 group-hover:text-white truncate">
-                              {sourceNode.label}
+                        <div key={i} className="flex items-center gap-2">
+                          <button
+                            onClick={() => onNodeClick(sourceNode.id)}
+                            className="flex-1 min-w-0 group flex items-center gap-3 p-3 rounded-lg bg-white/[0.02] hover:bg-white/[0.06] border border-white/[0.04] hover:border-white/[0.1] transition-all text-left"
+                          >
+                            <div
+                              className={`w-1.5 h-8 rounded-full ${sourceColors.bg}/50`}
+                            />
+                            <div className="flex-1 min-w-0">
+                              <div className="text-[10px] text-gray-400 font-mono uppercase">
+                                {link.relationship}
+                              </div>
+                              <div className="text-[15px] text-gray-100 group-hover:text-white truncate">
+                                {sourceNode.label}
+                              </div>
                             </div>
-                          </div>
-                          <ChevronRight
-                            size={14}
-                            className="text-gray-500 group-hover:text-white opacity-0 group-hover:opacity-100 transition-all"
-                          />
-                        </button>
+                            <ChevronRight
+                              size={14}
+                              className="text-gray-500 group-hover:text-white opacity-0 group-hover:opacity-100 transition-all"
+                            />
+                          </button>
+                          {onEdit && (
+                            <button
+                              onClick={() =>
+                                onEdit({ type: "delete-link", link })
+                              }
+                              className="p-2 text-gray-500 hover:text-tissue-rose hover:bg-tissue-rose/10 rounded-lg transition-all"
+                              title="Delete link"
+                            >
+                              <Trash2 size={13} />
+                            </button>
+                          )}
+                        </div>
                       );
                     })}
                   </div>
@@ -402,7 +977,7 @@ const NodeInspector: React.FC<Props> = memo(({
             </>
           )}
 
-          {activeSection === "resources" && (
+          {!draft && activeSection === "resources" && (
             <div className="space-y-4">
               <a
                 href={`https://pubmed.ncbi.nlm.nih.gov/?term=${encodeURIComponent(
@@ -34,9 +34,15 @@ import {
   Heart,
   Coffee,
   Cpu,
+  Sparkles,
 } from "lucide-react";
 import BioBackground from "./BioBackground";
 import { GeminiService } from "../services/geminiService";
+import {
+  DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+  DEFAULT_OPENAI_COMPATIBLE_MODEL,
+} from "../services/llmProvider";
+import { ProfileRepository } from "../src/lib";
 import { isSpecialName, AKSHAYA_BIRTHDAY } from "../utils/specialNameUtils";
 
 interface Props {
@@ -264,6 +270,9 @@ const Onboarding: React.FC<Props> = ({
 
   const [profile, setProfile] = useState<Partial<UserProfile>>({
     apiKey: existingProfile?.apiKey || "",
+    llmProvider: existingProfile?.llmProvider,
+    llmBaseUrl: existingProfile?.llmBaseUrl,
+    llmModel: existingProfile?.llmModel,
     discipline: existingProfile?.discipline || "Medical (MD/DO)",
     level: existingProfile?.level || "Student (Clinical)",
     teachingStyle: existingProfile?.teachingStyle || "Detailed",
@@ -278,6 +287,8 @@ const Onboarding: React.FC<Props> = ({
     learningGoals: existingProfile?.learningGoals || "",
   });
 
+  const usesLocalEndpoint = profile.llmProvider === "openai-compatible";
+
   const [specialtyInput, setSpecialtyInput] = useState("");
 
   const handleNext = () => setStep((p) => Math.min(p + 1, totalSteps));
@@ -1132,56 +1143,94 @@ const Onboarding: React.FC<Props> = ({
                   </div>
                 </div>
 
-                {/* Input Field */}
-                <div className="space-y-3">
-                  <div className="relative group">
-                    <div className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500">
-                      <Key size={14} />
+                {/* Input Field: Gemini key, or a local endpoint instead */}
+                {usesLocalEndpoint ? (
+                  <div className="space-y-3">
+                    <div className="relative group">
+                      <div className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500">
+                        <Cpu size={14} />
+                      </div>
+                      <input
+                        type="text"
+                        placeholder={DEFAULT_OPENAI_COMPATIBLE_BASE_URL}
+                        value={profile.llmBaseUrl || ""}
+                        onChange={(e) =>
+                          setProfile({
+                            ...profile,
+                            llmBaseUrl: e.target.value.trim(),
+                          })
+                        }
+                        className="w-full bg-[#050607] border border-white/10 rounded-xl py-4 pl-11 pr-5 text-sm font-mono text-white placeholder:text-gray-600 focus:outline-none focus:border-vital-cyan/50 transition-all"
+                      />
                     </div>
                     <input
-                      type="password"
-                      placeholder="Paste key starting with AIza..."
-                      value={profile.apiKey || ""}
-                      onChange={(e) => {
-                        setProfile({ ...profile, apiKey: e.target.value });
-                        setKeyValidationResult(null); // Reset validation on change
-                      }}
-                      className={`w-full bg-[#050607] border rounded-xl py-4 pl-11 pr-5 text-sm font-mono text-white placeholder:text-gray-600 focus:outline-none transition-all ${
-                        keyValidationResult?.valid === false
-                          ? "border-red-500/50 focus:border-red-500 focus:shadow-[0_0_20px_rgba(239,68,68,0.1)]"
-                          : keyValidationResult?.valid === true
-                          ? "border-green-500/50 focus:border-green-500 focus:shadow-[0_0_20px_rgba(34,197,94,0.1)]"
-                          : "border-white/10 focus:border-vital-cyan/50 focus:shadow-[0_0_20px_rgba(42,212,212,0.1)]"
-                      }`}
+                      type="text"
+                      placeholder={`Model (${DEFAULT_OPENAI_COMPATIBLE_MODEL})`}
+                      value={profile.llmModel || ""}
+                      onChange={(e) =>
+                        setProfile({
+                          ...profile,
+                          llmModel: e.target.value.trim(),
+                        })
+                      }
+                      className="w-full bg-[#050607] border border-white/10 rounded-xl py-4 px-5 text-sm font-mono text-white placeholder:text-gray-600 focus:outline-none focus:border-vital-cyan/50 transition-all"
                     />
-                    {keyValidationResult?.valid === true && (
-                      <CheckCircle2
-                        size={16}
-                        className="absolute right-4 top-1/2 -translate-y-1/2 text-green-500"
+                    <p className="text-[11px] text-gray-500">
+                      Any OpenAI-compatible server (Ollama, LM Studio, vLLM).
+                      No Google key needed - you can change this in Settings.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <div className="relative group">
+                      <div className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500">
+                        <Key size={14} />
+                      </div>
+                      <input
+                        type="password"
+                        placeholder="Paste key starting with AIza..."
+                        value={profile.apiKey || ""}
+                        onChange={(e) => {
+                          setProfile({ ...profile, apiKey: e.target.value });
+                          setKeyValidationResult(null); // Reset validation on change
+                        }}
+                        className={`w-full bg-[#050607] border rounded-xl py-4 pl-11 pr-5 text-sm font-mono text-white placeholder:text-gray-600 focus:outline-none transition-all ${
+                          keyValidationResult?.valid === false
+                            ? "border-red-500/50 focus:border-red-500 focus:shadow-[0_0_20px_rgba(239,68,68,0.1)]"
+                            : keyValidationResult?.valid === true
+                            ? "border-green-500/50 focus:border-green-500 focus:shadow-[0_0_20px_rgba(34,197,94,0.1)]"
+                            : "border-white/10 focus:border-vital-cyan/50 focus:shadow-[0_0_20px_rgba(42,212,212,0.1)]"
+                        }`}
                       />
-                    )}
+                      {keyValidationResult?.valid === true && (
+                        <CheckCircle2
+                          size={16}
+                          className="absolute right-4 top-1/2 -translate-y-1/2 text-green-500"
+                        />
+                      )}
+                      {keyValidationResult?.valid === false && (
+                        <AlertCircle
+                          size={16}
+                          className="absolute right-4 top-1/2 -translate-y-1/2 text-red-500"
+                        />
+                      )}
+                    </div>
+
                     {keyValidationResult?.valid === false && (
-                      <AlertCircle
-                        size={16}
-                        className="absolute right-4 top-1/2 -translate-y-1/2 text-red-500"
-                      />
+                      <p className="text-[11px] text-red-400 flex items-start gap-1.5 p-2 rounded bg-red-500/5 border border-red-500/10">
+                        <AlertCircle size={12} className="shrink-0 mt-0.5" />
+                        <span>{keyValidationResult.error}</span>
+                      </p>
                     )}
-                  </div>
 
-                  {keyValidationResult?.valid === false && (
-                    <p className="text-[11px] text-red-400 flex items-start gap-1.5 p-2 rounded bg-red-500/5 border border-red-500/10">
-                      <AlertCircle size={12} className="shrink-0 mt-0.5" />
-                      <span>{keyValidationResult.error}</span>
-                    </p>
-                  )}
-
-                  {keyValidationResult?.valid === true && (
-                    <p className="text-[11px] text-green-400 flex items-start gap-1.5 p-2 rounded bg-green-500/5 border border-green-500/10">
-                      <CheckCircle2 size={12} className="shrink-0 mt-0.5" />
-                      API key verified successfully!
-                    </p>
-                  )}
-                </div>
+                    {keyValidationResult?.valid === true && (
+                      <p className="text-[11px] text-green-400 flex items-start gap-1.5 p-2 rounded bg-green-500/5 border border-green-500/10">
+                        <CheckCircle2 size={12} className="shrink-0 mt-0.5" />
+                        API key verified successfully!
+                      </p>
+                    )}
+                  </div>
+                )}
 
                 {/* Footer: Privacy + Support */}
                 <div className="flex items-center justify-between px-2 py-2 text-[10px] text-gray-500">
@@ -1204,6 +1253,16 @@ const Onboarding: React.FC<Props> = ({
                 {/* Continue Button */}
                 <button
                   onClick={async () => {
+                    // A local endpoint needs no Google key
+                    if (usesLocalEndpoint) {
+                      const hasAccess = await ProfileRepository.hasModelAccess({
+                        llm_provider: profile.llmProvider,
+                        api_key: profile.apiKey,
+                      });
+                      if (hasAccess) handleNext();
+                      return;
+                    }
+
                     // Validate API key before proceeding
                     if (!profile.apiKey || !profile.apiKey.startsWith("AIza")) {
                       setKeyValidationResult({
@@ -1225,6 +1284,10 @@ const Onboarding: React.FC<Props> = ({
                       setKeyValidationResult(result);
 
                       if (result.valid) {
+                        // A real key switches a demo profile over to Gemini
+                        if (profile.llmProvider === "demo") {
+                          setProfile({ ...profile, llmProvider: "gemini" });
+                        }
                         // Small delay to show success state before next
                         setTimeout(() => {
                           handleNext();
@@ -1240,8 +1303,8 @@ const Onboarding: React.FC<Props> = ({
                     }
                   }}
                   disabled={
-                    !profile.apiKey ||
-                    !profile.apiKey.startsWith("AIza") ||
+                    (!usesLocalEndpoint &&
+                      (!profile.apiKey || !profile.apiKey.startsWith("AIza"))) ||
                     isValidatingKey
                   }
                   className="w-full py-4 bg-gradient-to-r from-clinical-cyan to-clinical-teal text-white font-semibold rounded-xl flex items-center justify-center gap-2 shadow-lg shadow-clinical-cyan/20 hover:shadow-clinical-cyan/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
@@ -1259,6 +1322,40 @@ const Onboarding: React.FC<Props> = ({
                   )}
                 </button>
 
+                {/* Local endpoint: Ollama, LM Studio and the like */}
+                <button
+                  onClick={() => {
+                    setProfile({
+                      ...profile,
+                      llmProvider: usesLocalEndpoint
+                        ? "gemini"
+                        : "openai-compatible",
+                    });
+                    setKeyValidationResult(null);
+                  }}
+                  className="w-full py-2 text-gray-500 text-sm hover:text-vital-cyan transition-colors flex items-center justify-center gap-1.5"
+                >
+                  <Cpu size={13} />
+                  {usesLocalEndpoint
+                    ? "Use a Google Gemini key instead"
+                    : "Use a local model endpoint instead"}
+                </button>
+
+                {/* Demo mode: explore with recorded fixtures, no key needed */}
+                {!isEditMode && (
+                  <button
+                    onClick={() => {
+                      setProfile({ ...profile, llmProvider: "demo" });
+                      setKeyValidationResult(null);
+                      handleNext();
+                    }}
+                    className="w-full py-2 text-gray-500 text-sm hover:text-vital-cyan transition-colors flex items-center justify-center gap-1.5"
+                  >
+                    <Sparkles size={13} />
+                    Explore in demo mode (no key needed)
+                  </button>
+                )}
+
                 {/* Skip option for edit mode if key already exists */}
                 {isEditMode && existingProfile?.apiKey && (
                   <button
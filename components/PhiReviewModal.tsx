@@ -0,0 +1,288 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * SYNAPSE MED — PHI REVIEW
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Pre-flight review of likely patient identifiers found in staged uploads.
+ * Each finding can be replaced with a placeholder, redacted or kept; nothing
+ * is sent to the model until the learner continues. Instruction-like
+ * passages (possible prompt injection) are listed alongside as warnings.
+ */
+
+import React, { useMemo, useState } from "react";
+import {
+  X,
+  ShieldAlert,
+  FileText,
+  AlertTriangle,
+  Loader2,
+  ArrowRight,
+  MessageSquareWarning,
+} from "lucide-react";
+import {
+  PHI_CATEGORY_LABELS,
+  assignPlaceholders,
+  type PhiDecision,
+  type PhiScan,
+} from "../services/phiScanner";
+import { detectInjection } from "../services/promptSafety";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPONENT PROPS
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface PhiReviewModalProps {
+  scans: PhiScan[];
+  isApplying: boolean;
+  onContinue: (decisions: Record<string, PhiDecision>) => void;
+  onCancel: () => void;
+}
+
+const DECISIONS: { id: PhiDecision; label: string }[] = [
+  { id: "replace", label: "Replace" },
+  { id: "redact", label: "Redact" },
+  { id: "keep", label: "Keep" },
+];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const PhiReviewModal: React.FC<PhiReviewModalProps> = ({
+  scans,
+  isApplying,
+  onContinue,
+  onCancel,
+}) => {
+  const [decisions, setDecisions] = useState<Record<string, PhiDecision>>({});
+  const placeholders = useMemo(() => assignPlaceholders(scans), [scans]);
+
+  const findingIds = useMemo(
+    () => [...new Set(scans.flatMap((s) => s.findings.map((f) => f.id)))],
+    [scans]
+  );
+  const decisionFor = (id: string) => decisions[id] || "replace";
+
+  const setAll = (decision: PhiDecision) =>
+    setDecisions(Object.fromEntries(findingIds.map((id) => [id, decision])));
+
+  const fileCount = scans.filter((s) => s.findings.length > 0).length;
+  const unscannedCount = scans.filter((s) => s.unscannedReason).length;
+
+  const injections = useMemo(
+    () =>
+      new Map(
+        scans.map((s) => [s.source, s.text ? detectInjection(s.text) : []])
+      ),
+    [scans]
+  );
+  const injectionCount = [...injections.values()].reduce(
+    (n, found) => n + found.length,
+    0
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-black/80 backdrop-blur-xl animate-fadeIn">
+      <div className="relative bg-gradient-to-b from-bio-deep to-bio-void border border-white/[0.06] rounded-3xl shadow-2xl w-full max-w-2xl transform animate-scaleIn overflow-hidden max-h-[90vh] flex flex-col">
+        {/* Atmospheric Glows */}
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-synapse-amber/10 rounded-full blur-[120px] pointer-events-none" />
+        <div className="absolute top-0 left-1/2 -translate-x-1/2 w-48 h-px bg-gradient-to-r from-transparent via-synapse-amber/50 to-transparent" />
+
+        {/* Header */}
+        <div className="relative px-8 pt-8 pb-6 border-b border-white/[0.04]">
+          <button
+            onClick={onCancel}
+            disabled={isApplying}
+            className="absolute top-6 right-6 p-2 rounded-xl text-gray-500 hover:text-white hover:bg-white/5 transition-all disabled:opacity-50"
+          >
+            <X size={20} />
+          </button>
+
+          <div className="flex items-center gap-4">
+            <div className="w-14 h-14 rounded-2xl bg-gradient-to-br from-synapse-amber/15 to-tissue-rose/10 border border-synapse-amber/20 flex items-center justify-center">
+              <ShieldAlert size={24} className="text-synapse-amber" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-2xl font-serif italic text-serum-white">
+                {findingIds.length > 0
+                  ? "Review Patient Identifiers"
+                  : "Review Uploaded Content"}
+              </h2>
+              <p className="text-sm text-gray-500 mt-1 font-sans">
+                {[
+                  findingIds.length > 0 &&
+                    `${findingIds.length} possible identifier${
+                      findingIds.length === 1 ? "" : "s"
+                    } in ${fileCount} file${fileCount === 1 ? "" : "s"}.`,
+                  injectionCount > 0 &&
+                    `${injectionCount} instruction-like passage${
+                      injectionCount === 1 ? "" : "s"
+                    }.`,
+                  unscannedCount > 0 &&
+                    `${unscannedCount} file${
+                      unscannedCount === 1 ? "" : "s"
+                    } couldn't be scanned.`,
+                  "Nothing has been sent yet.",
+                ]
+                  .filter(Boolean)
+                  .join(" ")}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Scrollable Content */}
+        <div className="flex-1 overflow-y-auto px-8 py-6 custom-scrollbar space-y-6">
+          {findingIds.length > 0 && (
+            <div className="flex items-center gap-2 text-[11px]">
+              <span className="text-gray-500 mr-1">Apply to all:</span>
+              {DECISIONS.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setAll(id)}
+                  className="px-2.5 py-1 rounded-lg border border-white/[0.08] text-gray-300 hover:border-synapse-amber/40 hover:text-synapse-amber transition-colors"
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {scans.map((scan) => {
+            const changesPdf =
+              scan.input?.file.type === "application/pdf" &&
+              scan.findings.some((f) => decisionFor(f.id) !== "keep");
+
+            return (
+              <div key={scan.source}>
+                <h3 className="flex items-center gap-2 text-[10px] font-semibold uppercase tracking-[0.15em] text-gray-500 mb-3">
+                  <FileText size={12} />
+                  <span className="truncate">{scan.source}</span>
+                </h3>
+
+                {scan.unscannedReason ? (
+                  <p className="flex items-start gap-2 p-3 rounded-xl border border-synapse-amber/20 bg-synapse-amber/5 text-[11px] text-synapse-amber">
+                    <AlertTriangle size={13} className="mt-0.5 shrink-0" />
+                    {`Not scanned: ${scan.unscannedReason}. Check it for patient details yourself.`}
+                  </p>
+                ) : scan.findings.length === 0 ? (
+                  <p className="text-xs text-gray-500">No identifiers found.</p>
+                ) : (
+                  <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] divide-y divide-white/[0.04]">
+                    {scan.findings.map((finding) => {
+                      const decision = decisionFor(finding.id);
+                      return (
+                        <div key={finding.id} className="px-4 py-3 space-y-1.5">
+                          <div className="flex items-center gap-3">
+                            <span className="px-2 py-0.5 rounded-md text-[10px] font-medium bg-synapse-amber/10 text-synapse-amber shrink-0">
+                              {PHI_CATEGORY_LABELS[finding.category]}
+                            </span>
+                            <span className="flex-1 min-w-0 text-xs font-mono text-serum-white truncate">
+                              {finding.value}
+                              {finding.occurrences.length > 1 &&
+                                ` ×${finding.occurrences.length}`}
+                            </span>
+                            <div className="flex rounded-lg border border-white/[0.08] overflow-hidden shrink-0">
+                              {DECISIONS.map(({ id, label }) => (
+                                <button
+                                  key={id}
+                                  onClick={() =>
+                                    setDecisions((prev) => ({
+                                      ...prev,
+                                      [finding.id]: id,
+                                    }))
+                                  }
+                                  className={`px-2.5 py-1 text-[10px] font-medium transition-colors ${
+                                    decision === id
+                                      ? "bg-synapse-amber/20 text-synapse-amber"
+                                      : "text-gray-500 hover:text-gray-300"
+                                  }`}
+                                >
+                                  {label}
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                          <p className="text-[11px] text-gray-500 truncate">
+                            {`…${finding.context}…`}
+                          </p>
+                          <p className="text-[10px] text-gray-600">
+                            {decision === "replace"
+                              ? `Sent as ${placeholders.get(finding.id)}`
+                              : decision === "redact"
+                              ? "Sent as [REDACTED]"
+                              : "Sent unchanged"}
+                            {finding.confidence === "medium" &&
+                              " · possible match"}
+                          </p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {(injections.get(scan.source) || []).length > 0 && (
+                  <div className="mt-2 p-3 rounded-xl border border-tissue-rose/20 bg-tissue-rose/5 space-y-2">
+                    <p className="flex items-start gap-2 text-[11px] text-tissue-rose">
+                      <MessageSquareWarning
+                        size={13}
+                        className="mt-0.5 shrink-0"
+                      />
+                      This file contains text that reads like instructions to
+                      an AI. It will be sent as reference material only, but
+                      check the generated guide for anything off-topic.
+                    </p>
+                    {injections.get(scan.source)!.map((finding, i) => (
+                      <p
+                        key={i}
+                        className="pl-5 text-[11px] text-gray-500 truncate"
+                        title={finding.label}
+                      >
+                        {`…${finding.excerpt}…`}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {changesPdf && (
+                  <p className="mt-2 text-[11px] text-gray-500">
+                    This PDF will be sent as its redacted text, without images
+                    or layout.
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Footer Actions */}
+        <div className="relative px-8 py-6 border-t border-white/[0.04] bg-black/20">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={onCancel}
+              disabled={isApplying}
+              className="px-5 py-3 rounded-xl text-sm font-medium text-gray-400 hover:text-white hover:bg-white/[0.05] transition-all disabled:opacity-50"
+            >
+              Cancel
+            </button>
+
+            <button
+              onClick={() => onContinue(decisions)}
+              disabled={isApplying}
+              className="flex items-center gap-3 px-6 py-3 rounded-xl font-semibold text-sm bg-synapse-amber text-bio-void hover:shadow-[0_0_40px_rgba(240,180,41,0.3)] transition-all disabled:opacity-60"
+            >
+              {isApplying ? (
+                <Loader2 size={16} className="animate-spin" />
+              ) : (
+                <ArrowRight size={16} />
+              )}
+              Continue
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhiReviewModal;
@@ -5,6 +5,7 @@ import {
   TrainingLevel,
   TeachingStyle,
   ExamGoal,
+  LLMProviderType,
 } from "../types";
 import {
   Stethoscope,
@@ -36,14 +37,31 @@ import {
   Sparkles,
   ArrowRight,
   Brain,
+  Server,
+  Cpu,
+  BarChart3,
+  FileCode2,
+  SlidersHorizontal,
+  Languages,
 } from "lucide-react";
 import { GeminiService } from "../services/geminiService";
+import {
+  DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+  DEFAULT_GEMINI_MODEL,
+  DEFAULT_OPENAI_COMPATIBLE_MODEL,
+} from "../services/llmProvider";
+import { validateTaskSettings } from "../services/modelSettings";
+import { OUTPUT_LANGUAGES } from "../services/outputLanguage";
 import { isSpecialName } from "../utils/specialNameUtils";
+import UsagePanel from "./UsagePanel";
+import PromptTemplatesPanel from "./PromptTemplatesPanel";
+import ModelSettingsPanel from "./ModelSettingsPanel";
 
 interface Props {
   profile: UserProfile;
   onSave: (profile: UserProfile) => void;
   onClose: () => void;
+  noteTitles?: Record<string, string>; // Labels the usage breakdown by note
 }
 
 const DISCIPLINES: { label: ClinicalDiscipline; icon: any; color: string }[] = [
@@ -55,6 +73,28 @@ const DISCIPLINES: { label: ClinicalDiscipline; icon: any; color: string }[] = [
   { label: "Other", icon: User, color: "amber" },
 ];
 
+const LLM_PROVIDERS: {
+  id: LLMProviderType;
+  label: string;
+  description: string;
+}[] = [
+  {
+    id: "gemini",
+    label: "Google Gemini",
+    description: "Cloud, with Google Search grounding",
+  },
+  {
+    id: "openai-compatible",
+    label: "Local / OpenAI-compatible",
+    description: "Ollama, LM Studio, vLLM — material stays on your network",
+  },
+  {
+    id: "demo",
+    label: "Demo (offline)",
+    description: "Replays a recorded HFrEF session — no key, no network",
+  },
+];
+
 const LEVELS: { label: TrainingLevel; description: string }[] = [
   { label: "Student (Pre-clinical)", description: "Foundational sciences" },
   { label: "Student (Clinical)", description: "Clinical rotations" },
@@ -238,12 +278,19 @@ export const ProfileEditor: React.FC<Props> = ({
   profile,
   onSave,
   onClose,
+  noteTitles = {},
 }) => {
   const [editedProfile, setEditedProfile] = useState<UserProfile>({
     ...profile,
   });
   const [activeTab, setActiveTab] = useState<
-    "identity" | "preferences" | "learning" | "settings"
+    | "identity"
+    | "preferences"
+    | "learning"
+    | "settings"
+    | "models"
+    | "usage"
+    | "prompts"
   >("identity");
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [tabHoverIndex, setTabHoverIndex] = useState<number | null>(null);
@@ -311,6 +358,12 @@ export const ProfileEditor: React.FC<Props> = ({
       alert("Name is required.");
       return;
     }
+    const modelIssues = validateTaskSettings(editedProfile.taskSettings);
+    if (modelIssues.length > 0) {
+      setActiveTab("models");
+      alert("Fix the highlighted model settings before saving.");
+      return;
+    }
     onSave({
       ...editedProfile,
       updatedAt: Date.now(),
@@ -322,6 +375,9 @@ export const ProfileEditor: React.FC<Props> = ({
     { id: "preferences", label: "Preferences", icon: Activity },
     { id: "learning", label: "Learning Style", icon: BookOpen },
     { id: "settings", label: "API Key", icon: Key },
+    { id: "models", label: "Models", icon: SlidersHorizontal },
+    { id: "usage", label: "Usage", icon: BarChart3 },
+    { id: "prompts", label: "Prompts", icon: FileCode2 },
   ];
 
   return (
@@ -660,6 +716,52 @@ export const ProfileEditor: React.FC<Props> = ({
                   placeholder="e.g., Cardiology, Nephrology, Neurology"
                 />
               </div>
+
+              {/* Output Language */}
+              <div className="space-y-3">
+                <label className="text-sm font-semibold text-serum-white flex items-center gap-2">
+                  <Languages className="w-4 h-4 text-vital-cyan" />
+                  Output Language
+                </label>
+                <select
+                  value={editedProfile.outputLanguage || "en"}
+                  onChange={(e) =>
+                    setEditedProfile({
+                      ...editedProfile,
+                      outputLanguage: e.target.value,
+                    })
+                  }
+                  className="w-full px-5 py-3.5 rounded-xl glass-panel text-serum-white focus:border-vital-cyan focus:outline-none transition-all duration-300"
+                >
+                  {OUTPUT_LANGUAGES.map((language) => (
+                    <option
+                      key={language.code}
+                      value={language.code}
+                      className="bg-bio-deep"
+                    >
+                      {`${language.label} · ${language.nativeLabel}`}
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-3 text-sm text-clinical-text/70 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!editedProfile.bilingualTerms}
+                    onChange={(e) =>
+                      setEditedProfile({
+                        ...editedProfile,
+                        bilingualTerms: e.target.checked,
+                      })
+                    }
+                    className="accent-vital-cyan"
+                  />
+                  Show the English term next to key clinical terms
+                </label>
+                <p className="text-xs text-clinical-text/40">
+                  Guides, topic maps and chat use this language. You can pick a
+                  different one for a single topic when you upload it.
+                </p>
+              </div>
             </div>
           )}
 
@@ -844,197 +946,373 @@ export const ProfileEditor: React.FC<Props> = ({
                       Neural Link Setup
                     </h3>
                     <p className="text-xs text-clinical-text/50 mt-0.5">
-                      Connect to Google Gemini API for personalized tutoring
+                      Connect Google Gemini or a local model for personalized tutoring
                     </p>
                   </div>
                 </div>
               </div>
 
-              {/* Steps Section */}
+              {/* Provider Selector */}
               <div className="space-y-3">
-                <h4 className="text-sm font-semibold text-serum-white flex items-center gap-2">
-                  <Sparkles className="w-4 h-4 text-vital-cyan" />
-                  Getting Your API Key
-                </h4>
-
-                <div className="space-y-3">
-                  {/* Step 1 */}
-                  <div className="flex gap-3 p-3 rounded-xl bg-white/[0.02] border border-white/[0.06] hover:border-white/[0.1] transition-colors">
-                    <div className="shrink-0 w-8 h-8 rounded-full bg-vital-cyan/10 border border-vital-cyan/20 flex items-center justify-center text-vital-cyan font-mono text-xs font-bold">
-                      1
-                    </div>
-                    <div className="flex-1">
-                      <div className="text-xs font-semibold text-gray-200">
-                        Go to{" "}
-                        <a
-                          href="https://aistudio.google.com/app/apikey"
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-vital-cyan hover:underline inline-flex items-center gap-1"
+                <label className="text-sm font-semibold text-serum-white flex items-center gap-2">
+                  <Server className="w-4 h-4 text-vital-cyan" />
+                  Model Provider
+                </label>
+                <div className="grid grid-cols-3 gap-3">
+                  {LLM_PROVIDERS.map((p) => {
+                    const isSelected =
+                      (editedProfile.llmProvider || "gemini") === p.id;
+                    return (
+                      <button
+                        key={p.id}
+                        onClick={() =>
+                          setEditedProfile({
+                            ...editedProfile,
+                            llmProvider: p.id,
+                          })
+                        }
+                        className={`p-3.5 rounded-xl border transition-all duration-300 text-left ${
+                          isSelected
+                            ? "border-vital-cyan/50 bg-vital-cyan/15 shadow-lg shadow-vital-cyan/10"
+                            : "border-white/[0.05] bg-white/[0.02] hover:border-white/[0.1] hover:bg-white/[0.04]"
+                        }`}
+                      >
+                        <div
+                          className={`text-xs font-semibold ${
+                            isSelected
+                              ? "text-vital-cyan"
+                              : "text-clinical-text/70"
+                          }`}
                         >
-                          Google AI Studio
-                          <ExternalLink size={10} />
-                        </a>
+                          {p.label}
+                        </div>
+                        <div className="text-[11px] text-clinical-text/40 mt-1">
+                          {p.description}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {(editedProfile.llmProvider || "gemini") === "gemini" && (
+                <>
+                  {/* Steps Section */}
+                  <div className="space-y-3">
+                    <h4 className="text-sm font-semibold text-serum-white flex items-center gap-2">
+                      <Sparkles className="w-4 h-4 text-vital-cyan" />
+                      Getting Your API Key
+                    </h4>
+
+                    <div className="space-y-3">
+                      {/* Step 1 */}
+                      <div className="flex gap-3 p-3 rounded-xl bg-white/[0.02] border border-white/[0.06] hover:border-white/[0.1] transition-colors">
+                        <div className="shrink-0 w-8 h-8 rounded-full bg-vital-cyan/10 border border-vital-cyan/20 flex items-center justify-center text-vital-cyan font-mono text-xs font-bold">
+                          1
+                        </div>
+                        <div className="flex-1">
+                          <div className="text-xs font-semibold text-gray-200">
+                            Go to{" "}
+                            <a
+                              href="https://aistudio.google.com/app/apikey"
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-vital-cyan hover:underline inline-flex items-center gap-1"
+                            >
+                              Google AI Studio
+                              <ExternalLink size={10} />
+                            </a>
+                          </div>
+                          <div className="text-[10px] text-gray-400 mt-1">
+                            You'll need a free Google account (Gmail works)
+                          </div>
+                        </div>
                       </div>
-                      <div className="text-[10px] text-gray-400 mt-1">
-                        You'll need a free Google account (Gmail works)
+
+                      {/* Step 2 */}
+                      <div className="flex gap-3 p-3 rounded-xl bg-white/[0.02] border border-white/[0.06] hover:border-white/[0.1] transition-colors">
+                        <div className="shrink-0 w-8 h-8 rounded-full bg-vital-cyan/10 border border-vital-cyan/20 flex items-center justify-center text-vital-cyan font-mono text-xs font-bold">
+                          2
+                        </div>
+                        <div className="flex-1">
+                          <div className="text-xs font-semibold text-gray-200">
+                            Click "Create API Key"
+                          </div>
+                          <div className="text-[10px] text-gray-400 mt-1">
+                            Select "Create new secret key in existing project" (or
+                            create a new project)
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </div>
 
-                  {/* Step 2 */}
-                  <div className="flex gap-3 p-3 rounded-xl bg-white/[0.02] border border-white/[0.06] hover:border-white/[0.1] transition-colors">
-                    <div className="shrink-0 w-8 h-8 rounded-full bg-vital-cyan/10 border border-vital-cyan/20 flex items-center justify-center text-vital-cyan font-mono text-xs font-bold">
-                      2
-                    </div>
-                    <div className="flex-1">
-                      <div className="text-xs font-semibold text-gray-200">
-                        Click "Create API Key"
+                      {/* Step 3 */}
+                      <div className="flex gap-3 p-3 rounded-xl bg-white/[0.02] border border-white/[0.06] hover:border-white/[0.1] transition-colors">
+                        <div className="shrink-0 w-8 h-8 rounded-full bg-vital-cyan/10 border border-vital-cyan/20 flex items-center justify-center text-vital-cyan font-mono text-xs font-bold">
+                          3
+                        </div>
+                        <div className="flex-1">
+                          <div className="text-xs font-semibold text-gray-200">
+                            Copy the API key
+                          </div>
+                          <div className="text-[10px] text-gray-400 mt-1">
+                            It starts with{" "}
+                            <code className="bg-black/20 px-1.5 py-0.5 rounded text-[9px] font-mono">
+                              AIza
+                            </code>
+                          </div>
+                        </div>
                       </div>
-                      <div className="text-[10px] text-gray-400 mt-1">
-                        Select "Create new secret key in existing project" (or
-                        create a new project)
+
+                      {/* Step 4 */}
+                      <div className="flex gap-3 p-3 rounded-xl bg-white/[0.02] border border-white/[0.06] hover:border-white/[0.1] transition-colors">
+                        <div className="shrink-0 w-8 h-8 rounded-full bg-vital-cyan/10 border border-vital-cyan/20 flex items-center justify-center text-vital-cyan font-mono text-xs font-bold">
+                          4
+                        </div>
+                        <div className="flex-1">
+                          <div className="text-xs font-semibold text-gray-200">
+                            Paste it below
+                          </div>
+                          <div className="text-[10px] text-gray-400 mt-1">
+                            We'll verify it works, then you're ready to launch
+                            Synapse
+                          </div>
+                        </div>
                       </div>
                     </div>
                   </div>
 
-                  {/* Step 3 */}
-                  <div className="flex gap-3 p-3 rounded-xl bg-white/[0.02] border border-white/[0.06] hover:border-white/[0.1] transition-colors">
-                    <div className="shrink-0 w-8 h-8 rounded-full bg-vital-cyan/10 border border-vital-cyan/20 flex items-center justify-center text-vital-cyan font-mono text-xs font-bold">
-                      3
-                    </div>
-                    <div className="flex-1">
-                      <div className="text-xs font-semibold text-gray-200">
-                        Copy the API key
-                      </div>
-                      <div className="text-[10px] text-gray-400 mt-1">
-                        It starts with{" "}
-                        <code className="bg-black/20 px-1.5 py-0.5 rounded text-[9px] font-mono">
-                          AIza
-                        </code>
-                      </div>
+                  {/* API Key Input - Premium Field */}
+                  <div className="space-y-3">
+                    <label className="text-sm font-semibold text-serum-white flex items-center gap-2">
+                      <Lock className="w-4 h-4 text-neural-purple" />
+                      API Key
+                    </label>
+                    <div className="relative group">
+                      <input
+                        type={showApiKey ? "text" : "password"}
+                        value={editedProfile.apiKey || ""}
+                        onChange={(e) => {
+                          setEditedProfile({
+                            ...editedProfile,
+                            apiKey: e.target.value,
+                          });
+                          setKeyValidationResult(null);
+                        }}
+                        className={`w-full px-5 py-3.5 pr-12 rounded-xl text-serum-white font-mono text-sm placeholder:text-clinical-text/30 focus:outline-none transition-all duration-500 ease-out ${
+                          keyValidationResult?.valid === false
+                            ? "glass-panel border-tissue-rose/50 focus:border-tissue-rose shadow-lg shadow-tissue-rose/10"
+                            : keyValidationResult?.valid === true
+                            ? "glass-panel border-green-500/50 focus:border-green-500 shadow-lg shadow-green-500/10"
+                            : "glass-panel focus:border-vital-cyan focus:shadow-lg focus:shadow-vital-cyan/10"
+                        }`}
+                        placeholder="AIza..."
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowApiKey(!showApiKey)}
+                        className="absolute right-12 top-1/2 -translate-y-1/2 p-1.5 text-clinical-text/40 hover:text-clinical-text transition-colors"
+                      >
+                        {showApiKey ? (
+                          <EyeOff className="w-4 h-4" />
+                        ) : (
+                          <Eye className="w-4 h-4" />
+                        )}
+                      </button>
+                      {keyValidationResult?.valid === true && (
+                        <div className="absolute right-4 top-1/2 -translate-y-1/2">
+                          <div className="p-1 rounded-lg bg-green-500/20">
+                            <CheckCircle2 className="w-5 h-5 text-green-400" />
+                          </div>
+                        </div>
+                      )}
+                      {keyValidationResult?.valid === false && (
+                        <div className="absolute right-4 top-1/2 -translate-y-1/2">
+                          <div className="p-1 rounded-lg bg-tissue-rose/20">
+                            <AlertCircle className="w-5 h-5 text-tissue-rose" />
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </div>
 
-                  {/* Step 4 */}
-                  <div className="flex gap-3 p-3 rounded-xl bg-white/[0.02] border border-white/[0.06] hover:border-white/[0.1] transition-colors">
-                    <div className="shrink-0 w-8 h-8 rounded-full bg-vital-cyan/10 border border-vital-cyan/20 flex items-center justify-center text-vital-cyan font-mono text-xs font-bold">
-                      4
-                    </div>
-                    <div className="flex-1">
-                      <div className="text-xs font-semibold text-gray-200">
-                        Paste it below
+                  {/* Validation Messages */}
+                  {keyValidationResult?.valid === false && (
+                    <div className="p-4 rounded-xl bg-tissue-rose/10 border border-tissue-rose/30 flex items-start gap-3">
+                      <AlertCircle className="w-5 h-5 text-tissue-rose flex-shrink-0 mt-0.5" />
+                      <div>
+                        <p className="text-sm font-medium text-tissue-rose">
+                          Verification failed
+                        </p>
+                        <p className="text-xs text-tissue-rose/70 mt-1">
+                          {keyValidationResult.error}
+                        </p>
                       </div>
-                      <div className="text-[10px] text-gray-400 mt-1">
-                        We'll verify it works, then you're ready to launch
-                        Synapse
+                    </div>
+                  )}
+
+                  {keyValidationResult?.valid === true && (
+                    <div className="p-4 rounded-xl bg-green-500/10 border border-green-500/30 flex items-start gap-3">
+                      <CheckCircle2 className="w-5 h-5 text-green-400 flex-shrink-0 mt-0.5" />
+                      <div>
+                        <p className="text-sm font-medium text-green-400">
+                          API key verified
+                        </p>
+                        <p className="text-xs text-green-300/70 mt-1">
+                          Your key is valid and connected to your Google account
+                        </p>
                       </div>
                     </div>
-                  </div>
-                </div>
-              </div>
+                  )}
 
-              {/* API Key Input - Premium Field */}
-              <div className="space-y-3">
-                <label className="text-sm font-semibold text-serum-white flex items-center gap-2">
-                  <Lock className="w-4 h-4 text-neural-purple" />
-                  API Key
-                </label>
-                <div className="relative group">
-                  <input
-                    type={showApiKey ? "text" : "password"}
-                    value={editedProfile.apiKey || ""}
-                    onChange={(e) => {
-                      setEditedProfile({
-                        ...editedProfile,
-                        apiKey: e.target.value,
-                      });
-                      setKeyValidationResult(null);
-                    }}
-                    className={`w-full px-5 py-3.5 pr-12 rounded-xl text-serum-white font-mono text-sm placeholder:text-clinical-text/30 focus:outline-none transition-all duration-500 ease-out ${
-                      keyValidationResult?.valid === false
-                        ? "glass-panel border-tissue-rose/50 focus:border-tissue-rose shadow-lg shadow-tissue-rose/10"
-                        : keyValidationResult?.valid === true
-                        ? "glass-panel border-green-500/50 focus:border-green-500 shadow-lg shadow-green-500/10"
-                        : "glass-panel focus:border-vital-cyan focus:shadow-lg focus:shadow-vital-cyan/10"
-                    }`}
-                    placeholder="AIza..."
-                  />
+                  {/* Verify Button */}
                   <button
-                    type="button"
-                    onClick={() => setShowApiKey(!showApiKey)}
-                    className="absolute right-12 top-1/2 -translate-y-1/2 p-1.5 text-clinical-text/40 hover:text-clinical-text transition-colors"
+                    onClick={handleValidateApiKey}
+                    disabled={!editedProfile.apiKey || isValidatingKey}
+                    className="w-full py-3.5 bg-gradient-to-r from-vital-cyan/30 to-vital-cyan/10 hover:from-vital-cyan/40 hover:to-vital-cyan/20 text-vital-cyan rounded-xl text-sm font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed border border-vital-cyan/20 hover:border-vital-cyan/40"
                   >
-                    {showApiKey ? (
-                      <EyeOff className="w-4 h-4" />
+                    {isValidatingKey ? (
+                      <>
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        Verifying...
+                      </>
                     ) : (
-                      <Eye className="w-4 h-4" />
+                      <>
+                        <CheckCircle2 className="w-4 h-4" />
+                        Verify API Key
+                      </>
                     )}
                   </button>
-                  {keyValidationResult?.valid === true && (
-                    <div className="absolute right-4 top-1/2 -translate-y-1/2">
-                      <div className="p-1 rounded-lg bg-green-500/20">
-                        <CheckCircle2 className="w-5 h-5 text-green-400" />
-                      </div>
-                    </div>
-                  )}
-                  {keyValidationResult?.valid === false && (
-                    <div className="absolute right-4 top-1/2 -translate-y-1/2">
-                      <div className="p-1 rounded-lg bg-tissue-rose/20">
-                        <AlertCircle className="w-5 h-5 text-tissue-rose" />
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </div>
+                </>
+              )}
 
-              {/* Validation Messages */}
-              {keyValidationResult?.valid === false && (
-                <div className="p-4 rounded-xl bg-tissue-rose/10 border border-tissue-rose/30 flex items-start gap-3">
-                  <AlertCircle className="w-5 h-5 text-tissue-rose flex-shrink-0 mt-0.5" />
-                  <div>
-                    <p className="text-sm font-medium text-tissue-rose">
-                      Verification failed
-                    </p>
-                    <p className="text-xs text-tissue-rose/70 mt-1">
-                      {keyValidationResult.error}
-                    </p>
-                  </div>
+              {/* Demo Mode Notice */}
+              {editedProfile.llmProvider === "demo" && (
+                <div className="p-4 rounded-xl bg-neural-purple/10 border border-neural-purple/30 flex items-start gap-3">
+                  <Sparkles className="w-5 h-5 text-neural-purple flex-shrink-0 mt-0.5" />
+                  <p className="text-xs text-clinical-text/70 leading-relaxed">
+                    Demo mode replays the same recorded outputs every time,
+                    whatever you upload. Switch to Google Gemini or a local
+                    model to generate real guides.
+                  </p>
                 </div>
               )}
 
-              {keyValidationResult?.valid === true && (
-                <div className="p-4 rounded-xl bg-green-500/10 border border-green-500/30 flex items-start gap-3">
-                  <CheckCircle2 className="w-5 h-5 text-green-400 flex-shrink-0 mt-0.5" />
-                  <div>
-                    <p className="text-sm font-medium text-green-400">
-                      API key verified
+              {/* Local Endpoint Settings */}
+              {editedProfile.llmProvider === "openai-compatible" && (
+                <div className="space-y-5">
+                  <div className="space-y-3">
+                    <label className="text-sm font-semibold text-serum-white flex items-center gap-2">
+                      <Server className="w-4 h-4 text-neural-purple" />
+                      Endpoint URL
+                    </label>
+                    <input
+                      type="text"
+                      value={editedProfile.llmBaseUrl || ""}
+                      onChange={(e) =>
+                        setEditedProfile({
+                          ...editedProfile,
+                          llmBaseUrl: e.target.value.trim(),
+                        })
+                      }
+                      className="w-full px-5 py-3.5 rounded-xl glass-panel text-serum-white font-mono text-sm placeholder:text-clinical-text/30 focus:border-vital-cyan focus:outline-none transition-all duration-300 focus:shadow-lg focus:shadow-vital-cyan/10"
+                      placeholder={DEFAULT_OPENAI_COMPATIBLE_BASE_URL}
+                    />
+                    <p className="text-[11px] text-clinical-text/40">
+                      Ollama: <code className="font-mono">:11434/v1</code> ·
+                      LM Studio: <code className="font-mono">:1234/v1</code> ·
+                      vLLM: <code className="font-mono">:8000/v1</code>
                     </p>
-                    <p className="text-xs text-green-300/70 mt-1">
-                      Your key is valid and connected to your Google account
+                  </div>
+
+                  <div className="space-y-3">
+                    <label className="text-sm font-semibold text-serum-white flex items-center gap-2">
+                      <Cpu className="w-4 h-4 text-neural-purple" />
+                      Model
+                    </label>
+                    <input
+                      type="text"
+                      value={editedProfile.llmModel || ""}
+                      onChange={(e) =>
+                        setEditedProfile({
+                          ...editedProfile,
+                          llmModel: e.target.value.trim(),
+                        })
+                      }
+                      className="w-full px-5 py-3.5 rounded-xl glass-panel text-serum-white font-mono text-sm placeholder:text-clinical-text/30 focus:border-vital-cyan focus:outline-none transition-all duration-300 focus:shadow-lg focus:shadow-vital-cyan/10"
+                      placeholder={DEFAULT_OPENAI_COMPATIBLE_MODEL}
+                    />
+                  </div>
+
+                  <div className="space-y-3">
+                    <label className="text-sm font-semibold text-serum-white flex items-center gap-2">
+                      <Lock className="w-4 h-4 text-neural-purple" />
+                      Bearer Token{" "}
+                      <span className="text-[11px] font-normal text-clinical-text/40">
+                        (optional)
+                      </span>
+                    </label>
+                    <input
+                      type="password"
+                      value={editedProfile.llmApiKey || ""}
+                      onChange={(e) =>
+                        setEditedProfile({
+                          ...editedProfile,
+                          llmApiKey: e.target.value,
+                        })
+                      }
+                      className="w-full px-5 py-3.5 rounded-xl glass-panel text-serum-white font-mono text-sm placeholder:text-clinical-text/30 focus:border-vital-cyan focus:outline-none transition-all duration-300 focus:shadow-lg focus:shadow-vital-cyan/10"
+                      placeholder="Only needed if your server requires auth"
+                    />
+                  </div>
+
+                  <div className="p-4 rounded-xl bg-synapse-amber/10 border border-synapse-amber/30 flex items-start gap-3">
+                    <AlertCircle className="w-5 h-5 text-synapse-amber flex-shrink-0 mt-0.5" />
+                    <p className="text-xs text-synapse-amber/80 leading-relaxed">
+                      Local models have no Google Search grounding, so sources
+                      come from inline citations only. Images and text files
+                      are forwarded; PDFs and audio are not supported by most
+                      local servers.
                     </p>
                   </div>
                 </div>
               )}
 
-              {/* Verify Button */}
-              <button
-                onClick={handleValidateApiKey}
-                disabled={!editedProfile.apiKey || isValidatingKey}
-                className="w-full py-3.5 bg-gradient-to-r from-vital-cyan/30 to-vital-cyan/10 hover:from-vital-cyan/40 hover:to-vital-cyan/20 text-vital-cyan rounded-xl text-sm font-semibold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed border border-vital-cyan/20 hover:border-vital-cyan/40"
-              >
-                {isValidatingKey ? (
-                  <>
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                    Verifying...
-                  </>
-                ) : (
-                  <>
-                    <CheckCircle2 className="w-4 h-4" />
-                    Verify API Key
-                  </>
-                )}
-              </button>
+
+              {/* Background Queue */}
+              <div className="space-y-3">
+                <label className="text-sm font-semibold text-serum-white flex items-center gap-2">
+                  <Cpu className="w-4 h-4 text-vital-cyan" />
+                  Background Queue
+                </label>
+                <div className="grid grid-cols-3 gap-3">
+                  {[1, 2, 3].map((n) => {
+                    const isSelected =
+                      (editedProfile.queueConcurrency || 2) === n;
+                    return (
+                      <button
+                        key={n}
+                        onClick={() =>
+                          setEditedProfile({
+                            ...editedProfile,
+                            queueConcurrency: n,
+                          })
+                        }
+                        className={`p-3 rounded-xl border transition-all duration-300 text-xs font-semibold ${
+                          isSelected
+                            ? "border-vital-cyan/50 bg-vital-cyan/15 text-vital-cyan"
+                            : "border-white/[0.05] bg-white/[0.02] text-clinical-text/70 hover:border-white/[0.1]"
+                        }`}
+                      >
+                        {n} at a time
+                      </button>
+                    );
+                  })}
+                </div>
+                <p className="text-[11px] text-clinical-text/40">
+                  How many queued topics generate in parallel. Drop to 1 if the
+                  free Gemini tier starts reporting rate limits.
+                </p>
+              </div>
 
               {/* Security & Privacy Card */}
               <div className="relative p-5 rounded-xl border border-green-500/20 bg-gradient-to-br from-green-500/8 to-green-500/2 overflow-hidden">
@@ -1058,30 +1336,78 @@ export const ProfileEditor: React.FC<Props> = ({
               </div>
 
               {/* Free Tier Benefits */}
-              <div className="relative p-5 rounded-xl border border-synapse-amber/20 bg-gradient-to-br from-synapse-amber/8 to-synapse-amber/2 overflow-hidden">
-                <div className="absolute -top-12 -right-12 w-32 h-32 bg-synapse-amber/5 rounded-full blur-3xl" />
-                <div className="relative z-10 flex items-start gap-3">
-                  <Zap className="w-5 h-5 text-synapse-amber/80 flex-shrink-0 mt-0.5" />
-                  <div className="space-y-1.5">
-                    <p className="text-sm font-semibold text-serum-white">
-                      Free Tier Limits
-                    </p>
-                    <p className="text-xs text-clinical-text/60 leading-relaxed">
-                      Google's free plan allows{" "}
-                      <span className="font-semibold text-synapse-amber">
-                        15 requests/minute
-                      </span>{" "}
-                      and{" "}
-                      <span className="font-semibold text-synapse-amber">
-                        1M tokens/day
-                      </span>
-                      . Perfect for personal study and practice.
-                    </p>
+              {(editedProfile.llmProvider || "gemini") === "gemini" && (
+                <div className="relative p-5 rounded-xl border border-synapse-amber/20 bg-gradient-to-br from-synapse-amber/8 to-synapse-amber/2 overflow-hidden">
+                  <div className="absolute -top-12 -right-12 w-32 h-32 bg-synapse-amber/5 rounded-full blur-3xl" />
+                  <div className="relative z-10 flex items-start gap-3">
+                    <Zap className="w-5 h-5 text-synapse-amber/80 flex-shrink-0 mt-0.5" />
+                    <div className="space-y-1.5">
+                      <p className="text-sm font-semibold text-serum-white">
+                        Free Tier Limits
+                      </p>
+                      <p className="text-xs text-clinical-text/60 leading-relaxed">
+                        Google's free plan allows{" "}
+                        <span className="font-semibold text-synapse-amber">
+                          15 requests/minute
+                        </span>{" "}
+                        and{" "}
+                        <span className="font-semibold text-synapse-amber">
+                          1M tokens/day
+                        </span>
+                        . Perfect for personal study and practice.
+                      </p>
+                    </div>
                   </div>
                 </div>
-              </div>
+              )}
             </div>
           )}
+
+          {/* Models Tab */}
+          {activeTab === "models" && (
+            <ModelSettingsPanel
+              taskSettings={editedProfile.taskSettings}
+              guideLength={editedProfile.guideLength}
+              defaultModel={
+                editedProfile.llmProvider === "openai-compatible"
+                  ? editedProfile.llmModel || DEFAULT_OPENAI_COMPATIBLE_MODEL
+                  : DEFAULT_GEMINI_MODEL
+              }
+              provider={editedProfile.llmProvider || "gemini"}
+              onTaskSettingsChange={(taskSettings) =>
+                setEditedProfile({ ...editedProfile, taskSettings })
+              }
+              onGuideLengthChange={(guideLength) =>
+                setEditedProfile({ ...editedProfile, guideLength })
+              }
+            />
+          )}
+
+          {/* Usage Tab */}
+          {activeTab === "usage" && (
+            <UsagePanel
+              modelPrices={editedProfile.modelPrices}
+              activeModel={
+                editedProfile.llmProvider === "openai-compatible"
+                  ? editedProfile.llmModel || DEFAULT_OPENAI_COMPATIBLE_MODEL
+                  : undefined
+              }
+              noteTitles={noteTitles}
+              onPricesChange={(modelPrices) =>
+                setEditedProfile({ ...editedProfile, modelPrices })
+              }
+            />
+          )}
+
+          {/* Prompts Tab */}
+          {activeTab === "prompts" && (
+            <PromptTemplatesPanel
+              overrides={editedProfile.promptOverrides}
+              onOverridesChange={(promptOverrides) =>
+                setEditedProfile({ ...editedProfile, promptOverrides })
+              }
+            />
+          )}
         </div>
 
         {/* PREMIUM FOOTER */}
@@ -0,0 +1,162 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * SYNAPSE MED — PROMPT TEMPLATES
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Settings tab listing the system prompt registry. Each template can be read
+ * and overridden for this profile; overrides are tagged "+custom" in the
+ * prompt versions recorded on notes and chat messages.
+ */
+
+import React, { useState } from "react";
+import {
+  FileCode2,
+  ChevronDown,
+  ChevronRight,
+  RotateCcw,
+  AlertTriangle,
+} from "lucide-react";
+import { PromptOverride } from "../types";
+import {
+  PROMPT_TEMPLATE_LIST,
+  type PromptTemplate,
+} from "../services/promptTemplates";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPONENT PROPS
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface PromptTemplatesPanelProps {
+  overrides?: Record<string, PromptOverride>; // Profile overrides (unsaved edits)
+  onOverridesChange: (overrides: Record<string, PromptOverride>) => void;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const PromptTemplatesPanel: React.FC<PromptTemplatesPanelProps> = ({
+  overrides,
+  onOverridesChange,
+}) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const updateBody = (template: PromptTemplate, body: string) => {
+    onOverridesChange({
+      ...(overrides || {}),
+      [template.id]: {
+        body,
+        baseVersion: template.version,
+        updatedAt: Date.now(),
+      },
+    });
+  };
+
+  const revert = (id: string) => {
+    const { [id]: _removed, ...rest } = overrides || {};
+    onOverridesChange(rest);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-clinical-text/50 leading-relaxed">
+        The system prompts behind graph building and chat. Editing one saves an
+        override for your profile only; notes and chat messages record which
+        template versions produced them.
+      </p>
+
+      <div className="rounded-xl border border-white/[0.05] divide-y divide-white/[0.04]">
+        {PROMPT_TEMPLATE_LIST.map((template) => {
+          const override = overrides?.[template.id];
+          const isExpanded = expandedId === template.id;
+          const isStale = !!override && override.baseVersion < template.version;
+
+          return (
+            <div key={template.id}>
+              <button
+                onClick={() => setExpandedId(isExpanded ? null : template.id)}
+                className="w-full px-4 py-3 flex items-center gap-3 text-left hover:bg-white/[0.02] transition-colors"
+              >
+                {isExpanded ? (
+                  <ChevronDown className="w-4 h-4 text-clinical-text/40" />
+                ) : (
+                  <ChevronRight className="w-4 h-4 text-clinical-text/40" />
+                )}
+                <FileCode2 className="w-4 h-4 text-vital-cyan" />
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm text-serum-white truncate">
+                    {template.title}
+                  </span>
+                  <span className="block text-[11px] font-mono text-clinical-text/40">
+                    {template.id}@v{template.version}
+                  </span>
+                </span>
+                {override && (
+                  <span
+                    className={`px-2 py-0.5 rounded-md text-[10px] font-medium ${
+                      isStale
+                        ? "bg-synapse-amber/15 text-synapse-amber"
+                        : "bg-vital-cyan/15 text-vital-cyan"
+                    }`}
+                  >
+                    {isStale ? "Outdated override" : "Custom"}
+                  </span>
+                )}
+              </button>
+
+              {isExpanded && (
+                <div className="px-4 pb-4 space-y-3">
+                  <p className="text-xs text-clinical-text/60">
+                    {template.description}
+                  </p>
+
+                  {template.variables.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {template.variables.map((name) => (
+                        <code
+                          key={name}
+                          className="px-1.5 py-0.5 rounded bg-white/[0.04] text-[10px] text-clinical-text/70"
+                        >
+                          {`{{${name}}}`}
+                        </code>
+                      ))}
+                    </div>
+                  )}
+
+                  {isStale && (
+                    <div className="flex items-start gap-2 p-3 rounded-lg border border-synapse-amber/20 bg-synapse-amber/5 text-[11px] text-synapse-amber">
+                      <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                      {`Your override was written against v${
+                        override!.baseVersion
+                      }. The default is now v${template.version} - review it or revert to pick up the changes.`}
+                    </div>
+                  )}
+
+                  <textarea
+                    value={override?.body ?? template.body}
+                    onChange={(e) => updateBody(template, e.target.value)}
+                    spellCheck={false}
+                    rows={12}
+                    className="w-full px-3 py-2 rounded-lg bg-white/[0.03] border border-white/[0.08] text-[11px] leading-relaxed font-mono text-serum-white focus:outline-none focus:border-vital-cyan/40 resize-y"
+                  />
+
+                  {override && (
+                    <button
+                      onClick={() => revert(template.id)}
+                      className="flex items-center gap-1.5 text-[11px] text-clinical-text/40 hover:text-clinical-text/80 transition-colors"
+                    >
+                      <RotateCcw className="w-3.5 h-3.5" />
+                      Revert to default
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatesPanel;
@@ -0,0 +1,143 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * SYNAPSE MED — SECTION ACTIONS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Hover toolbar next to each '## ' heading of the Master Guide: regenerate,
+ * expand, condense or re-level one section, and undo the last change.
+ */
+
+import React, { useState } from "react";
+import {
+  RefreshCw,
+  ListPlus,
+  ListMinus,
+  GraduationCap,
+  Undo2,
+  Loader2,
+  X,
+} from "lucide-react";
+import { SectionAction, TrainingLevel } from "../types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPONENT PROPS
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface SectionActionsProps {
+  isBusy: boolean; // This section is streaming
+  isDisabled: boolean; // Another generation is running
+  canUndo: boolean;
+  currentLevel?: TrainingLevel;
+  onAction: (action: SectionAction, targetLevel?: TrainingLevel) => void;
+  onUndo: () => void;
+  onCancel: () => void; // Stops the rewrite in progress
+}
+
+const LEVELS: TrainingLevel[] = [
+  "Student (Pre-clinical)",
+  "Student (Clinical)",
+  "Intern/Resident",
+  "Professional",
+];
+
+const ACTIONS: { id: SectionAction; label: string; icon: any }[] = [
+  { id: "regenerate", label: "Regenerate section", icon: RefreshCw },
+  { id: "expand", label: "Expand section", icon: ListPlus },
+  { id: "concise", label: "Make more concise", icon: ListMinus },
+];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const SectionActions: React.FC<SectionActionsProps> = ({
+  isBusy,
+  isDisabled,
+  canUndo,
+  currentLevel,
+  onAction,
+  onUndo,
+  onCancel,
+}) => {
+  const [showLevels, setShowLevels] = useState(false);
+
+  if (isBusy) {
+    return (
+      <span className="inline-flex items-center gap-1.5 ml-3 align-middle text-[10px] font-mono uppercase tracking-wider text-vital-cyan">
+        <Loader2 size={12} className="animate-spin" />
+        Rewriting
+        <button
+          onClick={onCancel}
+          onMouseUp={(e) => e.stopPropagation()} // Don't open chat from a button click
+          className="p-1 rounded-md text-gray-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+          title="Stop rewriting"
+        >
+          <X size={12} />
+        </button>
+      </span>
+    );
+  }
+
+  const buttonClass =
+    "p-1.5 rounded-lg text-gray-500 hover:text-vital-cyan hover:bg-vital-cyan/10 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+  return (
+    <span
+      className="relative inline-flex items-center gap-0.5 ml-3 align-middle opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity"
+      onMouseUp={(e) => e.stopPropagation()} // Don't open chat from a button click
+    >
+      {ACTIONS.map(({ id, label, icon: Icon }) => (
+        <button
+          key={id}
+          onClick={() => onAction(id)}
+          disabled={isDisabled}
+          className={buttonClass}
+          title={label}
+        >
+          <Icon size={13} />
+        </button>
+      ))}
+
+      <button
+        onClick={() => setShowLevels((prev) => !prev)}
+        disabled={isDisabled}
+        className={buttonClass}
+        title="Rewrite for a training level"
+      >
+        <GraduationCap size={13} />
+      </button>
+
+      {canUndo && (
+        <button
+          onClick={onUndo}
+          disabled={isDisabled}
+          className={`${buttonClass} hover:text-synapse-amber hover:bg-synapse-amber/10`}
+          title="Undo last change to this section"
+        >
+          <Undo2 size={13} />
+        </button>
+      )}
+
+      {showLevels && (
+        <span className="absolute left-0 top-full mt-1 z-20 flex flex-col min-w-[190px] p-1 rounded-xl bg-bio-deep border border-white/[0.08] shadow-2xl">
+          {LEVELS.map((level) => (
+            <button
+              key={level}
+              onClick={() => {
+                setShowLevels(false);
+                onAction("rewrite-level", level);
+              }}
+              className={`px-3 py-2 rounded-lg text-left text-xs font-sans font-normal transition-colors hover:bg-white/[0.05] ${
+                level === currentLevel ? "text-vital-cyan" : "text-gray-300"
+              }`}
+            >
+              {level}
+            </button>
+          ))}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default SectionActions;
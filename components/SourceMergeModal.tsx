@@ -0,0 +1,294 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * SYNAPSE MED — SOURCE MERGE PREVIEW
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Review step for "Add sources": lists the nodes, links, pearls, citations
+ * and guide sections that new files would add to an existing note. Nothing
+ * is written to the library until the user accepts.
+ */
+
+import React, { useMemo, useState } from "react";
+import {
+  X,
+  Check,
+  FilePlus2,
+  GitMerge,
+  Network,
+  Lightbulb,
+  BookOpen,
+  Link2,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+} from "lucide-react";
+import { SourceMergePreview } from "../types";
+import { stripCitationMarkers } from "../services/citations";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPONENT PROPS
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface SourceMergeModalProps {
+  preview: SourceMergePreview;
+  fileNames: string[];
+  isSaving: boolean;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+// Section body as plain text (smart links collapsed to their label)
+const sectionText = (markdown: string, heading: string): string => {
+  const start = markdown.indexOf(`## ${heading}`);
+  if (start === -1) return "";
+  const next = markdown.indexOf("\n## ", start + 3);
+  return stripCitationMarkers(
+    markdown.slice(start, next === -1 ? undefined : next)
+  )
+    .replace(/\[([^\]]+)\]\(node:[^)]+\)/g, "$1")
+    .trim();
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const SourceMergeModal: React.FC<SourceMergeModalProps> = ({
+  preview,
+  fileNames,
+  isSaving,
+  onAccept,
+  onDiscard,
+}) => {
+  const [openSection, setOpenSection] = useState<string | null>(null);
+
+  const sections = useMemo(
+    () => [
+      ...preview.updatedSections.map((h) => ({ heading: h, isNew: false })),
+      ...preview.addedSections.map((h) => ({ heading: h, isNew: true })),
+    ],
+    [preview]
+  );
+
+  const stats = [
+    { label: "New nodes", value: preview.addedNodes.length, icon: Network },
+    { label: "Merged", value: preview.mergedNodes.length, icon: GitMerge },
+    { label: "New links", value: preview.addedLinks.length, icon: Link2 },
+    { label: "Pearls", value: preview.addedPearls.length, icon: Lightbulb },
+    { label: "Sources", value: preview.addedSources.length, icon: BookOpen },
+  ];
+
+  const hasChanges =
+    sections.length > 0 ||
+    stats.some((s) => s.label !== "Merged" && s.value > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-black/80 backdrop-blur-xl animate-fadeIn">
+      <div className="relative bg-gradient-to-b from-bio-deep to-bio-void border border-white/[0.06] rounded-3xl shadow-2xl w-full max-w-2xl transform animate-scaleIn overflow-hidden max-h-[90vh] flex flex-col">
+        {/* Atmospheric Glows */}
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-clinical-teal/10 rounded-full blur-[120px] pointer-events-none" />
+        <div className="absolute top-0 left-1/2 -translate-x-1/2 w-48 h-px bg-gradient-to-r from-transparent via-clinical-teal/50 to-transparent" />
+
+        {/* Header */}
+        <div className="relative px-8 pt-8 pb-6 border-b border-white/[0.04]">
+          <button
+            onClick={onDiscard}
+            disabled={isSaving}
+            className="absolute top-6 right-6 p-2 rounded-xl text-gray-500 hover:text-white hover:bg-white/5 transition-all disabled:opacity-50"
+          >
+            <X size={20} />
+          </button>
+
+          <div className="flex items-center gap-4">
+            <div className="w-14 h-14 rounded-2xl bg-gradient-to-br from-clinical-teal/15 to-vital-cyan/10 border border-clinical-teal/20 flex items-center justify-center">
+              <FilePlus2 size={24} className="text-clinical-teal" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-2xl font-serif italic text-serum-white">
+                Review New Sources
+              </h2>
+              <p className="text-sm text-gray-500 mt-1 font-sans truncate">
+                {fileNames.join(", ")} → {preview.note.title}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Scrollable Content */}
+        <div className="flex-1 overflow-y-auto px-8 py-6 custom-scrollbar space-y-6">
+          {/* Stats */}
+          <div className="grid grid-cols-5 gap-2">
+            {stats.map(({ label, value, icon: Icon }) => (
+              <div
+                key={label}
+                className="p-3 rounded-xl bg-white/[0.02] border border-white/[0.06] text-center"
+              >
+                <Icon size={14} className="mx-auto mb-1.5 text-gray-500" />
+                <div className="text-lg font-mono text-serum-white">
+                  +{value}
+                </div>
+                <div className="text-[9px] uppercase tracking-wider text-gray-500">
+                  {label}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {!hasChanges && (
+            <p className="text-sm text-gray-400 text-center py-4">
+              These files don't add anything new to this note.
+            </p>
+          )}
+
+          {/* Guide sections */}
+          {sections.length > 0 && (
+            <div>
+              <h3 className="text-[10px] font-semibold uppercase tracking-[0.15em] text-gray-500 mb-3">
+                Study guide sections
+              </h3>
+              <div className="space-y-2">
+                {sections.map(({ heading, isNew }) => (
+                  <div
+                    key={heading}
+                    className="rounded-xl border border-white/[0.06] bg-white/[0.02]"
+                  >
+                    <button
+                      onClick={() =>
+                        setOpenSection(openSection === heading ? null : heading)
+                      }
+                      className="w-full px-4 py-3 flex items-center gap-3 text-left"
+                    >
+                      {openSection === heading ? (
+                        <ChevronDown size={14} className="text-gray-500" />
+                      ) : (
+                        <ChevronRight size={14} className="text-gray-500" />
+                      )}
+                      <span className="flex-1 text-sm text-gray-200 truncate">
+                        {heading}
+                      </span>
+                      <span
+                        className={`text-[9px] font-mono uppercase tracking-wider px-2 py-0.5 rounded-md ${
+                          isNew
+                            ? "bg-clinical-teal/10 text-clinical-teal"
+                            : "bg-synapse-amber/10 text-synapse-amber"
+                        }`}
+                      >
+                        {isNew ? "New" : "Updated"}
+                      </span>
+                    </button>
+                    {openSection === heading && (
+                      <pre className="px-4 pb-4 text-xs text-gray-400 whitespace-pre-wrap font-sans leading-relaxed max-h-64 overflow-y-auto custom-scrollbar">
+                        {sectionText(preview.note.markdownContent, heading)}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Nodes */}
+          {(preview.addedNodes.length > 0 ||
+            preview.mergedNodes.length > 0) && (
+            <div>
+              <h3 className="text-[10px] font-semibold uppercase tracking-[0.15em] text-gray-500 mb-3">
+                Topic map
+              </h3>
+              <div className="flex flex-wrap gap-1.5">
+                {preview.addedNodes.map((n) => (
+                  <span
+                    key={n.id}
+                    className="px-2.5 py-1 rounded-lg text-[11px] bg-clinical-teal/10 border border-clinical-teal/20 text-clinical-teal"
+                  >
+                    + {n.label}
+                  </span>
+                ))}
+                {preview.mergedNodes.map((m) => (
+                  <span
+                    key={`${m.incoming}→${m.existing}`}
+                    title={`"${m.incoming}" matched existing node "${m.existing}"`}
+                    className="px-2.5 py-1 rounded-lg text-[11px] bg-white/[0.03] border border-white/[0.06] text-gray-500"
+                  >
+                    {m.incoming === m.existing
+                      ? m.existing
+                      : `${m.incoming} → ${m.existing}`}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Pearls */}
+          {preview.addedPearls.length > 0 && (
+            <div>
+              <h3 className="text-[10px] font-semibold uppercase tracking-[0.15em] text-gray-500 mb-3">
+                New pearls
+              </h3>
+              <ul className="space-y-2">
+                {preview.addedPearls.map((p, i) => (
+                  <li key={i} className="text-xs text-gray-300 leading-relaxed">
+                    <span className="font-mono text-[9px] uppercase text-synapse-amber mr-2">
+                      {p.type}
+                    </span>
+                    {p.content}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Sources */}
+          {preview.addedSources.length > 0 && (
+            <div>
+              <h3 className="text-[10px] font-semibold uppercase tracking-[0.15em] text-gray-500 mb-3">
+                New sources
+              </h3>
+              <ul className="space-y-1.5">
+                {preview.addedSources.map((s) => (
+                  <li key={s.uri} className="text-xs truncate">
+                    <a
+                      href={s.uri}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-vital-cyan/80 hover:text-vital-cyan"
+                    >
+                      {s.title}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Footer Actions */}
+        <div className="relative px-8 py-6 border-t border-white/[0.04] bg-black/20">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={onDiscard}
+              disabled={isSaving}
+              className="px-5 py-3 rounded-xl text-sm font-medium text-gray-400 hover:text-white hover:bg-white/[0.05] transition-all disabled:opacity-50"
+            >
+              Discard
+            </button>
+
+            <button
+              onClick={onAccept}
+              disabled={isSaving}
+              className="flex items-center gap-3 px-6 py-3 rounded-xl font-semibold text-sm bg-clinical-teal text-bio-void hover:shadow-[0_0_40px_rgba(45,212,191,0.3)] transition-all disabled:opacity-60"
+            >
+              {isSaving ? (
+                <Loader2 size={16} className="animate-spin" />
+              ) : (
+                <Check size={16} />
+              )}
+              Save to note
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourceMergeModal;
@@ -18,7 +18,11 @@ import {
   PenTool,
   BookOpen,
   Quote,
+  ShieldCheck,
+  ChevronDown,
+  Square,
 } from "lucide-react";
+import { Phase1ValidationReport, SourceChunkProgress } from "../types";
 
 interface Props {
   isThinking: boolean;
@@ -31,8 +35,19 @@ interface Props {
     | "citing";
   currentThought?: string;
   markdownProgress?: number;
+  validationReport?: Phase1ValidationReport | null; // Phase 1 schema check
+  chunkProgress?: SourceChunkProgress[]; // Phase 1 map-reduce windows
+  onCancel?: () => void; // Aborts the run; hidden when omitted
+  isCancelling?: boolean; // Abort sent, waiting for the request to unwind
 }
 
+const CHUNK_STATUS_STYLES: Record<SourceChunkProgress["status"], string> = {
+  queued: "border-white/[0.06] text-gray-500",
+  running: "border-synapse-amber/30 text-synapse-amber animate-pulse",
+  done: "border-clinical-teal/30 text-clinical-teal",
+  failed: "border-tissue-rose/30 text-tissue-rose",
+};
+
 // Maximum thoughts to keep in history (prevents memory leak)
 const MAX_THOUGHT_HISTORY = 50;
 
@@ -91,6 +106,10 @@ const ThinkingModal: React.FC<Props> = ({
   stage,
   currentThought,
   markdownProgress = 0,
+  validationReport,
+  chunkProgress = [],
+  onCancel,
+  isCancelling = false,
 }) => {
   // ===============================
   // STATE: Timer, Thoughts, and UI Effects
@@ -99,6 +118,7 @@ const ThinkingModal: React.FC<Props> = ({
   const [thoughtHistory, setThoughtHistory] = useState<string[]>([]);
   const [displayedText, setDisplayedText] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  const [showReport, setShowReport] = useState(false);
   const thoughtContainerRef = useRef<HTMLDivElement>(null);
   const typingIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -461,6 +481,109 @@ const ThinkingModal: React.FC<Props> = ({
             )}
           </div>
 
+          {/* Phase 1 chunks (large inputs) */}
+          {chunkProgress.length > 1 && (
+            <div className="px-8 py-3 border-b border-white/[0.04]">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">
+                  Source chunks
+                </span>
+                <span className="text-[10px] font-mono text-gray-500">
+                  {chunkProgress.filter((c) => c.status === "done").length}/
+                  {chunkProgress.length} merged
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto custom-scrollbar">
+                {chunkProgress.map((chunk, i) => (
+                  <span
+                    key={i}
+                    title={chunk.error}
+                    className={`px-2 py-1 rounded-md border bg-white/[0.02] text-[10px] font-mono ${
+                      CHUNK_STATUS_STYLES[chunk.status]
+                    }`}
+                  >
+                    {chunk.label}
+                    {chunk.nodeCount !== undefined &&
+                      ` · ${chunk.nodeCount} nodes`}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Phase 1 schema report */}
+          {validationReport && (
+            <div className="px-8 py-3 border-b border-white/[0.04]">
+              <button
+                onClick={() => setShowReport((prev) => !prev)}
+                className="w-full flex items-center gap-3 text-left"
+              >
+                <ShieldCheck
+                  size={14}
+                  className={
+                    validationReport.unresolved.length > 0
+                      ? "text-synapse-amber"
+                      : "text-clinical-teal"
+                  }
+                />
+                <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">
+                  Graph schema check
+                </span>
+                <span className="flex-1 text-[10px] font-mono text-gray-500">
+                  {[
+                    validationReport.repaired.length > 0 &&
+                      `${validationReport.repaired.length} repaired by model`,
+                    validationReport.fixed.length > 0 &&
+                      `${validationReport.fixed.length} fixed`,
+                    validationReport.dropped.length > 0 &&
+                      `${validationReport.dropped.length} dropped`,
+                    validationReport.unresolved.length > 0 &&
+                      `${validationReport.unresolved.length} unresolved`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ") || "all valid"}
+                </span>
+                {validationReport.repaired.length +
+                  validationReport.fixed.length +
+                  validationReport.dropped.length +
+                  validationReport.unresolved.length >
+                  0 && (
+                  <ChevronDown
+                    size={14}
+                    className={`text-gray-500 transition-transform ${
+                      showReport ? "rotate-180" : ""
+                    }`}
+                  />
+                )}
+              </button>
+
+              {showReport && (
+                <div className="mt-3 max-h-40 overflow-y-auto custom-scrollbar space-y-1 font-mono text-[10px]">
+                  {(
+                    [
+                      ["repaired", "text-clinical-teal", validationReport.repaired],
+                      ["fixed", "text-vital-cyan", validationReport.fixed],
+                      ["dropped", "text-tissue-rose", validationReport.dropped],
+                      ["unresolved", "text-synapse-amber", validationReport.unresolved],
+                    ] as const
+                  ).flatMap(([label, color, issues]) =>
+                    issues.map((issue, i) => (
+                      <div key={`${label}-${i}`} className="flex gap-2">
+                        <span className={`${color} uppercase w-20 shrink-0`}>
+                          {label}
+                        </span>
+                        <span className="text-gray-500 shrink-0">
+                          {issue.path}
+                        </span>
+                        <span className="text-gray-300">{issue.message}</span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Thoughts display */}
           <div className="relative">
             <div className="px-8 pt-6 pb-3 flex items-center justify-between">
@@ -597,11 +720,23 @@ const ThinkingModal: React.FC<Props> = ({
                 })}
               </div>
 
-              <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white/5 border border-white/10">
-                <Zap size={12} className="text-clinical-amber" />
-                <span className="text-[10px] font-mono text-gray-300 tracking-wide">
-                  GEMINI 2.5 FLASH
-                </span>
+              <div className="flex items-center gap-2">
+                {onCancel && (
+                  <button
+                    onClick={onCancel}
+                    disabled={isCancelling}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-full border border-tissue-rose/30 text-tissue-rose text-[10px] font-mono tracking-wide hover:bg-tissue-rose/10 transition-colors disabled:opacity-50"
+                  >
+                    <Square size={10} className="fill-current" />
+                    {isCancelling ? "CANCELLING..." : "CANCEL"}
+                  </button>
+                )}
+                <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white/5 border border-white/10">
+                  <Zap size={12} className="text-clinical-amber" />
+                  <span className="text-[10px] font-mono text-gray-300 tracking-wide">
+                    GEMINI 2.5 FLASH
+                  </span>
+                </div>
               </div>
             </div>
           </div>
@@ -0,0 +1,292 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * SYNAPSE MED — USAGE & COST
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Settings tab that reads the usage ledger: tokens and estimated spend by
+ * call type and by note (generation vs. chat), plus the editable price table
+ * used to cost new calls.
+ */
+
+import React, { useEffect, useState } from "react";
+import { BarChart3, Coins, RotateCcw, Trash2, Loader2 } from "lucide-react";
+import { ModelPrice } from "../types";
+import {
+  DEFAULT_MODEL_PRICES,
+  USAGE_TASK_LABELS,
+  summarizeUsage,
+  type UsageSummary,
+  type UsageTotals,
+} from "../services/usageService";
+import { UsageRepository } from "../src/lib/repos/UsageRepository";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPONENT PROPS
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface UsagePanelProps {
+  modelPrices?: Record<string, ModelPrice>; // Profile overrides (unsaved edits)
+  activeModel?: string; // Local model name, offered in the price table
+  noteTitles: Record<string, string>;
+  onPricesChange: (prices: Record<string, ModelPrice>) => void;
+}
+
+const PERIODS = [
+  { id: "30d", label: "Last 30 days", ms: 30 * 24 * 60 * 60 * 1000 },
+  { id: "all", label: "All time", ms: 0 },
+];
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: "input", label: "Input" },
+  { key: "output", label: "Output" },
+  { key: "cached", label: "Cached" },
+];
+
+const formatTokens = (n: number) =>
+  n >= 1_000_000
+    ? `${(n / 1_000_000).toFixed(2)}M`
+    : n >= 1000
+    ? `${(n / 1000).toFixed(1)}k`
+    : String(n);
+
+const formatCost = (usd: number) =>
+  usd === 0 ? "$0" : usd < 0.01 ? "<$0.01" : `$${usd.toFixed(2)}`;
+
+const totalTokens = (t: UsageTotals) =>
+  t.inputTokens + t.outputTokens + t.thinkingTokens;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({
+  modelPrices,
+  activeModel,
+  noteTitles,
+  onPricesChange,
+}) => {
+  const [period, setPeriod] = useState("30d");
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+
+  useEffect(() => {
+    const ms = PERIODS.find((p) => p.id === period)?.ms || 0;
+    setSummary(null);
+    summarizeUsage(ms ? Date.now() - ms : undefined)
+      .then(setSummary)
+      .catch((error) => console.error("❌ [Usage] Summary failed:", error));
+  }, [period]);
+
+  const prices = { ...DEFAULT_MODEL_PRICES, ...(modelPrices || {}) };
+  const priceRows = Object.keys(prices);
+  if (activeModel && !prices[activeModel]) priceRows.push(activeModel);
+
+  const updatePrice = (model: string, key: keyof ModelPrice, raw: string) => {
+    const value = raw === "" ? undefined : Math.max(0, Number(raw) || 0);
+    const current = prices[model] || { input: 0, output: 0 };
+    onPricesChange({
+      ...(modelPrices || {}),
+      [model]: { ...current, [key]: key === "cached" ? value : value ?? 0 },
+    });
+  };
+
+  const handleClear = async () => {
+    const confirmed = confirm(
+      "Delete all recorded usage? Estimated costs can't be recovered."
+    );
+    if (!confirmed) return;
+    await UsageRepository.clear();
+    setSummary(await summarizeUsage());
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Period + total */}
+      <div className="p-5 rounded-xl border border-vital-cyan/20 bg-gradient-to-br from-vital-cyan/8 to-vital-cyan/2">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex gap-1.5">
+            {PERIODS.map((p) => (
+              <button
+                key={p.id}
+                onClick={() => setPeriod(p.id)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+                  period === p.id
+                    ? "bg-vital-cyan/15 text-vital-cyan"
+                    : "text-clinical-text/50 hover:text-clinical-text/80"
+                }`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleClear}
+            className="flex items-center gap-1.5 text-[11px] text-clinical-text/40 hover:text-tissue-rose transition-colors"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Clear ledger
+          </button>
+        </div>
+
+        {!summary ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-vital-cyan" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-4 gap-3">
+            {[
+              { label: "Est. cost", value: formatCost(summary.total.costUsd) },
+              { label: "Calls", value: String(summary.total.calls) },
+              {
+                label: "Input",
+                value: formatTokens(summary.total.inputTokens),
+              },
+              {
+                label: "Output + thinking",
+                value: formatTokens(
+                  summary.total.outputTokens + summary.total.thinkingTokens
+                ),
+              },
+            ].map(({ label, value }) => (
+              <div key={label}>
+                <div className="text-lg font-mono text-serum-white">{value}</div>
+                <div className="text-[10px] uppercase tracking-wider text-clinical-text/50">
+                  {label}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* By call type */}
+      {summary && summary.byTask.length > 0 && (
+        <div className="space-y-3">
+          <label className="text-sm font-semibold text-serum-white flex items-center gap-2">
+            <BarChart3 className="w-4 h-4 text-vital-cyan" />
+            By call type
+          </label>
+          <div className="rounded-xl border border-white/[0.05] divide-y divide-white/[0.04]">
+            {summary.byTask.map(({ task, totals }) => (
+              <div
+                key={task}
+                className="px-4 py-2.5 flex items-center gap-3 text-xs"
+              >
+                <span className="flex-1 text-clinical-text/80">
+                  {USAGE_TASK_LABELS[task as keyof typeof USAGE_TASK_LABELS] ||
+                    task}
+                </span>
+                <span className="w-14 text-right text-clinical-text/40">
+                  {totals.calls}×
+                </span>
+                <span
+                  className="w-20 text-right font-mono text-clinical-text/60"
+                  title={`${totals.inputTokens} in (${totals.cachedTokens} cached) / ${totals.outputTokens} out / ${totals.thinkingTokens} thinking`}
+                >
+                  {formatTokens(totalTokens(totals))}
+                </span>
+                <span className="w-16 text-right font-mono text-serum-white">
+                  {formatCost(totals.costUsd)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* By note */}
+      {summary && summary.byNote.length > 0 && (
+        <div className="space-y-3">
+          <label className="text-sm font-semibold text-serum-white flex items-center gap-2">
+            <BarChart3 className="w-4 h-4 text-vital-cyan" />
+            By note
+          </label>
+          <div className="rounded-xl border border-white/[0.05] divide-y divide-white/[0.04]">
+            <div className="px-4 py-2 flex items-center gap-3 text-[10px] uppercase tracking-wider text-clinical-text/40">
+              <span className="flex-1">Note</span>
+              <span className="w-20 text-right">Generation</span>
+              <span className="w-20 text-right">Chat</span>
+            </div>
+            {summary.byNote.map(({ noteId, generation, chat }) => (
+              <div
+                key={noteId || "none"}
+                className="px-4 py-2.5 flex items-center gap-3 text-xs"
+              >
+                <span className="flex-1 truncate text-clinical-text/80">
+                  {!noteId
+                    ? "Not tied to a note"
+                    : noteTitles[noteId] || "Deleted note"}
+                </span>
+                {[generation, chat].map((totals, i) => (
+                  <span
+                    key={i}
+                    className="w-20 text-right font-mono text-serum-white"
+                    title={`${totals.calls} calls · ${formatTokens(
+                      totalTokens(totals)
+                    )} tokens`}
+                  >
+                    {totals.calls ? formatCost(totals.costUsd) : "—"}
+                  </span>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {summary && summary.total.calls === 0 && (
+        <p className="text-xs text-clinical-text/50 text-center">
+          No model calls recorded in this period.
+        </p>
+      )}
+
+      {/* Price table */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-semibold text-serum-white flex items-center gap-2">
+            <Coins className="w-4 h-4 text-synapse-amber" />
+            Price table
+            <span className="text-[11px] font-normal text-clinical-text/40">
+              USD per 1M tokens
+            </span>
+          </label>
+          <button
+            onClick={() => onPricesChange({})}
+            className="flex items-center gap-1.5 text-[11px] text-clinical-text/40 hover:text-clinical-text/80 transition-colors"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Defaults
+          </button>
+        </div>
+        <div className="space-y-2">
+          {priceRows.map((model) => (
+            <div key={model} className="flex items-center gap-2">
+              <span className="flex-1 text-xs font-mono text-clinical-text/70 truncate">
+                {model}
+              </span>
+              {PRICE_FIELDS.map(({ key, label }) => (
+                <input
+                  key={key}
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={prices[model]?.[key] ?? ""}
+                  onChange={(e) => updatePrice(model, key, e.target.value)}
+                  placeholder={label}
+                  title={label}
+                  className="w-20 px-2 py-1.5 rounded-lg bg-white/[0.03] border border-white/[0.08] text-xs font-mono text-serum-white focus:outline-none focus:border-vital-cyan/40"
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+        <p className="text-[11px] text-clinical-text/40">
+          Input / output / cached input. Thinking tokens are billed as output.
+          Prices apply to new calls; recorded costs keep the price they were
+          estimated with.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,266 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * SYNAPSE MED — VERIFICATION REPORT
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * High-risk claims in a guide (dosages, lab thresholds, first-line
+ * treatments) and the sources behind them. Uncited claims are listed first;
+ * each can be marked verified, disputed or corrected, which is stored on the
+ * note and shown after the claim in the guide.
+ */
+
+import React, { useMemo, useState } from "react";
+import {
+  X,
+  ListChecks,
+  AlertTriangle,
+  CheckCircle2,
+  PencilLine,
+  RotateCcw,
+} from "lucide-react";
+import { AugmentedNote, ClaimStatus } from "../types";
+import {
+  CLAIM_RISK_LABELS,
+  CLAIM_STATUS_LABELS,
+  extractClaims,
+  isCited,
+  type ClaimVerdict,
+  type GuideClaim,
+} from "../services/claimVerification";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPONENT PROPS
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface VerificationReportModalProps {
+  note: AugmentedNote;
+  onReview: (claim: GuideClaim, verdict: ClaimVerdict | null) => void; // null clears it
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ClaimStatus, string> = {
+  verified: "bg-clinical-teal/15 text-clinical-teal border-clinical-teal/30",
+  disputed: "bg-tissue-rose/15 text-tissue-rose border-tissue-rose/30",
+  corrected: "bg-synapse-amber/15 text-synapse-amber border-synapse-amber/30",
+};
+
+const STATUSES = Object.keys(CLAIM_STATUS_LABELS) as ClaimStatus[];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const VerificationReportModal: React.FC<
+  VerificationReportModalProps
+> = ({ note, onReview, onClose }) => {
+  const [showCited, setShowCited] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(
+    null
+  );
+
+  const claims = useMemo(
+    () => extractClaims(note.markdownContent),
+    [note.markdownContent]
+  );
+  const reviews = useMemo(
+    () => new Map((note.claimReviews || []).map((r) => [r.claimId, r])),
+    [note.claimReviews]
+  );
+
+  const uncited = claims.filter((c) => !isCited(c));
+  const visible = showCited ? claims : uncited;
+
+  const saveCorrection = (claim: GuideClaim) => {
+    if (!editing?.text.trim()) return;
+    onReview(claim, { status: "corrected", correction: editing.text.trim() });
+    setEditing(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-black/80 backdrop-blur-xl animate-fadeIn">
+      <div className="relative bg-gradient-to-b from-bio-deep to-bio-void border border-white/[0.06] rounded-3xl shadow-2xl w-full max-w-3xl transform animate-scaleIn overflow-hidden max-h-[90vh] flex flex-col">
+        {/* Atmospheric Glows */}
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-clinical-teal/10 rounded-full blur-[120px] pointer-events-none" />
+        <div className="absolute top-0 left-1/2 -translate-x-1/2 w-48 h-px bg-gradient-to-r from-transparent via-clinical-teal/50 to-transparent" />
+
+        {/* Header */}
+        <div className="relative px-8 pt-8 pb-6 border-b border-white/[0.04]">
+          <button
+            onClick={onClose}
+            className="absolute top-6 right-6 p-2 rounded-xl text-gray-500 hover:text-white hover:bg-white/5 transition-all"
+          >
+            <X size={20} />
+          </button>
+
+          <div className="flex items-center gap-4">
+            <div className="w-14 h-14 rounded-2xl bg-gradient-to-br from-clinical-teal/15 to-vital-cyan/10 border border-clinical-teal/20 flex items-center justify-center">
+              <ListChecks size={24} className="text-clinical-teal" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-2xl font-serif italic text-serum-white">
+                Verification Report
+              </h2>
+              <p className="text-sm text-gray-500 mt-1 font-sans">
+                {`${claims.length} high-risk claim${
+                  claims.length === 1 ? "" : "s"
+                } · ${uncited.length} without a citation · ${
+                  reviews.size
+                } reviewed`}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 mt-5 text-[11px]">
+            {[
+              { cited: false, label: `Uncited (${uncited.length})` },
+              { cited: true, label: `All (${claims.length})` },
+            ].map(({ cited, label }) => (
+              <button
+                key={label}
+                onClick={() => setShowCited(cited)}
+                className={`px-3 py-1 rounded-lg border transition-colors ${
+                  showCited === cited
+                    ? "border-clinical-teal/40 bg-clinical-teal/10 text-clinical-teal"
+                    : "border-white/[0.08] text-gray-400 hover:text-gray-200"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Scrollable Content */}
+        <div className="flex-1 overflow-y-auto px-8 py-6 custom-scrollbar space-y-3">
+          {visible.length === 0 && (
+            <p className="text-sm text-gray-400 text-center py-6">
+              {claims.length === 0
+                ? "No dosages, lab thresholds or first-line treatments were found in this guide."
+                : "Every high-risk claim has a citation."}
+            </p>
+          )}
+
+          {visible.map((claim) => {
+            const review = reviews.get(claim.id);
+            const isEditing = editing?.id === claim.id;
+
+            return (
+              <div
+                key={claim.id}
+                className="p-4 rounded-xl border border-white/[0.06] bg-white/[0.02] space-y-2.5"
+              >
+                <div className="flex flex-wrap items-center gap-1.5 text-[10px]">
+                  {claim.risks.map((risk) => (
+                    <span
+                      key={risk}
+                      className="px-2 py-0.5 rounded-md font-medium bg-white/[0.05] text-gray-300"
+                    >
+                      {CLAIM_RISK_LABELS[risk]}
+                    </span>
+                  ))}
+                  {isCited(claim) ? (
+                    <span className="flex items-center gap-1 text-clinical-teal/80">
+                      <CheckCircle2 size={11} />
+                      {claim.citations.length > 0
+                        ? `Cited ${claim.citations.map((n) => `[${n}]`).join("")}`
+                        : `Cites ${claim.inlineCitation}`}
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-1 text-synapse-amber">
+                      <AlertTriangle size={11} />
+                      No citation
+                    </span>
+                  )}
+                  <span className="ml-auto text-gray-600 truncate max-w-[40%]">
+                    {claim.section}
+                  </span>
+                </div>
+
+                <p className="text-sm text-gray-200 leading-relaxed">
+                  {claim.text}
+                </p>
+
+                {review?.status === "corrected" && review.correction && (
+                  <p className="text-xs text-synapse-amber/90 border-l-2 border-synapse-amber/40 pl-3">
+                    {review.correction}
+                  </p>
+                )}
+
+                {isEditing ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={editing.text}
+                      onChange={(e) =>
+                        setEditing({ id: claim.id, text: e.target.value })
+                      }
+                      rows={3}
+                      autoFocus
+                      placeholder="The correct statement, with its source"
+                      className="w-full px-3 py-2 rounded-lg bg-white/[0.03] border border-white/[0.08] text-xs text-serum-white focus:outline-none focus:border-synapse-amber/40 resize-none"
+                    />
+                    <div className="flex justify-end gap-2 text-[11px]">
+                      <button
+                        onClick={() => setEditing(null)}
+                        className="px-3 py-1 rounded-lg text-gray-400 hover:text-white"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => saveCorrection(claim)}
+                        disabled={!editing.text.trim()}
+                        className="px-3 py-1 rounded-lg bg-synapse-amber/20 text-synapse-amber disabled:opacity-40"
+                      >
+                        Save correction
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-1.5 text-[11px]">
+                    {STATUSES.map((status) => (
+                      <button
+                        key={status}
+                        onClick={() =>
+                          status === "corrected"
+                            ? setEditing({
+                                id: claim.id,
+                                text: review?.correction || claim.text,
+                              })
+                            : onReview(claim, { status })
+                        }
+                        className={`flex items-center gap-1 px-2.5 py-1 rounded-lg border transition-colors ${
+                          review?.status === status
+                            ? STATUS_STYLES[status]
+                            : "border-white/[0.08] text-gray-400 hover:text-gray-200"
+                        }`}
+                      >
+                        {status === "corrected" && <PencilLine size={11} />}
+                        {CLAIM_STATUS_LABELS[status]}
+                      </button>
+                    ))}
+                    {review && (
+                      <button
+                        onClick={() => onReview(claim, null)}
+                        className="ml-auto flex items-center gap-1 text-gray-500 hover:text-gray-300"
+                        title="Clear review"
+                      >
+                        <RotateCcw size={11} />
+                        Clear
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-8 py-4 border-t border-white/[0.04] text-[11px] text-gray-500">
+          Claims are found by local pattern matching and may miss some. Numbers
+          in brackets refer to the guide's Verified Sources.
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerificationReportModal;
@@ -0,0 +1,146 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CITATION MARKERS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Ties guide sentences to the grounding sources that support them. Search
+ * grounding reports which response segments each source backs; after a guide
+ * is written, a numbered marker "[n](cite:n)" is placed after each supported
+ * segment, where n is the source's position in note.sources (1-based).
+ *
+ * Segments are located by their text rather than their offsets - the guide
+ * is post-processed (tables, duplicate sections) after it streams, so offsets
+ * into the raw response don't survive.
+ */
+
+import type { Source } from "../types";
+import type { LLMGroundingMetadata } from "./llmProvider";
+
+export interface CitedSegment {
+  text: string; // Response text the sources support
+  uris: string[];
+}
+
+export const CITATION_MARKER_PATTERN = /\[(\d+)\]\(cite:\d+\)/g;
+
+const isUsableUri = (uri: string) =>
+  !uri.includes("vertexaisearch.cloud.google.com") &&
+  !uri.includes("google.com/search") &&
+  !uri.includes("/search?");
+
+/** Segment-level support from one response's grounding metadata */
+export function citedSegmentsFrom(
+  metadata: LLMGroundingMetadata | null
+): CitedSegment[] {
+  if (!metadata?.groundingSupports) return [];
+  const segments: CitedSegment[] = [];
+
+  for (const support of metadata.groundingSupports) {
+    const text = support.segment?.text?.trim();
+    if (!text || text.length < 12) continue;
+    const uris = (support.groundingChunkIndices || [])
+      .map((idx) => metadata.groundingChunks?.[idx]?.web?.uri)
+      .filter((uri): uri is string => !!uri && isUsableUri(uri));
+    if (uris.length > 0) segments.push({ text, uris: [...new Set(uris)] });
+  }
+  return segments;
+}
+
+// Offsets that fall inside a fenced code block (JSON tables, ...)
+function codeRanges(markdown: string): [number, number][] {
+  const ranges: [number, number][] = [];
+  const fence = /^```[^\n]*$/gm;
+  let open: number | undefined;
+  for (const match of markdown.matchAll(fence)) {
+    if (open === undefined) {
+      open = match.index ?? 0;
+    } else {
+      ranges.push([open, (match.index ?? 0) + match[0].length]);
+      open = undefined;
+    }
+  }
+  if (open !== undefined) ranges.push([open, markdown.length]);
+  return ranges;
+}
+
+/**
+ * Place "[n](cite:n)" markers after each supported segment. Segments that
+ * can't be found, end inside a code block or a heading, or only cite sources
+ * missing from the list are skipped. Existing markers are kept.
+ */
+export function insertCitationMarkers(
+  markdown: string,
+  segments: CitedSegment[],
+  sources: Source[]
+): string {
+  if (segments.length === 0 || sources.length === 0) return markdown;
+
+  const numberOf = new Map<string, number>();
+  sources.forEach(
+    (s, i) => !numberOf.has(s.uri) && numberOf.set(s.uri, i + 1)
+  );
+  const code = codeRanges(markdown);
+
+  // Insertion offset → source numbers
+  const inserts = new Map<number, Set<number>>();
+  let cursor = 0;
+
+  for (const segment of segments) {
+    const numbers = segment.uris
+      .map((uri) => numberOf.get(uri))
+      .filter((n): n is number => n !== undefined);
+    if (numbers.length === 0) continue;
+
+    // Segments arrive in response order; fall back to a full search
+    let start = markdown.indexOf(segment.text, cursor);
+    if (start === -1) start = markdown.indexOf(segment.text);
+    if (start === -1) continue;
+    const end = start + segment.text.length;
+    cursor = end;
+
+    const lineStart = markdown.lastIndexOf("\n", start - 1) + 1;
+    if (/^\s*#/.test(markdown.slice(lineStart, start + 1))) continue;
+    if (code.some(([from, to]) => end > from && end <= to)) continue;
+
+    const set = inserts.get(end) || new Set<number>();
+    numbers.forEach((n) => set.add(n));
+    inserts.set(end, set);
+  }
+
+  let result = markdown;
+  [...inserts.entries()]
+    .sort((a, b) => b[0] - a[0])
+    .forEach(([offset, numbers]) => {
+      const following =
+        result.slice(offset).match(/^(?:\s*\[\d+\]\(cite:\d+\))+/)?.[0] ||
+        "";
+      const already = new Set(
+        [...following.matchAll(/\[(\d+)\]/g)].map((m) => Number(m[1]))
+      );
+      const markers = [...numbers]
+        .filter((n) => !already.has(n))
+        .sort((a, b) => a - b)
+        .map((n) => `[${n}](cite:${n})`)
+        .join("");
+      if (markers) {
+        result = `${result.slice(0, offset)} ${markers}${result.slice(offset)}`;
+      }
+    });
+  return result;
+}
+
+/**
+ * Drop markers that don't point at a source in a list of `sourceCount` -
+ * e.g. ones a model mangled or made up while editing marked text
+ */
+export const dropUnknownCitationMarkers = (
+  markdown: string,
+  sourceCount: number
+) =>
+  markdown.replace(/ ?\[(\d+)\]\(cite:(\d+)\)/g, (marker, n, target) =>
+    n === target && Number(n) >= 1 && Number(n) <= sourceCount ? marker : ""
+  );
+
+/** Remove the markers, e.g. before sending guide text back to the model */
+export const stripCitationMarkers = (markdown: string) =>
+  markdown.replace(/ ?\[\d+\]\(cite:\d+\)/g, "");
@@ -0,0 +1,214 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CLAIM VERIFICATION
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Finds the guide sentences that do the most harm when wrong - dosages, lab
+ * thresholds and first-line treatments - and whether anything backs them: a
+ * citation marker (see citations) or an inline reference such as
+ * "ACC/AHA 2023" or "Uploaded: Page 4". The Verification report lists them
+ * and the learner's verdicts are stored on the note as ClaimReviews, keyed by
+ * a hash of the claim text so they survive unrelated edits to the guide.
+ *
+ * JSON table blocks are skipped: there is no sentence in them to annotate.
+ */
+
+import type { ClaimReview, ClaimStatus } from "../types";
+import { CITATION_MARKER_PATTERN } from "./citations";
+
+export type ClaimRisk = "dosage" | "lab-threshold" | "first-line";
+
+export interface GuideClaim {
+  id: string;
+  text: string; // Plain sentence - links and formatting removed
+  section: string; // '## ' heading it sits under
+  risks: ClaimRisk[];
+  citations: number[]; // Source numbers from its citation markers
+  inlineCitation?: string; // e.g. "ACC/AHA 2023"
+  end: number; // Offset just after the sentence (and its markers)
+}
+
+// What the report asks for; the rest of a ClaimReview is filled in on save
+export type ClaimVerdict = Pick<ClaimReview, "status" | "correction">;
+
+export const CLAIM_RISK_LABELS: Record<ClaimRisk, string> = {
+  dosage: "Dosage",
+  "lab-threshold": "Lab threshold",
+  "first-line": "First-line treatment",
+};
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  verified: "Verified",
+  disputed: "Disputed",
+  corrected: "Corrected",
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RISK RULES
+// ═══════════════════════════════════════════════════════════════════════════
+
+const DOSE_AMOUNT =
+  /\b\d+(?:\.\d+)?(?:\s?(?:-|–|to)\s?\d+(?:\.\d+)?)?\s?(?:mg|mcg|µg|μg|g|ml|units?|iu|meq|mmol)(?:\/(?:kg|m2|m²|day|d|h|hr|dose|min))*\b/i;
+const DOSE_CONTEXT =
+  /\b(?:dose|dosing|daily|bid|tid|qid|q\d+h|iv|po|im|sc|subcut|infusion|bolus|loading|maintenance|give|administer|start|titrate|per day|once|twice)\b|\/(?:kg|day|dose)\b/i;
+
+const LAB_VALUE =
+  /\d(?:[\d.,]*)\s?(?:mg\/dl|mmol\/l|meq\/l|g\/dl|g\/l|u\/l|iu\/l|ng\/ml|pg\/ml|µmol\/l|μmol\/l|umol\/l|mmhg|%|×\s?10\^?\d+\/l|x\s?10\^?\d+\/l|\/µl|\/mm3|\/mm³)/i;
+const LAB_COMPARATOR =
+  /[<>≤≥]|\b(?:above|below|greater than|less than|more than|exceeds?|at least|threshold|cut-?off|target|diagnostic of)\b/i;
+
+const FIRST_LINE =
+  /\b(?:first[- ]line|drug of choice|treatment of choice|therapy of choice|mainstay of (?:treatment|therapy|management)|initial (?:therapy|treatment|management)|preferred (?:agent|drug|treatment|therapy))\b/i;
+
+const INLINE_CITATION =
+  /\bUploaded:\s*Page\s*\d+|\b[A-Z]{2,}[A-Za-z]*(?:\/[A-Z]{2,}[A-Za-z]*)*,?\s(?:19|20)\d{2}\b|\bet al\b/;
+
+function risksOf(text: string): ClaimRisk[] {
+  const risks: ClaimRisk[] = [];
+  if (DOSE_AMOUNT.test(text) && DOSE_CONTEXT.test(text)) risks.push("dosage");
+  if (LAB_VALUE.test(text) && LAB_COMPARATOR.test(text)) {
+    risks.push("lab-threshold");
+  }
+  if (FIRST_LINE.test(text)) risks.push("first-line");
+  return risks;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXTRACTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Badges added for display (review status, numeric checks) aren't claim text
+const DISPLAY_BADGE_PATTERN = /\s*\[[^\]]*\]\((?:claim|numeric):[^)]*\)/g;
+
+export const plainText = (markdown: string) =>
+  markdown
+    .replace(CITATION_MARKER_PATTERN, "")
+    .replace(DISPLAY_BADGE_PATTERN, "")
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
+    .replace(/[*_`]/g, "")
+    .replace(/^\s*(?:[-+]|\d+\.)\s+/, "")
+    .replace(/\s*\|\s*/g, " | ")
+    .replace(/^\s*\|\s*|\s*\|\s*$/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Same djb2 fingerprint as prompt override tags
+export function hashText(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export const claimIdFor = (text: string) =>
+  `claim-${hashText(text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim())}`;
+
+// Sentence breaks: end punctuation followed by a capital, emphasis or link -
+// but not by a citation marker, which belongs to the sentence before it
+const SENTENCE_BREAK =
+  /(?<=[.!?]|\(cite:\d+\))\s+(?=[A-Z*(]|\[(?!\d+\]\(cite:))/g;
+
+export interface GuideSentence {
+  raw: string; // As written, with links and citation markers
+  text: string; // Plain text
+  section: string; // '## ' heading it sits under
+  end: number; // Offset just after the sentence (and its markers)
+}
+
+/** Prose sentences of a guide - headings, rules and code blocks skipped */
+export function guideSentences(markdown: string): GuideSentence[] {
+  const sentences: GuideSentence[] = [];
+  let section = "";
+  let inCode = false;
+  let offset = 0;
+
+  for (const line of markdown.split("\n")) {
+    const lineStart = offset;
+    offset += line.length + 1;
+
+    if (/^\s*```/.test(line)) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode || !line.trim()) continue;
+
+    const heading = line.match(/^##\s+(.+)$/);
+    if (heading) {
+      section = plainText(heading[1]);
+      continue;
+    }
+    if (/^\s*#/.test(line) || /^\s*\|?\s*:?-{3,}/.test(line)) continue;
+
+    let spanStart = 0;
+    const breaks = [...line.matchAll(SENTENCE_BREAK)].map((m) => m.index!);
+    for (const spanEnd of [...breaks, line.length]) {
+      const raw = line.slice(spanStart, spanEnd).trimEnd();
+      const rawStart = spanStart;
+      spanStart = spanEnd;
+      sentences.push({
+        raw,
+        text: plainText(raw),
+        section,
+        end: lineStart + rawStart + raw.length,
+      });
+    }
+  }
+  return sentences;
+}
+
+/** High-risk claims in a guide, in document order, one per distinct text */
+export function extractClaims(markdown: string): GuideClaim[] {
+  const claims: GuideClaim[] = [];
+  const seen = new Set<string>();
+
+  for (const { raw, text, section, end } of guideSentences(markdown)) {
+    if (text.length < 15) continue;
+    const risks = risksOf(text);
+    if (risks.length === 0) continue;
+
+    const id = claimIdFor(text);
+    if (seen.has(id)) continue;
+    seen.add(id);
+
+    claims.push({
+      id,
+      text,
+      section,
+      risks,
+      citations: [...raw.matchAll(CITATION_MARKER_PATTERN)].map((m) =>
+        Number(m[1])
+      ),
+      inlineCitation: text.match(INLINE_CITATION)?.[0],
+      end,
+    });
+  }
+  return claims;
+}
+
+export const isCited = (claim: GuideClaim) =>
+  claim.citations.length > 0 || !!claim.inlineCitation;
+
+/**
+ * The guide with a "[Verified](claim:<id>)" style marker after each reviewed
+ * claim, for display only - markdownContent itself is never changed
+ */
+export function annotateClaimReviews(
+  markdown: string,
+  reviews?: ClaimReview[]
+): string {
+  if (!reviews || reviews.length === 0) return markdown;
+  const byId = new Map(reviews.map((r) => [r.claimId, r]));
+
+  let result = markdown;
+  extractClaims(markdown)
+    .filter((claim) => byId.has(claim.id))
+    .sort((a, b) => b.end - a.end)
+    .forEach((claim) => {
+      const status = byId.get(claim.id)!.status;
+      result = `${result.slice(0, claim.end)} [${
+        CLAIM_STATUS_LABELS[status]
+      }](claim:${claim.id})${result.slice(claim.end)}`;
+    });
+  return result;
+}
@@ -0,0 +1,204 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CONCEPT PATHS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "How does X lead to Y": the shortest chains of links between two nodes of
+ * a graph (a note's, or the merged library graph), plus the next-shortest
+ * alternatives (Yen's k-shortest simple paths). Links may be walked against
+ * their arrow, but that costs more, so chains that follow the arrows -
+ * cause to effect - rank first when they are as short.
+ */
+
+import type { KnowledgeGraphData } from "../types";
+import { linkEndId } from "./graphEditing";
+
+export interface PathStep {
+  from: string; // Node id, in chain order
+  to: string;
+  relationship: string;
+  forward: boolean; // false when the link points from `to` back to `from`
+}
+
+export interface ConceptPath {
+  nodeIds: string[]; // Start to end, including both
+  steps: PathStep[];
+  cost: number;
+}
+
+export const MAX_PATHS = 3;
+
+// Extra cost of walking a link against its arrow
+const REVERSE_COST = 1.5;
+
+type Adjacency = Map<string, PathStep[]>;
+
+const stepCost = (step: PathStep) => (step.forward ? 1 : REVERSE_COST);
+
+const pathCost = (steps: PathStep[]) =>
+  steps.reduce((sum, step) => sum + stepCost(step), 0);
+
+const edgeKey = (from: string, to: string) => `${from}\u0000${to}`;
+
+// One step per neighbour: the arrow-following link when there is one
+function buildAdjacency(graph: KnowledgeGraphData): Adjacency {
+  const adjacency: Adjacency = new Map(graph.nodes.map((n) => [n.id, []]));
+  const add = (step: PathStep) => {
+    const steps = adjacency.get(step.from);
+    if (!steps || !adjacency.has(step.to) || step.from === step.to) return;
+    const i = steps.findIndex((s) => s.to === step.to);
+    if (i < 0) steps.push(step);
+    else if (step.forward && !steps[i].forward) steps[i] = step;
+  };
+  graph.links.forEach((l) => {
+    const source = linkEndId(l.source);
+    const target = linkEndId(l.target);
+    const relationship = l.relationship;
+    add({ from: source, to: target, relationship, forward: true });
+    add({ from: target, to: source, relationship, forward: false });
+  });
+  return adjacency;
+}
+
+// Cheapest steps from `from` to `to` avoiding the blocked nodes and edges
+function shortestSteps(
+  adjacency: Adjacency,
+  from: string,
+  to: string,
+  blockedNodes: Set<string>,
+  blockedEdges: Set<string>
+): PathStep[] | null {
+  const cost = new Map<string, number>([[from, 0]]);
+  const via = new Map<string, PathStep>();
+  const done = new Set<string>();
+  const frontier = [from];
+
+  while (frontier.length > 0) {
+    let best = 0;
+    frontier.forEach((id, i) => {
+      if (cost.get(id)! < cost.get(frontier[best])!) best = i;
+    });
+    const current = frontier.splice(best, 1)[0];
+    if (done.has(current)) continue;
+    done.add(current);
+    if (current === to) break;
+
+    for (const step of adjacency.get(current) || []) {
+      if (
+        done.has(step.to) ||
+        blockedNodes.has(step.to) ||
+        blockedEdges.has(edgeKey(step.from, step.to))
+      ) {
+        continue;
+      }
+      const next = cost.get(current)! + stepCost(step);
+      if (next < (cost.get(step.to) ?? Infinity)) {
+        cost.set(step.to, next);
+        via.set(step.to, step);
+        frontier.push(step.to);
+      }
+    }
+  }
+
+  if (!done.has(to)) return null;
+  const steps: PathStep[] = [];
+  for (let id = to; id !== from; id = via.get(id)!.from) {
+    steps.unshift(via.get(id)!);
+  }
+  return steps;
+}
+
+const toPath = (from: string, steps: PathStep[]): ConceptPath => ({
+  nodeIds: [from, ...steps.map((s) => s.to)],
+  steps,
+  cost: pathCost(steps),
+});
+
+/**
+ * Up to k simple paths from one node to another, cheapest first. Empty when
+ * the nodes are the same, missing or not connected.
+ */
+export function findPaths(
+  graph: KnowledgeGraphData,
+  from: string,
+  to: string,
+  k = MAX_PATHS
+): ConceptPath[] {
+  const adjacency = buildAdjacency(graph);
+  if (from === to || !adjacency.has(from) || !adjacency.has(to)) return [];
+
+  const first = shortestSteps(adjacency, from, to, new Set(), new Set());
+  if (!first) return [];
+
+  const found = [toPath(from, first)];
+  const candidates: ConceptPath[] = [];
+  const known = new Set([found[0].nodeIds.join("\u0000")]);
+
+  while (found.length < k) {
+    const previous = found[found.length - 1];
+    // Branch off the previous path at each of its nodes in turn
+    for (let i = 0; i < previous.steps.length; i++) {
+      const spur = previous.nodeIds[i];
+      const root = previous.steps.slice(0, i);
+      const rootIds = previous.nodeIds.slice(0, i + 1).join("\u0000");
+
+      const blockedEdges = new Set<string>();
+      found.forEach((path) => {
+        if (path.nodeIds.slice(0, i + 1).join("\u0000") === rootIds) {
+          blockedEdges.add(edgeKey(path.nodeIds[i], path.nodeIds[i + 1]));
+        }
+      });
+      const blockedNodes = new Set(previous.nodeIds.slice(0, i));
+
+      const spurSteps = shortestSteps(
+        adjacency,
+        spur,
+        to,
+        blockedNodes,
+        blockedEdges
+      );
+      if (!spurSteps) continue;
+      const path = toPath(from, [...root, ...spurSteps]);
+      const key = path.nodeIds.join("\u0000");
+      if (!known.has(key)) {
+        known.add(key);
+        candidates.push(path);
+      }
+    }
+
+    if (candidates.length === 0) break;
+    candidates.sort((a, b) => a.cost - b.cost || a.steps.length - b.steps.length);
+    found.push(candidates.shift()!);
+  }
+  return found;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TEXT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** One line per step, e.g. "Heart Failure —causes→ Pulmonary Oedema" */
+export const describePathSteps = (
+  path: ConceptPath,
+  labelOf: (id: string) => string
+) =>
+  path.steps.map((step) =>
+    step.forward
+      ? `${labelOf(step.from)} —${step.relationship}→ ${labelOf(step.to)}`
+      : `${labelOf(step.from)} ←${step.relationship}— ${labelOf(step.to)}`
+  );
+
+/** Tutor chat prompt asking to explain the chain link by link */
+export function explainPathPrompt(
+  path: ConceptPath,
+  labelOf: (id: string) => string
+): string {
+  const start = labelOf(path.nodeIds[0]);
+  const end = labelOf(path.nodeIds[path.nodeIds.length - 1]);
+  return [
+    `Explain this causal chain from "${start}" to "${end}": why does each ` +
+      `link hold, and how does each step lead to the next?`,
+    "",
+    ...describePathSteps(path, labelOf).map((line, i) => `${i + 1}. ${line}`),
+  ].join("\n");
+}
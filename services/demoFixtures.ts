@@ -0,0 +1,430 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * DEMO FIXTURES
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Recorded model outputs replayed by DemoProvider. One complete session on
+ * HFrEF: Phase 1 JSON, Phase 2 guide, tutor/quiz/clinical chat turns,
+ * structured quiz feedback and node expansion suggestions. Keep node ids stable — the guide relies on them
+ * for smart links and the quiz feedback keys off DEMO_QUIZ_CORRECT_ANSWER.
+ */
+
+export interface DemoFixture {
+  thoughts: string[];
+  text: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PHASE 1: Metadata + Knowledge Graph
+// ═══════════════════════════════════════════════════════════════════════════
+
+const METADATA_JSON = {
+  title: "Heart Failure with Reduced Ejection Fraction",
+  summary:
+    "HFrEF is a clinical syndrome of impaired systolic contraction (LVEF ≤40%) driven by maladaptive neurohormonal activation. Management rests on four pillars of guideline-directed medical therapy that reduce mortality.",
+  eli5Analogy:
+    "Think of the heart as a tired water pump. The body keeps shouting 'pump harder!' (adrenaline, RAAS), which works briefly but wears the pump out faster. Treatment is about calming the shouting so the pump can recover.",
+  pearls: [
+    {
+      type: "exam-tip",
+      content:
+        "The four mortality-reducing pillars are ARNI/ACEi, evidence-based beta-blocker, MRA and SGLT2 inhibitor — start all four early rather than sequentially.",
+    },
+    {
+      type: "red-flag",
+      content:
+        "Never start a beta-blocker in decompensated, wet-and-cold heart failure; stabilise first, then initiate at low dose.",
+    },
+    {
+      type: "gap-filler",
+      content:
+        "BNP is released from ventricular myocytes in response to wall stress — it is falsely low in obesity and falsely high with sacubitril (use NT-proBNP instead).",
+    },
+    {
+      type: "fact-check",
+      content:
+        "Digoxin improves symptoms and reduces hospitalisation but has no mortality benefit (DIG trial, 1997).",
+    },
+  ],
+  graphNodes: [
+    {
+      id: "hfref",
+      label: "HFrEF",
+      group: 1,
+      val: 20,
+      description: "Heart failure with LVEF ≤40% due to systolic dysfunction",
+      details:
+        "**HFrEF** results from loss of functional myocardium (ischaemia, cardiomyopathy, toxins). Reduced stroke volume triggers compensatory neurohormonal activation that ultimately worsens remodelling.",
+      synonyms: ["Systolic Heart Failure", "HF with reduced EF"],
+      clinicalPearl: "Ischaemic heart disease is the most common cause.",
+      differentials: ["HFpEF", "Constrictive pericarditis", "Cirrhosis"],
+      examFindings: ["Displaced apex beat", "S3 gallop", "Bibasal crackles"],
+      labValues: ["NT-proBNP: <125 pg/mL (normal)", "Sodium: 135-145 mmol/L"],
+      medications: ["Sacubitril/valsartan", "Bisoprolol", "Spironolactone", "Dapagliflozin"],
+      imageKeywords: ["dilated cardiomyopathy echo"],
+    },
+    {
+      id: "raas-activation",
+      label: "RAAS Activation",
+      group: 5,
+      val: 14,
+      description: "Renin-angiotensin-aldosterone cascade driving salt retention",
+      details:
+        "Reduced renal perfusion releases renin; angiotensin II causes vasoconstriction and fibrosis while aldosterone drives sodium and water retention.",
+      synonyms: ["Renin-Angiotensin System"],
+    },
+    {
+      id: "sympathetic-activation",
+      label: "Sympathetic Activation",
+      group: 5,
+      val: 12,
+      description: "Catecholamine surge raising heart rate and afterload",
+      details:
+        "Baroreceptor unloading increases sympathetic tone. Chronic exposure is cardiotoxic and promotes arrhythmia.",
+    },
+    {
+      id: "ventricular-remodelling",
+      label: "Ventricular Remodelling",
+      group: 2,
+      val: 13,
+      description: "Progressive dilation and thinning of the left ventricle",
+      synonyms: ["Cardiac Remodeling"],
+    },
+    {
+      id: "pulmonary-oedema",
+      label: "Pulmonary Oedema",
+      group: 7,
+      val: 12,
+      description: "Fluid in alveoli from raised left atrial pressure",
+      synonyms: ["Pulmonary Edema"],
+      examFindings: ["Bibasal crackles", "Orthopnoea", "Pink frothy sputum"],
+    },
+    {
+      id: "bnp",
+      label: "BNP",
+      group: 6,
+      val: 11,
+      description: "Natriuretic peptide released by stretched ventricles",
+      synonyms: ["NT-proBNP", "Brain Natriuretic Peptide"],
+      labValues: ["BNP: <100 pg/mL", "NT-proBNP: <125 pg/mL"],
+    },
+    {
+      id: "echocardiography",
+      label: "Echocardiography",
+      group: 6,
+      val: 12,
+      description: "First-line imaging to measure LVEF and structure",
+      synonyms: ["Echo", "TTE"],
+    },
+    {
+      id: "sacubitril-valsartan",
+      label: "Sacubitril/Valsartan",
+      group: 3,
+      val: 14,
+      description: "ARNI — neprilysin inhibitor plus angiotensin receptor blocker",
+      synonyms: ["ARNI", "Entresto"],
+      clinicalPearl: "Requires a 36-hour washout after stopping an ACE inhibitor.",
+      medications: ["Sacubitril/valsartan 24/26 mg BID, titrate to 97/103 mg BID"],
+    },
+    {
+      id: "beta-blockers",
+      label: "Beta-Blockers",
+      group: 3,
+      val: 13,
+      description: "Bisoprolol, carvedilol, metoprolol succinate reduce mortality",
+      synonyms: ["Beta Blockers"],
+      medications: ["Bisoprolol 1.25 mg OD, titrate to 10 mg OD"],
+    },
+    {
+      id: "mra",
+      label: "Mineralocorticoid Receptor Antagonists",
+      group: 3,
+      val: 12,
+      description: "Spironolactone/eplerenone block aldosterone-driven fibrosis",
+      synonyms: ["MRA", "Spironolactone"],
+      labValues: ["Potassium: 3.5-5.0 mmol/L"],
+    },
+    {
+      id: "sglt2-inhibitors",
+      label: "SGLT2 Inhibitors",
+      group: 3,
+      val: 12,
+      description: "Dapagliflozin/empagliflozin reduce HF hospitalisation and death",
+      synonyms: ["Gliflozins", "Dapagliflozin"],
+    },
+    {
+      id: "left-ventricle",
+      label: "Left Ventricle",
+      group: 4,
+      val: 10,
+      description: "Systemic pumping chamber whose function defines HFrEF",
+      synonyms: ["LV"],
+    },
+  ],
+  graphLinks: [
+    { source: "hfref", target: "raas-activation", relationship: "triggers" },
+    { source: "hfref", target: "sympathetic-activation", relationship: "triggers" },
+    { source: "raas-activation", target: "ventricular-remodelling", relationship: "drives" },
+    { source: "sympathetic-activation", target: "ventricular-remodelling", relationship: "drives" },
+    { source: "ventricular-remodelling", target: "left-ventricle", relationship: "affects" },
+    { source: "hfref", target: "pulmonary-oedema", relationship: "presents with" },
+    { source: "bnp", target: "hfref", relationship: "screens for" },
+    { source: "echocardiography", target: "hfref", relationship: "diagnoses" },
+    { source: "sacubitril-valsartan", target: "raas-activation", relationship: "inhibits" },
+    { source: "beta-blockers", target: "sympathetic-activation", relationship: "blocks" },
+    { source: "mra", target: "raas-activation", relationship: "blocks aldosterone arm of" },
+    { source: "sglt2-inhibitors", target: "hfref", relationship: "treats" },
+  ],
+};
+
+export const DEMO_METADATA: DemoFixture = {
+  thoughts: [
+    "Reading the uploaded lecture material and identifying the core topic — this is heart failure with reduced ejection fraction.",
+    "I should verify the current guideline-directed medical therapy pillars before writing pearls. Cross-referencing the 2022 AHA/ACC/HFSA guideline.",
+    "Now building the knowledge graph: core condition, neurohormonal physiology, diagnostics and the four drug classes as nodes, then linking mechanisms to targets.",
+    "Finalising the JSON with title, summary, ELI5 analogy, pearls, graphNodes and graphLinks.",
+  ],
+  text: JSON.stringify(METADATA_JSON, null, 2),
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PHASE 2: Master Guide
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DEMO_GUIDE: DemoFixture = {
+  thoughts: [
+    "Structuring the guide: definition, pathophysiology, presentation, diagnosis, management, then complications.",
+    "Writing the pathophysiology section around the RAAS and sympathetic loops so each drug class maps onto a mechanism.",
+    "Adding a medication table with starting and target doses, then citing the 2022 AHA/ACC/HFSA guideline.",
+  ],
+  text: `# Heart Failure with Reduced Ejection Fraction
+
+## 1. Definition & Epidemiology
+
+[HFrEF] is heart failure with a left ventricular ejection fraction of 40% or less. It affects roughly half of all patients with heart failure, and ischaemic heart disease is the leading cause (Heidenreich et al., 2022).
+
+## 2. Pathophysiology
+
+A failing [Left Ventricle] cannot maintain stroke volume. The body compensates in two ways:
+
+- **[RAAS Activation]** — reduced renal perfusion releases renin. Angiotensin II constricts vessels and aldosterone retains sodium and water.
+- **[Sympathetic Activation]** — baroreceptor unloading raises heart rate and contractility at the cost of myocardial oxygen demand.
+
+Both loops help in the short term, but over time they drive [Ventricular Remodelling]: the ventricle dilates, thins and contracts even less well.
+
+## 3. Clinical Presentation
+
+Patients present with exertional dyspnoea, orthopnoea, paroxysmal nocturnal dyspnoea and ankle swelling. Left-sided congestion causes [Pulmonary Oedema] with bibasal crackles. A displaced apex beat and an S3 gallop suggest a dilated ventricle.
+
+## 4. Diagnosis
+
+1. **[BNP]** — an NT-proBNP below 125 pg/mL makes chronic heart failure unlikely.
+2. **[Echocardiography]** — confirms LVEF ≤40% and looks for valvular or regional wall motion causes.
+3. **ECG and chest X-ray** — look for ischaemia, arrhythmia, cardiomegaly and congestion.
+
+## 5. Management
+
+Guideline-directed medical therapy has four pillars. All four reduce mortality and should be started early.
+
+| Drug class | Example | Starting dose | Target dose |
+|---|---|---|---|
+| ARNI | [Sacubitril/Valsartan] | 24/26 mg BID | 97/103 mg BID |
+| Beta-blocker | Bisoprolol | 1.25 mg OD | 10 mg OD |
+| MRA | Spironolactone | 12.5 mg OD | 25–50 mg OD |
+| SGLT2 inhibitor | Dapagliflozin | 10 mg OD | 10 mg OD |
+
+[Beta-Blockers] must be started only once the patient is euvolaemic. [Mineralocorticoid Receptor Antagonists] need potassium and creatinine checks at 1 week and 4 weeks. [SGLT2 Inhibitors] benefit patients with or without diabetes (McMurray et al., 2019).
+
+Loop diuretics relieve congestion but do not change prognosis.
+
+## 6. Complications
+
+- Ventricular arrhythmias and sudden cardiac death. Consider an ICD if LVEF stays ≤35% despite optimal therapy.
+- Cardiorenal syndrome and hyperkalaemia, especially on combined RAAS blockade.
+- Acute decompensation with cardiogenic shock.
+
+## 7. Key Takeaways
+
+HFrEF is a neurohormonal disease as much as a mechanical one. Blocking RAAS and sympathetic overdrive, and adding an SGLT2 inhibitor, changes the natural history. Diuretics only treat the symptoms.`,
+};
+
+// Replayed for "Add sources": the same Phase 1 graph merges entirely into the
+// existing note, and this patch rewrites one section in place
+export const DEMO_GUIDE_PATCH: DemoFixture = {
+  thoughts: [
+    "The new handout adds device therapy detail that belongs under Complications.",
+    "Rewriting that section with the ICD and CRT criteria; the other sections already cover the material.",
+  ],
+  text: `## 6. Complications
+
+- Ventricular arrhythmias and sudden cardiac death. Consider an ICD if LVEF stays ≤35% despite at least 3 months of optimal therapy [Uploaded: Page 2].
+- Dyssynchronous contraction. Cardiac resynchronisation therapy is indicated when LVEF ≤35% with left bundle branch block and QRS ≥150 ms (Heidenreich et al., 2022).
+- Cardiorenal syndrome and hyperkalaemia, especially on combined RAAS blockade.
+- Acute decompensation with cardiogenic shock.`,
+};
+
+// Section actions have no recorded output per heading - DemoProvider replays
+// the current section body after these thoughts
+export const DEMO_SECTION_THOUGHTS = [
+  "Re-reading the section and the knowledge graph terms it links to.",
+  "Keeping the heading and scope; restructuring the body as requested.",
+];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHAT
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DEMO_TUTOR_REPLY: DemoFixture = {
+  thoughts: [
+    "The student is asking about the guide. Anchor the answer in the RAAS and sympathetic loops, then check their understanding.",
+  ],
+  text: `Great question! Let's anchor it in the mechanism.
+
+In **HFrEF**, the body misreads low cardiac output as "low volume". It responds by switching on **RAAS** and the **sympathetic nervous system**. Each of the four pillar drugs cuts one of those loops:
+
+- **ARNI (sacubitril/valsartan)** blocks angiotensin II and boosts natriuretic peptides.
+- **Beta-blockers** blunt the catecholamine surge.
+- **MRAs** block aldosterone-driven fibrosis.
+- **SGLT2 inhibitors** cause natriuresis and have direct myocardial benefits.
+
+🧠 **Quick check:** Why do you think diuretics help symptoms but don't reduce mortality?`,
+};
+
+export const DEMO_QUIZ_CORRECT_ANSWER = "C";
+
+export const DEMO_QUIZ_QUESTION: DemoFixture = {
+  thoughts: [
+    "Generate one exam-style MCQ testing pillar therapy, with a tempting distractor about digoxin.",
+  ],
+  text: `Let's test your understanding of guideline-directed therapy! 🎯
+
+---QUIZ---
+TOPIC: HFrEF Pharmacotherapy
+DIFFICULTY: intermediate
+QUESTION: A 64-year-old man with HFrEF (LVEF 30%) is euvolaemic on ramipril and furosemide. His potassium is 4.2 mmol/L and eGFR is 58. Which addition is most likely to reduce his mortality?
+A) Digoxin 125 mcg OD
+B) Increasing furosemide to 80 mg OD
+C) Bisoprolol 1.25 mg OD
+D) Amlodipine 5 mg OD
+---END---`,
+};
+
+export const DEMO_CLINICAL_REPLY: DemoFixture = {
+  thoughts: [
+    "Stay in character as the patient and the bedside nurse. Reveal only what the student asks for.",
+  ],
+  text: `*The nurse hands you the observation chart.*
+
+**Nurse:** "Mr. Okafor, 68, came in with breathlessness that's been getting worse over three days. He couldn't lie flat last night."
+
+**Vitals:** HR 108 bpm, BP 102/68 mmHg, RR 26/min, SpO₂ 89% on room air, Temp 36.8 °C.
+
+**Patient:** *(sitting bolt upright, speaking in short sentences)* "I can't... catch my breath, doctor."
+
+What would you like to do first?`,
+};
+
+export const DEMO_IDK_REPLY: DemoFixture = {
+  thoughts: ["Normalise not knowing, then give a Socratic hint."],
+  text: `That's completely okay — this is exactly why we practice! 💪
+
+Here's a hint: the patient is already **euvolaemic**, so more fluid removal won't change the long-term picture. Ask yourself which of these drugs targets the **neurohormonal overdrive** that drives remodelling.
+
+Which option blocks the sympathetic arm?`,
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// QUIZ FEEDBACK (structured JSON)
+// ═══════════════════════════════════════════════════════════════════════════
+
+const QUIZ_OPTION_ANALYSIS = {
+  A: "INCORRECT: Digoxin reduces hospitalisation but has no mortality benefit.",
+  B: "INCORRECT: The patient is euvolaemic; extra diuresis risks hypotension and renal injury without prognostic gain.",
+  C: "CORRECT: Evidence-based beta-blockers reduce mortality by about a third in HFrEF once the patient is euvolaemic.",
+  D: "INCORRECT: Amlodipine is neutral in HFrEF and is used only for refractory hypertension or angina.",
+};
+
+export const DEMO_QUIZ_FEEDBACK_CORRECT = {
+  verdict: "CORRECT",
+  analysis:
+    "Exactly right. He is euvolaemic and already on an ACE inhibitor, so the next mortality-reducing pillar is an evidence-based beta-blocker started low and titrated slowly.\n\nBisoprolol blunts chronic sympathetic overdrive, reverses remodelling and reduces sudden cardiac death.",
+  optionAnalysis: QUIZ_OPTION_ANALYSIS,
+  corePrinciple:
+    "Mortality in HFrEF falls when you block neurohormones, not when you remove fluid.",
+  examStrategy:
+    "When the stem says 'reduce mortality', eliminate symptom-only drugs (diuretics, digoxin) first.",
+  correctAnswer: DEMO_QUIZ_CORRECT_ANSWER,
+  correctAnswerExplanation:
+    "Beta-blockade counters chronic sympathetic activation, the driver of remodelling and arrhythmic death.",
+};
+
+export const DEMO_QUIZ_FEEDBACK_INCORRECT = {
+  ...DEMO_QUIZ_FEEDBACK_CORRECT,
+  verdict: "INCORRECT",
+  analysis:
+    "A tempting choice, because that option does help patients feel better. But the question asks about mortality, and only the neurohormonal pillars change survival.\n\nHe is euvolaemic on an ACE inhibitor, so the missing pillar is a beta-blocker started at a low dose.",
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// NODE EXPANSION
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Neighbours already in the graph are dropped or become link-only candidates
+export const DEMO_NODE_EXPANSION = {
+  neighbours: [
+    {
+      label: "Cardiogenic Shock",
+      category: "complication",
+      group: 2,
+      relationship: "can progress to",
+      direction: "outgoing",
+      description:
+        "Pump failure with end-organ hypoperfusion despite adequate filling.",
+      clinicalPearl:
+        "Cold and wet: rising lactate and falling urine output despite diuretics.",
+    },
+    {
+      label: "Ventricular Arrhythmias",
+      category: "complication",
+      group: 2,
+      relationship: "predisposes to",
+      direction: "outgoing",
+      description:
+        "VT/VF from scarred, stretched myocardium - the main cause of sudden death.",
+    },
+    {
+      label: "HFpEF",
+      category: "differential",
+      group: 2,
+      relationship: "differentiated by LVEF from",
+      direction: "incoming",
+      description: "Heart failure with LVEF ≥50% and impaired relaxation.",
+      synonyms: ["Heart Failure with Preserved Ejection Fraction"],
+    },
+    {
+      label: "Loop Diuretics",
+      category: "drug",
+      group: 3,
+      relationship: "relieves congestion in",
+      direction: "incoming",
+      description:
+        "Furosemide or bumetanide for symptom relief; no mortality benefit.",
+    },
+    {
+      label: "S3 Gallop",
+      category: "finding",
+      group: 7,
+      relationship: "presents with",
+      direction: "outgoing",
+      description:
+        "Early diastolic sound of rapid filling into a stiff, dilated ventricle.",
+    },
+    {
+      label: "BNP",
+      category: "investigation",
+      group: 6,
+      relationship: "monitored with",
+      direction: "outgoing",
+    },
+  ],
+};
@@ -0,0 +1,160 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * DEMO PROVIDER
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Offline, deterministic stand-in for a real model. Replays the recorded
+ * fixtures in demoFixtures.ts with the same chunk/thought cadence every time,
+ * so onboarding, library, graph, chat and export work with no API key and the
+ * UI can be exercised against reproducible outputs.
+ */
+
+import {
+  throwIfAborted,
+  type LLMCapabilities,
+  type LLMJsonRequest,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMStreamChunk,
+} from "./llmProvider";
+import type { LLMProviderType } from "../types";
+import {
+  DEMO_CLINICAL_REPLY,
+  DEMO_GUIDE,
+  DEMO_GUIDE_PATCH,
+  DEMO_IDK_REPLY,
+  DEMO_METADATA,
+  DEMO_NODE_EXPANSION,
+  DEMO_QUIZ_CORRECT_ANSWER,
+  DEMO_QUIZ_FEEDBACK_CORRECT,
+  DEMO_QUIZ_FEEDBACK_INCORRECT,
+  DEMO_QUIZ_QUESTION,
+  DEMO_SECTION_THOUGHTS,
+  DEMO_TUTOR_REPLY,
+  type DemoFixture,
+} from "./demoFixtures";
+
+export const DEMO_MODEL = "synapse-demo";
+
+// Fixed cadence keeps replays reproducible while still looking "live"
+const CHUNK_SIZE = 96;
+const CHUNK_DELAY_MS = 25;
+const THOUGHT_DELAY_MS = 350;
+
+const DEMO_SOURCES = [
+  {
+    web: {
+      uri: "https://www.ahajournals.org/doi/10.1161/CIR.0000000000001063",
+      title:
+        "2022 AHA/ACC/HFSA Guideline for the Management of Heart Failure",
+    },
+  },
+  {
+    web: {
+      uri: "https://www.nejm.org/doi/full/10.1056/NEJMoa1911303",
+      title: "Dapagliflozin in Patients with Heart Failure and Reduced EF",
+    },
+  },
+];
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export class DemoProvider implements LLMProvider {
+  readonly id: LLMProviderType = "demo";
+  readonly model = DEMO_MODEL;
+  readonly capabilities: LLMCapabilities = {
+    grounding: true,
+    thinking: true,
+    inlineMimeTypes: ["image/", "audio/", "video/", "application/pdf", "text/"],
+  };
+
+  private pickFixture(request: LLMRequest): DemoFixture {
+    switch (request.task) {
+      case "metadata":
+        return DEMO_METADATA;
+      case "guide":
+      case "guide-continuation":
+        return DEMO_GUIDE;
+      case "guide-patch":
+        return DEMO_GUIDE_PATCH;
+      case "section":
+        return this.sectionFixture(request);
+      case "quiz-question":
+        return DEMO_QUIZ_QUESTION;
+      case "clinical":
+        return DEMO_CLINICAL_REPLY;
+      case "idk":
+        return DEMO_IDK_REPLY;
+      case "chat":
+      default:
+        return DEMO_TUTOR_REPLY;
+    }
+  }
+
+  // Echo the section under edit so every heading round-trips sensibly offline
+  private sectionFixture(request: LLMRequest): DemoFixture {
+    const promptText = request.contents
+      .flatMap((m) => m.parts.map((p) => p.text || ""))
+      .join("\n");
+    const current = promptText.split(/CURRENT SECTION\n═+\n/)[1] || "";
+    return {
+      thoughts: DEMO_SECTION_THOUGHTS,
+      text: current.replace(/^##\s+[^\n]*\n/, "").trim(),
+    };
+  }
+
+  async *streamText(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    const fixture = this.pickFixture(request);
+    console.log(`🎭 [Demo] Replaying "${request.task || "chat"}" fixture`);
+
+    for (const thought of fixture.thoughts) {
+      await sleep(THOUGHT_DELAY_MS);
+      throwIfAborted(request.signal);
+      yield { thought };
+    }
+
+    for (let i = 0; i < fixture.text.length; i += CHUNK_SIZE) {
+      await sleep(CHUNK_DELAY_MS);
+      throwIfAborted(request.signal);
+      yield { text: fixture.text.slice(i, i + CHUNK_SIZE) };
+    }
+
+    if (request.grounding) {
+      yield {
+        groundingMetadata: {
+          groundingChunks: DEMO_SOURCES,
+          webSearchQueries: ["HFrEF guideline-directed medical therapy 2022"],
+        },
+      };
+    }
+  }
+
+  async generateJson(request: LLMJsonRequest): Promise<string> {
+    await sleep(THOUGHT_DELAY_MS);
+    throwIfAborted(request.signal);
+
+    // The recorded graph is already valid, so a repair just returns it; its
+    // title and summary also serve as the combined chunk summary
+    if (
+      request.task === "metadata-repair" ||
+      request.task === "metadata-summary"
+    ) {
+      return DEMO_METADATA.text;
+    }
+    if (request.task === "node-expansion") {
+      return JSON.stringify(DEMO_NODE_EXPANSION);
+    }
+
+    // Otherwise it's quiz feedback; the verdict follows the
+    // student's pick as stated in the prompt ("THEIR SELECTION: C")
+    const promptText = request.contents
+      .flatMap((m) => m.parts.map((p) => p.text || ""))
+      .join("\n");
+    const selection = promptText.match(/THEIR SELECTION:\s*([A-D])/i)?.[1];
+    const isCorrect = selection?.toUpperCase() === DEMO_QUIZ_CORRECT_ANSWER;
+
+    return JSON.stringify(
+      isCorrect ? DEMO_QUIZ_FEEDBACK_CORRECT : DEMO_QUIZ_FEEDBACK_INCORRECT
+    );
+  }
+}
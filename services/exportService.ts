@@ -15,6 +15,11 @@
  */
 
 import { AugmentedNote, KnowledgeGraphData, KnowledgeNode } from "../types";
+import { CITATION_MARKER_PATTERN } from "./citations";
+import {
+  NUMERIC_FINDING_LABELS,
+  checkNumericClaims,
+} from "./numericClaims";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPE DEFINITIONS
@@ -597,6 +602,11 @@ const CSS_BASE = `
 // MARKDOWN EXPORT
 // ═══════════════════════════════════════════════════════════════════════════
 
+// Citation markers "[n](cite:n)" only link inside the app; exports show "[n]"
+// against the numbered source list
+const withPlainCitations = (markdown: string) =>
+  markdown.replace(CITATION_MARKER_PATTERN, "[$1]");
+
 /**
  * Generate clean, portable Markdown for the study guide
  */
@@ -634,9 +644,24 @@ export function generateMarkdown(note: AugmentedNote): string {
   // Main content
   lines.push("---");
   lines.push("");
-  lines.push(note.markdownContent);
+  lines.push(withPlainCitations(note.markdownContent));
   lines.push("");
 
+  // Numeric checks, as a red flag
+  const findings = checkNumericClaims(note);
+  if (findings.length > 0) {
+    lines.push("---");
+    lines.push("");
+    lines.push("## 🚨 Check These Values");
+    lines.push("");
+    for (const finding of findings) {
+      lines.push(
+        `- **${NUMERIC_FINDING_LABELS[finding.kind]}:** ${finding.message}`
+      );
+    }
+    lines.push("");
+  }
+
   // Clinical Pearls
   if (note.pearls && note.pearls.length > 0) {
     lines.push("---");
@@ -675,9 +700,9 @@ export function generateMarkdown(note: AugmentedNote): string {
     lines.push("## 📚 Verified Sources");
     lines.push("");
 
-    for (const source of note.sources) {
-      lines.push(`- [${source.title}](${source.uri})`);
-    }
+    note.sources.forEach((source, i) => {
+      lines.push(`${i + 1}. [${source.title}](${source.uri})`);
+    });
     lines.push("");
   }
 
@@ -714,7 +739,7 @@ export function generateHtml(
       : CSS_THEME_PRINT;
 
   // Parse markdown to HTML (simple conversion)
-  const contentHtml = markdownToHtml(note.markdownContent);
+  const contentHtml = markdownToHtml(withPlainCitations(note.markdownContent));
 
   // Build pearls HTML
   let pearlsHtml = "";
@@ -753,6 +778,37 @@ export function generateHtml(
     `;
   }
 
+  // Build numeric checks HTML, styled as red flags
+  let findingsHtml = "";
+  const findings = checkNumericClaims(note);
+  if (findings.length > 0) {
+    findingsHtml = `
+      <section class="pearls-section">
+        <div class="pearls-header">
+          <div class="pearls-icon" style="background: linear-gradient(135deg, var(--accent-rose), #f9a8d4);">🚨</div>
+          <div>
+            <div class="pearls-title">Check These Values</div>
+            <div class="pearls-subtitle" style="color: var(--accent-rose);">${
+              findings.length
+            } dose or value check${findings.length === 1 ? "" : "s"}</div>
+          </div>
+        </div>
+        ${findings
+          .map(
+            (finding) => `
+          <div class="pearl-card red-flag">
+            <div class="pearl-label">🚨 ${
+              NUMERIC_FINDING_LABELS[finding.kind]
+            }</div>
+            <div class="pearl-content">${escapeHtml(finding.message)}</div>
+          </div>
+        `
+          )
+          .join("")}
+      </section>
+    `;
+  }
+
   // Build sources HTML
   let sourcesHtml = "";
   if (note.sources && note.sources.length > 0) {
@@ -767,11 +823,13 @@ export function generateHtml(
         </div>
         ${note.sources
           .map(
-            (source) => `
+            (source, i) => `
           <a href="${escapeHtml(
             source.uri
           )}" target="_blank" rel="noopener noreferrer" class="source-link">
-            <span class="source-title">${escapeHtml(source.title)}</span>
+            <span class="source-title">${i + 1}. ${escapeHtml(
+              source.title
+            )}</span>
             <span class="source-url">${new URL(source.uri).hostname}</span>
           </a>
         `
@@ -842,6 +900,7 @@ export function generateHtml(
     ${contentHtml}
   </main>
   
+  ${findingsHtml}
   ${pearlsHtml}
   ${sourcesHtml}
   
@@ -1187,7 +1246,9 @@ export async function generatePdf(
 
   // === MAIN CONTENT ===
   // Simple markdown to text conversion for PDF
-  const plainContent = markdownToPlainText(note.markdownContent);
+  const plainContent = markdownToPlainText(
+    withPlainCitations(note.markdownContent)
+  );
   const contentLines = pdf.splitTextToSize(plainContent, contentWidth);
 
   pdf.setFontSize(fontSize);
@@ -1210,6 +1271,41 @@ export async function generatePdf(
     });
   }
 
+  // === NUMERIC CHECKS ===
+  const findings = checkNumericClaims(note);
+  if (findings.length > 0) {
+    checkNewPage(30);
+    yPosition += 10;
+
+    pdf.setFontSize(14);
+    pdf.setTextColor(primaryRgb.r, primaryRgb.g, primaryRgb.b);
+    pdf.text("Check These Values", margin, yPosition);
+    yPosition += 10;
+
+    const flagColor = hexToRgb("#f472b6");
+    for (const finding of findings) {
+      checkNewPage(20);
+      pdf.setFontSize(8);
+      pdf.setTextColor(flagColor.r, flagColor.g, flagColor.b);
+      pdf.text(
+        NUMERIC_FINDING_LABELS[finding.kind].toUpperCase(),
+        margin,
+        yPosition
+      );
+      yPosition += 5;
+
+      pdf.setFontSize(fontSize);
+      pdf.setTextColor(primaryRgb.r, primaryRgb.g, primaryRgb.b);
+      const findingLines = pdf.splitTextToSize(
+        finding.message,
+        contentWidth - 5
+      );
+      checkNewPage(findingLines.length * lineHeight + 5);
+      pdf.text(findingLines, margin + 3, yPosition);
+      yPosition += findingLines.length * lineHeight + 8;
+    }
+  }
+
   onProgress?.({
     stage: "pdf",
     progress: 85,
@@ -1332,6 +1428,10 @@ ${
     options.includeGraphData
       ? "- `graph-data.json` — Raw graph data for integration\n"
       : ""
+  }${
+    note.provenance
+      ? "- `generation.json` — Model, prompts and settings that produced it\n"
+      : ""
   }
 
 ## Statistics
@@ -1339,7 +1439,20 @@ ${
 - Connections: ${note.graphData.links.length}
 - Clinical Pearls: ${note.pearls?.length || 0}
 - Verified Sources: ${note.sources?.length || 0}
-
+${
+  note.provenance
+    ? `
+## Generation
+- Model: ${note.provenance.model} (${note.provenance.provider})
+- Prompt templates: ${note.provenance.promptVersions.join(", ") || "none"}
+- Generated: ${
+        note.provenance.phases.markdown
+          ? new Date(note.provenance.phases.markdown.completedAt).toISOString()
+          : "unknown"
+      }
+`
+    : ""
+}
 ---
 *Synapse Med — Your AI Learning Companion*
 `;
@@ -1410,6 +1523,18 @@ ${
     folder.file("graph-data.json", graphJson);
   }
 
+  // Add generation provenance so a shared guide can be traced to its run
+  if (note.provenance) {
+    folder.file(
+      "generation.json",
+      JSON.stringify(
+        { title: note.title, noteId: note.id, ...note.provenance },
+        null,
+        2
+      )
+    );
+  }
+
   onProgress?.({
     stage: "bundling",
     progress: 90,
@@ -1,6 +1,30 @@
-import { GoogleGenAI, Content } from "@google/genai";
-import { UserProfile, KnowledgeNode, ExamGoal } from "../types";
-import { ProfileRepository } from "../src/lib/repos/ProfileRepository";
+import {
+  UserProfile,
+  KnowledgeNode,
+  ExamGoal,
+  SafetyWarning,
+} from "../types";
+import {
+  abortableDelay,
+  createProvider,
+  GenerationCancelledError,
+  getProviderConfig,
+  isAbortError,
+  type LLMMessage,
+  type LLMProvider,
+} from "./llmProvider";
+import { withUsageMeter } from "./usageService";
+import { resolveTaskSettings } from "./modelSettings";
+import {
+  outputLanguagePrompt,
+  resolveOutputLanguage,
+} from "./outputLanguage";
+import {
+  promptVersionTag,
+  renderPrompt,
+  type PromptTemplateId,
+} from "./promptTemplates";
+import { fenceText, untrustedContentPrompt } from "./promptSafety";
 
 // ===============================
 // CUSTOM ERROR CLASS FOR BYOK
@@ -24,6 +48,9 @@ export interface ChatMessage {
   text: string;
   timestamp: number;
   isStreaming?: boolean;
+  isStopped?: boolean; // User pressed Stop - text holds whatever arrived first
+  promptVersions?: string[]; // Prompt templates behind this reply (model messages)
+  safetyWarning?: SafetyWarning; // Reply stepped out of the tutor persona (see promptSafety)
   isThinking?: boolean;
   thinkingText?: string;
   quizData?: QuizQuestion;
@@ -237,6 +264,15 @@ export const EXAM_STRATEGIES: Record<
   },
 };
 
+// Mode block each chat mode renders into the standard persona
+const MODE_TEMPLATES: Record<ChatMode, PromptTemplateId> = {
+  tutor: "chat.mode.tutor",
+  quiz: "chat.mode.quiz",
+  explain: "chat.mode.explain",
+  compare: "chat.mode.compare",
+  clinical: "chat.mode.tutor",
+};
+
 // ===============================
 // PERSONA FACTORY SERVICE
 // Polymorphic AI System - Adaptive Personas Per Mode
@@ -253,15 +289,34 @@ export class GeminiChatService {
   }
 
   // ===============================
-  // BYOK: Dynamic Client Initialization
+  // BYOK: Dynamic Provider Initialization
   // ===============================
 
   /**
-   * Get the authenticated GoogleGenAI client using the user's API key from IndexedDB.
-   * Throws ChatApiKeyError if no key is found or if the key appears invalid.
+   * Resolve the model provider selected in the user's profile.
+   * Throws ChatApiKeyError if the active provider is not usable.
+   * `model` replaces the configured model (per-task settings).
    */
-  private async getClient(): Promise<GoogleGenAI> {
-    const apiKey = await ProfileRepository.getApiKey();
+  private async getProvider(model?: string): Promise<LLMProvider> {
+    const config = await getProviderConfig();
+    if (model) config.model = model;
+
+    // Demo mode replays bundled fixtures - nothing to authenticate
+    if (config.provider === "demo") {
+      return createProvider(config);
+    }
+
+    if (config.provider === "openai-compatible") {
+      if (!config.baseUrl) {
+        throw new ChatApiKeyError(
+          "No model endpoint configured. Please add your local server URL in Settings.",
+          "MISSING"
+        );
+      }
+      return createProvider(config);
+    }
+
+    const apiKey = config.apiKey;
 
     if (!apiKey) {
       throw new ChatApiKeyError(
@@ -278,7 +333,7 @@ export class GeminiChatService {
       );
     }
 
-    return new GoogleGenAI({ apiKey });
+    return createProvider(config);
   }
 
   /**
@@ -765,38 +820,33 @@ STEP 5: FULL STOP
         }, outline learning objectives for "${noteTitle}", and wait for confirmation before starting the scenario.`
       : `Create an engaging case from "${noteTitle}". Set the scene immediately. DO NOT reveal diagnosis. Await first action.`;
 
-    return `YOU ARE A HIGH-FIDELITY CLINICAL SIMULATION ENGINE.
-
-═══════════════════════════════════════════════════════════════════
-📋 LEARNER PROFILE (Parse this to adapt simulation)
-═══════════════════════════════════════════════════════════════════
-${JSON.stringify(
-  {
-    name: userProfile.name,
-    discipline: userProfile.discipline || "Healthcare Professional",
-    level: userProfile.level || "Student",
-    examGoal: userProfile.examGoal || "Clinical Competency",
-    specialties: userProfile.specialties || [],
-    teachingStyle: userProfile.teachingStyle,
-  },
-  null,
-  2
-)}
-
-**Case Topic:** "${noteTitle}"
-
-${difficultySettings}
-${preBriefPhase}
-${dynamicWinCondition}
-${immersionRules}
-${safetySystem}
-${caseProgression}
-${caseEndingRules}
-
-═══════════════════════════════════════════════════════════════════
-🎬 BEGIN NOW
-═══════════════════════════════════════════════════════════════════
-${beginInstruction}`;
+    return renderPrompt(
+      "chat.clinical-simulation",
+      {
+        learnerProfile: JSON.stringify(
+          {
+            name: userProfile.name,
+            discipline: userProfile.discipline || "Healthcare Professional",
+            level: userProfile.level || "Student",
+            examGoal: userProfile.examGoal || "Clinical Competency",
+            specialties: userProfile.specialties || [],
+            teachingStyle: userProfile.teachingStyle,
+          },
+          null,
+          2
+        ),
+        noteTitle,
+        difficultySettings,
+        preBriefPhase,
+        winCondition: dynamicWinCondition,
+        immersionRules,
+        safetySystem,
+        caseProgression,
+        caseEndingRules,
+        beginInstruction,
+      },
+      userProfile.promptOverrides
+    ).text;
   }
 
   /**
@@ -818,99 +868,24 @@ ${beginInstruction}`;
 `
         : "";
 
-    return `🏁 SIMULATION COMPLETE - GENERATE EVALUATION
-
-═══════════════════════════════════════════════════════════════════
-📋 LEARNER CONTEXT
-═══════════════════════════════════════════════════════════════════
-${JSON.stringify(
-  {
-    name: userProfile.name,
-    discipline: userProfile.discipline,
-    level: userProfile.level,
-    examGoal: userProfile.examGoal,
-  },
-  null,
-  2
-)}
-
-═══════════════════════════════════════════════════════════════════
-⚠️ EVALUATION RULES (FOLLOW EXACTLY)
-═══════════════════════════════════════════════════════════════════
-1. **NO REDUNDANCY:** Do NOT repeat information the learner already knows from the case.
-2. **NO CASE SUMMARY:** They just played it. Skip the recap.
-3. **TIGHT FORMAT:** Every sentence must add value. Cut fluff ruthlessly.
-4. **ROLE-SPECIFIC:** Grade on metrics relevant to THEIR discipline (AI determines).
-
-═══════════════════════════════════════════════════════════════════
-📊 EVALUATION FORMAT (USE EXACTLY THIS STRUCTURE)
-═══════════════════════════════════════════════════════════════════
-
-## 🏆 SCORE: [X]/10
-
-**Verdict:** [One-sentence summary - was this good, okay, or concerning?]
-
----
-
-## 🔍 DIAGNOSIS REVEAL
-
-**Answer:** [Diagnosis] — [One-line supporting evidence]
-
----
-
-## ✅ WHAT YOU DID WELL
-[2-3 bullet points - specific actions that showed good clinical thinking]
-- 
-- 
-- 
-
----
-
-## ⚠️ CRITICAL GAPS (The Delta)
-[2-4 bullet points - what was MISSED or WRONG. Be direct.]
-- ❌ [Missed action/finding]
-- ❌ [Delayed intervention]
-- ❌ [Incorrect reasoning]
-- ⚡ [What should have been done instead]
-
----
-
-## 📊 ROLE-SPECIFIC SCORECARD
-
-**INSTRUCTION:** Based on the learner's discipline ("${
-      userProfile.discipline || "Healthcare"
-    }"), dynamically select 4-5 competencies that are MOST RELEVANT to their scope of practice. Do not use generic competencies.
-
-Examples of role-appropriate competencies:
-- MD/DO: Differential Width, Diagnostic Efficiency, Treatment Appropriateness, Risk Stratification
-- Nursing: Priority Assessment, Intervention Timing, Escalation Judgment, Patient Safety, Documentation
-- Pharmacy: Drug Selection, Dose Accuracy, Interaction Vigilance, Monitoring Plan
-- Physiotherapy: Functional Assessment, Red Flag Recognition, Mobility Safety, Rehab Planning
-- (AI infers for any other discipline)
-
-| Competency | Score | Note |
-|------------|-------|------|
-| [Role-relevant #1] | [⭐-⭐⭐⭐⭐⭐] | [5 words max] |
-| [Role-relevant #2] | [⭐-⭐⭐⭐⭐⭐] | [5 words max] |
-| [Role-relevant #3] | [⭐-⭐⭐⭐⭐⭐] | [5 words max] |
-| [Role-relevant #4] | [⭐-⭐⭐⭐⭐⭐] | [5 words max] |
-
----
-
-## 🎓 HIGH-YIELD PEARL
-
-> **[Single memorable clinical fact from this case - exam-relevant, sticky, quotable]**
-
-${examRelevanceSection}
-
----
-
-## 🚀 ONE ACTION ITEM
-
-**Tonight:** [Single specific thing to study or practice based on their gaps]
-
----
-*Ask me anything about this case.*`;
+    return renderPrompt(
+      "chat.clinical-evaluation",
+      {
+        learnerContext: JSON.stringify(
+          {
+            name: userProfile.name,
+            discipline: userProfile.discipline,
+            level: userProfile.level,
+            examGoal: userProfile.examGoal,
+          },
+          null,
+          2
+        ),
+        discipline: userProfile.discipline || "Healthcare",
+        examRelevance: examRelevanceSection,
+      },
+      userProfile.promptOverrides
+    ).text;
   }
 
   // ═══════════════════════════════════════════════════════════════
@@ -931,154 +906,89 @@ ${examRelevanceSection}
     const examStrategy =
       EXAM_STRATEGIES[examGoal] || EXAM_STRATEGIES["default"];
 
-    const modeMap: Record<ChatMode, string> = {
-      tutor: `NOW TUTOR MODE - Adaptive Socratic Guidance
-
-**Your Core Purpose:**
-You are a dedicated study partner who guides discovery through thoughtful questions rather than dumping information. You remember context, celebrate genuine insights, and adapt seamlessly to learning needs.
-
-**Approach Strategy:**
-- When ${
-        userProfile.name
-      } asks something, first assess what they already know (gauge before teaching)
-- Use the "${teachingStyle}" teaching style they prefer
-- Guide discovery: ask "What makes you think that?" instead of "That's wrong"
-- Connect new concepts to what they've already learned from their guide
-- Create "aha moments" by linking disparate ideas together
-- End responses with thought-provoking follow-ups that deepen understanding
-
-**Emotional Intelligence & Responsiveness:**
-- If confused: "I can see this is tricky - let's approach it from a different angle"
-- If curious: Match their enthusiasm, dive deeper with "That's a great question to explore!"
-- If reviewing: "Great to see you revisiting this! What's clicking differently now?"
-- If frustrated: "Take a breath. This is challenging material, and you're doing the work."
-
-**Learning Scaffolds:**
-- Use analogies and examples relevant to ${
-        userProfile.discipline || "clinical practice"
-      }
-- Build complexity gradually: foundation → mechanism → application
-- For ${userProfile.level || "students"}: Adjust explanation depth appropriately
-- Celebrate effort genuinely - "Excellent connection! That's exactly the kind of thinking that..."
-
-**Context Detection:**
-[You can seamlessly transition to Quiz ("Quiz me on this"), Explain ("Break that down"), or Compare modes ("How are X and Y different?") - detect user intent and adapt naturally without UI signal]`,
+    const overrides = userProfile.promptOverrides;
 
-      quiz: `NOW QUIZ MODE - ${examGoal} Style Active Recall & Mastery
-
-**Your Core Purpose:**
-Generate exam-realistic questions that test deep understanding, not trivia. Provide sophisticated feedback that builds clinical reasoning and pattern recognition.
-
-${
-  selectedTopic && selectedTopic !== "full-guide"
-    ? `**FOCUS AREA:** Generate questions specifically about "${selectedTopic}"`
-    : "**SCOPE:** Questions can cover any topic from the guide - balance breadth and depth"
-}
+    switch (mode) {
+      case "quiz":
+        return renderPrompt(
+          "chat.mode.quiz",
+          {
+            examGoal,
+            scope:
+              selectedTopic && selectedTopic !== "full-guide"
+                ? `**FOCUS AREA:** Generate questions specifically about "${selectedTopic}"`
+                : "**SCOPE:** Questions can cover any topic from the guide - balance breadth and depth",
+            examStyle: examStrategy.style,
+            examFocus: examStrategy.focus.join(", "),
+            examTips: examStrategy.tips,
+            studentName: userProfile.name,
+          },
+          overrides
+        ).text;
+      case "explain":
+        return renderPrompt(
+          "chat.mode.explain",
+          {
+            examGoal: userProfile.examGoal || "their exam",
+            level: userProfile.level || "their level",
+            discipline: userProfile.discipline || "clinical practice",
+          },
+          overrides
+        ).text;
+      case "compare":
+        return renderPrompt("chat.mode.compare", {}, overrides).text;
+      // Clinical follow-ups get tutor guidance; the case itself runs on
+      // the clinical simulation persona
+      case "tutor":
+      case "clinical":
+      default:
+        return renderPrompt(
+          "chat.mode.tutor",
+          {
+            studentName: userProfile.name,
+            teachingStyle,
+            discipline: userProfile.discipline || "clinical practice",
+            level: userProfile.level || "students",
+          },
+          overrides
+        ).text;
+    }
+  }
 
-**Exam Strategy for ${examGoal}:**
-• Style: ${examStrategy.style}
-• Key Focus: ${examStrategy.focus.join(", ")}
-• Test Pattern: ${examStrategy.tips}
-
-**Question Generation Standards:**
-1. Generate ONE question at a time as a proper MCQ
-2. Format EXACTLY like this:
----QUIZ---
-TOPIC: [Brief topic name]
-DIFFICULTY: [foundational/intermediate/advanced]
-QUESTION: [${examStrategy.style}]
-A) [Plausible option A - if incorrect, represents common misconception]
-B) [Plausible option B - if incorrect, partially correct or tempting distractor]  
-C) [Plausible option C - if incorrect, represents alternate pathway or similar concept]
-D) [Option D - clearly different but testable]
----END---
-
-3. **CRITICAL - Wait for answer:** Do NOT reveal anything until ${
-        userProfile.name
-      } selects their answer
-4. **Distractors must be sophisticated:** Represent real clinical pitfalls, not random wrong answers
-5. **Include key discriminating features** in the stem that separate strong from weak thinkers
-6. **Test understanding over trivia** - clinical reasoning, mechanism, application, NOT obscure facts
-7. **Adapt difficulty progressively:** If they answer foundational questions easily, increase complexity
-
-**After Answer Submission - Structured Feedback:**
-1. Clear verdict with genuine encouragement
-2. Detailed analysis referencing specific parts of the guide
-3. Why each wrong answer is wrong (teaching moment, not shaming)
-4. ${examGoal}-specific clinical pearl or test-taking strategy
-5. Offer progression: "Ready for another? I can make it [easier/harder/same level]"
-
-**Context Detection:**
-[User can ask for explanation ("Why is that the answer?"), switch to Tutor mode, or Compare concepts - detect and adapt seamlessly]`,
-
-      explain: `NOW EXPLAIN MODE - Deep Conceptual Dive with Clinical Relevance
-
-**Your Core Purpose:**
-Break down complex concepts into digestible pieces using the Feynman technique. Make abstract ideas concrete through analogies, clinical examples, and layered understanding.
-
-**Approach Strategy:**
-- Start with **The Hook**: Why this matters clinically or for ${
-        userProfile.examGoal || "their exam"
-      }
-- Explain at appropriate depth for ${userProfile.level || "their level"}
-- Use analogies relevant to ${userProfile.discipline || "clinical practice"}
-- Build understanding layer by layer: foundation → mechanism → application → clinical relevance
-- Reference specific parts of their study guide ("Looking at the pathophysiology section...")
-- Use vivid, memorable language that sticks
-
-**Explanation Structure (Flexible):**
-1. **Why It Matters** - Clinical relevance or exam importance
-2. **The Fundamentals** - Explain the core concept simply
-3. **The Mechanism** - How it works at the deeper level (biochemistry, physiology, etc.)
-4. **Real-World Application** - Clinical scenarios, patient presentations, or management implications
-5. **Quick Comprehension Check** - Open question to verify understanding
-
-**Tone & Style:**
-- Warm but intellectually rigorous
-- Avoid false simplification - honor the complexity while making it accessible
-- Use analogies that illuminate, not oversimplify
-- Build confidence: "This concept takes time to master - you're asking exactly the right questions"
-
-**Context Detection:**
-[User can ask for comparison ("How does X compare to Y?"), Quiz themselves, or Tutor mode questions - detect intent and pivot naturally]`,
-
-      compare: `NOW COMPARE MODE - Differential Thinking & Pattern Recognition
-
-**Your Core Purpose:**
-Highlight subtle distinctions between related concepts that matter on exams and in clinical practice. Build pattern recognition for rapid diagnosis and decision-making.
-
-**Approach Strategy:**
-- Create side-by-side comparisons of related concepts, conditions, drugs, procedures, or pathways
-- Highlight key distinguishing features that differentiate on exams or clinically
-- Use clinical scenarios where differentiation directly impacts management
-- Focus on exam-relevant discriminating points (not trivial differences)
-- Reference the guide's coverage of each item being compared
-- Build schema: How do I quickly recognize which one this is?
-
-**Comparison Format Options:**
-- **Table Format** (primary):
-  | Feature | Concept A | Concept B |
-  |---------|-----------|-----------|
-  | [Key feature] | [Detail A] | [Detail B] |
-
-- **Vignette Format** (when table is limiting):
-  A 45-year-old presents with [symptom]. This is [Condition A] because [key discriminator]. If instead [different finding], it would be [Condition B].
-
-- **Mnemonic Format** (when useful):
-  Remember: A = [acronym], B = [acronym]
-
-**Smart Context Detection:**
-- If user asks "Explain one of these more" → offer deep Explain mode
-- If user says "Quiz me on differences" → pivot to Quiz mode with comparison-focused questions
-- If user asks "How would I diagnose?" → add differential diagnosis framework
-- Detect when comparing across disciplines vs. within discipline → adjust complexity
-
-[User can seamlessly request deeper explanation of one concept, quiz themselves, or Tutor mode help - detect and adapt naturally]`,
-
-      clinical: "", // Clinical mode uses dedicated persona builder
-    };
+  /**
+   * Prompt template tags behind a reply, stamped on the model message so a
+   * chat records which prompt versions produced it
+   */
+  promptVersionsFor(
+    kind:
+      | "persona"
+      | "clinical-simulation"
+      | "clinical-evaluation"
+      | "quiz-feedback"
+      | "idk",
+    userProfile: UserProfile,
+    mode: ChatMode = "tutor"
+  ): string[] {
+    const ids: PromptTemplateId[] =
+      kind === "persona"
+        ? ["chat.standard-persona", MODE_TEMPLATES[mode]]
+        : [`chat.${kind}`];
+    const language = this.languagePrompt(userProfile);
+    return [
+      ...ids.map((id) => promptVersionTag(id, userProfile.promptOverrides)),
+      ...(language ? [language.version] : []),
+      untrustedContentPrompt(userProfile).version,
+    ];
+  }
 
-    return modeMap[mode] || modeMap.tutor;
+  // Output language block for non-English profiles (a note's override is
+  // applied to the profile by the caller)
+  private languagePrompt(userProfile: UserProfile) {
+    return outputLanguagePrompt(
+      resolveOutputLanguage(userProfile),
+      "chat",
+      userProfile
+    );
   }
 
   /**
@@ -1102,7 +1012,10 @@ Highlight subtle distinctions between related concepts that matter on exams and
       )
       .join("\n");
 
-    const truncatedContext = contextMarkdown.slice(0, 70000);
+    const truncatedContext = fenceText(
+      "Study guide",
+      contextMarkdown.slice(0, 70000)
+    );
     const examGoal = this.getEffectiveExamGoal(userProfile);
 
     const modeInstruction = this.getModeInstruction(
@@ -1111,144 +1024,22 @@ Highlight subtle distinctions between related concepts that matter on exams and
       selectedTopic
     );
 
-    return `
-═══════════════════════════════════════════════════════════════════
-🧠 SYNAPSE - Your Clinical Study Companion
-═══════════════════════════════════════════════════════════════════
-
-**IDENTITY & PERSONALITY:**
-You are Synapse, an emotionally intelligent clinical tutor who genuinely cares about ${
-      userProfile.name
-    }'s learning journey. You're not an impersonal AI—you're a dedicated study partner who remembers context, celebrates genuine progress, and adapts to their unique learning style and needs.
-
-**Your Voice:**
-- Warm but professional (never overly casual or stiff)
-- Encouraging without being patronizing
-- Intellectually curious—you love when students ask deep questions
-- Honest about uncertainty: "That's beyond what's in your notes, but based on clinical knowledge..."
-- Celebrate effort authentically: "That's exactly the kind of thinking that separates strong clinicians"
-
-═══════════════════════════════════════════════════════════════════
-👤 STUDENT PROFILE (Use This to Personalize)
-═══════════════════════════════════════════════════════════════════
-• Name: ${userProfile.name}
-• Discipline: ${userProfile.discipline || "Healthcare Professional"}
-• Level: ${userProfile.level || "Student"}
-• Teaching Preference: ${this.getEffectiveTeachingStyle(userProfile)}
-• Target Exam: ${examGoal}
-• Focus Areas: ${userProfile.specialties?.join(", ") || "General"}
-• Goals: ${userProfile.learningGoals || "Master this material"}
-
-═══════════════════════════════════════════════════════════════════
-📖 STUDY GUIDE CONTENT (Your Primary Source - Ground All Answers Here)
-═══════════════════════════════════════════════════════════════════
-${truncatedContext}
-
-═══════════════════════════════════════════════════════════════════
-🗺️ KEY CONCEPTS FROM KNOWLEDGE GRAPH (Reference These)
-═══════════════════════════════════════════════════════════════════
-${conceptList}
-
-═══════════════════════════════════════════════════════════════════
-📋 CURRENT MODE INSTRUCTIONS
-═══════════════════════════════════════════════════════════════════
-${modeInstruction}
-
-═══════════════════════════════════════════════════════════════════
-⚡ UNIVERSAL MODE TRANSITION PROTOCOL
-═══════════════════════════════════════════════════════════════════
-
-**INTELLIGENT CONTEXT DETECTION:** You can detect when the user is switching modes based on their intent, even without explicit UI signal. Monitor for these cues:
-
-**Automatic Mode Transitions:**
-- User says "Quiz me on this" or "Test my knowledge" → ACTIVATE QUIZ MODE (generate MCQ, wait for answer)
-- User says "Explain this" or "Break that down" → ACTIVATE EXPLAIN MODE (layered conceptual deep-dive)
-- User says "Compare X and Y" or "How are these different?" → ACTIVATE COMPARE MODE (side-by-side analysis)
-- User asks follow-up theory questions → ACTIVATE TUTOR MODE (Socratic guidance)
-- User describes a patient scenario → OFFER CLINICAL MODE or stay in appropriate mode
-
-**Seamless Transition Rules:**
-1. Acknowledge the mode change naturally (don't say "Switching to Quiz Mode now")
-2. Maintain continuity—reference what you just discussed
-3. Adopt new mode's instruction set immediately and fully
-4. Preserve learning context across all transitions
-
-**EXAMPLE TRANSITIONS:**
-
-Tutor → Quiz:
-User: "Okay, I think I get it. Quiz me on this concept"
-Response: "Great! Let's test your understanding with an exam-style question..." [Generate MCQ]
-
-Quiz → Explain:
-User: "Wait, why is B wrong and C right? I'm confused about that distinction"
-Response: "Excellent question—let me break down why these often get confused..." [Switch to Explain]
-
-Explain → Compare:
-User: "So how does this relate to the one we just discussed?"
-Response: "Perfect timing to compare these directly. Let me highlight the key differences..." [Create comparison table]
-
-**FUTURE MODES:** This architecture scales seamlessly to any new mode (Practice, Simulation, Debate, etc.)—simply add mode instruction above and detection logic applies automatically without code changes.
-
-═══════════════════════════════════════════════════════════════════
-⚡ CORE BEHAVIORS (Apply Across ALL Modes)
-═══════════════════════════════════════════════════════════════════
-
-1. **SOURCE ANCHORING (Critical - Non-Negotiable)**
-   - Ground every answer in the study guide content above
-   - Reference naturally: "Looking at the pathophysiology section..." or "As your guide states..."
-   - If information isn't in the guide, be transparent: "That's beyond what's in your notes, but clinically..."
-   - Never fabricate clinical information
-   - Always encourage verification for critical information
-
-2. **EMOTIONAL ATTUNEMENT & RESPONSIVENESS**
-   - Read between the lines—if they ask the same thing differently, they're confused, not testing you
-   - Adjust complexity based on their responses, not assumed level
-   - Acknowledge struggle authentically: "I can see you're thinking hard about this—that's excellent"
-   - Match their energy: if they're curious and diving deep, go deeper; if overwhelmed, scaffold more
-   - Use their name when appropriate for warmth
-
-3. **MARKDOWN FORMATTING (Consistency & Readability)**
-   - Use **bold** for key terms, diagnoses, mechanisms, and clinical pearls
-   - Use bullet points for lists and differential diagnoses
-   - Keep paragraphs short (2-3 sentences max)
-   - Use > blockquotes for important clinical notes, warnings, or exam tips
-   - Use italics for *actions*, *findings*, or *patient presentation*
-   - Use \`code\` for dosages, values, or precise clinical parameters (with verification disclaimers)
-
-4. **ACCURACY FIRST - Safety & Verification**
-   - Never provide specific dosing without: "Always verify with current guidelines and your institution's protocols"
-   - Never give medical advice for real patient scenarios: "This is educational context—for real patients, consult your clinical team"
-   - Distinguish clearly: "In your study guide..." vs. "Clinically, we also see..."
-   - If unsure, say so: "I'm not confident about that detail—let's verify it together"
-   - Encourage critical thinking: "What do your notes say about this? Does it align with what we discussed?"
-
-5. **LEARNING CONTINUITY & CONTEXT**
-   - Remember what you've discussed in this session
-   - Reference back: "Remember how we talked about X? This builds on that..."
-   - Progressively build complexity rather than jumping levels
-   - Track their understanding and adapt scaffold level accordingly
-   - Celebrate genuine progress: "You just made a connection that took me years to learn—that's growth"
-
-6. **CLINICAL RELEVANCE & APPLICATION**
-   - For each concept, explain not just "what" but "why" and "when it matters clinically"
-   - Use realistic patient scenarios appropriate to their level
-   - Connect to their exam: "This appears frequently on ${examGoal}"
-   - Build pattern recognition: "When you see these clues, think immediately of..."
-
-RESTRICTIONS (Hard Boundaries):
-- No specific dosing without verification disclaimer
-- No medical advice for real patients
-- No diagnosis for real symptoms
-- Always encourage clinical verification for critical information
-- Never promise exam success—focus on genuine mastery
-
-TONE GUARDRAILS (Stay Authentic):
-- Don't be overly cheerful or use excessive emojis
-- Don't be cold or purely transactional
-- Don't over-explain obvious things (respect their intelligence)
-- Don't under-explain hard things (honor the complexity)
-- Be the study partner who believes in them and isn't afraid to challenge them thoughtfully
-`;
+    return renderPrompt(
+      "chat.standard-persona",
+      {
+        studentName: userProfile.name,
+        discipline: userProfile.discipline || "Healthcare Professional",
+        level: userProfile.level || "Student",
+        teachingStyle: this.getEffectiveTeachingStyle(userProfile),
+        examGoal,
+        focusAreas: userProfile.specialties?.join(", ") || "General",
+        learningGoals: userProfile.learningGoals || "Master this material",
+        studyGuide: truncatedContext,
+        conceptList,
+        modeInstruction,
+      },
+      userProfile.promptOverrides
+    ).text;
   }
 
   // ═══════════════════════════════════════════════════════════════
@@ -1269,12 +1060,27 @@ TONE GUARDRAILS (Stay Authentic):
     selectedTopic: string | undefined,
     onThinking: (text: string) => void,
     onChunk: (text: string) => void,
-    customSystemInstruction?: string
+    customSystemInstruction?: string,
+    signal?: AbortSignal, // Cancel mid-stream; rejects with GenerationCancelledError
+    noteId?: string // Usage ledger attribution
   ): Promise<string> {
-    // BYOK: Get dynamic client (will throw ChatApiKeyError if no key)
-    const ai = await this.getClient();
+    // Quiz and clinical modes have their own model settings
+    const settings = resolveTaskSettings(
+      mode === "quiz"
+        ? "quiz-question"
+        : mode === "clinical"
+        ? "clinical"
+        : "tutor",
+      userProfile
+    );
 
-    const contents: Content[] = history
+    // BYOK: Get dynamic provider (will throw ChatApiKeyError if not configured)
+    const provider = withUsageMeter(
+      await this.getProvider(settings.model),
+      noteId
+    );
+
+    const contents: LLMMessage[] = history
       .filter((msg) => msg.text && msg.text.trim() && !msg.isThinking)
       .slice(-10)
       .map((msg) => ({
@@ -1287,53 +1093,57 @@ TONE GUARDRAILS (Stay Authentic):
       parts: [{ text: newMessage }],
     });
 
-    const systemInstruction =
+    const systemInstruction = [
       customSystemInstruction ||
-      this.buildStandardPersona(
-        contextMarkdown,
-        userProfile,
-        graphNodes,
-        mode,
-        selectedTopic
-      );
+        this.buildStandardPersona(
+          contextMarkdown,
+          userProfile,
+          graphNodes,
+          mode,
+          selectedTopic
+        ),
+      this.languagePrompt(userProfile)?.text,
+      untrustedContentPrompt(userProfile).text,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
 
     const maxAttempts = 3;
     let attempt = 0;
     while (attempt < maxAttempts) {
       try {
-        const response = await ai.models.generateContentStream({
-          model: "gemini-2.5-flash",
-          config: {
-            systemInstruction: systemInstruction,
-            temperature: mode === "quiz" ? 0.6 : 0.75,
-            topP: 0.9,
-            maxOutputTokens: 4096,
-            thinkingConfig: {
-              thinkingBudget: 4096,
-            },
-          },
+        const response = provider.streamText({
+          task:
+            mode === "quiz"
+              ? "quiz-question"
+              : mode === "clinical"
+              ? "clinical"
+              : "chat",
+          systemInstruction: systemInstruction,
+          temperature: settings.temperature,
+          topP: 0.9,
+          maxOutputTokens: settings.maxOutputTokens,
+          thinkingBudget: settings.thinkingBudget,
           contents: contents,
+          signal,
         });
 
         let fullResponse = "";
         let thinkingContent = "";
 
         for await (const chunk of response) {
-          if (chunk.candidates?.[0]?.content?.parts) {
-            for (const part of chunk.candidates[0].content.parts) {
-              if (part.thought) {
-                thinkingContent += part.text || "";
-                onThinking(thinkingContent);
-              } else if (part.text) {
-                fullResponse += part.text;
-                onChunk(fullResponse);
-              }
-            }
+          if (chunk.thought !== undefined) {
+            thinkingContent += chunk.thought;
+            onThinking(thinkingContent);
+          } else if (chunk.text) {
+            fullResponse += chunk.text;
+            onChunk(fullResponse);
           }
         }
 
         return fullResponse;
       } catch (error: any) {
+        if (isAbortError(error, signal)) throw new GenerationCancelledError();
         attempt++;
         console.error(`💬 Chat Error (attempt ${attempt}):`, error);
         const msg =
@@ -1355,7 +1165,7 @@ TONE GUARDRAILS (Stay Authentic):
         }
 
         const backoffMs = 500 * Math.pow(2, attempt - 1);
-        await new Promise((res) => setTimeout(res, backoffMs));
+        await abortableDelay(backoffMs, signal);
       }
     }
 
@@ -1427,29 +1237,34 @@ TONE GUARDRAILS (Stay Authentic):
     contextMarkdown: string,
     userProfile: UserProfile,
     onThinking?: (text: string) => void,
-    onChunk?: (text: string) => void
+    onChunk?: (text: string) => void,
+    signal?: AbortSignal,
+    noteId?: string
   ): Promise<{ text: string; isCorrect: boolean }> {
-    // BYOK: Get dynamic client (will throw ChatApiKeyError if no key)
-    const ai = await this.getClient();
+    const settings = resolveTaskSettings("quiz-feedback", userProfile);
+
+    // BYOK: Get dynamic provider (will throw ChatApiKeyError if not configured)
+    const provider = withUsageMeter(
+      await this.getProvider(settings.model),
+      noteId
+    );
 
     const examGoal = this.getEffectiveExamGoal(userProfile);
     const examStrategy =
       EXAM_STRATEGIES[examGoal] || EXAM_STRATEGIES["default"];
     const studentName = userProfile.name || "there";
 
-    const systemInstruction = `You are an expert clinical educator with deep mastery of ${examGoal} preparation. Your role is to provide sophisticated, insight-rich feedback that builds true understanding.
-
-  For the analysis field: Write 2-3 focused paragraphs (each paragraph ~1-3 sentences). If the student is CORRECT: validate their reasoning, explain *why* that option is best, and extend understanding with a high-yield clinical correlation. If INCORRECT: acknowledge why the choice was tempting, clearly state the conceptual gap, and bridge to the correct concept.
-
-  For \`optionAnalysis\`: produce a short, explicit label and reason for each option. Each option's value MUST begin with either \`CORRECT:\` or \`INCORRECT:\` (uppercase), followed by one concise sentence that explains *why* that option is correct or incorrect in the context of the question and study guide. Example: "CORRECT: This choice shifts axial load anteriorly, increasing disc stress." Keep it clinical and specific — no hedging language.
-
-  For \`corePrinciple\`: one crisp, memorable sentence that captures the single concept the question tests.
-
-  For \`examStrategy\`: one tactical exam-focused tip (short sentence) that helps the student recognize this pattern quickly during test taking on ${examGoal}.
-
-  For \`correctAnswer\` and \`correctAnswerExplanation\`: ensure \`correctAnswer\` is the single-letter key ("A"/"B"/"C"/"D") and \`correctAnswerExplanation\` is a one-line, high-yield rationale (one sentence) that directly states the mechanism making the correct answer best.
-
-  VOICE: Write like a master clinician at the bedside — clear, direct, vivid, and concise. Avoid repetition; every sentence must add value.`;
+    const systemInstruction = [
+      renderPrompt(
+        "chat.quiz-feedback",
+        { examGoal },
+        userProfile.promptOverrides
+      ).text,
+      this.languagePrompt(userProfile)?.text,
+      untrustedContentPrompt(userProfile).text,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
 
     const prompt = `CONTEXT: ${studentName} is preparing for ${examGoal}. They just answered a question testing their understanding of core pathophysiological mechanisms.
 
@@ -1462,33 +1277,31 @@ ${quizQuestion.options.map((o) => `${o.label}) ${o.text}`).join("\n")}
 THEIR SELECTION: ${selectedAnswer}
 
 STUDY GUIDE EXCERPT (use this to ground your explanation):
-${contextMarkdown.slice(0, 22000)}
+${fenceText("Study guide excerpt", contextMarkdown.slice(0, 22000))}
 
 ---
 
 Provide feedback that deepens their clinical reasoning and pattern recognition.`;
 
-    const contents: Content[] = [{ role: "user", parts: [{ text: prompt }] }];
+    const contents: LLMMessage[] = [{ role: "user", parts: [{ text: prompt }] }];
 
     const maxAttempts = 4;
     let lastError: any = null;
 
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       try {
-        const response = await ai.models.generateContent({
-          model: "gemini-2.5-flash",
-          config: {
-            systemInstruction,
-            temperature: 0.7,
-            topP: 0.9,
-            maxOutputTokens: 2048,
-            responseMimeType: "application/json",
-            responseSchema: QUIZ_FEEDBACK_SCHEMA,
-          },
+        const responseText = await provider.generateJson({
+          task: "quiz-feedback",
+          systemInstruction,
+          temperature: settings.temperature,
+          topP: 0.9,
+          maxOutputTokens: settings.maxOutputTokens,
+          thinkingBudget: settings.thinkingBudget,
+          responseSchema: QUIZ_FEEDBACK_SCHEMA,
           contents,
+          signal,
         });
 
-        const responseText = response.text;
         if (!responseText) {
           console.warn(`Quiz feedback attempt ${attempt}: Empty response`);
           continue;
@@ -1525,6 +1338,7 @@ Provide feedback that deepens their clinical reasoning and pattern recognition.`
           );
         }
       } catch (error: any) {
+        if (isAbortError(error, signal)) throw new GenerationCancelledError();
         lastError = error;
         console.error(
           `Quiz feedback error (attempt ${attempt}):`,
@@ -1534,7 +1348,7 @@ Provide feedback that deepens their clinical reasoning and pattern recognition.`
 
       if (attempt < maxAttempts) {
         const backoffMs = 500 * Math.pow(2, attempt - 1);
-        await new Promise((res) => setTimeout(res, backoffMs));
+        await abortableDelay(backoffMs, signal);
       }
     }
 
@@ -1683,71 +1497,67 @@ Don't worry - this is a great question to master! 💪`,
     contextMarkdown: string,
     userProfile: UserProfile,
     onThinking?: (text: string) => void,
-    onChunk?: (text: string) => void
+    onChunk?: (text: string) => void,
+    signal?: AbortSignal,
+    noteId?: string
   ): Promise<string> {
-    // BYOK: Get dynamic client (will throw ChatApiKeyError if no key)
-    const ai = await this.getClient();
+    // BYOK: Get dynamic provider (will throw ChatApiKeyError if not configured)
+    // Same model as quiz feedback; the hint keeps its own lighter parameters
+    const provider = withUsageMeter(
+      await this.getProvider(
+        resolveTaskSettings("quiz-feedback", userProfile).model
+      ),
+      noteId
+    );
 
     const examGoal = this.getEffectiveExamGoal(userProfile);
 
-    const prompt = `
-${
-  userProfile.name
-} was asked this question and said "I don't know" - they're being honest about a knowledge gap. This is a LEARNING moment, not a failure.
-
-QUESTION: ${quizQuestion.question}
-
-OPTIONS:
-${quizQuestion.options.map((o) => `${o.label}) ${o.text}`).join("\n")}
-
-Your response should:
-1. NORMALIZE not knowing ("That's completely okay - this is exactly why we practice!")
-2. Don't just give the answer! Use Socratic teaching:
-   - First, ask what parts of the question they DO understand
-   - Give a small hint or clue that guides them toward the answer
-   - Connect to something they might already know
-3. Offer to break down the concept in a simpler way
-4. Be genuinely warm and encouraging - learning happens through struggle
-
-The student is preparing for: ${examGoal}
-Their level: ${userProfile.level || "Student"}
-
-Relevant context from their study guide (use this to craft helpful hints):
-${contextMarkdown.slice(0, 15000)}
-
-Remember: The goal is to BUILD their confidence and understanding, not just tell them the answer. Make them feel that asking for help was the RIGHT choice.
-`;
+    const prompt = renderPrompt(
+      "chat.idk",
+      {
+        studentName: userProfile.name,
+        question: quizQuestion.question,
+        options: quizQuestion.options
+          .map((o) => `${o.label}) ${o.text}`)
+          .join("\n"),
+        examGoal,
+        level: userProfile.level || "Student",
+        studyGuide: fenceText("Study guide", contextMarkdown.slice(0, 15000)),
+      },
+      userProfile.promptOverrides
+    ).text;
 
-    const contents: Content[] = [{ role: "user", parts: [{ text: prompt }] }];
+    const contents: LLMMessage[] = [{ role: "user", parts: [{ text: prompt }] }];
 
     const maxAttempts = 3;
     let attempt = 0;
     while (attempt < maxAttempts) {
       try {
-        const responseStream = await ai.models.generateContentStream({
-          model: "gemini-2.5-flash",
-          config: {
-            temperature: 0.8,
-            maxOutputTokens: 1024,
-            thinkingConfig: { thinkingBudget: 1024 },
-          },
+        const responseStream = provider.streamText({
+          task: "idk",
+          systemInstruction: [
+            this.languagePrompt(userProfile)?.text,
+            untrustedContentPrompt(userProfile).text,
+          ]
+            .filter(Boolean)
+            .join("\n\n"),
+          temperature: 0.8,
+          maxOutputTokens: 1024,
+          thinkingBudget: 1024,
           contents,
+          signal,
         });
 
         let fullResponse = "";
         let thinkingContent = "";
 
         for await (const chunk of responseStream) {
-          if (chunk.candidates?.[0]?.content?.parts) {
-            for (const part of chunk.candidates[0].content.parts) {
-              if (part.thought) {
-                thinkingContent += part.text || "";
-                onThinking?.(thinkingContent);
-              } else if (part.text) {
-                fullResponse += part.text;
-                onChunk?.(fullResponse);
-              }
-            }
+          if (chunk.thought !== undefined) {
+            thinkingContent += chunk.thought;
+            onThinking?.(thinkingContent);
+          } else if (chunk.text) {
+            fullResponse += chunk.text;
+            onChunk?.(fullResponse);
           }
         }
 
@@ -1756,13 +1566,14 @@ Remember: The goal is to BUILD their confidence and understanding, not just tell
 
         attempt++;
         const backoffMs = 400 * Math.pow(2, attempt - 1);
-        await new Promise((res) => setTimeout(res, backoffMs));
+        await abortableDelay(backoffMs, signal);
       } catch (error: any) {
+        if (isAbortError(error, signal)) throw new GenerationCancelledError();
         attempt++;
         console.error(`IDK response stream error (attempt ${attempt}):`, error);
         if (attempt >= maxAttempts) break;
         const backoffMs = 400 * Math.pow(2, attempt - 1);
-        await new Promise((res) => setTimeout(res, backoffMs));
+        await abortableDelay(backoffMs, signal);
       }
     }
 
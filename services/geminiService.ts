@@ -1,13 +1,102 @@
-import { GoogleGenAI } from "@google/genai";
 import {
   AugmentedNote,
   FileInput,
+  ClinicalPearl,
+  GenerationCheckpoint,
+  GenerationProvenance,
   Source,
+  KnowledgeLink,
+  KnowledgeGraphData,
   KnowledgeNode,
+  LLMProviderType,
+  Phase1ValidationIssue,
+  Phase1ValidationReport,
+  SectionAction,
+  SectionRevision,
+  SourceChunkProgress,
+  SourceMergePreview,
+  TrainingLevel,
   UserProfile,
 } from "../types";
 import { embedTablesInMarkdown } from "../utils/tableFormatter";
+import { labTableRows } from "./labValues";
 import { ProfileRepository } from "../src/lib/repos/ProfileRepository";
+import {
+  abortableDelay,
+  createProvider,
+  GenerationCancelledError,
+  getProviderConfig,
+  isAbortError,
+  throwIfAborted,
+  type LLMGroundingMetadata,
+  type LLMPart,
+  type LLMProvider,
+} from "./llmProvider";
+import { PHASE1_RESPONSE_SCHEMA, validatePhase1 } from "./phase1Schema";
+import {
+  MAX_EXPANSION_CANDIDATES,
+  NODE_EXPANSION_SCHEMA,
+  parseExpansion,
+  type ExpansionCandidate,
+} from "./graphExpansion";
+import { linkEndId } from "./graphEditing";
+import { typeLink } from "./relationshipTypes";
+import { isAmbiguousTerm } from "./terminology";
+import { planSourceChunks } from "./sourceChunker";
+import { withUsageMeter } from "./usageService";
+import { getGuideLengthPreset, resolveTaskSettings } from "./modelSettings";
+import {
+  renderPrompt,
+  type PromptTemplateId,
+} from "./promptTemplates";
+import {
+  outputLanguagePrompt,
+  resolveOutputLanguage,
+} from "./outputLanguage";
+import {
+  citedSegmentsFrom,
+  dropUnknownCitationMarkers,
+  insertCitationMarkers,
+  stripCitationMarkers,
+  type CitedSegment,
+} from "./citations";
+import {
+  checkFilesForInjection,
+  checkGraphOutput,
+  checkGuideOutput,
+  fenceFileParts,
+  fenceText,
+  untrustedContentPrompt,
+} from "./promptSafety";
+
+// Repair requests sent back to the model before falling back to dropping
+// whatever still fails the Phase 1 schema
+const MAX_PHASE1_REPAIRS = 1;
+
+// Parallel Phase 1 requests when a large input is split into chunks
+const MAX_CHUNK_CONCURRENCY = 2;
+
+// Overview written over every chunk's partial one (OpenAPI subset)
+const CHUNK_SUMMARY_SCHEMA = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    summary: { type: "string" },
+    eli5Analogy: { type: "string" },
+  },
+  required: ["title", "summary"],
+};
+
+type Phase1Result = {
+  title: string;
+  summary: string;
+  eli5Analogy?: string;
+  pearls: ClinicalPearl[];
+  graphNodes: KnowledgeNode[];
+  graphLinks: KnowledgeLink[];
+  validationReport?: Phase1ValidationReport; // Absent when Phase 1 was skipped (resume)
+  promptVersions?: string[]; // Prompt templates used (see promptTemplates)
+};
 
 // ===============================
 // CUSTOM ERROR CLASSES FOR BYOK
@@ -31,15 +120,35 @@ export class GeminiService {
   }
 
   // ===============================
-  // BYOK: Dynamic Client Initialization
+  // BYOK: Dynamic Provider Initialization
   // ===============================
 
   /**
-   * Get the authenticated GoogleGenAI client using the user's API key from IndexedDB.
-   * Throws ApiKeyError if no key is found or if the key appears invalid.
+   * Resolve the model provider selected in the user's profile.
+   * Gemini requires a BYOK key; OpenAI-compatible endpoints only need a URL.
+   * Throws ApiKeyError if the active provider is not usable.
+   * `model` replaces the configured model (per-task settings).
    */
-  private async getClient(): Promise<GoogleGenAI> {
-    const apiKey = await ProfileRepository.getApiKey();
+  private async getProvider(model?: string): Promise<LLMProvider> {
+    const config = await getProviderConfig();
+    if (model) config.model = model;
+
+    // Demo mode replays bundled fixtures - nothing to authenticate
+    if (config.provider === "demo") {
+      return createProvider(config);
+    }
+
+    if (config.provider === "openai-compatible") {
+      if (!config.baseUrl) {
+        throw new ApiKeyError(
+          "No model endpoint configured. Please add your local server URL in Settings.",
+          "MISSING"
+        );
+      }
+      return createProvider(config);
+    }
+
+    const apiKey = config.apiKey;
 
     if (!apiKey) {
       throw new ApiKeyError(
@@ -64,7 +173,7 @@ export class GeminiService {
       );
     }
 
-    return new GoogleGenAI({ apiKey });
+    return createProvider(config);
   }
 
   /**
@@ -92,9 +201,14 @@ export class GeminiService {
 
   /**
    * Handle API errors and convert them to user-friendly messages.
-   * Detects quota, rate limit, and authentication errors.
+   * Detects quota, rate limit, and authentication errors. The hints name
+   * Gemini and AI Studio, so other providers get their own (see below).
    */
-  private handleApiError(error: any): never {
+  private handleApiError(error: any, provider?: LLMProviderType): never {
+    // User cancelled - not an API problem, and must not look like one
+    if (isAbortError(error)) throw new GenerationCancelledError();
+    if (provider === "openai-compatible") this.handleEndpointError(error);
+
     const message = error.message || String(error);
 
     // Quota exceeded
@@ -137,6 +251,27 @@ export class GeminiService {
     throw error;
   }
 
+  // OpenAI-compatible servers: the HTTP status is all that's reliable
+  private handleEndpointError(error: any): never {
+    const status = error?.status;
+
+    if (status === 429) {
+      throw new ApiKeyError(
+        "The model server is rate limiting requests. Wait a moment and try again.",
+        "QUOTA_EXCEEDED"
+      );
+    }
+
+    if (status === 401 || status === 403) {
+      throw new ApiKeyError(
+        "The model server rejected the request. Check the endpoint URL and API key in Settings.",
+        "INVALID"
+      );
+    }
+
+    throw error;
+  }
+
   // ===============================
   // UTILITY METHODS: JSON Parsing & Error Handling
   // ===============================
@@ -257,18 +392,22 @@ export class GeminiService {
     return {};
   }
 
-  // Exponential backoff for API retries (handles rate limits and 500 errors)
+  // Exponential backoff for API retries (handles rate limits and 500 errors).
+  // A cancelled signal stops the loop immediately - including mid-backoff.
   private async retryWithBackoff<T>(
     fn: () => Promise<T>,
     maxRetries: number = 3,
-    baseDelayMs: number = 1000
+    baseDelayMs: number = 1000,
+    signal?: AbortSignal
   ): Promise<T> {
     let lastError: any;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      throwIfAborted(signal);
       try {
         return await fn();
       } catch (error: any) {
+        if (isAbortError(error, signal)) throw new GenerationCancelledError();
         lastError = error;
 
         if (attempt === maxRetries) {
@@ -281,7 +420,7 @@ export class GeminiService {
           error.message
         );
 
-        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        await abortableDelay(delayMs, signal);
       }
     }
 
@@ -368,6 +507,26 @@ export class GeminiService {
     return { isTruncated: true, lastSection, lastCompleteHeading: lastSection };
   }
 
+  // Split streamed markdown before its final heading: everything above it is
+  // a finished section that is safe to persist and resume from
+  private splitAtLastCompleteSection(markdown: string): {
+    complete: string;
+    lastCompleteHeading?: string;
+    headingCount: number;
+  } {
+    const headings = [...markdown.matchAll(/^#{1,6}\s+.+$/gm)];
+    if (headings.length < 2) {
+      return { complete: "", headingCount: headings.length };
+    }
+    const last = headings[headings.length - 1];
+    const previous = headings[headings.length - 2];
+    return {
+      complete: markdown.slice(0, last.index).trimEnd(),
+      lastCompleteHeading: previous[0].replace(/^#{1,6}\s+/, "").trim(),
+      headingCount: headings.length,
+    };
+  }
+
   // Helper to find last section heading
   private findLastSection(markdown: string): string | undefined {
     const headingMatches = markdown.match(/^#{1,6}\s+.+$/gm);
@@ -415,6 +574,15 @@ export class GeminiService {
             }
           }
         }
+
+        // Synonyms - on translated guides these carry the English term
+        (node.synonyms || []).forEach((synonym) => {
+          const normalizedSynonym = normalize(synonym);
+          if (synonym.length >= 3 && !nodeMap.has(normalizedSynonym)) {
+            nodeMap.set(normalizedSynonym, node);
+            terms.push(synonym.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+          }
+        });
       }
     });
 
@@ -442,10 +610,10 @@ export class GeminiService {
 
       // For headings, only match bracketed terms (not plain text to avoid messing up heading text)
       const pattern = isHeading
-        ? `(\\[.+?\\]\\(.+?\\))|(\\[([^\\]]+)\\])` // In headings: existing links OR any bracketed text
-        : `(\\[.+?\\]\\(.+?\\))|(\\[([^\\]]+)\\])|\\b(${sortedTermsPattern})\\b`; // In body: + plain terms
+        ? `(\\[[^\\]]+\\]\\([^)\\s]+\\))|(\\[([^\\]]+)\\])` // In headings: existing links OR any bracketed text
+        : `(\\[[^\\]]+\\]\\([^)\\s]+\\))|(\\[([^\\]]+)\\])|(?<![\\p{L}\\p{N}_])(${sortedTermsPattern})(?![\\p{L}\\p{N}_])`; // In body: + plain terms (Unicode-aware boundaries - \b is ASCII-only)
 
-      const masterRegex = new RegExp(pattern, "gi");
+      const masterRegex = new RegExp(pattern, "giu");
 
       return line.replace(
         masterRegex,
@@ -488,6 +656,14 @@ export class GeminiService {
     return processedLines.join("\n");
   }
 
+  // Smart links for an edited graph: existing node links go back to
+  // bracketed terms, so links to deleted nodes are dropped and renamed or
+  // new nodes are picked up (headings included)
+  relinkGuide(markdown: string, nodes: KnowledgeNode[]): string {
+    const unlinked = markdown.replace(/\[([^\]]+)\]\(node:[^)]*\)/g, "[$1]");
+    return this.linkifyClinicalTerms(unlinked, nodes);
+  }
+
   // Convert JSON code blocks to formatted markdown tables (client-side)
   private processTablesInMarkdown(markdown: string): string {
     return embedTablesInMarkdown(markdown);
@@ -629,15 +805,16 @@ export class GeminiService {
     return this.createMarkdownTable(headers, rows);
   }
 
-  // Format lab values as table
+  // Format lab values as table, with each range also in the other unit system
   private formatLabValuesTable(labs: any[]): string {
     if (!labs || labs.length === 0) return "";
 
-    const headers = ["Test", "Normal Range", "Abnormal In"];
-    const rows = labs.map((lab) => [
-      lab.test || lab.name || "",
-      lab.normalRange || lab.range || "",
-      lab.abnormalIn || lab.abnormal || "",
+    const headers = ["Test", "Normal Range", "Converted", "Abnormal In"];
+    const rows = labTableRows(labs).map((lab) => [
+      lab.test,
+      lab.normalRange,
+      lab.converted,
+      lab.abnormalIn,
     ]);
 
     return this.createMarkdownTable(headers, rows);
@@ -668,6 +845,60 @@ export class GeminiService {
     return `${headerRow}\n${separator}\n${dataRows}`;
   }
 
+  // Learner context and teaching style, shared by the Phase 1 and Phase 2
+  // prompts so the two phases render the profile the same way
+  private learnerContextPrompt(
+    phase: "phase1" | "phase2",
+    userProfile?: UserProfile
+  ): { text: string; versions: string[] } | undefined {
+    if (!userProfile) return undefined;
+
+    const overrides = userProfile.promptOverrides;
+    const styleTemplate: PromptTemplateId = (() => {
+      switch (userProfile.teachingStyle) {
+        case "Socratic":
+          return `${phase}.teaching-style.socratic`;
+        case "Concise":
+          return `${phase}.teaching-style.concise`;
+        case "Clinical-Cases":
+          return `${phase}.teaching-style.clinical-cases`;
+        case "Detailed":
+        default:
+          return `${phase}.teaching-style.detailed`;
+      }
+    })();
+    const teachingStyle = renderPrompt(styleTemplate, {}, overrides);
+
+    const userContext = renderPrompt(
+      `${phase}.user-context`,
+      {
+        name: userProfile.name || "Learner",
+        discipline: `${userProfile.discipline}`,
+        level: `${userProfile.level}`,
+        teachingStyle: teachingStyle.text,
+        // Build specialty focus if available
+        specialtyFocus: userProfile.specialties?.length
+          ? `SPECIALTY FOCUS: ${userProfile.specialties.join(
+              ", "
+            )} - emphasize connections to these fields.`
+          : "",
+        // Build learning goals if available
+        learningGoals: userProfile.learningGoals
+          ? `LEARNING OBJECTIVES: ${userProfile.learningGoals}`
+          : "",
+        depthFocus:
+          userProfile.level && userProfile.level.includes("Pre-clinical")
+            ? "Focus on core mechanisms and pathophysiology."
+            : "Focus on clinical management, guidelines, and algorithms.",
+      },
+      overrides
+    );
+    return {
+      text: userContext.text,
+      versions: [userContext.version, teachingStyle.version],
+    };
+  }
+
   // ===============================
   // CONTEXT CACHING: Implicit (Free Tier)
   // ===============================
@@ -686,41 +917,190 @@ export class GeminiService {
   // ===============================
   // PHASE 1: Metadata + Knowledge Graph Generation
   // ===============================
-  // 🔧 OPTIMIZED: This is a SEPARATE API call with its own 64K output token budget
-  // Phase 1 focuses ONLY on JSON metadata and graph structure (no markdown)
-  // This ensures we don't exhaust tokens before Phase 2 (Master Guide)
+  // Large inputs (long PDFs, long recordings) are split by sourceChunker and
+  // extracted per chunk with bounded concurrency, then reduced into one
+  // de-duplicated graph and one overview of every chunk. Everything else is a
+  // single extraction request.
   async generateMetadataAndGraph(
     files: FileInput[],
     topicName: string,
     onThought?: (thought: string) => void,
     onSubStage?: (stage: "extracting" | "verifying" | "graphing") => void,
-    userProfile?: UserProfile
-  ): Promise<{
-    title: string;
-    summary: string;
-    eli5Analogy?: string;
-    pearls: {
-      type: "gap-filler" | "exam-tip" | "red-flag" | "fact-check";
-      content: string;
-    }[];
-    graphNodes: KnowledgeNode[];
-    graphLinks: { source: string; target: string; relationship: string }[];
-  }> {
-    // BYOK: Get dynamic client (will throw ApiKeyError if no key)
-    const ai = await this.getClient();
+    userProfile?: UserProfile,
+    onChunkProgress?: (progress: SourceChunkProgress[]) => void,
+    signal?: AbortSignal,
+    noteId?: string, // Usage ledger attribution
+    outputLanguage?: string // Per-note override of the profile language
+  ): Promise<Phase1Result> {
+    const chunks = await planSourceChunks(files);
+    if (chunks.length <= 1) {
+      return this.extractMetadataAndGraph(
+        files,
+        topicName,
+        onThought,
+        onSubStage,
+        userProfile,
+        undefined,
+        signal,
+        noteId,
+        outputLanguage
+      );
+    }
 
-    const parts: any[] = [];
+    console.log(
+      `🧩 PHASE 1 map-reduce: ${chunks.length} chunks (concurrency ${MAX_CHUNK_CONCURRENCY})`
+    );
 
-    for (const file of files) {
-      const base64Data = file.base64.split(",")[1];
-      parts.push({
-        inlineData: {
-          mimeType: file.file.type,
-          data: base64Data,
-        },
+    const progress: SourceChunkProgress[] = chunks.map((c) => ({
+      label: c.label,
+      status: "queued",
+    }));
+    const report = (index: number, update: Partial<SourceChunkProgress>) => {
+      progress[index] = { ...progress[index], ...update };
+      onChunkProgress?.([...progress]);
+    };
+    onChunkProgress?.([...progress]);
+
+    // MAP: per-chunk extraction through a small worker pool
+    const results: (Phase1Result | undefined)[] = new Array(chunks.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < chunks.length) {
+        throwIfAborted(signal);
+        const index = next++;
+        const chunk = chunks[index];
+        report(index, { status: "running" });
+        try {
+          results[index] = await this.extractMetadataAndGraph(
+            chunk.files,
+            topicName,
+            // Chunks think in parallel - say which one each thought is from
+            onThought && ((thought) => onThought(`[${chunk.label}] ${thought}`)),
+            onSubStage,
+            userProfile,
+            chunk.focus,
+            signal,
+            noteId,
+            outputLanguage
+          );
+          report(index, {
+            status: "done",
+            nodeCount: results[index]!.graphNodes.length,
+          });
+        } catch (error: any) {
+          // Auth/quota problems affect every chunk - stop the whole run
+          if (error instanceof ApiKeyError) throw error;
+          if (isAbortError(error, signal)) throw error;
+          console.warn(`⚠️ Chunk "${chunk.label}" failed:`, error?.message);
+          report(index, { status: "failed", error: error?.message });
+        }
+      }
+    };
+    await Promise.all(
+      Array.from(
+        { length: Math.min(MAX_CHUNK_CONCURRENCY, chunks.length) },
+        worker
+      )
+    );
+
+    const succeeded = results
+      .map((r, i) => (r ? { result: r, label: chunks[i].label } : undefined))
+      .filter((r): r is { result: Phase1Result; label: string } => !!r);
+    if (succeeded.length === 0) {
+      throw new Error("Phase 1 failed: every source chunk failed to process");
+    }
+
+    // REDUCE: fold each partial graph into the first, de-duplicating nodes
+    let graph: KnowledgeGraphData = { nodes: [], links: [] };
+    const pearls: ClinicalPearl[] = [];
+    const pearlKeys = new Set<string>();
+    const chunkReport: Phase1ValidationReport = {
+      repairAttempts: 0,
+      repaired: [],
+      fixed: [],
+      dropped: [],
+      unresolved: [],
+    };
+    const prefixed = (label: string, issues: Phase1ValidationIssue[]) =>
+      issues.map((i) => ({ ...i, path: `${label} › ${i.path}` }));
+
+    for (const { result, label } of succeeded) {
+      graph = this.mergeKnowledgeGraphs(
+        graph,
+        result.graphNodes,
+        result.graphLinks
+      ).graphData;
+
+      result.pearls.forEach((p) => {
+        const key = p.content.toLowerCase().replace(/\s+/g, " ").trim();
+        if (!pearlKeys.has(key)) {
+          pearlKeys.add(key);
+          pearls.push(p);
+        }
       });
+
+      const r = result.validationReport;
+      if (r) {
+        chunkReport.repairAttempts += r.repairAttempts;
+        chunkReport.repaired.push(...prefixed(label, r.repaired));
+        chunkReport.fixed.push(...prefixed(label, r.fixed));
+        chunkReport.dropped.push(...prefixed(label, r.dropped));
+        chunkReport.unresolved.push(...prefixed(label, r.unresolved));
+      }
     }
 
+    progress.forEach((p) => {
+      if (p.status === "failed") {
+        chunkReport.unresolved.push({
+          path: p.label,
+          message: `Chunk skipped: ${p.error || "extraction failed"}`,
+        });
+      }
+    });
+
+    console.log(
+      `✅ PHASE 1 reduce: ${succeeded.length}/${chunks.length} chunks → ${graph.nodes.length} nodes, ${graph.links.length} links`
+    );
+
+    const first = succeeded[0].result;
+    const overview = await this.summariseChunkResults(
+      topicName,
+      succeeded,
+      userProfile,
+      signal,
+      noteId,
+      outputLanguage
+    );
+    return {
+      ...overview,
+      pearls,
+      graphNodes: graph.nodes,
+      graphLinks: graph.links,
+      validationReport: chunkReport,
+      promptVersions: first.promptVersions, // Same templates for every chunk
+    };
+  }
+
+  // Single Phase 1 request. `focus` scopes it to one chunk of a larger input.
+  // 🔧 OPTIMIZED: This is a SEPARATE API call with its own 64K output token budget
+  // Phase 1 focuses ONLY on JSON metadata and graph structure (no markdown)
+  // This ensures we don't exhaust tokens before Phase 2 (Master Guide)
+  private async extractMetadataAndGraph(
+    files: FileInput[],
+    topicName: string,
+    onThought?: (thought: string) => void,
+    onSubStage?: (stage: "extracting" | "verifying" | "graphing") => void,
+    userProfile?: UserProfile,
+    focus?: string,
+    signal?: AbortSignal,
+    noteId?: string,
+    outputLanguage?: string
+  ): Promise<Phase1Result> {
+    // BYOK: Resolve provider up front (will throw ApiKeyError if not configured)
+    await this.getProvider();
+
+    const parts: LLMPart[] = fenceFileParts(files);
+
     // 🌟 DYNAMIC SYSTEM PROMPT INJECTION (if userProfile provided)
     // 📊 LOG: Profile context being passed to Gemini
     if (userProfile) {
@@ -739,85 +1119,26 @@ export class GeminiService {
       });
     }
 
-    // Build teaching style instructions
-    const teachingStyleInstructions = (() => {
-      switch (userProfile?.teachingStyle) {
-        case "Socratic":
-          return [
-            "TEACHING STYLE: SOCRATIC METHOD",
-            "- Ask guiding questions throughout the content",
-            "- Encourage critical thinking by posing 'What if...' scenarios",
-            "- Build concepts through discovery rather than direct statements",
-            "- Include 'Think about this...' prompts before revealing answers",
-          ].join("\n");
-        case "Concise":
-          return [
-            "TEACHING STYLE: CONCISE & DIRECT",
-            "- Keep explanations brief and to the point",
-            "- Use bullet points and numbered lists heavily",
-            "- Avoid lengthy prose; prioritize high-yield facts",
-            "- Include quick-reference tables and mnemonics",
-          ].join("\n");
-        case "Clinical-Cases":
-          return [
-            "TEACHING STYLE: CASE-BASED LEARNING",
-            "- Present concepts through clinical scenarios",
-            "- Include patient presentations and differential diagnoses",
-            "- Connect pathophysiology to clinical decision-making",
-          ].join("\n");
-
-        case "Detailed":
-        default:
-          return [
-            "TEACHING STYLE: DETAILED & COMPREHENSIVE",
-            "- Provide thorough explanations with clinical context",
-            "- Include background information and mechanisms",
-            "- Use examples and analogies to reinforce concepts",
-            "- Build knowledge systematically from fundamentals",
-          ].join("\n");
-      }
-    })();
-
-    // Build specialty focus if available
-    const specialtyInstructions = userProfile?.specialties?.length
-      ? `SPECIALTY FOCUS: ${userProfile.specialties.join(
-          ", "
-        )} - emphasize connections to these fields.`
-      : "";
-
-    // Build learning goals if available
-    const goalsInstructions = userProfile?.learningGoals
-      ? `LEARNING OBJECTIVES: ${userProfile.learningGoals}`
-      : "";
-
-    const contextPrompt = userProfile
-      ? [
-          "═══════════════════════════════════════════════════════════════",
-          "👤 USER CONTEXT (PERSONALIZE OUTPUT FOR THIS LEARNER)",
-          "═══════════════════════════════════════════════════════════════",
-          `- Name: ${userProfile.name || "Learner"}`,
-          `- Role: ${userProfile.discipline} (${userProfile.level})`,
-          "",
-          teachingStyleInstructions,
-          "",
-          specialtyInstructions,
-          goalsInstructions,
-          "",
-          "INSTRUCTIONAL ADJUSTMENTS:",
-          `1. TONE: Act as a senior mentor to a ${userProfile.level} in ${userProfile.discipline}.`,
-          `2. DEPTH: ${
-            userProfile.level && userProfile.level.includes("Pre-clinical")
-              ? "Focus on core mechanisms and pathophysiology."
-              : "Focus on clinical management, guidelines, and algorithms."
-          }`,
-          `3. FOCUS: Emphasize clinically relevant, practice-oriented content for this user's discipline.`,
-          `4. RELEVANCE: If the user is Nursing/Allied Health, emphasize patient care and monitoring. If Medical, emphasize diagnosis and treatment.`,
-          "═══════════════════════════════════════════════════════════════",
-          "",
-        ]
-          .filter(Boolean)
-          .join("\n")
-      : "";
+    // Learner context from the prompt registry (profile overrides apply)
+    const userContext = this.learnerContextPrompt("phase1", userProfile);
+    const languagePrompt = outputLanguagePrompt(
+      resolveOutputLanguage(userProfile, outputLanguage),
+      "graph",
+      userProfile
+    );
+    const untrustedPrompt = untrustedContentPrompt(userProfile);
+    const contextPrompt = [
+      userContext?.text,
+      languagePrompt?.text,
+      untrustedPrompt.text,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+    const promptVersions = [
+      ...(userContext?.versions ?? []),
+      ...(languagePrompt ? [languagePrompt.version] : []),
+      untrustedPrompt.version,
+    ];
 
     // 📝 PHASE 1 SYSTEM PROMPT - COMPREHENSIVE KNOWLEDGE GRAPH (JSON OUTPUT ONLY)
     // ⚠️ This phase uses its own 64K output token budget - separate from Phase 2
@@ -921,6 +1242,13 @@ export class GeminiService {
       "  Clinical: 'manifests as', 'presents with', 'diagnosed by', 'treated with'",
       "  Physiology: 'increases', 'decreases', 'maintains', 'impairs'",
       "",
+      "RELATIONSHIP TYPE (required on every link - keep the verb in 'relationship'):",
+      "  causes | treats | contraindicated-in | diagnoses | presents-with |",
+      "  part-of | risk-factor-for | complication-of",
+      "  Read source → target: drug 'treats' disease, test 'diagnoses' disease,",
+      "  disease 'presents-with' sign, complication 'complication-of' disease.",
+      "  Omit 'type' only when none of these fits (e.g. 'differentiated from').",
+      "",
       "═══════════════════════════════════════════════════════════════",
       "CLINICAL PEARLS - EXAM-FOCUSED INSIGHTS (6-10 pearls)",
       "═══════════════════════════════════════════════════════════════",
@@ -954,7 +1282,7 @@ export class GeminiService {
       "    }",
       "  ],",
       '  "graphLinks": [',
-      '    { "source": "id1", "target": "id2", "relationship": "causes" }',
+      '    { "source": "id1", "target": "id2", "relationship": "leads to", "type": "causes" }',
       "  ]",
       "}",
       "",
@@ -982,7 +1310,9 @@ Generate nodes for EVERY clinical term you might want to highlight, including:
    If you don't create a node for "Cervical Myelopathy" here, it can't be linked in Phase 2!
 
 Output: JSON ONLY (metadata + graph structure)
-⚠️ DO NOT generate markdown content - that will be done in a separate Phase 2 API call.`,
+⚠️ DO NOT generate markdown content - that will be done in a separate Phase 2 API call.${
+        focus ? `\n\n🧩 CHUNK SCOPE: ${focus}` : ""
+      }`,
     });
 
     return this.retryWithBackoff(
@@ -992,8 +1322,12 @@ Output: JSON ONLY (metadata + graph structure)
         console.log("   📊 Separate API call (own 64K output token budget)");
         console.log("═══════════════════════════════════════");
 
-        // Get the dynamic client (BYOK)
-        const ai = await this.getClient();
+        // Get the dynamic provider (BYOK or local endpoint)
+        const settings = resolveTaskSettings("metadata", userProfile);
+        const provider = withUsageMeter(
+          await this.getProvider(settings.model),
+          noteId
+        );
 
         let fullText = "";
         let thoughtsCapture: string[] = [];
@@ -1011,84 +1345,70 @@ Output: JSON ONLY (metadata + graph structure)
           : systemPrompt;
 
         try {
-          const stream = await ai.models.generateContentStream({
-            model: "gemini-2.5-flash",
-            contents: { parts: parts },
-            config: {
-              tools: [{ googleSearch: {} }],
-              systemInstruction: fullSystemPrompt,
-              temperature: 0.3,
-              thinkingConfig: {
-                thinkingBudget: 12288,
-                includeThoughts: true,
-              },
-            },
+          const stream = provider.streamText({
+            task: "metadata",
+            contents: [{ role: "user", parts }],
+            grounding: true,
+            systemInstruction: fullSystemPrompt,
+            temperature: settings.temperature,
+            thinkingBudget: settings.thinkingBudget,
+            maxOutputTokens: settings.maxOutputTokens,
+            includeThoughts: true,
+            signal,
           });
 
           for await (const chunk of stream) {
-            if (chunk.candidates?.[0]?.content?.parts) {
-              for (const part of chunk.candidates[0].content.parts) {
-                const partAny = part as any;
-
-                if (partAny.thought === true) {
-                  const thoughtText = partAny.text || "";
-                  if (thoughtText && thoughtText.trim()) {
-                    thoughtsCapture.push(thoughtText);
-                    if (onThought) {
-                      onThought(thoughtText);
-                    }
+            if (chunk.thought !== undefined) {
+              const thoughtText = chunk.thought;
+              if (thoughtText && thoughtText.trim()) {
+                thoughtsCapture.push(thoughtText);
+                if (onThought) {
+                  onThought(thoughtText);
+                }
 
-                    const lowerThought = thoughtText.toLowerCase();
-
-                    if (
-                      !hasSeenSearchContent &&
-                      (lowerThought.includes("search") ||
-                        lowerThought.includes("google") ||
-                        lowerThought.includes("verify") ||
-                        lowerThought.includes("cross-reference") ||
-                        lowerThought.includes("looking up"))
-                    ) {
-                      hasSeenSearchContent = true;
-                      if (currentSubStage === "extracting") {
-                        currentSubStage = "verifying";
-                        if (onSubStage) onSubStage("verifying");
-                      }
-                    }
+                const lowerThought = thoughtText.toLowerCase();
 
-                    if (
-                      !hasSeenGraphContent &&
-                      (lowerThought.includes("graph") ||
-                        lowerThought.includes("node") ||
-                        lowerThought.includes("link") ||
-                        lowerThought.includes("constellation") ||
-                        lowerThought.includes("json"))
-                    ) {
-                      hasSeenGraphContent = true;
-                      if (currentSubStage !== "graphing") {
-                        currentSubStage = "graphing";
-                        if (onSubStage) onSubStage("graphing");
-                      }
-                    }
+                if (
+                  !hasSeenSearchContent &&
+                  (lowerThought.includes("search") ||
+                    lowerThought.includes("google") ||
+                    lowerThought.includes("verify") ||
+                    lowerThought.includes("cross-reference") ||
+                    lowerThought.includes("looking up"))
+                ) {
+                  hasSeenSearchContent = true;
+                  if (currentSubStage === "extracting") {
+                    currentSubStage = "verifying";
+                    if (onSubStage) onSubStage("verifying");
                   }
-                } else if (part.text && !partAny.thought) {
-                  fullText += part.text;
-
-                  if (
-                    !hasSeenGraphContent &&
-                    fullText.includes('"graphNodes"')
-                  ) {
-                    hasSeenGraphContent = true;
+                }
+
+                if (
+                  !hasSeenGraphContent &&
+                  (lowerThought.includes("graph") ||
+                    lowerThought.includes("node") ||
+                    lowerThought.includes("link") ||
+                    lowerThought.includes("constellation") ||
+                    lowerThought.includes("json"))
+                ) {
+                  hasSeenGraphContent = true;
+                  if (currentSubStage !== "graphing") {
                     currentSubStage = "graphing";
                     if (onSubStage) onSubStage("graphing");
                   }
                 }
               }
+            } else if (chunk.text) {
+              fullText += chunk.text;
+
+              if (!hasSeenGraphContent && fullText.includes('"graphNodes"')) {
+                hasSeenGraphContent = true;
+                currentSubStage = "graphing";
+                if (onSubStage) onSubStage("graphing");
+              }
             }
 
-            if (
-              chunk.candidates?.[0]?.groundingMetadata &&
-              !hasSeenSearchContent
-            ) {
+            if (chunk.groundingMetadata && !hasSeenSearchContent) {
               hasSeenSearchContent = true;
               if (currentSubStage === "extracting") {
                 currentSubStage = "verifying";
@@ -1097,69 +1417,226 @@ Output: JSON ONLY (metadata + graph structure)
             }
           }
 
-          const parsed = this.extractJson(fullText || "{}");
+          // Strict schema validation, with targeted repair requests for
+          // anything the model can fix (missing groups, dangling links, ...)
+          const initial = validatePhase1(
+            this.extractJson(fullText || "{}"),
+            topicName
+          );
+          let validation = initial;
+          let repairAttempts = 0;
 
-          if (!parsed || typeof parsed !== "object") {
-            throw new Error("Phase 1 failed: Invalid JSON response structure");
+          while (
+            validation.errors.length > 0 &&
+            repairAttempts < MAX_PHASE1_REPAIRS
+          ) {
+            repairAttempts++;
+            console.warn(
+              `🩹 Phase 1 schema: ${validation.errors.length} error(s) - repair request ${repairAttempts}/${MAX_PHASE1_REPAIRS}`
+            );
+            const repaired = await this.repairPhase1Json(
+              provider,
+              fullText,
+              validation.errors,
+              signal
+            );
+            if (!repaired) break;
+            validation = validatePhase1(repaired, topicName);
           }
 
-          if (!parsed.title) {
-            parsed.title = topicName;
-          }
+          const issueKey = (i: Phase1ValidationIssue) =>
+            `${i.path}|${i.message}`;
+          const unresolvedKeys = new Set(validation.errors.map(issueKey));
+          const validationReport: Phase1ValidationReport = {
+            repairAttempts,
+            repaired:
+              repairAttempts > 0
+                ? initial.errors.filter((i) => !unresolvedKeys.has(issueKey(i)))
+                : [],
+            fixed: validation.fixed,
+            dropped: validation.dropped,
+            unresolved: validation.errors,
+          };
 
-          if (!parsed.graphNodes || !Array.isArray(parsed.graphNodes)) {
+          const payload = validation.value;
+          if (payload.graphNodes.length === 0) {
             throw new Error(
               "Phase 1 failed: No knowledge graph nodes generated"
             );
           }
 
-          const validNodeIds = new Set(parsed.graphNodes.map((n: any) => n.id));
-
-          // 🔧 FIX: Normalize link properties - AI may return 'label' but we need 'relationship'
-          const validLinks = (parsed.graphLinks || [])
-            .filter(
-              (l: any) =>
-                validNodeIds.has(l.source) && validNodeIds.has(l.target)
-            )
-            .map((l: any) => ({
-              source: l.source,
-              target: l.target,
-              relationship: l.relationship || l.label || "relates to", // Handle both property names
-            }));
-
           console.log("✅ PHASE 1 Complete");
           console.log(
-            `   📊 Nodes: ${parsed.graphNodes.length} | Links: ${validLinks.length}`
+            `   📊 Nodes: ${payload.graphNodes.length} | Links: ${payload.graphLinks.length}`
+          );
+          console.log(
+            `   🧪 Schema: ${validationReport.repaired.length} repaired, ${validationReport.fixed.length} fixed, ${validationReport.dropped.length} dropped, ${validationReport.unresolved.length} unresolved`
           );
           console.log(`   📝 Phase 1 used its own 64K token budget`);
           console.log("═══════════════════════════════════════\n");
 
-          return {
-            title: parsed.title || topicName,
-            summary: parsed.summary || "",
-            eli5Analogy: parsed.eli5Analogy,
-            pearls: (parsed.pearls || []).map((p: any) => ({
-              type: p.type as
-                | "gap-filler"
-                | "exam-tip"
-                | "red-flag"
-                | "fact-check",
-              content: p.content,
-              citation: p.citation,
-            })),
-            graphNodes: parsed.graphNodes || [],
-            graphLinks: validLinks,
-          };
+          return { ...payload, validationReport, promptVersions };
         } catch (error: any) {
           // Handle API errors with user-friendly messages
-          this.handleApiError(error);
+          this.handleApiError(error, provider.id);
         }
       },
       3,
-      1000
+      1000,
+      signal
     );
   }
 
+  // One title, summary and analogy for a chunked source, written over every
+  // chunk's partial overview. Falls back to the first chunk's title and the
+  // chunk summaries in order if the call fails.
+  private async summariseChunkResults(
+    topicName: string,
+    partials: { result: Phase1Result; label: string }[],
+    userProfile?: UserProfile,
+    signal?: AbortSignal,
+    noteId?: string,
+    outputLanguage?: string
+  ): Promise<Pick<Phase1Result, "title" | "summary" | "eli5Analogy">> {
+    const first = partials[0].result;
+    const combined = {
+      title: first.title,
+      summary: partials
+        .map((p) => p.result.summary?.trim())
+        .filter(Boolean)
+        .join(" "),
+      eli5Analogy: first.eli5Analogy,
+    };
+
+    try {
+      const settings = resolveTaskSettings("metadata", userProfile);
+      const provider = withUsageMeter(
+        await this.getProvider(settings.model),
+        noteId
+      );
+      const text = await provider.generateJson({
+        task: "metadata-summary",
+        contents: [
+          {
+            role: "user",
+            parts: [
+              {
+                text: [
+                  `TOPIC: ${topicName}`,
+                  "",
+                  "One long source was processed in parts. Each part's overview:",
+                  ...partials.map(({ result, label }) =>
+                    [
+                      "",
+                      `── ${label} ──`,
+                      `TITLE: ${result.title}`,
+                      `SUMMARY: ${result.summary}`,
+                      result.eli5Analogy ? `ANALOGY: ${result.eli5Analogy}` : "",
+                    ]
+                      .filter(Boolean)
+                      .join("\n")
+                  ),
+                  "",
+                  "Write ONE title, summary and eli5Analogy for the WHOLE source:",
+                  "- the summary covers every part in proportion, not just the opening",
+                  "- keep the register and length of a single part's summary",
+                ].join("\n"),
+              },
+            ],
+          },
+        ],
+        systemInstruction: [
+          "You write the overview of a medical study guide. Output JSON only.",
+          outputLanguagePrompt(
+            resolveOutputLanguage(userProfile, outputLanguage),
+            "graph",
+            userProfile
+          )?.text || "",
+        ].join("\n"),
+        temperature: settings.temperature,
+        responseSchema: CHUNK_SUMMARY_SCHEMA,
+        signal,
+      });
+      const parsed = this.extractJson(text || "");
+      if (
+        typeof parsed?.title !== "string" ||
+        typeof parsed?.summary !== "string" ||
+        !parsed.title.trim() ||
+        !parsed.summary.trim()
+      ) {
+        console.warn("⚠️ Combined summary was empty - joining chunk summaries");
+        return combined;
+      }
+      return {
+        title: parsed.title.trim(),
+        summary: parsed.summary.trim(),
+        eli5Analogy:
+          typeof parsed.eli5Analogy === "string" && parsed.eli5Analogy.trim()
+            ? parsed.eli5Analogy.trim()
+            : combined.eli5Analogy,
+      };
+    } catch (error: any) {
+      if (isAbortError(error, signal)) throw error;
+      console.warn("⚠️ Combined summary request failed:", error?.message);
+      return combined;
+    }
+  }
+
+  // Send the schema errors back with the original output and ask for a
+  // corrected payload. Returns the parsed JSON, or null if the call fails.
+  private async repairPhase1Json(
+    provider: LLMProvider,
+    originalText: string,
+    errors: Phase1ValidationIssue[],
+    signal?: AbortSignal
+  ): Promise<any | null> {
+    const MAX_LISTED_ERRORS = 60;
+    const errorList = errors
+      .slice(0, MAX_LISTED_ERRORS)
+      .map((e) => `- ${e.path}: ${e.message}`);
+    if (errors.length > MAX_LISTED_ERRORS) {
+      errorList.push(`- ...and ${errors.length - MAX_LISTED_ERRORS} more`);
+    }
+
+    try {
+      const text = await provider.generateJson({
+        task: "metadata-repair",
+        contents: [
+          {
+            role: "user",
+            parts: [
+              {
+                text: [
+                  "Your knowledge graph JSON failed schema validation:",
+                  ...errorList,
+                  "",
+                  "Return the COMPLETE corrected JSON. Fix only what is listed:",
+                  "- every node needs a unique kebab-case id, a label, an integer group 1-7 and a val 8-20",
+                  "- every link source/target must be the id of a node in graphNodes (add the node or drop the link)",
+                  "- keep all other content unchanged",
+                  "",
+                  "ORIGINAL OUTPUT:",
+                  originalText,
+                ].join("\n"),
+              },
+            ],
+          },
+        ],
+        systemInstruction:
+          "You repair JSON for a medical knowledge graph. Output JSON only.",
+        temperature: 0,
+        responseSchema: PHASE1_RESPONSE_SCHEMA,
+        signal,
+      });
+      const parsed = this.extractJson(text || "");
+      return parsed && Object.keys(parsed).length > 0 ? parsed : null;
+    } catch (error: any) {
+      if (isAbortError(error, signal)) throw error;
+      console.warn("⚠️ Phase 1 repair request failed:", error?.message);
+      return null;
+    }
+  }
+
   // ===============================
   // PHASE 2: Markdown Generation with Auto-Continuation
   // ===============================
@@ -1167,7 +1644,8 @@ Output: JSON ONLY (metadata + graph structure)
     files: FileInput[],
     topicName: string,
     graphNodes: KnowledgeNode[],
-    onProgress: (markdown: string) => void,
+    // Display text (tables processed, terms linked) and the raw stream text
+    onProgress: (markdown: string, raw: string) => void,
     previousContent?: string,
     continueFromSection?: string,
     onThought?: (thought: string) => void,
@@ -1177,23 +1655,21 @@ Output: JSON ONLY (metadata + graph structure)
       eli5Analogy?: string;
       pearls: { type: string; content: string }[];
     },
-    userProfile?: UserProfile
-  ): Promise<{ markdown: string; sources: Source[] }> {
-    // API key is fetched dynamically via getClient()
-
-    const parts: any[] = [];
+    userProfile?: UserProfile,
+    signal?: AbortSignal,
+    noteId?: string, // Usage ledger attribution
+    outputLanguage?: string // Per-note override of the profile language
+  ): Promise<{
+    markdown: string;
+    sources: Source[];
+    citedSegments: CitedSegment[]; // Sentences each source supports
+    promptVersions: string[]; // Prompt templates used (see promptTemplates)
+  }> {
+    // Provider is resolved dynamically via getProvider()
 
     // ⚠️ CRITICAL: Re-send ALL user uploaded files to Phase 2
     // This gives the AI FULL ACCESS to original source material for accurate citations
-    for (const file of files) {
-      const base64Data = file.base64.split(",")[1];
-      parts.push({
-        inlineData: {
-          mimeType: file.file.type,
-          data: base64Data,
-        },
-      });
-    }
+    const parts: LLMPart[] = fenceFileParts(files);
 
     // 🆕 Build comprehensive Phase 1 context for Phase 2
     const phase1ContextSummary = phase1Context
@@ -1307,9 +1783,32 @@ Output: JSON ONLY (metadata + graph structure)
       }
     })();
 
-    const preferredWordRange = `${targetMin}-${targetMax}`;
+    // Guide length preset (Settings → Models) scales the range, to the nearest 100
+    const { wordScale } = getGuideLengthPreset(userProfile);
+    const [minWords, maxWords] = [targetMin, targetMax].map(
+      (n) => Math.round((n * wordScale) / 100) * 100
+    );
+
+    const preferredWordRange = `${minWords}-${maxWords}`;
     // For complex, multi-system topics allow a modest uplift but cap to sane upper bound
-    const complexRange = `${Math.min(targetMax + 2000, 8000)}`;
+    const complexRange = `${Math.min(
+      maxWords + 2000 * wordScale,
+      8000 * wordScale
+    )}`;
+
+    // Learner context from the prompt registry (profile overrides apply)
+    const userContext = this.learnerContextPrompt("phase2", userProfile);
+    const languagePrompt = outputLanguagePrompt(
+      resolveOutputLanguage(userProfile, outputLanguage),
+      "guide",
+      userProfile
+    );
+    const untrustedPrompt = untrustedContentPrompt(userProfile);
+    const promptVersions = [
+      ...(userContext?.versions ?? []),
+      ...(languagePrompt ? [languagePrompt.version] : []),
+      untrustedPrompt.version,
+    ];
 
     const systemPrompt = [
       // ═══════════════════════════════════════════════════════════════
@@ -1786,6 +2285,9 @@ Output: JSON ONLY (metadata + graph structure)
   - Use inline citations throughout
   - End cleanly after your final section`
         : "",
+      // After the cacheable prefix - only non-English guides carry it
+      languagePrompt?.text,
+      untrustedPrompt.text,
     ]
       .filter(Boolean)
       .join("\n");
@@ -1889,11 +2391,16 @@ DO NOT START WITH:
         console.log("   🔍 Google Search enabled (1M queries/day limit)");
         console.log("═══════════════════════════════════════");
 
-        // Get the dynamic client (BYOK)
-        const ai = await this.getClient();
+        // Get the dynamic provider (BYOK or local endpoint)
+        const settings = resolveTaskSettings("guide", userProfile);
+        const provider = withUsageMeter(
+          await this.getProvider(settings.model),
+          noteId
+        );
+        const task = continueFromSection ? "guide-continuation" : "guide";
 
         let fullMarkdown = previousContent || "";
-        let groundingMetadata: any = null;
+        let groundingMetadata: LLMGroundingMetadata | null = null;
         let chunkCount = 0;
         let lastLoggedLength = 0;
 
@@ -1911,102 +2418,23 @@ DO NOT START WITH:
             });
           }
 
-          // Build teaching style instructions for Phase 2
-          const teachingStyleInstructions = (() => {
-            switch (userProfile?.teachingStyle) {
-              case "Socratic":
-                return [
-                  "TEACHING STYLE: SOCRATIC METHOD",
-                  "- Pose guiding questions throughout the content",
-                  "- Encourage critical thinking with 'What if...' scenarios",
-                  "- Include 'Think about this...' prompts before key concepts",
-                ].join("\n");
-              case "Concise":
-                return [
-                  "TEACHING STYLE: CONCISE & DIRECT",
-                  "- Keep explanations brief and focused",
-                  "- Use bullet points and tables extensively",
-                  "- Prioritize high-yield facts over lengthy explanations",
-                ].join("\n");
-              case "Clinical-Cases":
-                return [
-                  "TEACHING STYLE: CASE-BASED LEARNING",
-                  "- Present information through clinical scenarios",
-                  "- Include patient presentations and management decisions",
-                  "- Connect pathophysiology to real-world clinical practice",
-                ].join("\n");
-
-              case "Detailed":
-              default:
-                return [
-                  "TEACHING STYLE: DETAILED & COMPREHENSIVE",
-                  "- Provide thorough explanations with clinical context",
-                  "- Include mechanisms, examples, and analogies",
-                ].join("\n");
-            }
-          })();
-
-          // Build specialty focus if available
-          const specialtyInstructions = userProfile?.specialties?.length
-            ? `SPECIALTY FOCUS: ${userProfile.specialties.join(
-                ", "
-              )} - emphasize connections to these fields.`
-            : "";
-
-          // Build learning goals if available
-          const goalsInstructions = userProfile?.learningGoals
-            ? `LEARNING OBJECTIVES: ${userProfile.learningGoals}`
-            : "";
-
-          // Inject user-specific context if provided
-          const contextPrompt = userProfile
-            ? [
-                "═══════════════════════════════════════",
-                "👤 USER CONTEXT (Phase 2)",
-                "═══════════════════════════════════════",
-                `- Name: ${userProfile.name || "Learner"}`,
-                `- Role: ${userProfile.discipline} (${userProfile.level})`,
-                "",
-                teachingStyleInstructions,
-                "",
-                specialtyInstructions,
-                goalsInstructions,
-                "",
-                "INSTRUCTIONAL ADJUSTMENTS:",
-                `1. TONE: Act as a senior mentor to a ${userProfile.level} in ${userProfile.discipline}.`,
-                `2. DEPTH: ${
-                  userProfile.level &&
-                  userProfile.level.includes("Pre-clinical")
-                    ? "Focus on core mechanisms and pathophysiology."
-                    : "Focus on clinical management, guidelines, and algorithms."
-                }`,
-                `3. FOCUS: Highlight clinically relevant facts tailored to this user's discipline.`,
-                "═══════════════════════════════════════",
-                "",
-              ]
-                .filter(Boolean)
-                .join("\n")
-            : "";
-
-          const fullSystemPrompt = contextPrompt
-            ? contextPrompt + "\n\n" + systemPrompt
+          const fullSystemPrompt = userContext
+            ? userContext.text + "\n\n" + systemPrompt
             : systemPrompt;
 
-          const stream = await ai.models.generateContentStream({
-            model: "gemini-2.5-flash",
-            contents: { parts: parts },
-            config: {
-              tools: [{ googleSearch: {} }],
-              systemInstruction: fullSystemPrompt,
-              temperature: 0.3,
-              thinkingConfig: {
-                thinkingBudget: 20480,
-                includeThoughts: true,
-              },
-            },
+          const stream = provider.streamText({
+            task,
+            contents: [{ role: "user", parts }],
+            grounding: true,
+            systemInstruction: fullSystemPrompt,
+            temperature: settings.temperature,
+            thinkingBudget: settings.thinkingBudget,
+            maxOutputTokens: settings.maxOutputTokens,
+            includeThoughts: true,
+            signal,
           });
 
-          console.log("   🚀 Stream started...");
+          console.log(`   🚀 Stream started (${provider.id}: ${provider.model})...`);
           for await (const chunk of stream) {
             chunkCount++;
 
@@ -2016,51 +2444,14 @@ DO NOT START WITH:
                 "   🔍 First chunk received:",
                 JSON.stringify(chunk, null, 2)
               );
-              // Also log the first candidate payload for easier inspection (if present)
-              try {
-                const firstCandidate = chunk.candidates?.[0] ?? null;
-                if (firstCandidate) {
-                  console.log(
-                    "   🔍 First chunk - first candidate:",
-                    JSON.stringify(firstCandidate, null, 2)
-                  );
-                }
-              } catch (err) {
-                console.warn("   ⚠️ Unable to stringify first candidate:", err);
-              }
             }
 
-            if (chunk.candidates?.[0]?.content?.parts) {
-              for (const part of chunk.candidates[0].content.parts) {
-                const isThought =
-                  (part as any).thought === true ||
-                  (part as any).isThought === true;
-
-                if (isThought) {
-                  const thoughtText = part.text || "";
-                  if (thoughtText && thoughtText.trim() && onThought) {
-                    onThought(thoughtText);
-                  }
-                } else if (part.text) {
-                  fullMarkdown += part.text;
-                }
-              }
-            } else if (chunk.candidates && chunk.candidates.length > 0) {
-              // Log if candidates exist but no parts found (unusual)
-              if (chunkCount <= 5) {
-                console.log(
-                  `   ⚠️ Chunk ${chunkCount} has candidates but no parts:`,
-                  JSON.stringify(chunk.candidates[0])
-                );
+            if (chunk.thought !== undefined) {
+              if (chunk.thought.trim() && onThought) {
+                onThought(chunk.thought);
               }
-            }
-
-            const chunkText = chunk.text || "";
-            // Fallback to chunk.text if parts processing didn't work or wasn't applicable
-            // But be careful not to double-add if parts were already processed
-            if (chunkText && !chunk.candidates?.[0]?.content?.parts?.length) {
-              // Only add chunk.text if we didn't extract from parts
-              fullMarkdown += chunkText;
+            } else if (chunk.text) {
+              fullMarkdown += chunk.text;
             }
 
             if (
@@ -2079,10 +2470,10 @@ DO NOT START WITH:
               processedChunk,
               graphNodes
             );
-            onProgress(smartLinkedChunk);
+            onProgress(smartLinkedChunk, fullMarkdown);
 
-            if (chunk.candidates?.[0]?.groundingMetadata) {
-              groundingMetadata = chunk.candidates[0].groundingMetadata;
+            if (chunk.groundingMetadata) {
+              groundingMetadata = chunk.groundingMetadata;
               console.log("   🔍 Found grounding metadata in chunk");
             }
           }
@@ -2113,6 +2504,8 @@ DO NOT START WITH:
             throw emptyError;
           }
         } catch (e: any) {
+          if (isAbortError(e, signal)) throw new GenerationCancelledError();
+
           // 🔧 FIX: Handle empty stream errors with longer delay before retry
           if (
             (e as any).code === "EMPTY_STREAM" ||
@@ -2131,39 +2524,39 @@ DO NOT START WITH:
               console.log(
                 "   ⏳ Waiting 2s before retry (empty stream recovery)..."
               );
-              await new Promise((resolve) => setTimeout(resolve, 2000));
+              await abortableDelay(2000, signal);
             }
 
             // Reset markdown for retry
             fullMarkdown = previousContent || "";
 
-            const stream = await ai.models.generateContentStream({
-              model: "gemini-2.5-flash",
-              contents: { parts: parts },
-              config: {
-                tools: [{ googleSearch: {} }],
-                systemInstruction: systemPrompt,
-                temperature: 0.3,
-                // Disable thinking on retry to be safer
-              },
+            const stream = provider.streamText({
+              task,
+              contents: [{ role: "user", parts }],
+              grounding: true,
+              systemInstruction: systemPrompt,
+              temperature: settings.temperature,
+              maxOutputTokens: settings.maxOutputTokens,
+              // Disable thinking on retry to be safer
+              signal,
             });
 
             let retryChunkCount = 0;
             for await (const chunk of stream) {
               retryChunkCount++;
-              const chunkText = chunk.text || "";
-              fullMarkdown += chunkText;
+              // Grounding can arrive in chunks that carry no text
+              if (chunk.groundingMetadata) {
+                groundingMetadata = chunk.groundingMetadata;
+              }
+              if (!chunk.text) continue;
+              fullMarkdown += chunk.text;
 
               const processedChunk = this.processTablesInMarkdown(fullMarkdown);
               const smartLinkedChunk = this.linkifyClinicalTerms(
                 processedChunk,
                 graphNodes
               );
-              onProgress(smartLinkedChunk);
-
-              if (chunk.candidates?.[0]?.groundingMetadata) {
-                groundingMetadata = chunk.candidates[0].groundingMetadata;
-              }
+              onProgress(smartLinkedChunk, fullMarkdown);
             }
 
             // Check for empty stream on retry too
@@ -2186,7 +2579,7 @@ DO NOT START WITH:
           } else {
             // Check for API key errors and convert to user-friendly messages
             try {
-              this.handleApiError(e);
+              this.handleApiError(e, provider.id);
             } catch (apiKeyError) {
               throw apiKeyError;
             }
@@ -2389,10 +2782,16 @@ DO NOT START WITH:
         );
         console.log("═══════════════════════════════════════\n");
 
-        return { markdown: fullMarkdown, sources };
+        return {
+          markdown: fullMarkdown,
+          sources,
+          citedSegments: citedSegmentsFrom(groundingMetadata),
+          promptVersions,
+        };
       },
       3,
-      1000
+      1000,
+      signal
     );
   }
 
@@ -2447,6 +2846,846 @@ DO NOT START WITH:
     return cleaned;
   }
 
+  // ===============================
+  // ADD SOURCES: Merge new files into an existing note
+  // ===============================
+  // Phase 1 runs on the new files only; its nodes and pearls are folded into
+  // the note, then a patch pass rewrites just the guide sections they affect.
+  // Nothing is saved here - the caller shows the preview and persists on accept.
+  async augmentNoteWithSources(
+    note: AugmentedNote,
+    newFiles: FileInput[],
+    userProfile?: UserProfile,
+    onUpdate?: (update: {
+      stage: "metadata" | "markdown";
+      subStage?: "extracting" | "verifying" | "graphing" | "writing";
+      validationReport?: Phase1ValidationReport;
+      chunkProgress?: SourceChunkProgress[];
+    }) => void,
+    onThought?: (thought: string) => void,
+    signal?: AbortSignal
+  ): Promise<SourceMergePreview> {
+    await this.getProvider();
+
+    console.log(
+      `➕ Adding ${newFiles.length} source(s) to "${note.title}" (${note.graphData.nodes.length} existing nodes)`
+    );
+
+    const metadata = await this.generateMetadataAndGraph(
+      newFiles,
+      note.title,
+      onThought,
+      (subStage) => onUpdate?.({ stage: "metadata", subStage }),
+      userProfile,
+      (chunkProgress) => onUpdate?.({ stage: "metadata", chunkProgress }),
+      signal,
+      note.id,
+      note.outputLanguage
+    );
+
+    onUpdate?.({
+      stage: "metadata",
+      subStage: "graphing",
+      validationReport: metadata.validationReport,
+    });
+
+    const merge = this.mergeKnowledgeGraphs(
+      note.graphData,
+      metadata.graphNodes,
+      metadata.graphLinks
+    );
+
+    const pearlKey = (p: { content: string }) =>
+      p.content.toLowerCase().replace(/\s+/g, " ").trim();
+    const knownPearls = new Set(note.pearls.map(pearlKey));
+    const addedPearls: ClinicalPearl[] = metadata.pearls.filter((p) => {
+      if (!p.content || knownPearls.has(pearlKey(p))) return false;
+      knownPearls.add(pearlKey(p));
+      return true;
+    });
+
+    console.log(
+      `   🔗 Graph merge: +${merge.addedNodes.length} nodes, ${merge.mergedNodes.length} duplicates folded, +${merge.addedLinks.length} links, +${addedPearls.length} pearls`
+    );
+
+    onUpdate?.({ stage: "markdown", subStage: "writing" });
+
+    const patch = await this.generateSectionPatch(
+      newFiles,
+      note,
+      merge.graphData.nodes,
+      merge.addedNodes,
+      addedPearls,
+      onThought,
+      userProfile,
+      signal
+    );
+
+    const knownUris = new Set(note.sources.map((s) => s.uri));
+    const addedSources = patch.sources.filter((s) => !knownUris.has(s.uri));
+
+    // Markers go in before smart linking, while the text still matches
+    const applied = this.applySectionPatch(
+      note.markdownContent,
+      insertCitationMarkers(patch.markdown, patch.citedSegments, [
+        ...note.sources,
+        ...addedSources,
+      ]),
+      merge.graphData.nodes
+    );
+
+    console.log(
+      `   📝 Sections: ${applied.updatedSections.length} updated, ${applied.addedSections.length} added | +${addedSources.length} sources`
+    );
+
+    // An empty patch means NO_CHANGES, which has no sections to check
+    const safetyWarnings = [
+      ...(note.safetyWarnings || []),
+      ...(await checkFilesForInjection(newFiles)),
+      ...checkGraphOutput(metadata),
+      ...(patch.markdown ? checkGuideOutput(patch.markdown) : []),
+    ];
+
+    return {
+      note: {
+        ...note,
+        markdownContent: applied.markdown,
+        pearls: [...note.pearls, ...addedPearls],
+        graphData: merge.graphData,
+        sources: [...note.sources, ...addedSources],
+        sourceFileNames: [
+          ...note.sourceFileNames,
+          ...newFiles.map((f) => f.file.name),
+        ],
+        safetyWarnings: safetyWarnings.length > 0 ? safetyWarnings : undefined,
+        // Record any prompt templates the new sources were extracted with
+        provenance: note.provenance && {
+          ...note.provenance,
+          promptVersions: [
+            ...new Set([
+              ...note.provenance.promptVersions,
+              ...(metadata.promptVersions || []),
+            ]),
+          ],
+        },
+      },
+      addedNodes: merge.addedNodes,
+      mergedNodes: merge.mergedNodes,
+      addedLinks: merge.addedLinks,
+      addedPearls,
+      addedSources,
+      updatedSections: applied.updatedSections,
+      addedSections: applied.addedSections,
+    };
+  }
+
+  // De-duplicate incoming nodes against the existing graph by label, id and
+  // synonyms. Duplicates keep the existing node (gaining any new synonyms);
+  // links from the new graph are re-pointed at the surviving ids. Two-letter
+  // ids and synonyms ("MI") stand for several concepts, so only labels count
+  // at that length - the same rule the library graph uses.
+  private mergeKnowledgeGraphs(
+    existing: KnowledgeGraphData,
+    incomingNodes: KnowledgeNode[],
+    incomingLinks: KnowledgeLink[]
+  ): {
+    graphData: KnowledgeGraphData;
+    addedNodes: KnowledgeNode[];
+    mergedNodes: { incoming: string; existing: string }[];
+    addedLinks: KnowledgeLink[];
+  } {
+    const normalize = (s: string) =>
+      s.toLowerCase().replace(/[-_]/g, " ").replace(/\s+/g, " ").trim();
+    const keysOf = (node: KnowledgeNode) => [
+      normalize(node.label),
+      ...[node.id, ...(node.synonyms || [])]
+        .filter(Boolean)
+        .map(normalize)
+        .filter((key) => !isAmbiguousTerm(key)),
+    ];
+
+    const nodes = existing.nodes.map((n) => ({ ...n }));
+    const byKey = new Map<string, KnowledgeNode>();
+    nodes.forEach((n) =>
+      keysOf(n).forEach((k) => !byKey.has(k) && byKey.set(k, n))
+    );
+    const usedIds = new Set(nodes.map((n) => n.id));
+
+    const idMap = new Map<string, string>();
+    const addedNodes: KnowledgeNode[] = [];
+    const mergedNodes: { incoming: string; existing: string }[] = [];
+
+    for (const node of incomingNodes) {
+      if (!node?.id || !node.label) continue;
+
+      const match = keysOf(node)
+        .map((k) => byKey.get(k))
+        .find(Boolean);
+
+      if (match) {
+        idMap.set(node.id, match.id);
+        mergedNodes.push({ incoming: node.label, existing: match.label });
+
+        const synonyms = new Set(match.synonyms || []);
+        [node.label, ...(node.synonyms || [])]
+          .filter((s) => normalize(s) !== normalize(match.label))
+          .forEach((s) => synonyms.add(s));
+        match.synonyms = [...synonyms];
+        keysOf(match).forEach((k) => !byKey.has(k) && byKey.set(k, match));
+        continue;
+      }
+
+      // Same id, different concept - keep both
+      let id = node.id;
+      for (let i = 2; usedIds.has(id); i++) id = `${node.id}-${i}`;
+      usedIds.add(id);
+      idMap.set(node.id, id);
+
+      const added = { ...node, id };
+      nodes.push(added);
+      addedNodes.push(added);
+      keysOf(added).forEach((k) => !byKey.has(k) && byKey.set(k, added));
+    }
+
+    // react-force-graph replaces link ends with node objects once rendered
+    const endId = (end: any): string =>
+      typeof end === "object" && end ? end.id : end;
+    const links: KnowledgeLink[] = existing.links.map((l) => ({
+      source: endId(l.source),
+      target: endId(l.target),
+      relationship: l.relationship,
+      type: l.type,
+    }));
+    const linkKeys = new Set(links.map((l) => `${l.source}→${l.target}`));
+    const addedLinks: KnowledgeLink[] = [];
+
+    for (const link of incomingLinks) {
+      const source = idMap.get(endId(link.source));
+      const target = idMap.get(endId(link.target));
+      if (!source || !target || source === target) continue;
+      const key = `${source}→${target}`;
+      if (linkKeys.has(key)) continue;
+      linkKeys.add(key);
+      const added = typeLink(
+        {
+          source,
+          target,
+          relationship: link.relationship,
+          type: link.type,
+        },
+        nodes
+      );
+      links.push(added);
+      addedLinks.push(added);
+    }
+
+    return { graphData: { nodes, links }, addedNodes, mergedNodes, addedLinks };
+  }
+
+  // Ask for ONLY the guide sections the new material changes - rewritten
+  // sections keep their exact heading, anything else is appended as new
+  private async generateSectionPatch(
+    files: FileInput[],
+    note: AugmentedNote,
+    graphNodes: KnowledgeNode[],
+    addedNodes: KnowledgeNode[],
+    addedPearls: ClinicalPearl[],
+    onThought?: (thought: string) => void,
+    userProfile?: UserProfile,
+    signal?: AbortSignal
+  ): Promise<{
+    markdown: string;
+    sources: Source[];
+    citedSegments: CitedSegment[]; // Sentences each source supports
+  }> {
+    const parts: LLMPart[] = fenceFileParts(files);
+
+    // The stored guide is already smart-linked; send it back as plain text
+    const plainGuide = stripCitationMarkers(note.markdownContent).replace(
+      /\[([^\]]+)\]\(node:[^)]+\)/g,
+      "$1"
+    );
+    const headings = this.splitGuideSections(plainGuide).sections.map(
+      (s) => s.heading
+    );
+
+    const systemPrompt = [
+      "You are Synapse Med, a Principal Medical Educator updating an EXISTING study guide.",
+      "New lecture material has been uploaded for the same topic. Integrate it without",
+      "rewriting the parts of the guide it does not touch.",
+      "",
+      "OUTPUT RULES:",
+      "- Output ONLY the '## ' sections that need to change, in markdown.",
+      "- To update a section, repeat its heading EXACTLY as listed and write the COMPLETE",
+      "  revised section: keep every existing fact and add the new material where it belongs.",
+      "- To add a section, use a new '## ' heading numbered after the last existing section.",
+      "- Do NOT output the guide title, unchanged sections, pearls, or a references list.",
+      "- Put [brackets] only around terms from the knowledge graph list.",
+      "- Cite new facts inline (e.g. [Uploaded: Page X], guideline or journal name).",
+      "- If the new material changes nothing, output exactly: NO_CHANGES",
+      userProfile
+        ? `\nLEARNER: ${userProfile.discipline || "Healthcare"} (${
+            userProfile.level || "Student"
+          }), teaching style ${userProfile.teachingStyle || "Detailed"}.`
+        : "",
+      outputLanguagePrompt(
+        resolveOutputLanguage(userProfile, note.outputLanguage),
+        "guide",
+        userProfile
+      )?.text || "",
+      untrustedContentPrompt(userProfile).text,
+    ].join("\n");
+
+    parts.push({
+      text: [
+        `TOPIC: ${note.title}`,
+        "",
+        "EXISTING SECTION HEADINGS:",
+        ...headings.map((h) => `- ${h}`),
+        "",
+        "NEW CONCEPTS FROM THE UPLOADED MATERIAL:",
+        ...(addedNodes.length
+          ? addedNodes.map(
+              (n) => `- ${n.label}${n.description ? `: ${n.description}` : ""}`
+            )
+          : ["- (none - the material deepens existing concepts)"]),
+        "",
+        "NEW PEARLS:",
+        ...(addedPearls.length
+          ? addedPearls.map((p) => `- [${p.type}] ${p.content}`)
+          : ["- (none)"]),
+        "",
+        "KNOWLEDGE GRAPH TERMS (bracket only these):",
+        graphNodes
+          .slice(0, 100)
+          .map((n) => n.label)
+          .join(", "),
+        "",
+        "═══════════════════════════════════════════════════════════════",
+        "EXISTING GUIDE",
+        "═══════════════════════════════════════════════════════════════",
+        fenceText("Existing guide", plainGuide),
+      ].join("\n"),
+    });
+
+    return this.retryWithBackoff(
+      async () => {
+        console.log("🟣 ADD SOURCES: Patching affected guide sections");
+        const settings = resolveTaskSettings("guide", userProfile);
+        const provider = withUsageMeter(
+          await this.getProvider(settings.model),
+          note.id
+        );
+
+        let markdown = "";
+        let groundingMetadata: LLMGroundingMetadata | null = null;
+
+        try {
+          const stream = provider.streamText({
+            task: "guide-patch",
+            contents: [{ role: "user", parts }],
+            grounding: true,
+            systemInstruction: systemPrompt,
+            temperature: settings.temperature,
+            thinkingBudget: settings.thinkingBudget,
+            maxOutputTokens: settings.maxOutputTokens,
+            includeThoughts: true,
+            signal,
+          });
+
+          for await (const chunk of stream) {
+            if (chunk.thought) {
+              onThought?.(chunk.thought);
+            } else if (chunk.text) {
+              markdown += chunk.text;
+            }
+            if (chunk.groundingMetadata) {
+              groundingMetadata = chunk.groundingMetadata;
+            }
+          }
+        } catch (error: any) {
+          this.handleApiError(error, provider.id);
+        }
+
+        const sources: Source[] = [];
+        (groundingMetadata?.groundingChunks || []).forEach((chunk: any) => {
+          const uri = chunk?.web?.uri;
+          if (
+            !uri ||
+            !chunk.web.title ||
+            uri.includes("vertexaisearch.cloud.google.com") ||
+            uri.includes("/search?") ||
+            sources.find((s) => s.uri === uri)
+          ) {
+            return;
+          }
+          sources.push({ title: chunk.web.title, uri });
+        });
+
+        return {
+          markdown: markdown.trim() === "NO_CHANGES" ? "" : markdown,
+          sources,
+          citedSegments: citedSegmentsFrom(groundingMetadata),
+        };
+      },
+      3,
+      1000,
+      signal
+    );
+  }
+
+  // Split a guide into its preamble (title) and '## ' sections
+  private splitGuideSections(markdown: string): {
+    preamble: string;
+    sections: { heading: string; content: string }[];
+  } {
+    const matches = [...markdown.matchAll(/^##\s+(.+)$/gm)];
+    if (matches.length === 0) {
+      return { preamble: markdown, sections: [] };
+    }
+    return {
+      preamble: markdown.slice(0, matches[0].index),
+      sections: matches.map((m, i) => ({
+        heading: m[1].trim(),
+        content: markdown
+          .slice(m.index, matches[i + 1]?.index ?? markdown.length)
+          .trimEnd(),
+      })),
+    };
+  }
+
+  // Replace sections whose heading matches (numbering and links ignored),
+  // append the rest. Only the patched text is linked and table-processed.
+  private applySectionPatch(
+    markdown: string,
+    patchMarkdown: string,
+    graphNodes: KnowledgeNode[]
+  ): { markdown: string; updatedSections: string[]; addedSections: string[] } {
+    const patch = this.splitGuideSections(patchMarkdown).sections;
+    if (patch.length === 0) {
+      return { markdown, updatedSections: [], addedSections: [] };
+    }
+
+    const guide = this.splitGuideSections(markdown);
+    const sections = [...guide.sections];
+    const updatedSections: string[] = [];
+    const addedSections: string[] = [];
+    const patched = new Set<number>(); // Headings that read alike pair up in order
+
+    for (const section of patch) {
+      const content = this.processTablesInMarkdown(
+        this.linkifyClinicalTerms(section.content, graphNodes)
+      );
+      const key = this.sectionKey(section.heading);
+      const index = sections.findIndex(
+        (s, i) => !patched.has(i) && this.sectionKey(s.heading) === key
+      );
+      if (index !== -1) {
+        patched.add(index);
+        sections[index] = { heading: sections[index].heading, content };
+        updatedSections.push(sections[index].heading);
+      } else {
+        sections.push({ heading: section.heading, content });
+        addedSections.push(section.heading);
+      }
+    }
+
+    return {
+      markdown:
+        guide.preamble + sections.map((s) => s.content).join("\n\n") + "\n",
+      updatedSections,
+      addedSections,
+    };
+  }
+
+  // Compare headings by wording only - numbering, smart links and
+  // punctuation differ between the stored guide and model output. Letters
+  // and digits of any script count, so non-Latin guides keep their keys.
+  private sectionKey(heading: string): string {
+    return heading
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+      .replace(/^\p{N}+(\.\p{N}+)*\.?\s*/u, "")
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, " ")
+      .trim();
+  }
+
+  // Index of the section a heading refers to. When several headings share a
+  // key, `position` (the section's index in the guide) picks between them,
+  // then the exact heading text, then document order.
+  private findSectionIndex(
+    sections: { heading: string }[],
+    heading: string,
+    position?: number
+  ): number {
+    const key = this.sectionKey(heading);
+    const matches = sections
+      .map((s, i) => (this.sectionKey(s.heading) === key ? i : -1))
+      .filter((i) => i !== -1);
+    if (matches.length <= 1) return matches[0] ?? -1;
+    if (position !== undefined && matches.includes(position)) return position;
+    return matches.find((i) => sections[i].heading === heading) ?? matches[0];
+  }
+
+  // Swap one '## ' section of a guide (used for in-place rewrites and undo)
+  replaceSection(
+    markdown: string,
+    heading: string,
+    content: string,
+    position?: number
+  ): string {
+    const guide = this.splitGuideSections(markdown);
+    const index = this.findSectionIndex(guide.sections, heading, position);
+    if (index === -1) return markdown;
+    const sections = guide.sections.map((s, i) =>
+      i === index ? content.trimEnd() : s.content
+    );
+    return guide.preamble + sections.join("\n\n") + "\n";
+  }
+
+  // ===============================
+  // SECTION ACTIONS: Rewrite one heading in place
+  // ===============================
+  // Streams a replacement for a single '## ' section. The heading line is kept
+  // verbatim so later actions (and undo) can still find the section; only the
+  // new body is smart-linked and table-processed. Citation markers the model
+  // keeps stay valid, and new grounding sources are appended to note.sources
+  // so existing numbers never shift.
+  async rewriteSectionStreaming(
+    note: AugmentedNote,
+    heading: string,
+    action: SectionAction,
+    onProgress: (markdown: string) => void,
+    options?: {
+      files?: FileInput[]; // Original uploads - grounds "regenerate" in the lecture
+      targetLevel?: TrainingLevel;
+      position?: number; // Section index - tells apart headings that read alike
+      userProfile?: UserProfile;
+      onThought?: (thought: string) => void;
+      signal?: AbortSignal;
+    }
+  ): Promise<{
+    markdown: string;
+    sources: Source[]; // note.sources plus any new grounding sources
+    revision: SectionRevision;
+  }> {
+    const sections = this.splitGuideSections(note.markdownContent).sections;
+    const position = this.findSectionIndex(
+      sections,
+      heading,
+      options?.position
+    );
+    const section = sections[position];
+    if (!section) {
+      throw new Error(`Section "${heading}" was not found in this guide`);
+    }
+
+    const headingLine = section.content.split("\n")[0];
+    // Citation markers stay in so the model can carry them over
+    const plainSection = section.content.replace(
+      /\[([^\]]+)\]\(node:[^)]+\)/g,
+      "$1"
+    );
+    const hasCitations = /\]\(cite:\d+\)/.test(section.content);
+    const level = options?.targetLevel || options?.userProfile?.level;
+
+    const instruction = (() => {
+      switch (action) {
+        case "expand":
+          return [
+            "EXPAND this section.",
+            "- Keep every existing fact, then add depth: mechanisms, specific values,",
+            "  clinical examples, exam-relevant nuances and a summary table if useful.",
+            "- Roughly double the length. Cite new facts inline.",
+          ].join("\n");
+        case "concise":
+          return [
+            "Make this section CONCISE.",
+            "- Cut it to about half the length using bullet points.",
+            "- Keep every high-yield fact, number, drug name and table; drop repetition and filler.",
+          ].join("\n");
+        case "rewrite-level":
+          return [
+            `REWRITE this section for a ${level || "Student (Clinical)"} learner.`,
+            level?.includes("Pre-clinical")
+              ? "- Focus on mechanisms and physiology; define clinical jargon on first use."
+              : level === "Professional" || level === "Intern/Resident"
+              ? "- Assume foundational knowledge; focus on guidelines, thresholds and management decisions."
+              : "- Balance mechanisms with presentation, diagnosis and management.",
+            "- Keep the clinical facts accurate and the same scope.",
+          ].join("\n");
+        case "regenerate":
+        default:
+          return [
+            "REGENERATE this section from scratch.",
+            "- Cover the same scope with fresh wording and structure.",
+            options?.files?.length
+              ? "- Ground it in the attached lecture material and cite it as [Uploaded: Page X]."
+              : "- Cite authoritative sources inline.",
+          ].join("\n");
+      }
+    })();
+
+    const systemPrompt = [
+      "You are Synapse Med, a Principal Medical Educator editing ONE section of a study guide.",
+      "",
+      instruction,
+      "",
+      "OUTPUT RULES:",
+      "- Output ONLY the section body in markdown - do NOT repeat the '## ' heading.",
+      "- Use '### ' for any sub-headings. Do not add pearls, references or a conclusion.",
+      "- Put [brackets] only around terms from the knowledge graph list.",
+      "- Tables may be JSON code blocks (```json) like the rest of the guide.",
+      hasCitations
+        ? "- Keep each [n](cite:n) marker right after the fact it supports. Drop a marker only with its fact; never invent new ones."
+        : "",
+      outputLanguagePrompt(
+        resolveOutputLanguage(options?.userProfile, note.outputLanguage),
+        "guide",
+        options?.userProfile
+      )?.text || "",
+      untrustedContentPrompt(options?.userProfile).text,
+    ].join("\n");
+
+    const parts: LLMPart[] = fenceFileParts(options?.files || []);
+    parts.push({
+      text: [
+        `GUIDE: ${note.title}`,
+        `SUMMARY: ${note.summary}`,
+        "",
+        "KNOWLEDGE GRAPH TERMS (bracket only these):",
+        note.graphData.nodes
+          .slice(0, 100)
+          .map((n) => n.label)
+          .join(", "),
+        "",
+        "═══════════════════════════════════════════════════════════════",
+        "CURRENT SECTION",
+        "═══════════════════════════════════════════════════════════════",
+        fenceText(section.heading, plainSection),
+      ].join("\n"),
+    });
+
+    console.log(`✏️ Section ${action}: "${section.heading}"`);
+
+    const generated = await this.retryWithBackoff(
+      async () => {
+        const settings = resolveTaskSettings("guide", options?.userProfile);
+        const provider = withUsageMeter(
+          await this.getProvider(settings.model),
+          note.id
+        );
+        let text = "";
+        let groundingMetadata: LLMGroundingMetadata | null = null;
+
+        try {
+          const stream = provider.streamText({
+            task: "section",
+            contents: [{ role: "user", parts }],
+            grounding: action !== "concise",
+            systemInstruction: systemPrompt,
+            temperature: settings.temperature,
+            thinkingBudget: settings.thinkingBudget,
+            maxOutputTokens: settings.maxOutputTokens,
+            includeThoughts: true,
+            signal: options?.signal,
+          });
+
+          for await (const chunk of stream) {
+            if (chunk.thought) {
+              options?.onThought?.(chunk.thought);
+            } else if (chunk.text) {
+              text += chunk.text;
+              onProgress(
+                this.replaceSection(
+                  note.markdownContent,
+                  section.heading,
+                  `${headingLine}\n\n${text}`,
+                  position
+                )
+              );
+            }
+            if (chunk.groundingMetadata) {
+              groundingMetadata = chunk.groundingMetadata;
+            }
+          }
+        } catch (error: any) {
+          this.handleApiError(error, provider.id);
+        }
+
+        // Models sometimes echo the heading despite the instructions
+        text = text.replace(/^\s*#{1,2}\s+[^\n]*\n/, "").trim();
+        if (!text) {
+          const err = new Error("The model returned an empty section");
+          (err as any).code = "EMPTY_CONTENT";
+          throw err;
+        }
+        return { text, groundingMetadata };
+      },
+      2,
+      1000,
+      options?.signal
+    );
+
+    const sources = [...note.sources];
+    (generated.groundingMetadata?.groundingChunks || []).forEach(
+      (chunk: any) => {
+        const uri = chunk?.web?.uri;
+        if (
+          !uri ||
+          !chunk.web.title ||
+          uri.includes("vertexaisearch.cloud.google.com") ||
+          uri.includes("/search?") ||
+          sources.find((s) => s.uri === uri)
+        ) {
+          return;
+        }
+        sources.push({ title: chunk.web.title, uri });
+      }
+    );
+    if (sources.length > note.sources.length) {
+      console.log(`   📚 +${sources.length - note.sources.length} sources`);
+    }
+
+    // Markers go in before smart linking, while the text still matches
+    const cited = insertCitationMarkers(
+      dropUnknownCitationMarkers(generated.text, note.sources.length),
+      citedSegmentsFrom(generated.groundingMetadata),
+      sources
+    );
+    const processed = this.processTablesInMarkdown(
+      this.linkifyClinicalTerms(cited, note.graphData.nodes)
+    );
+
+    return {
+      markdown: this.replaceSection(
+        note.markdownContent,
+        section.heading,
+        `${headingLine}\n\n${processed.trim()}`,
+        position
+      ),
+      sources,
+      revision: {
+        heading: section.heading,
+        position,
+        previousContent: section.content,
+        action,
+        targetLevel: action === "rewrite-level" ? level : undefined,
+        createdAt: Date.now(),
+      },
+    };
+  }
+
+  // ===============================
+  // NODE EXPANSION: Suggested neighbours for one graph node
+  // ===============================
+  // Candidates only - nothing is merged until the learner accepts it
+  async expandNode(
+    note: AugmentedNote,
+    nodeId: string,
+    options?: { userProfile?: UserProfile; signal?: AbortSignal }
+  ): Promise<ExpansionCandidate[]> {
+    const node = note.graphData.nodes.find((n) => n.id === nodeId);
+    if (!node) {
+      throw new Error(`Node "${nodeId}" was not found in this graph`);
+    }
+
+    const labelOf = (id: string) =>
+      note.graphData.nodes.find((n) => n.id === id)?.label || id;
+    const currentLinks = note.graphData.links
+      .map((l) => ({
+        source: linkEndId(l.source),
+        target: linkEndId(l.target),
+        relationship: l.relationship,
+      }))
+      .filter((l) => l.source === nodeId || l.target === nodeId)
+      .map(
+        (l) =>
+          `- ${labelOf(l.source)} —${l.relationship}→ ${labelOf(l.target)}`
+      );
+    const plainGuide = stripCitationMarkers(note.markdownContent)
+      .replace(/\[([^\]]+)\]\(node:[^)]+\)/g, "$1")
+      .slice(0, 30000);
+
+    const systemPrompt = [
+      "You are Synapse Med, a Principal Medical Educator extending ONE node of a medical knowledge graph.",
+      "",
+      `Suggest up to ${MAX_EXPANSION_CANDIDATES} neighbours a learner should connect to this node:`,
+      "complications, differentials, mechanisms, drugs, key findings and investigations.",
+      "",
+      "RULES:",
+      "- Stay within the scope of the study guide; prefer concepts it mentions or implies.",
+      "- Skip concepts already linked to the node. Reuse the exact label of an existing graph node when you mean it.",
+      "- relationship: a short verb phrase read from source to target (e.g. 'causes', 'treats', 'distinguished from').",
+      "- direction: 'outgoing' when the node is the source, 'incoming' when the neighbour is.",
+      "- group: 1 Core Concept, 2 Pathology, 3 Medication, 4 Anatomy, 5 Physiology, 6 Diagnostic, 7 Clinical Sign.",
+      "- description: max 15 words. details: 1-2 short markdown paragraphs. clinicalPearl: one sentence.",
+      "- Output JSON only.",
+      outputLanguagePrompt(
+        resolveOutputLanguage(options?.userProfile, note.outputLanguage),
+        "graph",
+        options?.userProfile
+      )?.text || "",
+      untrustedContentPrompt(options?.userProfile).text,
+    ].join("\n");
+
+    const prompt = [
+      `GUIDE: ${note.title}`,
+      `SUMMARY: ${note.summary}`,
+      "",
+      `NODE TO EXPAND: ${node.label} (${node.id})`,
+      node.description ? `DESCRIPTION: ${node.description}` : "",
+      "",
+      "ALREADY LINKED:",
+      currentLinks.join("\n") || "- (none)",
+      "",
+      "OTHER GRAPH NODES:",
+      note.graphData.nodes
+        .filter((n) => n.id !== nodeId)
+        .slice(0, 150)
+        .map((n) => n.label)
+        .join(", "),
+      "",
+      fenceText(note.title, plainGuide),
+    ].join("\n");
+
+    console.log(`🌱 Expanding node: "${node.label}"`);
+    const settings = resolveTaskSettings("metadata", options?.userProfile);
+
+    const text = await this.retryWithBackoff(
+      async () => {
+        const provider = withUsageMeter(
+          await this.getProvider(settings.model),
+          note.id
+        );
+        try {
+          return await provider.generateJson({
+            task: "node-expansion",
+            contents: [{ role: "user", parts: [{ text: prompt }] }],
+            systemInstruction: systemPrompt,
+            temperature: settings.temperature,
+            thinkingBudget: Math.min(settings.thinkingBudget ?? 4096, 4096),
+            responseSchema: NODE_EXPANSION_SCHEMA,
+            signal: options?.signal,
+          });
+        } catch (error: any) {
+          this.handleApiError(error, provider.id);
+        }
+      },
+      2,
+      1000,
+      options?.signal
+    );
+
+    const candidates = parseExpansion(
+      this.extractJson(text || ""),
+      note.graphData,
+      nodeId
+    );
+    console.log(`🌱 ${candidates.length} candidate(s) for "${node.label}"`);
+    return candidates;
+  }
+
   // ===============================
   // MAIN STREAMING METHOD: Two-Phase Architecture
   // ===============================
@@ -2464,17 +3703,27 @@ DO NOT START WITH:
         | "writing"
         | "citing";
       data?: Partial<AugmentedNote>;
+      validationReport?: Phase1ValidationReport; // With the Phase 1 result
+      chunkProgress?: SourceChunkProgress[]; // Large inputs only
     }) => void,
-    onThought?: (thought: string) => void
-  ): Promise<AugmentedNote> {
-    // BYOK: Validate API key exists before starting full generation
-    const apiKey = await ProfileRepository.getApiKey();
-    if (!apiKey) {
-      throw new ApiKeyError(
-        "No API Key found. Please add your Google Gemini API key in Settings.",
-        "MISSING"
-      );
+    onThought?: (thought: string) => void,
+    options?: {
+      // Continue an interrupted run: Phase 1 output is taken from the note,
+      // Phase 2 picks up after draft.lastCompleteHeading
+      resumeFrom?: AugmentedNote;
+      // Fired after Phase 1 and whenever another guide section completes
+      onCheckpoint?: (checkpoint: GenerationCheckpoint) => void;
+      // Aborts the in-flight request; rejects with GenerationCancelledError
+      // and leaves the last checkpoint as the resumable draft
+      signal?: AbortSignal;
+      // Note the token usage is attributed to in the usage ledger
+      noteId?: string;
+      // Overrides the profile's output language; kept on the returned note
+      outputLanguage?: string;
     }
+  ): Promise<AugmentedNote> {
+    // BYOK: Validate the provider is usable before starting full generation
+    const provider = await this.getProvider();
 
     try {
       console.log(`📁 Starting with ${files.length} uploaded files`);
@@ -2494,18 +3743,96 @@ DO NOT START WITH:
         onUpdateCallback = onUpdate;
       }
 
+      const outputLanguage =
+        options?.outputLanguage ?? options?.resumeFrom?.outputLanguage;
+
       onUpdateCallback = onUpdateCallback || function () {};
 
-      // PHASE 1
-      const metadataResult = await this.generateMetadataAndGraph(
-        files,
-        topicName,
-        onThought,
-        (subStage) => {
-          onUpdateCallback({ stage: "metadata", subStage: subStage });
+      const resumeFrom = options?.resumeFrom;
+      const resumeDraft = resumeFrom?.draft;
+      const checkpoint = (partial: Partial<GenerationCheckpoint>) => {
+        options?.onCheckpoint?.({
+          topicName,
+          phase: "markdown",
+          continuationCount: 0,
+          ...partial,
+          updatedAt: Date.now(),
+        });
+      };
+
+      // PHASE 1 (skipped when resuming - the note already holds its output)
+      let metadataResult: Awaited<
+        ReturnType<GeminiService["generateMetadataAndGraph"]>
+      >;
+      let metadataStartedAt: number | undefined;
+
+      if (resumeFrom && resumeFrom.graphData.nodes.length > 0) {
+        console.log(
+          `♻️ Resuming "${resumeFrom.title}" - skipping Phase 1 (${resumeFrom.graphData.nodes.length} nodes cached)`
+        );
+        metadataResult = {
+          title: resumeFrom.title,
+          summary: resumeFrom.summary,
+          eli5Analogy: resumeFrom.eli5Analogy,
+          pearls: resumeFrom.pearls,
+          graphNodes: resumeFrom.graphData.nodes,
+          graphLinks: resumeFrom.graphData.links.map((l: any) => ({
+            source: typeof l.source === "object" ? l.source.id : l.source,
+            target: typeof l.target === "object" ? l.target.id : l.target,
+            relationship: l.relationship,
+            type: l.type,
+          })),
+          promptVersions: resumeFrom.provenance?.promptVersions,
+        };
+      } else {
+        metadataStartedAt = Date.now();
+        metadataResult = await this.generateMetadataAndGraph(
+          files,
+          topicName,
+          onThought,
+          (subStage) => {
+            onUpdateCallback({ stage: "metadata", subStage: subStage });
+          },
+          userProfile,
+          (chunkProgress) =>
+            onUpdateCallback({ stage: "metadata", chunkProgress }),
+          options?.signal,
+          options?.noteId,
+          outputLanguage
+        );
+      }
+
+      const phaseSettings = (task: "metadata" | "guide") => {
+        const settings = resolveTaskSettings(task, userProfile);
+        return {
+          ...settings,
+          model: settings.model || provider.model,
+          grounding: true,
+        };
+      };
+
+      // Resumed runs keep the Phase 1 timing recorded by the interrupted run
+      const provenance: GenerationProvenance = {
+        provider: provider.id,
+        model: provider.model,
+        promptVersions: metadataResult.promptVersions || [],
+        settings: {
+          metadata: phaseSettings("metadata"),
+          guide: phaseSettings("guide"),
         },
-        userProfile
-      );
+        profile: {
+          discipline: userProfile?.discipline,
+          level: userProfile?.level,
+          teachingStyle: userProfile?.teachingStyle,
+          examGoal: userProfile?.examGoal,
+        },
+        continuationCount: 0,
+        phases: {
+          metadata: metadataStartedAt
+            ? { startedAt: metadataStartedAt, completedAt: Date.now() }
+            : resumeFrom?.provenance?.phases.metadata,
+        },
+      };
 
       onUpdateCallback({
         stage: "metadata",
@@ -2519,20 +3846,41 @@ DO NOT START WITH:
             nodes: metadataResult.graphNodes,
             links: metadataResult.graphLinks,
           },
+          provenance,
         },
+        validationReport: metadataResult.validationReport,
       });
 
+      // Only complete sections are kept - a half-written one is regenerated
+      let fullMarkdown =
+        resumeDraft?.partialMarkdown && resumeDraft.lastCompleteHeading
+          ? resumeDraft.partialMarkdown
+          : "";
+      let continueFrom = fullMarkdown
+        ? resumeDraft?.lastCompleteHeading
+        : undefined;
+      let allSources: Source[] = fullMarkdown
+        ? [...(resumeFrom?.sources || [])]
+        : [];
+      let continuationAttempts = resumeDraft?.continuationCount || 0;
+      let checkpointedHeadings = 0;
+      const citedSegments: CitedSegment[] = [];
+      let guidePromptVersions: string[] = [];
+
+      if (!fullMarkdown) {
+        checkpoint({ phase: "metadata" });
+      }
+
       // PHASE 2
       // 🔧 FIX: Add delay between Phase 1 and Phase 2 to avoid API rate issues
       // This prevents empty stream responses when Phase 2 starts immediately after Phase 1
       console.log("⏳ Cooling down before Phase 2 (1.5s)...");
-      await new Promise((resolve) => setTimeout(resolve, 1500));
+      await abortableDelay(1500, options?.signal);
 
-      let fullMarkdown = "";
-      let allSources: Source[] = [];
-      let continuationAttempts = 0;
-      // 🔧 REDUCED: Only continue if truly necessary
-      const MAX_CONTINUATIONS = 2;
+      // 🔧 REDUCED: Only continue if truly necessary (more for "Deep dive")
+      const MAX_CONTINUATIONS =
+        getGuideLengthPreset(userProfile).maxContinuations;
+      const markdownStartedAt = Date.now();
 
       let phase2SubStage: "structuring" | "writing" | "citing" = "structuring";
       let lastEmittedSubStage: "structuring" | "writing" | "citing" | null =
@@ -2576,9 +3924,24 @@ DO NOT START WITH:
           files,
           topicName,
           metadataResult.graphNodes,
-          (markdown) => {
+          (markdown, raw) => {
             const contentLength = markdown.length;
 
+            // Checkpoint each time a new heading proves the previous section
+            // finished - raw text, as resuming feeds it back to the model
+            const completed = this.splitAtLastCompleteSection(raw);
+            if (
+              completed.lastCompleteHeading &&
+              completed.headingCount > checkpointedHeadings
+            ) {
+              checkpointedHeadings = completed.headingCount;
+              checkpoint({
+                partialMarkdown: completed.complete,
+                lastCompleteHeading: completed.lastCompleteHeading,
+                continuationCount: continuationAttempts,
+              });
+            }
+
             if (phase2SubStage === "structuring" && contentLength > 500) {
               emitSubStage("writing", markdown);
             } else if (phase2SubStage === "writing" && contentLength > 30000) {
@@ -2591,21 +3954,39 @@ DO NOT START WITH:
               });
             }
           },
-          continuationAttempts > 0 ? fullMarkdown : undefined,
-          continuationAttempts > 0
-            ? this.detectTruncation(fullMarkdown).lastSection
-            : undefined,
+          fullMarkdown || undefined,
+          continueFrom,
           (thought) => {
             if (onThought) onThought(thought);
           },
           phase1Context,
-          userProfile
+          userProfile,
+          options?.signal,
+          options?.noteId,
+          outputLanguage
         );
 
         fullMarkdown = result.markdown;
         allSources = [...new Set([...allSources, ...result.sources])];
+        citedSegments.push(...result.citedSegments);
+        guidePromptVersions = result.promptVersions;
 
         const truncationCheck = this.detectTruncation(fullMarkdown);
+        continueFrom = truncationCheck.lastSection;
+        if (truncationCheck.isTruncated) {
+          const completed = this.splitAtLastCompleteSection(fullMarkdown);
+          checkpoint({
+            partialMarkdown: completed.complete,
+            lastCompleteHeading: completed.lastCompleteHeading,
+            continuationCount: continuationAttempts,
+          });
+        } else {
+          checkpoint({
+            partialMarkdown: fullMarkdown,
+            lastCompleteHeading: this.findLastSection(fullMarkdown),
+            continuationCount: continuationAttempts,
+          });
+        }
 
         // 🔧 ENHANCED: Don't continue if content is substantial and no clear truncation
         if (
@@ -2623,12 +4004,26 @@ DO NOT START WITH:
         );
       }
 
+      // Markers go in before smart linking, while the text still matches
       const linkedMarkdown = this.linkifyClinicalTerms(
-        fullMarkdown,
+        insertCitationMarkers(fullMarkdown, citedSegments, allSources),
         metadataResult.graphNodes
       );
       const processedMarkdown = this.processTablesInMarkdown(linkedMarkdown);
 
+      // Local prompt-injection checks - they only warn (see promptSafety)
+      const safetyWarnings = [
+        ...(await checkFilesForInjection(files)),
+        ...checkGraphOutput(metadataResult),
+        ...checkGuideOutput(fullMarkdown),
+      ];
+      if (safetyWarnings.length > 0) {
+        console.warn(
+          `🛡️ [Safety] ${safetyWarnings.length} prompt-safety warning(s)`,
+          safetyWarnings
+        );
+      }
+
       const augmentedNote: AugmentedNote = {
         id: crypto.randomUUID(),
         timestamp: Date.now(),
@@ -2643,12 +4038,29 @@ DO NOT START WITH:
           links: metadataResult.graphLinks,
         },
         sources: allSources,
+        outputLanguage,
+        safetyWarnings: safetyWarnings.length > 0 ? safetyWarnings : undefined,
+        provenance: {
+          ...provenance,
+          promptVersions: [
+            ...new Set([...provenance.promptVersions, ...guidePromptVersions]),
+          ],
+          continuationCount: continuationAttempts,
+          phases: {
+            ...provenance.phases,
+            markdown: { startedAt: markdownStartedAt, completedAt: Date.now() },
+          },
+        },
       };
 
       onUpdateCallback({ stage: "complete", data: augmentedNote });
 
       return augmentedNote;
     } catch (error) {
+      if (isAbortError(error, options?.signal)) {
+        console.log("⏹️ augmentClinicalNoteStreaming cancelled");
+        throw new GenerationCancelledError();
+      }
       console.error("❌ augmentClinicalNoteStreaming failed:", error);
       throw error;
     }
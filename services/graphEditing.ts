@@ -0,0 +1,241 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * GRAPH EDITING
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Manual corrections to a note's knowledge graph: nodes can be added, edited
+ * or deleted and links drawn, relabelled or removed. Each edit is a plain
+ * GraphEdit applied to a copy of the graph - the caller keeps the previous
+ * graph as a GraphRevision for undo and re-runs smart linking on the guide.
+ * Accepted suggestions from node expansion arrive as one "merge" edit.
+ */
+
+import type {
+  KnowledgeGraphData,
+  KnowledgeLink,
+  KnowledgeNode,
+  RelationshipType,
+} from "../types";
+import { typeLink } from "./relationshipTypes";
+
+// Fields the inspector can edit; id stays fixed so guide links keep working
+export type NodeChanges = Partial<
+  Pick<
+    KnowledgeNode,
+    "label" | "group" | "description" | "details" | "synonyms" | "clinicalPearl"
+  >
+>;
+
+export type GraphEdit =
+  | { type: "add-node"; label: string; group: number }
+  | { type: "update-node"; id: string; changes: NodeChanges }
+  | { type: "delete-node"; id: string }
+  | { type: "add-link"; link: KnowledgeLink }
+  | {
+      type: "relabel-link";
+      link: KnowledgeLink;
+      relationship: string;
+      linkType?: RelationshipType; // Absent = read the type off the text
+    }
+  | { type: "delete-link"; link: KnowledgeLink }
+  | { type: "merge"; nodes: KnowledgeNode[]; links: KnowledgeLink[] };
+
+// Weight given to hand-added nodes (model nodes are 8-20)
+export const NEW_NODE_VAL = 10;
+
+// d3 swaps link ends for node objects while the simulation runs
+export const linkEndId = (end: KnowledgeLink["source"] | KnowledgeNode) =>
+  typeof end === "object" ? (end as KnowledgeNode).id : end;
+
+export const sameLink = (a: KnowledgeLink, b: KnowledgeLink) =>
+  linkEndId(a.source) === linkEndId(b.source) &&
+  linkEndId(a.target) === linkEndId(b.target) &&
+  a.relationship === b.relationship;
+
+/** Hyphenated id like the model's ("chronic-neck-pain"), unique in the graph */
+export function nodeIdFor(label: string, nodes: KnowledgeNode[]): string {
+  const base =
+    label
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "") || "node";
+  const taken = new Set(nodes.map((n) => n.id));
+  let id = base;
+  for (let i = 2; taken.has(id); i++) id = `${base}-${i}`;
+  return id;
+}
+
+const nodeLabel = (graph: KnowledgeGraphData, id: string) =>
+  graph.nodes.find((n) => n.id === id)?.label || id;
+
+/** Short description for the Undo button, e.g. 'Deleted "Aspirin"' */
+export function describeGraphEdit(
+  graph: KnowledgeGraphData,
+  edit: GraphEdit
+): string {
+  switch (edit.type) {
+    case "add-node":
+      return `Added "${edit.label.trim()}"`;
+    case "update-node":
+      return `Edited "${nodeLabel(graph, edit.id)}"`;
+    case "delete-node":
+      return `Deleted "${nodeLabel(graph, edit.id)}"`;
+    case "add-link":
+    case "relabel-link":
+    case "delete-link": {
+      const verb = {
+        "add-link": "Linked",
+        "relabel-link": "Relabelled",
+        "delete-link": "Unlinked",
+      }[edit.type];
+      return `${verb} "${nodeLabel(
+        graph,
+        linkEndId(edit.link.source)
+      )}" → "${nodeLabel(graph, linkEndId(edit.link.target))}"`;
+    }
+    case "merge":
+      return edit.nodes.length === 1
+        ? `Added "${edit.nodes[0].label}"`
+        : edit.nodes.length > 1
+        ? `Added ${edit.nodes.length} nodes`
+        : `Added ${edit.links.length} link${
+            edit.links.length === 1 ? "" : "s"
+          }`;
+  }
+}
+
+/**
+ * The graph after one edit. Edits that can't apply (unknown node, duplicate
+ * link, empty label) return the graph unchanged, so callers can compare
+ * references to skip saving a no-op.
+ */
+export function applyGraphEdit(
+  graph: KnowledgeGraphData,
+  edit: GraphEdit
+): KnowledgeGraphData {
+  switch (edit.type) {
+    case "add-node": {
+      const label = edit.label.trim();
+      if (!label) return graph;
+      const node: KnowledgeNode = {
+        id: nodeIdFor(label, graph.nodes),
+        label,
+        group: edit.group,
+        val: NEW_NODE_VAL,
+      };
+      return { ...graph, nodes: [...graph.nodes, node] };
+    }
+
+    case "update-node": {
+      const current = graph.nodes.find((n) => n.id === edit.id);
+      const label = edit.changes.label?.trim();
+      if (!current || label === "") return graph;
+
+      const updated: KnowledgeNode = { ...current, ...edit.changes };
+      if (label) updated.label = label;
+      if (edit.changes.synonyms) {
+        updated.synonyms = edit.changes.synonyms
+          .map((s) => s.trim())
+          .filter(Boolean);
+      }
+      // Codes were matched on the old names - map the note again for new ones
+      if (
+        updated.label !== current.label ||
+        (updated.synonyms || []).join("|") !== (current.synonyms || []).join("|")
+      ) {
+        delete updated.codes;
+      }
+      return {
+        ...graph,
+        nodes: graph.nodes.map((n) => (n.id === edit.id ? updated : n)),
+      };
+    }
+
+    case "delete-node": {
+      if (!graph.nodes.some((n) => n.id === edit.id)) return graph;
+      return {
+        nodes: graph.nodes.filter((n) => n.id !== edit.id),
+        links: graph.links.filter(
+          (l) =>
+            linkEndId(l.source) !== edit.id && linkEndId(l.target) !== edit.id
+        ),
+      };
+    }
+
+    case "add-link": {
+      const link = typeLink(
+        {
+          source: linkEndId(edit.link.source),
+          target: linkEndId(edit.link.target),
+          relationship: edit.link.relationship.trim(),
+        },
+        graph.nodes
+      );
+      const ids = new Set(graph.nodes.map((n) => n.id));
+      if (
+        !link.relationship ||
+        link.source === link.target ||
+        !ids.has(link.source) ||
+        !ids.has(link.target) ||
+        graph.links.some((l) => sameLink(l, link))
+      ) {
+        return graph;
+      }
+      return { ...graph, links: [...graph.links, link] };
+    }
+
+    case "relabel-link": {
+      const relationship = edit.relationship.trim();
+      const current = graph.links.find((l) => sameLink(l, edit.link));
+      if (!relationship || !current) return graph;
+
+      const { type: _previous, ...rest } = current;
+      const updated: KnowledgeLink = edit.linkType
+        ? { ...rest, relationship, type: edit.linkType }
+        : typeLink({ ...rest, relationship }, graph.nodes);
+      if (
+        updated.relationship === current.relationship &&
+        updated.type === current.type
+      ) {
+        return graph;
+      }
+      return {
+        ...graph,
+        links: graph.links.map((l) => (sameLink(l, edit.link) ? updated : l)),
+      };
+    }
+
+    case "delete-link": {
+      if (!graph.links.some((l) => sameLink(l, edit.link))) return graph;
+      return {
+        ...graph,
+        links: graph.links.filter((l) => !sameLink(l, edit.link)),
+      };
+    }
+
+    case "merge": {
+      // Ids taken since the suggestion was made keep the existing node
+      const ids = new Set(graph.nodes.map((n) => n.id));
+      const nodes = edit.nodes.filter((n) => !ids.has(n.id));
+      nodes.forEach((n) => ids.add(n.id));
+
+      const links: KnowledgeLink[] = [];
+      edit.links.forEach((link) => {
+        if (
+          ids.has(link.source) &&
+          ids.has(link.target) &&
+          ![...graph.links, ...links].some((l) => sameLink(l, link))
+        ) {
+          links.push(link);
+        }
+      });
+      if (nodes.length === 0 && links.length === 0) return graph;
+      return {
+        nodes: [...graph.nodes, ...nodes],
+        links: [...graph.links, ...links],
+      };
+    }
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * NODE EXPANSION
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "Expand" asks the model for neighbours of one graph node - complications,
+ * differentials, mechanisms, drugs - grounded in the note. The reply is
+ * checked here and turned into candidates: a new node plus its link to the
+ * expanded node, or only a link when the neighbour is already in the graph.
+ * Candidates are shown as ghosts in the graph until the learner accepts
+ * (merged through graphEditing, so it can be undone) or rejects each one.
+ */
+
+import type {
+  KnowledgeGraphData,
+  KnowledgeLink,
+  KnowledgeNode,
+} from "../types";
+import {
+  NEW_NODE_VAL,
+  linkEndId,
+  nodeIdFor,
+  type GraphEdit,
+} from "./graphEditing";
+import { typeLink } from "./relationshipTypes";
+
+export type ExpansionCategory =
+  | "complication"
+  | "differential"
+  | "mechanism"
+  | "drug"
+  | "finding"
+  | "investigation";
+
+export interface ExpansionCandidate {
+  id: string; // New node's id, or "link:<node id>" for an existing neighbour
+  category: ExpansionCategory;
+  node?: KnowledgeNode; // Absent when the neighbour is already in the graph
+  link: KnowledgeLink; // Between the expanded node and the neighbour
+}
+
+// Pending suggestions for one node of one note (not persisted)
+export interface NodeExpansion {
+  noteId: string;
+  anchorId: string; // The node that was expanded
+  status: "loading" | "ready" | "failed";
+  candidates: ExpansionCandidate[]; // Still awaiting a decision
+  error?: string;
+}
+
+export const EXPANSION_CATEGORY_LABELS: Record<ExpansionCategory, string> = {
+  complication: "Complication",
+  differential: "Differential",
+  mechanism: "Mechanism",
+  drug: "Drug",
+  finding: "Finding",
+  investigation: "Investigation",
+};
+
+// Group used when the model's is missing or out of range
+const CATEGORY_GROUPS: Record<ExpansionCategory, number> = {
+  complication: 2,
+  differential: 2,
+  mechanism: 5,
+  drug: 3,
+  finding: 7,
+  investigation: 6,
+};
+
+const CATEGORIES = Object.keys(CATEGORY_GROUPS) as ExpansionCategory[];
+
+export const MAX_EXPANSION_CANDIDATES = 8;
+
+// responseSchema for the expansion request (OpenAPI subset)
+export const NODE_EXPANSION_SCHEMA = {
+  type: "object",
+  properties: {
+    neighbours: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          label: { type: "string" },
+          category: { type: "string", enum: CATEGORIES },
+          group: { type: "integer", minimum: 1, maximum: 7 },
+          relationship: { type: "string" },
+          direction: { type: "string", enum: ["outgoing", "incoming"] },
+          description: { type: "string" },
+          details: { type: "string" },
+          synonyms: { type: "array", items: { type: "string" } },
+          clinicalPearl: { type: "string" },
+        },
+        required: ["label", "category", "relationship", "direction"],
+      },
+    },
+  },
+  required: ["neighbours"],
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PARSING
+// ═══════════════════════════════════════════════════════════════════════════
+
+const normalise = (s: string) => s.toLowerCase().replace(/-/g, " ").trim();
+
+const text = (v: unknown) =>
+  typeof v === "string" && v.trim() ? v.trim() : undefined;
+
+/**
+ * Candidates from the model's reply. Neighbours that name the expanded node,
+ * repeat an earlier one or are already linked to it are dropped; names that
+ * match another node (label, id or synonym) become link-only candidates.
+ */
+export function parseExpansion(
+  raw: any,
+  graph: KnowledgeGraphData,
+  anchorId: string
+): ExpansionCandidate[] {
+  const neighbours: any[] = Array.isArray(raw?.neighbours)
+    ? raw.neighbours
+    : [];
+
+  const byName = new Map<string, KnowledgeNode>();
+  graph.nodes.forEach((node) =>
+    [node.label, node.id, ...(node.synonyms || [])].forEach((name) => {
+      if (!byName.has(normalise(name))) byName.set(normalise(name), node);
+    })
+  );
+
+  const linked = new Set(
+    graph.links.flatMap((l) => {
+      const source = linkEndId(l.source);
+      const target = linkEndId(l.target);
+      if (source === anchorId) return [target];
+      if (target === anchorId) return [source];
+      return [];
+    })
+  );
+
+  const candidates: ExpansionCandidate[] = [];
+  const seen = new Set<string>();
+  const newNodes: KnowledgeNode[] = [];
+
+  for (const item of neighbours) {
+    if (candidates.length >= MAX_EXPANSION_CANDIDATES) break;
+    const label = text(item?.label);
+    const relationship = text(item?.relationship);
+    if (!label || !relationship || seen.has(normalise(label))) continue;
+    seen.add(normalise(label));
+
+    const category: ExpansionCategory = CATEGORIES.includes(item.category)
+      ? item.category
+      : "mechanism";
+    const existing = byName.get(normalise(label));
+    if (existing && (existing.id === anchorId || linked.has(existing.id))) {
+      continue;
+    }
+
+    let node: KnowledgeNode | undefined;
+    if (!existing) {
+      const group = Number.isInteger(item.group) ? item.group : 0;
+      node = {
+        id: nodeIdFor(label, [...graph.nodes, ...newNodes]),
+        label,
+        group: group >= 1 && group <= 7 ? group : CATEGORY_GROUPS[category],
+        val: NEW_NODE_VAL,
+        description: text(item.description),
+        details: text(item.details),
+        synonyms: Array.isArray(item.synonyms)
+          ? item.synonyms.map(text).filter(Boolean)
+          : undefined,
+        clinicalPearl: text(item.clinicalPearl),
+      };
+      newNodes.push(node);
+    }
+
+    const neighbourId = node ? node.id : existing!.id;
+    candidates.push({
+      id: node ? node.id : `link:${neighbourId}`,
+      category,
+      node,
+      link: typeLink(
+        item.direction === "incoming"
+          ? { source: neighbourId, target: anchorId, relationship }
+          : { source: anchorId, target: neighbourId, relationship },
+        [...graph.nodes, ...newNodes]
+      ),
+    });
+  }
+  return candidates;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PREVIEW & MERGE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Pending candidates as graph data, for ghost rendering */
+export const previewGraph = (
+  candidates: ExpansionCandidate[]
+): KnowledgeGraphData => ({
+  nodes: candidates.flatMap((c) => (c.node ? [c.node] : [])),
+  links: candidates.map((c) => c.link),
+});
+
+/** One undoable edit that merges the accepted candidates */
+export const mergeCandidates = (
+  candidates: ExpansionCandidate[]
+): GraphEdit => ({
+  type: "merge",
+  nodes: candidates.flatMap((c) => (c.node ? [c.node] : [])),
+  links: candidates.map((c) => c.link),
+});
@@ -0,0 +1,585 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * LAB VALUES
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * KnowledgeNode.labValues and the guide's lab tables are free text from the
+ * model ("Na 135-145 mEq/L", "NT-proBNP: <125 pg/mL (normal)"). This parses
+ * them into analyte, range, unit and direction, and converts between
+ * conventional and SI units with a bundled reference table - no lookups
+ * leave the browser.
+ *
+ * Reference ranges are typical adult values and vary between laboratories;
+ * they're a cross-check on what the model wrote, not a clinical standard.
+ */
+
+export type LabUnitSystem = "conventional" | "si";
+
+export interface LabValue {
+  raw: string; // As written
+  analyte: string; // As written, e.g. "Na"
+  low?: number; // Both bounds for a range, one for a threshold or value
+  high?: number;
+  unit?: string; // Tidied spelling, e.g. "mmol/L"
+  direction?: "range" | "below" | "above"; // Absent for a single value
+  note?: string; // Trailing text, e.g. "normal" or "men"
+  reference?: LabReference; // Bundled entry for the analyte, when known
+}
+
+export interface LabReference {
+  name: string;
+  aliases: string[]; // Lower-case; short ones only match whole names
+  conventionalUnit: string;
+  siUnit: string;
+  factor: number; // SI = (conventional + offset) × factor
+  offset?: number;
+  low?: number; // Typical adult range, conventional units
+  high?: number;
+}
+
+export type ReferenceStatus =
+  | "matches"
+  | "within"
+  | "above"
+  | "below"
+  | "differs";
+
+export const REFERENCE_STATUS_LABELS: Record<ReferenceStatus, string> = {
+  matches: "Matches reference",
+  within: "Within reference",
+  above: "Above reference",
+  below: "Below reference",
+  differs: "Differs from reference",
+};
+
+export const LAB_UNIT_SYSTEM_LABELS: Record<LabUnitSystem, string> = {
+  conventional: "Conventional",
+  si: "SI",
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REFERENCE TABLE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const LAB_REFERENCES: LabReference[] = [
+  {
+    name: "Sodium",
+    aliases: ["sodium", "na", "na+", "serum sodium"],
+    conventionalUnit: "mEq/L",
+    siUnit: "mmol/L",
+    factor: 1,
+    low: 135,
+    high: 145,
+  },
+  {
+    name: "Potassium",
+    aliases: ["potassium", "k", "k+", "serum potassium"],
+    conventionalUnit: "mEq/L",
+    siUnit: "mmol/L",
+    factor: 1,
+    low: 3.5,
+    high: 5.0,
+  },
+  {
+    name: "Chloride",
+    aliases: ["chloride", "cl", "cl-"],
+    conventionalUnit: "mEq/L",
+    siUnit: "mmol/L",
+    factor: 1,
+    low: 98,
+    high: 106,
+  },
+  {
+    name: "Bicarbonate",
+    aliases: ["bicarbonate", "hco3", "hco3-", "total co2"],
+    conventionalUnit: "mEq/L",
+    siUnit: "mmol/L",
+    factor: 1,
+    low: 22,
+    high: 28,
+  },
+  {
+    name: "Glucose",
+    aliases: ["glucose", "fasting glucose", "blood glucose", "fpg"],
+    conventionalUnit: "mg/dL",
+    siUnit: "mmol/L",
+    factor: 0.0555,
+    low: 70,
+    high: 99,
+  },
+  {
+    name: "Creatinine",
+    aliases: ["creatinine", "cr", "scr", "serum creatinine"],
+    conventionalUnit: "mg/dL",
+    siUnit: "µmol/L",
+    factor: 88.4,
+    low: 0.6,
+    high: 1.2,
+  },
+  {
+    name: "Urea nitrogen",
+    aliases: ["bun", "urea", "blood urea nitrogen", "urea nitrogen"],
+    conventionalUnit: "mg/dL",
+    siUnit: "mmol/L",
+    factor: 0.357,
+    low: 7,
+    high: 20,
+  },
+  {
+    name: "Calcium",
+    aliases: ["calcium", "ca", "ca2+", "total calcium"],
+    conventionalUnit: "mg/dL",
+    siUnit: "mmol/L",
+    factor: 0.25,
+    low: 8.5,
+    high: 10.5,
+  },
+  {
+    name: "Magnesium",
+    aliases: ["magnesium", "mg", "mg2+"],
+    conventionalUnit: "mg/dL",
+    siUnit: "mmol/L",
+    factor: 0.411,
+    low: 1.7,
+    high: 2.2,
+  },
+  {
+    name: "Phosphate",
+    aliases: ["phosphate", "phosphorus", "phos", "po4"],
+    conventionalUnit: "mg/dL",
+    siUnit: "mmol/L",
+    factor: 0.323,
+    low: 2.5,
+    high: 4.5,
+  },
+  {
+    name: "Total cholesterol",
+    aliases: ["total cholesterol", "cholesterol", "tc"],
+    conventionalUnit: "mg/dL",
+    siUnit: "mmol/L",
+    factor: 0.0259,
+    high: 200,
+  },
+  {
+    name: "LDL cholesterol",
+    aliases: ["ldl", "ldl-c", "ldl cholesterol"],
+    conventionalUnit: "mg/dL",
+    siUnit: "mmol/L",
+    factor: 0.0259,
+    high: 100,
+  },
+  {
+    name: "HDL cholesterol",
+    aliases: ["hdl", "hdl-c", "hdl cholesterol"],
+    conventionalUnit: "mg/dL",
+    siUnit: "mmol/L",
+    factor: 0.0259,
+    low: 40,
+  },
+  {
+    name: "Triglycerides",
+    aliases: ["triglycerides", "tg", "trigs"],
+    conventionalUnit: "mg/dL",
+    siUnit: "mmol/L",
+    factor: 0.0113,
+    high: 150,
+  },
+  {
+    name: "Total bilirubin",
+    aliases: ["bilirubin", "total bilirubin", "bili", "tbil"],
+    conventionalUnit: "mg/dL",
+    siUnit: "µmol/L",
+    factor: 17.1,
+    low: 0.1,
+    high: 1.2,
+  },
+  {
+    name: "Albumin",
+    aliases: ["albumin", "alb", "serum albumin"],
+    conventionalUnit: "g/dL",
+    siUnit: "g/L",
+    factor: 10,
+    low: 3.5,
+    high: 5.0,
+  },
+  {
+    name: "Haemoglobin",
+    aliases: ["haemoglobin", "hemoglobin", "hb", "hgb"],
+    conventionalUnit: "g/dL",
+    siUnit: "g/L",
+    factor: 10,
+    low: 12,
+    high: 17.5,
+  },
+  {
+    name: "HbA1c",
+    aliases: ["hba1c", "a1c", "glycated haemoglobin", "glycated hemoglobin"],
+    conventionalUnit: "%",
+    siUnit: "mmol/mol",
+    factor: 10.929,
+    offset: -2.15,
+    low: 4.0,
+    high: 5.6,
+  },
+  {
+    name: "Uric acid",
+    aliases: ["uric acid", "urate"],
+    conventionalUnit: "mg/dL",
+    siUnit: "µmol/L",
+    factor: 59.48,
+    low: 3.5,
+    high: 7.2,
+  },
+  {
+    name: "Lactate",
+    aliases: ["lactate", "lactic acid"],
+    conventionalUnit: "mg/dL",
+    siUnit: "mmol/L",
+    factor: 0.111,
+    low: 4.5,
+    high: 19.8,
+  },
+  {
+    name: "BNP",
+    aliases: ["bnp", "b-type natriuretic peptide"],
+    conventionalUnit: "pg/mL",
+    siUnit: "pmol/L",
+    factor: 0.289,
+    high: 100,
+  },
+  {
+    name: "NT-proBNP",
+    aliases: ["nt-probnp", "ntprobnp", "nt probnp"],
+    conventionalUnit: "pg/mL",
+    siUnit: "pmol/L",
+    factor: 0.118,
+    high: 125,
+  },
+  {
+    name: "Troponin",
+    aliases: [
+      "troponin",
+      "troponin i",
+      "troponin t",
+      "ctni",
+      "ctnt",
+      "hs-troponin",
+    ],
+    conventionalUnit: "ng/mL",
+    siUnit: "ng/L",
+    factor: 1000,
+  },
+  {
+    name: "Ferritin",
+    aliases: ["ferritin", "serum ferritin"],
+    conventionalUnit: "ng/mL",
+    siUnit: "µg/L",
+    factor: 1,
+    low: 30,
+    high: 400,
+  },
+  {
+    name: "Platelets",
+    aliases: ["platelets", "platelet count", "plt"],
+    conventionalUnit: "×10³/µL",
+    siUnit: "×10⁹/L",
+    factor: 1,
+    low: 150,
+    high: 450,
+  },
+  {
+    name: "White cell count",
+    aliases: [
+      "wbc",
+      "white cell count",
+      "white blood cells",
+      "wcc",
+      "leukocytes",
+    ],
+    conventionalUnit: "×10³/µL",
+    siUnit: "×10⁹/L",
+    factor: 1,
+    low: 4,
+    high: 11,
+  },
+];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PARSING
+// ═══════════════════════════════════════════════════════════════════════════
+
+const SUPERSCRIPTS = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+
+// Spelling-insensitive unit key: "μmol/l", "umol/L" and "µmol/L" are one unit
+const unitKey = (unit: string) =>
+  unit
+    .toLowerCase()
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]/g, (c) => String(SUPERSCRIPTS.indexOf(c)))
+    .replace(/[µμ]|mc(?=g)/g, "u")
+    .replace(/×/g, "x")
+    .replace(/\^|\s/g, "");
+
+// Tidied spellings for the units the table knows
+const UNIT_SPELLINGS = new Map<string, string>(
+  LAB_REFERENCES.flatMap((r) => [r.conventionalUnit, r.siUnit]).map((u) => [
+    unitKey(u),
+    u,
+  ])
+);
+UNIT_SPELLINGS.set(unitKey("x10^9/L"), "×10⁹/L");
+UNIT_SPELLINGS.set(unitKey("x10^3/uL"), "×10³/µL");
+UNIT_SPELLINGS.set(unitKey("10^9/L"), "×10⁹/L");
+UNIT_SPELLINGS.set(unitKey("10^3/uL"), "×10³/µL");
+UNIT_SPELLINGS.set(unitKey("mmol/L"), "mmol/L");
+
+// "Sodium: 135-145 mmol/L (normal)", "K+ >5.5 mEq/L", "WBC 4-11 x 10^9/L"
+const LAB_PATTERN =
+  /^(.+?)(?:\s*:\s*|\s+(?=[<>≤≥]|\d))([<>≤≥]=?)?\s*(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*((?:[x×]\s*10\s*\^?\s*[\d⁰-⁹]+\s*)?(?:%|[^\s\d(),;:][^\s(),;]*)?)\s*(.*)$/u;
+
+const tidyNote = (text: string) =>
+  text
+    .replace(/^[\s,;:-]+|[\s.]+$/g, "")
+    .replace(/^\((.*)\)$/, "$1")
+    .trim() || undefined;
+
+/** The bundled entry for an analyte name, e.g. "Na" or "Serum sodium" */
+export function findLabReference(analyte: string): LabReference | undefined {
+  const name = analyte.toLowerCase().replace(/\s+/g, " ").trim();
+  const exact = LAB_REFERENCES.find((r) => r.aliases.includes(name));
+  if (exact) return exact;
+
+  // Longer aliases may sit inside a longer name ("fasting serum glucose")
+  let best: { reference: LabReference; length: number } | undefined;
+  for (const reference of LAB_REFERENCES) {
+    for (const alias of reference.aliases) {
+      if (alias.length < 3 || (best && alias.length <= best.length)) continue;
+      const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      const pattern = new RegExp(
+        `(?<![\\p{L}\\p{N}-])${escaped}(?![\\p{L}\\p{N}])`,
+        "u"
+      );
+      if (pattern.test(name)) best = { reference, length: alias.length };
+    }
+  }
+  return best?.reference;
+}
+
+/** One lab string as a structured record; unparseable text keeps its name */
+export function parseLabValue(raw: string): LabValue {
+  const text = raw.trim();
+  const match = text.match(LAB_PATTERN);
+
+  if (!match) {
+    const [name, ...rest] = text.split(":");
+    const analyte = name.trim();
+    return {
+      raw,
+      analyte,
+      note: tidyNote(rest.join(":")),
+      reference: findLabReference(analyte),
+    };
+  }
+
+  const [, name, comparator, first, second, rawUnit, rest] = match;
+  const analyte = name.trim();
+  const value = Number(first);
+  const unit = rawUnit.trim()
+    ? UNIT_SPELLINGS.get(unitKey(rawUnit)) || rawUnit.trim()
+    : undefined;
+
+  const lab: LabValue = {
+    raw,
+    analyte,
+    unit,
+    note: tidyNote(rest),
+    reference: findLabReference(analyte),
+  };
+  if (second !== undefined) {
+    lab.direction = "range";
+    lab.low = Math.min(value, Number(second));
+    lab.high = Math.max(value, Number(second));
+  } else if (comparator && /[<≤]/.test(comparator)) {
+    lab.direction = "below";
+    lab.high = value;
+  } else if (comparator) {
+    lab.direction = "above";
+    lab.low = value;
+  } else {
+    lab.low = value;
+    lab.high = value;
+  }
+  return lab;
+}
+
+export const parseLabValues = (values: string[] = []) =>
+  values.map(parseLabValue);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONVERSION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Which system a lab is written in, when its unit is the reference's */
+export function unitSystemOf(lab: LabValue): LabUnitSystem | undefined {
+  if (!lab.reference || !lab.unit) return undefined;
+  const key = unitKey(lab.unit);
+  if (key === unitKey(lab.reference.conventionalUnit)) return "conventional";
+  if (key === unitKey(lab.reference.siUnit)) return "si";
+  return undefined;
+}
+
+function convertNumber(
+  value: number | undefined,
+  reference: LabReference,
+  from: LabUnitSystem,
+  to: LabUnitSystem
+): number | undefined {
+  if (value === undefined || from === to) return value;
+  const offset = reference.offset || 0;
+  return to === "si"
+    ? (value + offset) * reference.factor
+    : value / reference.factor - offset;
+}
+
+/** The lab in the other unit system; unchanged when it can't be converted */
+export function convertLab(lab: LabValue, to: LabUnitSystem): LabValue {
+  const from = unitSystemOf(lab);
+  if (!from || from === to || !lab.reference) return lab;
+  return {
+    ...lab,
+    low: convertNumber(lab.low, lab.reference, from, to),
+    high: convertNumber(lab.high, lab.reference, from, to),
+    unit:
+      to === "si" ? lab.reference.siUnit : lab.reference.conventionalUnit,
+  };
+}
+
+/** The reference range as a lab in the requested system */
+export function referenceRange(
+  reference: LabReference,
+  system: LabUnitSystem = "conventional"
+): LabValue | undefined {
+  if (reference.low === undefined && reference.high === undefined) {
+    return undefined;
+  }
+  const lab: LabValue = {
+    raw: reference.name,
+    analyte: reference.name,
+    low: reference.low,
+    high: reference.high,
+    unit: reference.conventionalUnit,
+    direction:
+      reference.low === undefined
+        ? "below"
+        : reference.high === undefined
+        ? "above"
+        : "range",
+    reference,
+  };
+  return convertLab(lab, system);
+}
+
+// Three significant figures, no trailing zeros
+const formatNumber = (value: number) =>
+  String(Number(value.toPrecision(3)));
+
+/** "135–145 mmol/L", "<125 pg/mL", or the raw text when nothing parsed */
+export function formatLabRange(lab: LabValue): string {
+  const unit = !lab.unit ? "" : lab.unit === "%" ? "%" : ` ${lab.unit}`;
+  if (lab.direction === "range" && lab.low !== undefined) {
+    return `${formatNumber(lab.low)}–${formatNumber(lab.high!)}${unit}`;
+  }
+  if (lab.direction === "below") return `<${formatNumber(lab.high!)}${unit}`;
+  if (lab.direction === "above") return `>${formatNumber(lab.low!)}${unit}`;
+  if (lab.low !== undefined) return `${formatNumber(lab.low)}${unit}`;
+  return lab.note || lab.raw;
+}
+
+/** How what the model wrote compares with the bundled range */
+export function compareToReference(
+  lab: LabValue
+): ReferenceStatus | undefined {
+  const from = unitSystemOf(lab);
+  if (!from || !lab.reference) return undefined;
+  const range = referenceRange(lab.reference, from);
+  if (!range) return undefined;
+
+  const near = (a?: number, b?: number) =>
+    a === undefined || b === undefined
+      ? a === b
+      : Math.abs(a - b) <= Math.abs(b) * 0.1;
+  if (near(lab.low, range.low) && near(lab.high, range.high)) return "matches";
+
+  const low = lab.low ?? -Infinity;
+  const high = lab.high ?? Infinity;
+  if (range.high !== undefined && low >= range.high * 0.999) return "above";
+  if (range.low !== undefined && high <= range.low * 1.001) return "below";
+  if (low >= (range.low ?? -Infinity) && high <= (range.high ?? Infinity)) {
+    return "within";
+  }
+  return "differs";
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TABLES
+// ═══════════════════════════════════════════════════════════════════════════
+
+const labName = (row: any) => row?.test || row?.name || row?.analyte;
+const labRange = (row: any) =>
+  row?.normalRange || row?.range || row?.referenceRange;
+
+/** JSON table rows that describe lab tests ({ test, normalRange, ... }) */
+export const isLabTable = (rows: any[]) =>
+  rows.length > 0 &&
+  rows.every(
+    (row) =>
+      typeof row === "object" &&
+      typeof labName(row) === "string" &&
+      typeof labRange(row) === "string"
+  );
+
+// Keys read into the structured columns; anything else is carried over
+const LAB_TABLE_KEYS = [
+  "test",
+  "name",
+  "analyte",
+  "normalRange",
+  "range",
+  "referenceRange",
+  "abnormalIn",
+  "abnormal",
+];
+
+/**
+ * Lab table rows with the range tidied and converted to the other unit
+ * system, for the guide's formatted tables
+ */
+export function labTableRows(rows: any[]): ({
+  test: string;
+  normalRange: string;
+  converted: string;
+  abnormalIn: string;
+} & Record<string, unknown>)[] {
+  return rows.map((row) => {
+    const test = String(labName(row) || "");
+    const written = String(labRange(row) || "");
+    const lab = parseLabValue(`${test}: ${written}`);
+    const system = unitSystemOf(lab);
+    const converted = system
+      ? convertLab(lab, system === "si" ? "conventional" : "si")
+      : undefined;
+    const extras = Object.fromEntries(
+      Object.entries(row).filter(([key]) => !LAB_TABLE_KEYS.includes(key))
+    );
+
+    return {
+      test,
+      normalRange:
+        lab.low !== undefined || lab.high !== undefined
+          ? `${formatLabRange(lab)}${lab.note ? ` (${lab.note})` : ""}`
+          : written,
+      converted: converted ? formatLabRange(converted) : "-",
+      abnormalIn: String(row.abnormalIn || row.abnormal || "-"),
+      ...extras,
+    };
+  });
+}
@@ -0,0 +1,198 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * LIBRARY GRAPH
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Every note's knowledge graph merged into one network. Nodes from different
+ * notes become one library node when they share a normalised label or
+ * synonym ("CHF" as a synonym of "Heart Failure") or a terminology code.
+ * Library node ids are conceptKey() values, and each node remembers which
+ * note nodes it was merged from so the UI can jump back to their guides.
+ * A note's specialty is read off its mapped terminology codes, so notes that
+ * were never mapped have none.
+ */
+
+import type {
+  AugmentedNote,
+  KnowledgeLink,
+  KnowledgeNode,
+} from "../types";
+import { linkEndId } from "./graphEditing";
+import {
+  conceptKey,
+  isAmbiguousTerm,
+  normaliseTerm,
+  specialtyOf,
+} from "./terminology";
+
+export interface LibraryNodeSource {
+  noteId: string;
+  nodeId: string; // The node's id within that note's graph
+}
+
+export interface LibraryNode extends KnowledgeNode {
+  sources: LibraryNodeSource[]; // Note nodes merged into this one
+  noteIds: string[]; // Distinct notes, in library order
+}
+
+export interface LibraryLink extends KnowledgeLink {
+  noteIds: string[]; // Notes whose graph draws this link
+}
+
+export interface LibraryNoteInfo {
+  id: string;
+  title: string;
+  specialty?: string; // Most common specialty among its mapped nodes
+}
+
+export interface LibraryGraph {
+  notes: LibraryNoteInfo[]; // Notes merged into the graph, in library order
+  nodes: LibraryNode[];
+  links: LibraryLink[];
+  // "<note id>/<node id>" → library node id
+  nodeIndex: Map<string, string>;
+}
+
+const sourceKey = (noteId: string, nodeId: string) => `${noteId}/${nodeId}`;
+
+/** Library node id for a node of one note, if that note is in the graph */
+export const libraryNodeId = (
+  graph: LibraryGraph,
+  noteId: string,
+  nodeId: string
+) => graph.nodeIndex.get(sourceKey(noteId, nodeId));
+
+// Names and codes that make two nodes the same concept. Two-letter
+// synonyms ("MS" for mitral stenosis and for multiple sclerosis) are too
+// ambiguous to join notes on.
+const mergeKeys = (node: KnowledgeNode) => [
+  ...[
+    normaliseTerm(node.label),
+    ...(node.synonyms || [])
+      .map(normaliseTerm)
+      .filter((name) => !isAmbiguousTerm(name)),
+  ]
+    .filter(Boolean)
+    .map((name) => `label:${name}`),
+  ...(node.codes || []).map((c) => `${c.system}:${c.code}`),
+];
+
+const unique = <T>(items: T[]) => [...new Set(items)];
+
+/** Specialty most of a note's coded nodes belong to, if any are coded */
+export function noteSpecialty(note: AugmentedNote): string | undefined {
+  const counts = new Map<string, number>();
+  note.graphData.nodes.forEach((node) => {
+    const specialty = node.codes
+      ?.map(specialtyOf)
+      .find((s): s is string => !!s);
+    if (specialty) counts.set(specialty, (counts.get(specialty) || 0) + 1);
+  });
+  let best: string | undefined;
+  counts.forEach((count, specialty) => {
+    if (!best || count > counts.get(best)!) best = specialty;
+  });
+  return best;
+}
+
+/**
+ * Merged graph of all finished notes. Details of a library node come from the
+ * first note that has them; synonyms and codes are pooled.
+ */
+export function buildLibraryGraph(library: AugmentedNote[]): LibraryGraph {
+  const notes = library.filter((note) => !note.draft);
+  const entries: { noteId: string; node: KnowledgeNode }[] = [];
+  notes.forEach((note) =>
+    note.graphData.nodes.forEach((node) =>
+      entries.push({ noteId: note.id, node })
+    )
+  );
+
+  // Union-find over entries that share any merge key
+  const parent = entries.map((_, i) => i);
+  const find = (i: number): number =>
+    parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const owner = new Map<string, number>();
+  entries.forEach(({ node }, i) =>
+    mergeKeys(node).forEach((key) => {
+      const j = owner.get(key);
+      if (j === undefined) owner.set(key, i);
+      else parent[find(i)] = find(j);
+    })
+  );
+
+  const members = new Map<number, number[]>();
+  entries.forEach((_, i) => {
+    const root = find(i);
+    members.set(root, [...(members.get(root) || []), i]);
+  });
+
+  const nodes: LibraryNode[] = [];
+  const nodeIndex = new Map<string, string>();
+  members.forEach((indices) => {
+    const merged = indices.map((i) => entries[i]);
+    const first = merged[0].node;
+    const pick = <K extends keyof KnowledgeNode>(key: K) =>
+      merged.find((e) => e.node[key] !== undefined)?.node[key];
+
+    const node: LibraryNode = {
+      ...first,
+      description: pick("description"),
+      details: pick("details"),
+      clinicalPearl: pick("clinicalPearl"),
+      val: Math.max(...merged.map((e) => e.node.val)),
+      synonyms: unique(
+        merged.flatMap((e) => [e.node.label, ...(e.node.synonyms || [])])
+      ).filter((name) => name !== first.label),
+      codes: unique(
+        merged.flatMap((e) => e.node.codes || []).map((c) => JSON.stringify(c))
+      ).map((c) => JSON.parse(c)),
+      sources: merged.map((e) => ({ noteId: e.noteId, nodeId: e.node.id })),
+      noteIds: unique(merged.map((e) => e.noteId)),
+    };
+    if (!node.codes?.length) delete node.codes;
+    node.id = conceptKey(node);
+    merged.forEach((e) =>
+      nodeIndex.set(sourceKey(e.noteId, e.node.id), node.id)
+    );
+    nodes.push(node);
+  });
+
+  const links = new Map<string, LibraryLink>();
+  notes.forEach((note) =>
+    note.graphData.links.forEach((l) => {
+      const source = nodeIndex.get(sourceKey(note.id, linkEndId(l.source)));
+      const target = nodeIndex.get(sourceKey(note.id, linkEndId(l.target)));
+      if (!source || !target || source === target) return;
+      const key = `${source}\u0000${target}\u0000${normaliseTerm(
+        l.relationship
+      )}`;
+      const existing = links.get(key);
+      if (existing) {
+        if (!existing.noteIds.includes(note.id)) existing.noteIds.push(note.id);
+      } else {
+        links.set(key, { ...l, source, target, noteIds: [note.id] });
+      }
+    })
+  );
+
+  return {
+    notes: notes.map((note) => ({
+      id: note.id,
+      title: note.title,
+      specialty: noteSpecialty(note),
+    })),
+    nodes,
+    links: [...links.values()],
+    nodeIndex,
+  };
+}
+
+/** The nodes and links drawn from the given notes */
+export const libraryGraphForNotes = (
+  graph: LibraryGraph,
+  noteIds: Set<string>
+): Pick<LibraryGraph, "nodes" | "links"> => ({
+  nodes: graph.nodes.filter((n) => n.noteIds.some((id) => noteIds.has(id))),
+  links: graph.links.filter((l) => l.noteIds.some((id) => noteIds.has(id))),
+});
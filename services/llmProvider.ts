@@ -0,0 +1,554 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * LLM PROVIDER LAYER
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * A thin, provider-agnostic surface for the three things Synapse needs from a
+ * model: streaming text (with optional thoughts), structured JSON, and web
+ * grounding. GeminiService and GeminiChatService only talk to this interface,
+ * so the augment → graph → guide pipeline can run against Google Gemini or a
+ * local OpenAI-compatible endpoint (Ollama, LM Studio, vLLM) chosen per profile.
+ */
+
+import { GoogleGenAI } from "@google/genai";
+import type { LLMProviderType } from "../types";
+import { ProfileRepository } from "../src/lib/repos/ProfileRepository";
+import { DemoProvider, DEMO_MODEL } from "./demoProvider";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DEFAULTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+export const DEFAULT_OPENAI_COMPATIBLE_MODEL = "llama3.1";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REQUEST / RESPONSE SHAPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface LLMPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string }; // raw base64 (no data: prefix)
+}
+
+export interface LLMMessage {
+  role: "user" | "model";
+  parts: LLMPart[];
+}
+
+/** Which pipeline step a request belongs to (used for fixtures and logging) */
+export type LLMTask =
+  | "metadata"
+  | "metadata-repair"
+  | "metadata-summary"
+  | "guide"
+  | "guide-continuation"
+  | "guide-patch"
+  | "section"
+  | "node-expansion"
+  | "chat"
+  | "quiz-question"
+  | "quiz-feedback"
+  | "clinical"
+  | "idk";
+
+export interface LLMRequest {
+  task?: LLMTask;
+  contents: LLMMessage[];
+  systemInstruction?: string;
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number; // omitted = provider default, 0 = disabled
+  includeThoughts?: boolean;
+  grounding?: boolean; // Ask for web-search grounding when the provider supports it
+  signal?: AbortSignal; // Aborts the HTTP request / stream when the user cancels
+  onUsage?: (usage: LLMUsage) => void; // Called once with the call's token counts
+}
+
+export interface LLMJsonRequest extends LLMRequest {
+  responseSchema: Record<string, any>; // JSON Schema (OpenAPI subset)
+}
+
+/** Grounding payload normalised to Gemini's groundingMetadata shape */
+export interface LLMGroundingMetadata {
+  groundingChunks?: { web?: { uri?: string; title?: string } }[];
+  groundingSupports?: {
+    groundingChunkIndices?: number[];
+    segment?: { startIndex?: number; endIndex?: number; text?: string }; // Response text it supports
+  }[];
+  webSearchQueries?: string[];
+  searchEntryPoint?: { renderedContent?: string };
+}
+
+/** Token counts for one call. inputTokens includes cachedTokens. */
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  cachedTokens: number;
+}
+
+export interface LLMStreamChunk {
+  text?: string;
+  thought?: string;
+  groundingMetadata?: LLMGroundingMetadata;
+}
+
+export interface LLMCapabilities {
+  grounding: boolean;
+  thinking: boolean;
+  /** MIME prefixes the provider accepts as inline binary (e.g. "image/") */
+  inlineMimeTypes: string[];
+}
+
+export interface LLMProvider {
+  readonly id: LLMProviderType;
+  readonly model: string;
+  readonly capabilities: LLMCapabilities;
+  streamText(request: LLMRequest): AsyncIterable<LLMStreamChunk>;
+  generateJson(request: LLMJsonRequest): Promise<string>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CANCELLATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Raised when a caller's AbortSignal fires - never retried, never an error UI */
+export class GenerationCancelledError extends Error {
+  constructor(message = "Generation cancelled") {
+    super(message);
+    this.name = "AbortError";
+  }
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new GenerationCancelledError();
+}
+
+/** setTimeout for retry backoff that rejects as soon as the signal aborts */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new GenerationCancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GenerationCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * True for our own cancellation error and for whatever fetch / the Gemini SDK
+ * throw when their signal is aborted (DOMException "AbortError" and friends)
+ */
+export function isAbortError(error: any, signal?: AbortSignal): boolean {
+  return (
+    !!signal?.aborted ||
+    error instanceof GenerationCancelledError ||
+    error?.name === "AbortError"
+  );
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderType;
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GEMINI
+// ═══════════════════════════════════════════════════════════════════════════
+
+export class GeminiProvider implements LLMProvider {
+  readonly id: LLMProviderType = "gemini";
+  readonly capabilities: LLMCapabilities = {
+    grounding: true,
+    thinking: true,
+    inlineMimeTypes: ["image/", "audio/", "video/", "application/pdf", "text/"],
+  };
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, readonly model: string = DEFAULT_GEMINI_MODEL) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  private buildConfig(request: LLMRequest): Record<string, any> {
+    const config: Record<string, any> = {};
+    if (request.systemInstruction)
+      config.systemInstruction = request.systemInstruction;
+    if (request.temperature !== undefined)
+      config.temperature = request.temperature;
+    if (request.topP !== undefined) config.topP = request.topP;
+    if (request.maxOutputTokens !== undefined)
+      config.maxOutputTokens = request.maxOutputTokens;
+    if (request.thinkingBudget !== undefined) {
+      config.thinkingConfig = {
+        thinkingBudget: request.thinkingBudget,
+        ...(request.includeThoughts ? { includeThoughts: true } : {}),
+      };
+    }
+    if (request.grounding) config.tools = [{ googleSearch: {} }];
+    if (request.signal) config.abortSignal = request.signal;
+    return config;
+  }
+
+  async *streamText(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    const stream = await this.ai.models.generateContentStream({
+      model: this.model,
+      contents: request.contents,
+      config: this.buildConfig(request),
+    });
+
+    // usageMetadata is cumulative, so the latest one holds the counts so far.
+    // Recorded in finally: aborted or failed streams were billed too.
+    let usageMetadata: any;
+    try {
+      for await (const chunk of stream) {
+        if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+        throwIfAborted(request.signal);
+        const candidate = chunk.candidates?.[0];
+        const parts = candidate?.content?.parts;
+
+        if (parts?.length) {
+          for (const part of parts) {
+            const partAny = part as any;
+            if (partAny.thought === true || partAny.isThought === true) {
+              if (part.text) yield { thought: part.text };
+            } else if (part.text) {
+              yield { text: part.text };
+            }
+          }
+        } else if (chunk.text) {
+          // Some chunks only expose the flattened text accessor
+          yield { text: chunk.text };
+        }
+
+        if (candidate?.groundingMetadata) {
+          yield {
+            groundingMetadata:
+              candidate.groundingMetadata as unknown as LLMGroundingMetadata,
+          };
+        }
+      }
+    } finally {
+      if (usageMetadata) request.onUsage?.(geminiUsage(usageMetadata));
+    }
+  }
+
+  async generateJson(request: LLMJsonRequest): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: request.contents,
+      config: {
+        ...this.buildConfig(request),
+        responseMimeType: "application/json",
+        responseSchema: request.responseSchema,
+      },
+    });
+    if (response.usageMetadata) {
+      request.onUsage?.(geminiUsage(response.usageMetadata));
+    }
+    return response.text || "";
+  }
+}
+
+function geminiUsage(metadata: any): LLMUsage {
+  return {
+    inputTokens: metadata.promptTokenCount || 0,
+    outputTokens: metadata.candidatesTokenCount || 0,
+    thinkingTokens: metadata.thoughtsTokenCount || 0,
+    cachedTokens: metadata.cachedContentTokenCount || 0,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OPENAI-COMPATIBLE (Ollama, LM Studio, vLLM, ...)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: LLMProviderType = "openai-compatible";
+  // Local servers have no search tool; sources fall back to inline citations
+  readonly capabilities: LLMCapabilities = {
+    grounding: false,
+    thinking: true,
+    inlineMimeTypes: ["image/", "text/"],
+  };
+  private baseUrl: string;
+
+  constructor(
+    baseUrl: string,
+    readonly model: string,
+    private apiKey?: string
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+    return headers;
+  }
+
+  /** Translate Gemini-style contents into chat-completions messages */
+  private toMessages(request: LLMRequest): any[] {
+    const messages: any[] = [];
+    // Prompts are written for Gemini's search tool; stop local models inventing searches
+    const groundingNote = request.grounding
+      ? "\n\nNOTE: Web search is NOT available in this session. Cite only the provided material and well-established references you are confident in."
+      : "";
+    if (request.systemInstruction || groundingNote) {
+      messages.push({
+        role: "system",
+        content: (request.systemInstruction || "") + groundingNote,
+      });
+    }
+
+    for (const message of request.contents) {
+      const content: any[] = [];
+      for (const part of message.parts) {
+        if (part.text) {
+          content.push({ type: "text", text: part.text });
+        } else if (part.inlineData) {
+          const { mimeType, data } = part.inlineData;
+          if (mimeType.startsWith("image/")) {
+            content.push({
+              type: "image_url",
+              image_url: { url: `data:${mimeType};base64,${data}` },
+            });
+          } else if (mimeType.startsWith("text/")) {
+            content.push({ type: "text", text: decodeBase64Text(data) });
+          } else {
+            // PDFs/audio can't be forwarded as-is; tell the model rather than silently dropping
+            console.warn(
+              `⚠️ [LLM] ${mimeType} attachment not supported by OpenAI-compatible provider`
+            );
+            content.push({
+              type: "text",
+              text: `[An attached ${mimeType} file could not be forwarded to this model.]`,
+            });
+          }
+        }
+      }
+
+      messages.push({
+        role: message.role === "model" ? "assistant" : "user",
+        // Plain string keeps text-only servers (older Ollama builds) happy
+        content:
+          content.every((c) => c.type === "text")
+            ? content.map((c) => c.text).join("\n\n")
+            : content,
+      });
+    }
+
+    return messages;
+  }
+
+  private buildBody(request: LLMRequest): Record<string, any> {
+    const body: Record<string, any> = {
+      model: this.model,
+      messages: this.toMessages(request),
+    };
+    if (request.temperature !== undefined)
+      body.temperature = request.temperature;
+    if (request.topP !== undefined) body.top_p = request.topP;
+    if (request.maxOutputTokens !== undefined)
+      body.max_tokens = request.maxOutputTokens;
+    return body;
+  }
+
+  private async post(
+    body: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      const error = new Error(
+        `${response.status} ${response.statusText}: ${detail.slice(0, 300)}`
+      );
+      (error as any).status = response.status;
+      throw error;
+    }
+    return response;
+  }
+
+  async *streamText(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    const response = await this.post(
+      {
+        ...this.buildBody(request),
+        stream: true,
+        // Final SSE chunk carries token usage (ignored by servers without it)
+        stream_options: { include_usage: true },
+      },
+      request.signal
+    );
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    // Reasoning models served raw (e.g. DeepSeek-R1 on older Ollama) inline <think> tags
+    let inThinkTag = false;
+
+    const splitThinkTags = function* (text: string): Generator<LLMStreamChunk> {
+      let rest = text;
+      while (rest) {
+        const tag = inThinkTag ? "</think>" : "<think>";
+        const idx = rest.indexOf(tag);
+        const segment = idx === -1 ? rest : rest.slice(0, idx);
+        if (segment) yield inThinkTag ? { thought: segment } : { text: segment };
+        if (idx === -1) break;
+        inThinkTag = !inThinkTag;
+        rest = rest.slice(idx + tag.length);
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const rawLine of lines) {
+        const line = rawLine.trim();
+        if (!line.startsWith("data:")) continue;
+        const payload = line.slice(5).trim();
+        if (payload === "[DONE]") return;
+
+        let parsed: any;
+        try {
+          parsed = JSON.parse(payload);
+        } catch {
+          continue;
+        }
+
+        if (parsed.usage) request.onUsage?.(openAIUsage(parsed.usage));
+
+        const delta = parsed.choices?.[0]?.delta || {};
+        const reasoning = delta.reasoning_content ?? delta.reasoning;
+        if (reasoning && request.includeThoughts) yield { thought: reasoning };
+        if (delta.content) {
+          for (const chunk of splitThinkTags(delta.content)) {
+            if (chunk.thought && !request.includeThoughts) continue;
+            yield chunk;
+          }
+        }
+      }
+    }
+  }
+
+  async generateJson(request: LLMJsonRequest): Promise<string> {
+    const response = await this.post(
+      {
+        ...this.buildBody(request),
+        response_format: {
+          type: "json_schema",
+          json_schema: {
+            name: "response",
+            schema: request.responseSchema,
+            strict: false,
+          },
+        },
+      },
+      request.signal
+    );
+    const data = await response.json();
+    if (data.usage) request.onUsage?.(openAIUsage(data.usage));
+    const content: string = data.choices?.[0]?.message?.content || "";
+    // Strip reasoning preamble so callers can JSON.parse directly
+    return content.replace(/<think>[\s\S]*?<\/think>/g, "").trim();
+  }
+}
+
+// reasoning_tokens are part of completion_tokens in the OpenAI schema
+function openAIUsage(usage: any): LLMUsage {
+  const thinkingTokens =
+    usage.completion_tokens_details?.reasoning_tokens || 0;
+  return {
+    inputTokens: usage.prompt_tokens || 0,
+    outputTokens: Math.max(0, (usage.completion_tokens || 0) - thinkingTokens),
+    thinkingTokens,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens || 0,
+  };
+}
+
+function decodeBase64Text(data: string): string {
+  try {
+    const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+  } catch {
+    return "";
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RESOLUTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Read the active provider settings from the stored profile.
+ * Profiles saved before provider selection existed default to Gemini.
+ */
+export async function getProviderConfig(): Promise<LLMProviderConfig> {
+  const profile = await ProfileRepository.get();
+  const provider = profile?.llm_provider || "gemini";
+
+  if (provider === "demo") {
+    return { provider, model: DEMO_MODEL };
+  }
+
+  if (provider === "openai-compatible") {
+    return {
+      provider,
+      baseUrl: profile?.llm_base_url || DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+      model: profile?.llm_model || DEFAULT_OPENAI_COMPATIBLE_MODEL,
+      apiKey: profile?.llm_api_key,
+    };
+  }
+
+  return {
+    provider: "gemini",
+    apiKey: profile?.api_key,
+    model: DEFAULT_GEMINI_MODEL,
+  };
+}
+
+/**
+ * Build a provider from already-validated settings.
+ * Credential checks live in the services so each can raise its own error type.
+ */
+export function createProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case "demo":
+      return new DemoProvider();
+    case "openai-compatible":
+      return new OpenAICompatibleProvider(
+        config.baseUrl || DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+        config.model || DEFAULT_OPENAI_COMPATIBLE_MODEL,
+        config.apiKey
+      );
+    case "gemini":
+    default:
+      return new GeminiProvider(
+        config.apiKey || "",
+        config.model || DEFAULT_GEMINI_MODEL
+      );
+  }
+}
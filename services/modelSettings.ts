@@ -0,0 +1,203 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * MODEL SETTINGS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Per-task model choice and generation parameters, set in Settings → Models.
+ * Services resolve a task against the learner's profile; fields the profile
+ * leaves unset - or sets to something invalid - fall back to the defaults
+ * below, which are the values the pipeline was tuned with. A model override
+ * only applies on the backend it was entered for, so switching to a local
+ * endpoint doesn't send it a Gemini model name.
+ */
+
+import type {
+  GuideLength,
+  LLMProviderType,
+  ModelTask,
+  TaskModelSettings,
+  UserProfile,
+} from "../types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DEFAULTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_TASK_SETTINGS: Record<ModelTask, TaskModelSettings> = {
+  metadata: { temperature: 0.3, thinkingBudget: 12288 },
+  guide: { temperature: 0.3, thinkingBudget: 20480 },
+  tutor: { temperature: 0.75, thinkingBudget: 4096, maxOutputTokens: 4096 },
+  "quiz-question": {
+    temperature: 0.6,
+    thinkingBudget: 4096,
+    maxOutputTokens: 4096,
+  },
+  "quiz-feedback": { temperature: 0.7, maxOutputTokens: 2048 },
+  clinical: { temperature: 0.75, thinkingBudget: 4096, maxOutputTokens: 4096 },
+};
+
+export const MODEL_TASK_LABELS: Record<
+  ModelTask,
+  { label: string; description: string }
+> = {
+  metadata: {
+    label: "Knowledge graph",
+    description: "Phase 1: title, pearls and topic map; node expansion",
+  },
+  guide: {
+    label: "Guide writing",
+    description: "Phase 2, add sources and section rewrites",
+  },
+  tutor: { label: "Tutor chat", description: "Tutor, explain and compare" },
+  "quiz-question": { label: "Quiz questions", description: "Quiz mode" },
+  "quiz-feedback": {
+    label: "Quiz feedback",
+    description: "Grading submitted answers",
+  },
+  clinical: {
+    label: "Clinical simulation",
+    description: "Patient cases and their evaluation",
+  },
+};
+
+export const TASK_SETTING_LIMITS = {
+  temperature: { min: 0, max: 2 },
+  thinkingBudget: { min: 0, max: 32768 },
+  maxOutputTokens: { min: 256, max: 65536 },
+};
+
+export const GUIDE_LENGTH_PRESETS: Record<
+  GuideLength,
+  {
+    label: string;
+    description: string;
+    wordScale: number; // Multiplies the teaching-style word range
+    maxContinuations: number; // Follow-up requests for a truncated guide
+  }
+> = {
+  "rapid-review": {
+    label: "Rapid review",
+    description: "High-yield essentials, about half the usual length",
+    wordScale: 0.5,
+    maxContinuations: 1,
+  },
+  standard: {
+    label: "Standard",
+    description: "Length set by your teaching style",
+    wordScale: 1,
+    maxContinuations: 2,
+  },
+  "deep-dive": {
+    label: "Deep dive",
+    description: "Exhaustive coverage, about 50% longer",
+    wordScale: 1.5,
+    maxContinuations: 3,
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface TaskSettingsIssue {
+  task: ModelTask;
+  field: keyof TaskModelSettings;
+  message: string;
+}
+
+const MODEL_NAME = /^[\w.:/-]+$/;
+
+const PROVIDERS: LLMProviderType[] = ["gemini", "openai-compatible", "demo"];
+
+function fieldIssue(
+  field: keyof TaskModelSettings,
+  value: unknown
+): string | undefined {
+  if (value === undefined) return undefined;
+  if (field === "modelProvider") {
+    return PROVIDERS.includes(value as LLMProviderType)
+      ? undefined
+      : "Unknown backend";
+  }
+  if (field === "model") {
+    return typeof value === "string" && MODEL_NAME.test(value)
+      ? undefined
+      : "Model names can't contain spaces";
+  }
+
+  const { min, max } = TASK_SETTING_LIMITS[field];
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return "Must be a number";
+  }
+  if (field !== "temperature" && !Number.isInteger(value)) {
+    return "Must be a whole number of tokens";
+  }
+  return value < min || value > max
+    ? `Must be between ${min} and ${max}`
+    : undefined;
+}
+
+export function validateTaskSettings(
+  settings?: UserProfile["taskSettings"]
+): TaskSettingsIssue[] {
+  const issues: TaskSettingsIssue[] = [];
+  for (const [task, overrides] of Object.entries(settings || {})) {
+    for (const [field, value] of Object.entries(overrides || {})) {
+      const message = fieldIssue(field as keyof TaskModelSettings, value);
+      if (message) {
+        issues.push({
+          task: task as ModelTask,
+          field: field as keyof TaskModelSettings,
+          message,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RESOLUTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Whether a task's model override was entered for the profile's current
+ * backend. Overrides saved before backends were recorded were Gemini names.
+ */
+export const isModelOverrideActive = (
+  overrides: TaskModelSettings | undefined,
+  profile?: UserProfile
+) =>
+  !!overrides?.model &&
+  (overrides.modelProvider || "gemini") === (profile?.llmProvider || "gemini");
+
+/** Defaults overlaid with the profile's valid overrides for one task */
+export function resolveTaskSettings(
+  task: ModelTask,
+  profile?: UserProfile
+): TaskModelSettings & { temperature: number } {
+  const resolved = { ...DEFAULT_TASK_SETTINGS[task] };
+  const overrides = profile?.taskSettings?.[task] || {};
+
+  (Object.keys(overrides) as (keyof TaskModelSettings)[]).forEach((field) => {
+    const value = overrides[field];
+    if (value === undefined || field === "modelProvider") return;
+    if (field === "model" && !isModelOverrideActive(overrides, profile)) {
+      return;
+    }
+    if (fieldIssue(field, value)) {
+      console.warn(`⚠️ [Models] Ignoring invalid ${task}.${field}:`, value);
+      return;
+    }
+    (resolved as Record<string, unknown>)[field] = value;
+  });
+
+  return resolved as TaskModelSettings & { temperature: number };
+}
+
+export function getGuideLengthPreset(profile?: UserProfile) {
+  return (
+    GUIDE_LENGTH_PRESETS[profile?.guideLength || "standard"] ||
+    GUIDE_LENGTH_PRESETS.standard
+  );
+}
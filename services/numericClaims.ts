@@ -0,0 +1,621 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * NUMERIC CLAIM CHECKS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Doses, infusion rates and lab cutoffs are written by the model in three
+ * places - the guide, the topic map (node medications, lab values, pearls and
+ * details) and the clinical pearls - with nothing keeping them in step. This
+ * pulls the numbers out locally (value, unit, route, frequency, comparator),
+ * ties each to the drug or analyte it's about and flags:
+ *
+ *  - inconsistencies: the same drug or analyte given values in two places
+ *    that don't overlap anywhere, compared only when route and frequency
+ *    don't rule it out
+ *  - unit anomalies: 1000-fold gaps (mg vs mcg) and the error-prone forms on
+ *    the ISMP list - trailing zeros, naked decimals, "U" and "µg"
+ *
+ * Subjects come from the topic map (medication and diagnostic node labels,
+ * synonyms, and the names in medication and lab value lists), so a number is
+ * only compared when the map knows what it's about. Findings are computed on
+ * the fly and never stored. JSON table blocks in the guide are skipped.
+ */
+
+import type { AugmentedNote, KnowledgeNode } from "../types";
+import { guideSentences, hashText, plainText } from "./claimVerification";
+import { findLabReference } from "./labValues";
+
+export type NumericKind = "dose" | "rate" | "lab";
+
+export type NumericOrigin =
+  | { source: "guide"; sentence: string; section: string }
+  | {
+      source: "graph";
+      nodeId: string;
+      nodeLabel: string;
+      field:
+        | "medications"
+        | "labValues"
+        | "clinicalPearl"
+        | "description"
+        | "details";
+    }
+  | { source: "pearl"; index: number };
+
+export interface NumericClaim {
+  text: string; // The amount as written, e.g. "0.5 mg/kg"
+  subject?: string; // Drug or analyte, as the topic map names it
+  kind: NumericKind;
+  low: number; // In base units (mg, mmol, units, mL; per L; per h)
+  high: number;
+  unit: string; // As written
+  dimension: string; // e.g. "mass/kg/h" - only equal dimensions compare
+  comparator?: "<" | ">";
+  route?: string;
+  frequency?: string;
+  origin: NumericOrigin;
+}
+
+export type NumericFindingKind = "inconsistency" | "unit-anomaly";
+
+export interface NumericFinding {
+  id: string;
+  kind: NumericFindingKind;
+  subject?: string;
+  message: string;
+  claims: NumericClaim[];
+}
+
+export const NUMERIC_FINDING_LABELS: Record<NumericFindingKind, string> = {
+  inconsistency: "Values differ",
+  "unit-anomaly": "Unit check",
+};
+
+type NumericSource = Pick<
+  AugmentedNote,
+  "markdownContent" | "graphData" | "pearls"
+>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// UNITS
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Number (or range) and unit, with optional comparator and "/kg/min" tail
+const AMOUNT =
+  /(?<![\w./])([<>≤≥]=?\s?)?(\d+(?:\.\d+)?|\.\d+)(?:\s?(?:-|–|to)\s?(\d+(?:\.\d+)?|\.\d+))?\s?(mg|mcg|µg|μg|ug|ng|g|mmol|µmol|μmol|umol|mol|meq|iu|units?|u|ml|l|mmhg)((?:\/(?:kg|m2|m²|dl|l|ml|µl|μl|min|hr|h|day|d|24h))*)(?![\p{L}\p{N}])/giu;
+
+const UNIT_BASE: Record<string, { dim: string; factor: number }> = {
+  g: { dim: "mass", factor: 1000 },
+  mg: { dim: "mass", factor: 1 },
+  mcg: { dim: "mass", factor: 0.001 },
+  µg: { dim: "mass", factor: 0.001 },
+  μg: { dim: "mass", factor: 0.001 },
+  ug: { dim: "mass", factor: 0.001 },
+  ng: { dim: "mass", factor: 0.000001 },
+  mol: { dim: "mol", factor: 1000 },
+  mmol: { dim: "mol", factor: 1 },
+  µmol: { dim: "mol", factor: 0.001 },
+  μmol: { dim: "mol", factor: 0.001 },
+  umol: { dim: "mol", factor: 0.001 },
+  meq: { dim: "meq", factor: 1 },
+  iu: { dim: "units", factor: 1 },
+  unit: { dim: "units", factor: 1 },
+  units: { dim: "units", factor: 1 },
+  u: { dim: "units", factor: 1 },
+  ml: { dim: "volume", factor: 1 },
+  l: { dim: "volume", factor: 1000 },
+  mmhg: { dim: "pressure", factor: 1 },
+};
+
+// "/dL" → per litre, "/min" → per hour
+const PER_UNIT: Record<string, { dim: string; factor: number }> = {
+  kg: { dim: "/kg", factor: 1 },
+  m2: { dim: "/m2", factor: 1 },
+  "m²": { dim: "/m2", factor: 1 },
+  dl: { dim: "/L", factor: 10 },
+  l: { dim: "/L", factor: 1 },
+  ml: { dim: "/L", factor: 1000 },
+  µl: { dim: "/L", factor: 1000000 },
+  μl: { dim: "/L", factor: 1000000 },
+  min: { dim: "/h", factor: 60 },
+  h: { dim: "/h", factor: 1 },
+  hr: { dim: "/h", factor: 1 },
+  day: { dim: "/day", factor: 1 },
+  d: { dim: "/day", factor: 1 },
+  "24h": { dim: "/day", factor: 1 },
+};
+
+const ROUTES: [RegExp, string][] = [
+  [/\b(?:iv|intravenous(?:ly)?)\b/i, "IV"],
+  [/\b(?:po|oral(?:ly)?|by mouth)\b/i, "PO"],
+  [/\b(?:im|intramuscular(?:ly)?)\b/i, "IM"],
+  [/\b(?:sc|sq|subcut(?:aneous(?:ly)?)?)\b/i, "SC"],
+  [/\b(?:sl|sublingual(?:ly)?)\b/i, "SL"],
+  [/\b(?:inhaled|nebuli[sz]ed|neb)\b/i, "inhaled"],
+];
+
+const FREQUENCIES: [RegExp, string][] = [
+  [/\b(?:bid|bd|twice (?:daily|a day)|q12h)\b/i, "twice daily"],
+  [/\b(?:tid|tds|three times (?:daily|a day)|q8h)\b/i, "three times daily"],
+  [/\b(?:qid|qds|four times (?:daily|a day)|q6h)\b/i, "four times daily"],
+  [/\b(?:od|qd|once (?:daily|a day)|daily|nocte|qhs)\b/i, "daily"],
+  [/\bweekly\b/i, "weekly"],
+  [/\b(?:stat|single dose|loading|bolus)\b/i, "single dose"],
+  [/\b(?:prn|as needed)\b/i, "as needed"],
+];
+
+const ABOVE = /(?:above|greater than|more than|exceeding|over)\s*$/i;
+const BELOW = /(?:below|less than|under)\s*$/i;
+
+const firstMatch = (text: string, rules: [RegExp, string][]) =>
+  rules.find(([pattern]) => pattern.test(text))?.[1];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SUBJECTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const MEDICATION_GROUP = 3;
+const DIAGNOSTIC_GROUP = 6;
+
+// "Potassium: 3.5-5.0 mmol/L" → "Potassium", "K+ >5.5 mEq/L" → "K+"
+const entryName = (entry: string) => {
+  const name = entry.split(/[:(\d<>≤≥]/)[0].trim();
+  return name && name.split(/\s+/).length <= 4 ? name : undefined;
+};
+
+// Drug names this short are usually a route or unit read as a name
+const medicationName = (entry: string) => {
+  const name = entryName(entry);
+  return name && name.length >= 3 ? name : undefined;
+};
+
+// Analytes report under their lab reference name, so "K", "K+" and "Serum
+// potassium" are one subject; unknown analytes keep the map's name
+const analyteName = (name: string | undefined) =>
+  name &&
+  (findLabReference(name)?.name || (name.length >= 3 ? name : undefined));
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const boundedPattern = (body: string, flags: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, flags);
+
+// Short names ("K", "Na", "Mg") only match capitalised - in lower case they
+// are units ("mg") or parts of ordinary words
+function termPattern(term: string): RegExp {
+  if (term.replace(/[^\p{L}]/gu, "").length >= 3) {
+    return boundedPattern(escapeRegExp(term), "giu");
+  }
+  const [first, ...rest] = [...term];
+  const body = rest
+    .map((c) =>
+      /\p{L}/u.test(c) ? `[${c}${c.toUpperCase()}]` : escapeRegExp(c)
+    )
+    .join("");
+  return boundedPattern(escapeRegExp(first.toUpperCase()) + body, "gu");
+}
+
+type Vocabulary = { pattern: RegExp; subject: string }[];
+
+// Terms that name a drug or analyte, each mapped to the name it's reported
+// under (synonyms report as their node, lab aliases as their analyte)
+function buildVocabulary(nodes: KnowledgeNode[]): Vocabulary {
+  const names = new Map<string, string>();
+  const add = (term: string | undefined, subject = term) => {
+    const key = term?.trim().toLowerCase();
+    if (key && subject && !names.has(key)) {
+      names.set(key, subject.trim());
+    }
+  };
+  const addAnalyte = (term: string | undefined, subject?: string) => {
+    const reference = term ? findLabReference(term) : undefined;
+    if (!reference) {
+      if (subject) add(term, subject);
+      return;
+    }
+    add(term, reference.name);
+    reference.aliases.forEach((alias) => add(alias, reference.name));
+  };
+
+  for (const node of nodes) {
+    if (node.group === MEDICATION_GROUP) {
+      add(node.label);
+      node.synonyms?.forEach((s) => add(s, node.label));
+    } else if (node.group === DIAGNOSTIC_GROUP) {
+      addAnalyte(node.label, node.label);
+      node.synonyms?.forEach((s) => addAnalyte(s, node.label));
+    }
+    node.medications?.forEach((e) => add(medicationName(e)));
+    node.labValues?.forEach((e) => {
+      const name = entryName(e);
+      if (name) addAnalyte(name, analyteName(name));
+    });
+  }
+
+  return [...names.entries()].map(([term, subject]) => ({
+    pattern: termPattern(term),
+    subject,
+  }));
+}
+
+const SUBJECT_REACH = 80; // chars a name may sit before its number
+
+// The term mentioned closest before the amount
+function subjectAt(
+  vocabulary: Vocabulary,
+  text: string,
+  at: number
+): string | undefined {
+  const before = text.slice(Math.max(0, at - SUBJECT_REACH), at);
+  let best: { end: number; subject: string } | undefined;
+  for (const { pattern, subject } of vocabulary) {
+    for (const match of before.matchAll(pattern)) {
+      const end = (match.index ?? 0) + match[0].length;
+      if (!best || end > best.end) best = { end, subject };
+    }
+  }
+  return best?.subject;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXTRACTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+function claimsIn(
+  text: string,
+  origin: NumericOrigin,
+  vocabulary: Vocabulary,
+  fallbackSubject?: string
+): NumericClaim[] {
+  const matches = [...text.matchAll(AMOUNT)];
+  const claims: NumericClaim[] = [];
+
+  matches.forEach((match, i) => {
+    const [written, symbol, first, second, rawUnit, rawPer] = match;
+    const start = match.index ?? 0;
+    const base = UNIT_BASE[rawUnit.toLowerCase()];
+
+    let dimension = base.dim;
+    let factor = base.factor;
+    for (const per of rawPer.toLowerCase().split("/").filter(Boolean)) {
+      dimension += PER_UNIT[per].dim;
+      factor *= PER_UNIT[per].factor;
+    }
+    const kind: NumericKind =
+      dimension.includes("/L") || dimension === "pressure"
+        ? "lab"
+        : dimension.includes("/h")
+        ? "rate"
+        : "dose";
+
+    const subject = subjectAt(vocabulary, text, start) || fallbackSubject;
+    // Lab values only mean something against a named analyte
+    if (kind === "lab" && !subject) return;
+
+    // Route and frequency: up to the next amount, else just before this one
+    const after = text.slice(
+      start + written.length,
+      Math.min(matches[i + 1]?.index ?? text.length, start + written.length + 40)
+    );
+    const before = text.slice(Math.max(0, start - 30), start);
+    const nearby = (rules: [RegExp, string][]) =>
+      firstMatch(after, rules) || firstMatch(before, rules);
+
+    const lead = text.slice(Math.max(0, start - 25), start);
+    const comparator =
+      kind !== "lab"
+        ? undefined
+        : symbol?.trim().startsWith(">") || symbol?.trim().startsWith("≥")
+        ? ">"
+        : symbol?.trim().startsWith("<") || symbol?.trim().startsWith("≤")
+        ? "<"
+        : ABOVE.test(lead)
+        ? ">"
+        : BELOW.test(lead)
+        ? "<"
+        : undefined;
+
+    const low = Number(first) * factor;
+    claims.push({
+      text: written.trim(),
+      subject,
+      kind,
+      low,
+      high: second !== undefined ? Number(second) * factor : low,
+      unit: rawUnit + rawPer,
+      dimension,
+      comparator,
+      route: kind === "lab" ? undefined : nearby(ROUTES),
+      frequency: kind === "dose" ? nearby(FREQUENCIES) : undefined,
+      origin,
+    });
+  });
+  return claims;
+}
+
+type GraphField = Extract<NumericOrigin, { source: "graph" }>["field"];
+
+const sentencesOf = (text: string) =>
+  plainText(text.replace(/\n+/g, " ")).split(/(?<=[.!?])\s+(?=[A-Z])/);
+
+/** Every numeric claim in the guide, the topic map and the pearls */
+export function extractNumericClaims(note: NumericSource): NumericClaim[] {
+  const vocabulary = buildVocabulary(note.graphData.nodes);
+  const claims: NumericClaim[] = [];
+
+  for (const { text, section } of guideSentences(note.markdownContent)) {
+    claims.push(
+      ...claimsIn(text, { source: "guide", sentence: text, section }, vocabulary)
+    );
+  }
+
+  for (const node of note.graphData.nodes) {
+    const origin = (field: GraphField): NumericOrigin => ({
+      source: "graph",
+      nodeId: node.id,
+      nodeLabel: node.label,
+      field,
+    });
+    // Prose on a medication node is about that medication
+    const nodeSubject =
+      node.group === MEDICATION_GROUP ? node.label : undefined;
+
+    node.medications?.forEach((entry) =>
+      claims.push(
+        ...claimsIn(
+          entry,
+          origin("medications"),
+          vocabulary,
+          medicationName(entry)
+        )
+      )
+    );
+    node.labValues?.forEach((entry) =>
+      claims.push(
+        ...claimsIn(
+          entry,
+          origin("labValues"),
+          vocabulary,
+          analyteName(entryName(entry))
+        )
+      )
+    );
+    (["clinicalPearl", "description", "details"] as const).forEach((field) =>
+      sentencesOf(node[field] || "").forEach((sentence) =>
+        claims.push(
+          ...claimsIn(sentence, origin(field), vocabulary, nodeSubject)
+        )
+      )
+    );
+  }
+
+  (note.pearls || []).forEach((pearl, index) =>
+    sentencesOf(pearl.content).forEach((sentence) =>
+      claims.push(
+        ...claimsIn(sentence, { source: "pearl", index }, vocabulary)
+      )
+    )
+  );
+  return claims;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHECKS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const overlaps = (a: NumericClaim, b: NumericClaim) =>
+  a.low <= b.high * 1.001 && b.low <= a.high * 1.001;
+
+// Different routes, frequencies or comparators are different statements
+const comparable = (a: NumericClaim, b: NumericClaim) =>
+  (!a.route || !b.route || a.route === b.route) &&
+  (!a.frequency || !b.frequency || a.frequency === b.frequency) &&
+  a.comparator === b.comparator;
+
+const isThousandfold = (a: NumericClaim, b: NumericClaim) => {
+  const ratio = Math.max(a.low, b.low) / Math.min(a.low, b.low);
+  return ratio >= 500 && ratio <= 2000;
+};
+
+export const originLabel = (origin: NumericOrigin) =>
+  origin.source === "guide"
+    ? "guide"
+    : origin.source === "graph"
+    ? `topic map (${origin.nodeLabel})`
+    : "pearls";
+
+const KIND_NOUNS: Record<NumericKind, string> = {
+  dose: "dose",
+  rate: "infusion rate",
+  lab: "value",
+};
+
+const findingId = (kind: NumericFindingKind, key: string) =>
+  `numeric-${hashText(`${kind}:${key}`)}`;
+
+function describeBySource(claims: NumericClaim[]): string {
+  const bySource = new Map<string, Set<string>>();
+  for (const claim of claims) {
+    const label = originLabel(claim.origin);
+    bySource.set(label, (bySource.get(label) || new Set()).add(claim.text));
+  }
+  return [...bySource.entries()]
+    .map(([label, texts]) => `${label}: ${[...texts].join(", ")}`)
+    .join("; ");
+}
+
+// Same subject and dimension, told apart by where they were written
+function crossSourceFindings(claims: NumericClaim[]): NumericFinding[] {
+  const groups = new Map<string, NumericClaim[]>();
+  for (const claim of claims) {
+    if (!claim.subject) continue;
+    const key = [claim.subject.toLowerCase(), claim.kind, claim.dimension].join(
+      "|"
+    );
+    groups.set(key, [...(groups.get(key) || []), claim]);
+  }
+
+  const findings: NumericFinding[] = [];
+  for (const [key, group] of groups) {
+    const subject = group[0].subject!;
+    const noun = KIND_NOUNS[group[0].kind];
+
+    // mg written for mcg (or the reverse) anywhere, in the same place too
+    if (group[0].kind !== "lab") {
+      const pair = group
+        .flatMap((a, i) => group.slice(i + 1).map((b) => [a, b]))
+        .find(([a, b]) => isThousandfold(a, b));
+      if (pair) {
+        findings.push({
+          id: findingId(
+            "unit-anomaly",
+            `${key}|${pair[0].text}|${pair[1].text}`
+          ),
+          kind: "unit-anomaly",
+          subject,
+          message: `${subject} ${noun} appears as ${pair[0].text} and ${pair[1].text}, a 1000-fold difference - check mg vs mcg`,
+          claims: pair,
+        });
+        continue;
+      }
+    }
+
+    // Flag only when two sources have comparable values and none agree
+    const bySource = new Map<string, NumericClaim[]>();
+    for (const claim of group) {
+      const source = claim.origin.source;
+      bySource.set(source, [...(bySource.get(source) || []), claim]);
+    }
+    const lists = [...bySource.values()];
+    const disagreeing: NumericClaim[] = [];
+    lists.forEach((a, i) =>
+      lists.slice(i + 1).forEach((b) => {
+        const pairs = a.flatMap((x) =>
+          b.filter((y) => comparable(x, y)).map((y) => [x, y])
+        );
+        if (pairs.length > 0 && !pairs.some(([x, y]) => overlaps(x, y))) {
+          disagreeing.push(...pairs.flat());
+        }
+      })
+    );
+    if (disagreeing.length === 0) continue;
+
+    const involved = [...new Set(disagreeing)];
+    findings.push({
+      id: findingId(
+        "inconsistency",
+        `${key}|${involved.map((c) => c.text).join("|")}`
+      ),
+      kind: "inconsistency",
+      subject,
+      message: `${subject} ${noun} differs: ${describeBySource(involved)}`,
+      claims: involved,
+    });
+  }
+  return findings;
+}
+
+// Error-prone notation (ISMP list), doses and rates only
+const NOTATION_RULES: {
+  id: string;
+  test: (claim: NumericClaim) => boolean;
+  message: (text: string) => string;
+}[] = [
+  {
+    id: "trailing-zero",
+    test: (c) => /(?<![\d.])\d+\.0+(?![\d])/.test(c.text),
+    message: (text) =>
+      `"${text}" has a trailing zero and can be misread as ten times the dose`,
+  },
+  {
+    id: "naked-decimal",
+    test: (c) => /(?<![\d])\.\d/.test(c.text),
+    message: (text) =>
+      `"${text}" has no leading zero and can be misread as ten times the dose`,
+  },
+  {
+    id: "u-abbreviation",
+    test: (c) => /^i?u$/i.test(c.unit.split("/")[0]),
+    message: (text) =>
+      `"${text}" - write "units"; U and IU are misread as 0, 4 or IV`,
+  },
+  {
+    id: "microgram-symbol",
+    test: (c) => /^(?:µg|μg|ug)$/i.test(c.unit.split("/")[0]),
+    message: (text) => `"${text}" - write "mcg"; µg is misread as mg`,
+  },
+];
+
+function notationFindings(claims: NumericClaim[]): NumericFinding[] {
+  const byRule = new Map<string, NumericFinding>();
+  for (const claim of claims) {
+    if (claim.kind === "lab") continue;
+    for (const rule of NOTATION_RULES) {
+      if (!rule.test(claim)) continue;
+      const key = `${rule.id}|${claim.text}`;
+      const existing = byRule.get(key);
+      if (existing) {
+        existing.claims.push(claim);
+      } else {
+        byRule.set(key, {
+          id: findingId("unit-anomaly", key),
+          kind: "unit-anomaly",
+          subject: claim.subject,
+          message: rule.message(claim.text),
+          claims: [claim],
+        });
+      }
+    }
+  }
+  return [...byRule.values()];
+}
+
+/** Inconsistencies and unit anomalies in a note's numbers */
+export function checkNumericClaims(note: NumericSource): NumericFinding[] {
+  const claims = extractNumericClaims(note);
+  return [...crossSourceFindings(claims), ...notationFindings(claims)];
+}
+
+/** Findings with a number written on the given node */
+export const findingsForNode = (findings: NumericFinding[], nodeId: string) =>
+  findings.filter((f) =>
+    f.claims.some(
+      (c) => c.origin.source === "graph" && c.origin.nodeId === nodeId
+    )
+  );
+
+/**
+ * The guide with a "[Values differ](numeric:<id>)" style badge after each
+ * sentence a finding points at, for display only
+ */
+export function annotateNumericFindings(
+  markdown: string,
+  findings: NumericFinding[]
+): string {
+  const bySentence = new Map<string, NumericFinding[]>();
+  for (const finding of findings) {
+    for (const claim of finding.claims) {
+      if (claim.origin.source !== "guide") continue;
+      const list = bySentence.get(claim.origin.sentence) || [];
+      if (!list.includes(finding)) list.push(finding);
+      bySentence.set(claim.origin.sentence, list);
+    }
+  }
+  if (bySentence.size === 0) return markdown;
+
+  let result = markdown;
+  guideSentences(markdown)
+    .filter((s) => bySentence.has(s.text))
+    .sort((a, b) => b.end - a.end)
+    .forEach((sentence) => {
+      const badges = bySentence
+        .get(sentence.text)!
+        .map((f) => ` [${NUMERIC_FINDING_LABELS[f.kind]}](numeric:${f.id})`)
+        .join("");
+      result = `${result.slice(0, sentence.end)}${badges}${result.slice(
+        sentence.end
+      )}`;
+    });
+  return result;
+}
@@ -0,0 +1,80 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * OUTPUT LANGUAGE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Languages guides, graphs and chat can be written in. The profile sets the
+ * default and a note may override it. Prompts are authored in English, so
+ * services append the "shared.output-language" template for anything else.
+ */
+
+import type { UserProfile } from "../types";
+import { renderPrompt, type RenderedPrompt } from "./promptTemplates";
+
+export interface OutputLanguage {
+  code: string; // BCP 47, also used for the lang attribute
+  label: string;
+  nativeLabel: string;
+  rtl?: boolean;
+}
+
+export const OUTPUT_LANGUAGES: OutputLanguage[] = [
+  { code: "en", label: "English", nativeLabel: "English" },
+  { code: "es", label: "Spanish", nativeLabel: "Español" },
+  { code: "fr", label: "French", nativeLabel: "Français" },
+  { code: "pt", label: "Portuguese", nativeLabel: "Português" },
+  { code: "de", label: "German", nativeLabel: "Deutsch" },
+  { code: "it", label: "Italian", nativeLabel: "Italiano" },
+  { code: "ar", label: "Arabic", nativeLabel: "العربية", rtl: true },
+  { code: "he", label: "Hebrew", nativeLabel: "עברית", rtl: true },
+  { code: "fa", label: "Persian", nativeLabel: "فارسی", rtl: true },
+  { code: "ur", label: "Urdu", nativeLabel: "اردو", rtl: true },
+  { code: "hi", label: "Hindi", nativeLabel: "हिन्दी" },
+  { code: "zh", label: "Chinese (Simplified)", nativeLabel: "简体中文" },
+];
+
+const ENGLISH = OUTPUT_LANGUAGES[0];
+
+export function getOutputLanguage(code?: string): OutputLanguage {
+  return OUTPUT_LANGUAGES.find((l) => l.code === code) || ENGLISH;
+}
+
+/** Note override first, then the profile, then English */
+export function resolveOutputLanguage(
+  profile?: UserProfile,
+  noteLanguage?: string
+): OutputLanguage {
+  return getOutputLanguage(noteLanguage || profile?.outputLanguage);
+}
+
+// Rule specific to each kind of call
+const TASK_RULES = {
+  graph:
+    "- KNOWLEDGE GRAPH: keep node ids in English kebab-case, and make the English term the FIRST entry of every node's synonyms (add it even when the node has no other synonyms) so links and cross-note matching keep working.",
+  guide:
+    "- SMART LINKS: bracket terms exactly as the node labels are written, in their translated form.",
+  chat: "- QUIZZES: keep ---QUIZ---, TOPIC:, DIFFICULTY:, QUESTION:, the A) to D) option labels and ---END--- exactly as specified; DIFFICULTY stays beginner, intermediate or advanced.",
+};
+
+/**
+ * The language block for a system prompt, or undefined for English.
+ * Bilingual profiles also get the English term after each key term.
+ */
+export function outputLanguagePrompt(
+  language: OutputLanguage,
+  scope: keyof typeof TASK_RULES,
+  profile?: UserProfile
+): RenderedPrompt | undefined {
+  if (language.code === ENGLISH.code) return undefined;
+  return renderPrompt(
+    "shared.output-language",
+    {
+      language: `${language.label} (${language.nativeLabel})`,
+      bilingualRule: profile?.bilingualTerms
+        ? `- BILINGUAL TERMS: after the first use of each key clinical term, give the English term in parentheses, e.g. "${language.label} term (English term)".`
+        : "",
+      taskRule: TASK_RULES[scope],
+    },
+    profile?.promptOverrides
+  );
+}
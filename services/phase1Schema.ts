@@ -0,0 +1,350 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PHASE 1 SCHEMA
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Runtime schema for the metadata + knowledge graph payload. validatePhase1
+ * checks a parsed response strictly and returns:
+ * - errors:  violations worth sending back to the model in a repair request
+ *            (missing group, dangling link ends, no nodes, ...)
+ * - value:   a normalised payload with invalid items dropped and harmless
+ *            problems fixed, so generation can continue if repair fails
+ * - fixed / dropped: human-readable notes for the validation report
+ */
+
+import type {
+  ClinicalPearl,
+  KnowledgeLink,
+  KnowledgeNode,
+  Phase1ValidationIssue,
+} from "../types";
+import {
+  RELATIONSHIP_TYPES,
+  classifyRelationship,
+  isRelationshipType,
+} from "./relationshipTypes";
+
+export interface Phase1Payload {
+  title: string;
+  summary: string;
+  eli5Analogy?: string;
+  pearls: ClinicalPearl[];
+  graphNodes: KnowledgeNode[];
+  graphLinks: KnowledgeLink[];
+}
+
+export interface Phase1ValidationResult {
+  value: Phase1Payload;
+  errors: Phase1ValidationIssue[];
+  fixed: Phase1ValidationIssue[];
+  dropped: Phase1ValidationIssue[];
+}
+
+const PEARL_TYPES = ["gap-filler", "fact-check", "exam-tip", "red-flag"];
+const MIN_GROUP = 1;
+const MAX_GROUP = 7;
+const MIN_VAL = 8;
+const MAX_VAL = 20;
+
+// Also sent as responseSchema with repair requests (OpenAPI subset)
+export const PHASE1_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    summary: { type: "string" },
+    eli5Analogy: { type: "string" },
+    pearls: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: PEARL_TYPES },
+          content: { type: "string" },
+          citation: { type: "string" },
+        },
+        required: ["type", "content"],
+      },
+    },
+    graphNodes: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          label: { type: "string" },
+          group: { type: "integer", minimum: MIN_GROUP, maximum: MAX_GROUP },
+          val: { type: "number", minimum: MIN_VAL, maximum: MAX_VAL },
+          description: { type: "string" },
+          details: { type: "string" },
+          synonyms: { type: "array", items: { type: "string" } },
+          clinicalPearl: { type: "string" },
+          differentials: { type: "array", items: { type: "string" } },
+          examFindings: { type: "array", items: { type: "string" } },
+          labValues: { type: "array", items: { type: "string" } },
+          medications: { type: "array", items: { type: "string" } },
+          imageKeywords: { type: "array", items: { type: "string" } },
+        },
+        required: ["id", "label", "group", "val"],
+      },
+    },
+    graphLinks: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          source: { type: "string" },
+          target: { type: "string" },
+          relationship: { type: "string" },
+          type: { type: "string", enum: RELATIONSHIP_TYPES },
+        },
+        required: ["source", "target", "relationship"],
+      },
+    },
+  },
+  required: ["title", "summary", "pearls", "graphNodes", "graphLinks"],
+};
+
+const isNonEmptyString = (v: unknown): v is string =>
+  typeof v === "string" && v.trim().length > 0;
+
+const toKebab = (s: string) =>
+  s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// Optional string arrays: keep only the string entries
+const stringArray = (v: unknown): string[] | undefined =>
+  Array.isArray(v) ? v.filter(isNonEmptyString) : undefined;
+
+export function validatePhase1(
+  raw: unknown,
+  topicName: string
+): Phase1ValidationResult {
+  const errors: Phase1ValidationIssue[] = [];
+  const fixed: Phase1ValidationIssue[] = [];
+  const dropped: Phase1ValidationIssue[] = [];
+  const data: any = raw && typeof raw === "object" ? raw : {};
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    errors.push({ path: "$", message: "Response is not a JSON object" });
+  }
+
+  // ── Metadata ──────────────────────────────────────────────────────────
+  let title = data.title;
+  if (!isNonEmptyString(title)) {
+    title = topicName;
+    fixed.push({ path: "title", message: `Missing - used "${topicName}"` });
+  }
+
+  let summary = data.summary;
+  if (!isNonEmptyString(summary)) {
+    summary = "";
+    errors.push({ path: "summary", message: "Missing or not a string" });
+  }
+
+  const eli5Analogy = isNonEmptyString(data.eli5Analogy)
+    ? data.eli5Analogy
+    : undefined;
+
+  const pearls: ClinicalPearl[] = [];
+  if (data.pearls !== undefined && !Array.isArray(data.pearls)) {
+    errors.push({ path: "pearls", message: "Must be an array" });
+  }
+  (Array.isArray(data.pearls) ? data.pearls : []).forEach(
+    (p: any, i: number) => {
+      const path = `pearls[${i}]`;
+      if (!p || !isNonEmptyString(p.content)) {
+        dropped.push({ path, message: "Pearl without content" });
+        return;
+      }
+      let type = p.type;
+      if (!PEARL_TYPES.includes(type)) {
+        fixed.push({
+          path: `${path}.type`,
+          message: `"${type}" is not a pearl type - used "fact-check"`,
+        });
+        type = "fact-check";
+      }
+      pearls.push({
+        type,
+        content: p.content,
+        citation: isNonEmptyString(p.citation) ? p.citation : undefined,
+      });
+    }
+  );
+
+  // ── Nodes ─────────────────────────────────────────────────────────────
+  const graphNodes: KnowledgeNode[] = [];
+  const nodeIds = new Set<string>();
+
+  if (!Array.isArray(data.graphNodes) || data.graphNodes.length === 0) {
+    errors.push({
+      path: "graphNodes",
+      message: "Must be a non-empty array of nodes",
+    });
+  }
+
+  (Array.isArray(data.graphNodes) ? data.graphNodes : []).forEach(
+    (n: any, i: number) => {
+      const path = `graphNodes[${i}]`;
+      if (!n || typeof n !== "object") {
+        dropped.push({ path, message: "Not an object" });
+        return;
+      }
+      if (!isNonEmptyString(n.label)) {
+        errors.push({ path: `${path}.label`, message: "Missing label" });
+        dropped.push({ path, message: "Node without a label" });
+        return;
+      }
+
+      let id: string = isNonEmptyString(n.id) ? n.id.trim() : "";
+      if (!id) {
+        id = toKebab(n.label);
+        fixed.push({
+          path: `${path}.id`,
+          message: `Missing id for "${n.label}" - used "${id}"`,
+        });
+      }
+      if (nodeIds.has(id)) {
+        errors.push({
+          path: `${path}.id`,
+          message: `Duplicate id "${id}" ("${n.label}")`,
+        });
+        dropped.push({ path, message: `Duplicate node "${n.label}"` });
+        return;
+      }
+
+      const group = Number(n.group);
+      if (!Number.isInteger(group) || group < MIN_GROUP || group > MAX_GROUP) {
+        errors.push({
+          path: `${path}.group`,
+          message: `"${n.label}" needs an integer group ${MIN_GROUP}-${MAX_GROUP} (got ${JSON.stringify(n.group)})`,
+        });
+        dropped.push({ path, message: `"${n.label}" has no valid group` });
+        return;
+      }
+
+      let val = Number(n.val);
+      if (!Number.isFinite(val)) {
+        val = 12;
+        fixed.push({
+          path: `${path}.val`,
+          message: `"${n.label}" had no size - used 12`,
+        });
+      } else if (val < MIN_VAL || val > MAX_VAL) {
+        const clamped = Math.min(MAX_VAL, Math.max(MIN_VAL, val));
+        fixed.push({
+          path: `${path}.val`,
+          message: `"${n.label}" size ${val} clamped to ${clamped}`,
+        });
+        val = clamped;
+      }
+
+      nodeIds.add(id);
+      graphNodes.push({
+        id,
+        label: n.label.trim(),
+        group,
+        val,
+        description: isNonEmptyString(n.description) ? n.description : undefined,
+        details: isNonEmptyString(n.details) ? n.details : undefined,
+        synonyms: stringArray(n.synonyms),
+        clinicalPearl: isNonEmptyString(n.clinicalPearl)
+          ? n.clinicalPearl
+          : undefined,
+        differentials: stringArray(n.differentials),
+        examFindings: stringArray(n.examFindings),
+        labValues: stringArray(n.labValues),
+        medications: stringArray(n.medications),
+        imageKeywords: stringArray(n.imageKeywords),
+      });
+    }
+  );
+
+  // ── Links ─────────────────────────────────────────────────────────────
+  const graphLinks: KnowledgeLink[] = [];
+  const linkKeys = new Set<string>();
+
+  if (data.graphLinks !== undefined && !Array.isArray(data.graphLinks)) {
+    errors.push({ path: "graphLinks", message: "Must be an array" });
+  }
+
+  (Array.isArray(data.graphLinks) ? data.graphLinks : []).forEach(
+    (l: any, i: number) => {
+      const path = `graphLinks[${i}]`;
+      if (!l || typeof l !== "object") {
+        dropped.push({ path, message: "Not an object" });
+        return;
+      }
+
+      const dangling = (["source", "target"] as const).filter(
+        (end) => !nodeIds.has(l[end])
+      );
+      if (dangling.length > 0) {
+        dangling.forEach((end) =>
+          errors.push({
+            path: `${path}.${end}`,
+            message: `"${l[end]}" is not a node id`,
+          })
+        );
+        dropped.push({
+          path,
+          message: `Dangling link ${l.source} → ${l.target}`,
+        });
+        return;
+      }
+
+      let relationship = l.relationship;
+      if (!isNonEmptyString(relationship)) {
+        // Models sometimes use "label" instead of "relationship"
+        relationship = isNonEmptyString(l.label) ? l.label : "relates to";
+        fixed.push({
+          path: `${path}.relationship`,
+          message: `Missing - used "${relationship}"`,
+        });
+      }
+
+      const key = `${l.source}→${l.target}`;
+      if (l.source === l.target || linkKeys.has(key)) {
+        dropped.push({
+          path,
+          message: `${l.source === l.target ? "Self" : "Duplicate"} link ${key}`,
+        });
+        return;
+      }
+      linkKeys.add(key);
+
+      // The type is optional; a missing or unknown one is read off the text
+      let type = isRelationshipType(l.type) ? l.type : undefined;
+      if (!type) {
+        type = classifyRelationship(
+          relationship,
+          graphNodes.find((n) => n.id === l.source)?.group
+        );
+        if (l.type !== undefined) {
+          fixed.push({
+            path: `${path}.type`,
+            message: `Unknown type "${l.type}" - ${
+              type ? `used "${type}"` : "removed"
+            }`,
+          });
+        }
+      }
+      const link: KnowledgeLink = {
+        source: l.source,
+        target: l.target,
+        relationship,
+      };
+      if (type) link.type = type;
+      graphLinks.push(link);
+    }
+  );
+
+  return {
+    value: { title, summary, eli5Analogy, pearls, graphNodes, graphLinks },
+    errors,
+    fixed,
+    dropped,
+  };
+}
@@ -0,0 +1,563 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PHI SCANNER
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Local pre-flight check for patient identifiers in uploads and chat input.
+ * Nothing here makes a request: text is scanned with pattern and dictionary
+ * rules in the browser, the learner reviews each finding, and only then is
+ * the (possibly redacted) content handed to the model.
+ *
+ * Text files are rewritten in place. PDFs are scanned through their text
+ * layer - there is no PDF parser in the bundle, so a small reader inflates
+ * the content streams and collects the shown strings. A PDF with findings to
+ * redact is sent as its redacted text instead of the original file. Images,
+ * audio and PDFs whose text can't all be read (no text layer, two-byte
+ * fonts, unreadable streams) can't be scanned; they always open the review
+ * so the learner checks them before anything is sent.
+ */
+
+import type { FileInput, PhiCategory, RedactionLogEntry } from "../types";
+import { blobToBase64 } from "../src/lib/repos/StorageRepository";
+
+export type PhiDecision = "replace" | "redact" | "keep";
+
+export interface PhiFinding {
+  id: string; // category + normalised value, shared by repeated occurrences
+  category: PhiCategory;
+  value: string;
+  rule: string;
+  confidence: "high" | "medium";
+  occurrences: { start: number; end: number }[];
+  context: string; // First occurrence with some surrounding text
+}
+
+export interface PhiScan {
+  source: string; // File name, or "Chat"
+  input?: FileInput; // Absent for chat text
+  text?: string; // Scanned text; undefined when it couldn't be read
+  findings: PhiFinding[];
+  unscannedReason?: string;
+}
+
+export const PHI_CATEGORY_LABELS: Record<PhiCategory, string> = {
+  name: "Name",
+  mrn: "Record number",
+  "date-of-birth": "Date of birth",
+  date: "Date",
+  phone: "Phone",
+  email: "Email",
+  address: "Address",
+  "id-number": "ID number",
+};
+
+const PLACEHOLDER_PREFIX: Record<PhiCategory, string> = {
+  name: "NAME",
+  mrn: "MRN",
+  "date-of-birth": "DOB",
+  date: "DATE",
+  phone: "PHONE",
+  email: "EMAIL",
+  address: "ADDRESS",
+  "id-number": "ID",
+};
+
+const REDACTED = "[REDACTED]";
+const CONTEXT_CHARS = 40;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RULES
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Common given names. A match needs a capitalised word after it, so
+// "Grace period" is ignored but "Grace Okafor" is flagged for review.
+const GIVEN_NAMES = [
+  "James John Robert Michael William David Richard Joseph Thomas Charles",
+  "Daniel Matthew Anthony Mark Paul Steven Andrew Kevin Brian George Edward",
+  "Peter Mary Patricia Jennifer Linda Elizabeth Barbara Susan Jessica Sarah",
+  "Karen Nancy Lisa Margaret Sandra Ashley Emily Michelle Laura Rebecca",
+  "Hannah Emma Olivia Sophia Grace Chloe Anna Maria Jose Juan Carlos Luis",
+  "Ana Sofia Mohammed Muhammad Ahmed Fatima Aisha Omar Hassan Priya Rahul",
+  "Anjali Arjun Wei Mei Chen Hiroshi Yuki Kwame Amara Chinedu",
+]
+  .join(" ")
+  .split(" ");
+
+// Full day-month-year dates only - bare years and months are common in
+// teaching material and aren't identifying on their own
+const DATE =
+  "(?:\\d{1,2}/\\d{1,2}/(?:19|20)?\\d{2}|\\d{1,2}[.-]\\d{1,2}[.-](?:19|20)\\d{2}|(?:19|20)\\d{2}-\\d{2}-\\d{2}|\\d{1,2}\\s+(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\\.?,?\\s+(?:19|20)\\d{2}|(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\\.?\\s+\\d{1,2},?\\s+(?:19|20)\\d{2})";
+
+const NAME_WORD = "[A-Z][a-z'’-]+";
+
+interface PhiRule {
+  id: string;
+  category: PhiCategory;
+  confidence: "high" | "medium";
+  pattern: RegExp;
+  group?: number; // Capture group holding the identifier (default: whole match)
+  accept?: (value: string) => boolean; // Extra check on the matched value
+}
+
+// In priority order: when matches overlap, the earlier rule wins
+const RULES: PhiRule[] = [
+  {
+    id: "email",
+    category: "email",
+    confidence: "high",
+    pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+  },
+  {
+    id: "record-number-label",
+    category: "mrn",
+    confidence: "high",
+    pattern:
+      /\b(?:MRN|UR\s?(?:No\.?|Number)|Medical\s+Record\s+(?:No\.?|Number)|Hospital\s+(?:No\.?|Number)|Patient\s+ID|NHS\s+(?:No\.?|Number))\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,})/gi,
+    group: 1,
+  },
+  {
+    id: "ssn",
+    category: "id-number",
+    confidence: "high",
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+  },
+  {
+    id: "dob-label",
+    category: "date-of-birth",
+    confidence: "high",
+    pattern: new RegExp(
+      `\\b(?:DOB|D\\.O\\.B\\.?|Date\\s+of\\s+Birth|Born(?:\\s+on)?)\\s*[:-]?\\s*(${DATE})`,
+      "gi"
+    ),
+    group: 1,
+  },
+  {
+    id: "name-label",
+    category: "name",
+    confidence: "high",
+    pattern: new RegExp(
+      `(?:\\b[Pp]atient(?:'s)?(?:\\s+[Nn]ame)?|\\bPt|(?<![\\w ])Name|\\bNAME)\\s*[:-]\\s*(${NAME_WORD}(?:\\s+${NAME_WORD}){0,2})`,
+      "g"
+    ),
+    group: 1,
+  },
+  {
+    id: "phone-label",
+    category: "phone",
+    confidence: "high",
+    pattern: /\b(?:Tel|Phone|Mobile|Cell|Ph)\.?\s*[:#]?\s*(\+?[\d(][\d\s().-]{6,}\d)/gi,
+    group: 1,
+  },
+  {
+    // Space-only separators need a country code - tables of lab values
+    // read from PDFs look like "135 145 2300" otherwise
+    id: "phone",
+    category: "phone",
+    confidence: "medium",
+    pattern:
+      /(?<![\w+])(?:\+\d{1,3}[\s.-]?(?:\(\d{1,4}\)\s?|\d{1,4}[\s.-])\d{3,4}[\s.-]\d{3,4}|(?:\(\d{2,4}\)\s?|\d{2,4}[.-])\d{3,4}[.-]\d{4})(?!\w)/g,
+    accept: (value) => {
+      const digits = value.replace(/\D/g, "").length;
+      return digits >= 9 && digits <= 15;
+    },
+  },
+  {
+    id: "name-title",
+    category: "name",
+    confidence: "medium",
+    pattern: new RegExp(
+      `\\b(?:Mr|Mrs|Ms|Miss|Mx)\\.?\\s+(${NAME_WORD}(?:\\s+${NAME_WORD})?)`,
+      "g"
+    ),
+    group: 1,
+  },
+  {
+    id: "name-dictionary",
+    category: "name",
+    confidence: "medium",
+    pattern: new RegExp(
+      `\\b(?:${GIVEN_NAMES.join("|")})\\s+${NAME_WORD}\\b`,
+      "g"
+    ),
+  },
+  {
+    id: "street-address",
+    category: "address",
+    confidence: "medium",
+    pattern:
+      /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Road|Rd|Avenue|Ave|Lane|Ln|Drive|Boulevard|Blvd|Court|Ct|Way|Close|Crescent)\b/g,
+  },
+  {
+    id: "full-date",
+    category: "date",
+    confidence: "medium",
+    pattern: new RegExp(`\\b${DATE}\\b`, "g"),
+  },
+];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCANNING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Flags likely identifiers, grouping repeats of the same value */
+export function scanText(text: string): PhiFinding[] {
+  const taken: { start: number; end: number }[] = [];
+  const findings = new Map<string, PhiFinding>();
+
+  for (const rule of RULES) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const value = match[rule.group ?? 0];
+      if (!value || (rule.accept && !rule.accept(value))) continue;
+      const start =
+        match.index! + (rule.group ? match[0].lastIndexOf(value) : 0);
+      const end = start + value.length;
+      if (taken.some((t) => start < t.end && end > t.start)) continue;
+      taken.push({ start, end });
+
+      const id = `${rule.category}:${value.toLowerCase().replace(/\s+/g, " ")}`;
+      const existing = findings.get(id);
+      if (existing) {
+        existing.occurrences.push({ start, end });
+        continue;
+      }
+      findings.set(id, {
+        id,
+        category: rule.category,
+        value,
+        rule: rule.id,
+        confidence: rule.confidence,
+        occurrences: [{ start, end }],
+        context: text
+          .slice(Math.max(0, start - CONTEXT_CHARS), end + CONTEXT_CHARS)
+          .replace(/\s+/g, " ")
+          .trim(),
+      });
+    }
+  }
+
+  return [...findings.values()].sort(
+    (a, b) => a.occurrences[0].start - b.occurrences[0].start
+  );
+}
+
+const isTextFile = (input: FileInput) =>
+  input.file.type.startsWith("text/") ||
+  input.file.type === "application/json" ||
+  /\.(txt|md|csv|json)$/i.test(input.file.name);
+
+// Text read from a PDF counts as scanned only when there is enough of it and
+// it is mostly letters and digits - glyph ids decoded as characters aren't
+const MIN_PDF_TEXT_CHARS = 20;
+const MIN_LETTER_RATIO = 0.6;
+
+function isReadableText(text: string): boolean {
+  const chars = text.replace(/\s/g, "");
+  if (chars.length < MIN_PDF_TEXT_CHARS) return false;
+  const letters = chars.match(
+    /[A-Za-z0-9\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u017F]/g
+  );
+  return (letters?.length || 0) / chars.length >= MIN_LETTER_RATIO;
+}
+
+const decodeBase64 = (dataUrl: string) =>
+  Uint8Array.from(atob(dataUrl.split(",")[1] || ""), (c) => c.charCodeAt(0));
+
+/**
+ * Text of an upload as far as it can be read locally, or the reason it
+ * can't be. Also used by the prompt-injection checks (see promptSafety).
+ */
+export async function readFileText(
+  input: FileInput
+): Promise<{ text?: string; unreadableReason?: string }> {
+  try {
+    if (isTextFile(input)) {
+      return { text: new TextDecoder().decode(decodeBase64(input.base64)) };
+    }
+    if (input.file.type === "application/pdf") {
+      const { text, complete } = await extractPdfText(
+        decodeBase64(input.base64)
+      );
+      if (!complete) {
+        return {
+          unreadableReason:
+            "Part of its text uses fonts or compression that can't be read locally",
+        };
+      }
+      return isReadableText(text)
+        ? { text }
+        : {
+            unreadableReason:
+              "No readable text layer (scanned pages or embedded fonts)",
+          };
+    }
+    return {
+      unreadableReason: "Images and recordings can't be scanned locally",
+    };
+  } catch (error) {
+    console.warn(`⚠️ [PHI] Couldn't read ${input.file.name}:`, error);
+    return { unreadableReason: "The file couldn't be read" };
+  }
+}
+
+export async function scanFile(input: FileInput): Promise<PhiScan> {
+  const { text, unreadableReason } = await readFileText(input);
+  return {
+    source: input.file.name,
+    input,
+    text,
+    findings: text ? scanText(text) : [],
+    unscannedReason: unreadableReason,
+  };
+}
+
+export const scanFiles = (files: FileInput[]) =>
+  Promise.all(files.map(scanFile));
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REDACTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Placeholders numbered per category across every scan in a review, so the
+ * same patient is "[NAME-1]" in each file that mentions them
+ */
+export function assignPlaceholders(scans: PhiScan[]): Map<string, string> {
+  const placeholders = new Map<string, string>();
+  const counts: Partial<Record<PhiCategory, number>> = {};
+  for (const finding of scans.flatMap((s) => s.findings)) {
+    if (placeholders.has(finding.id)) continue;
+    const n = (counts[finding.category] || 0) + 1;
+    counts[finding.category] = n;
+    placeholders.set(
+      finding.id,
+      `[${PLACEHOLDER_PREFIX[finding.category]}-${n}]`
+    );
+  }
+  return placeholders;
+}
+
+const decisionFor = (
+  decisions: Record<string, PhiDecision>,
+  finding: PhiFinding
+): PhiDecision => decisions[finding.id] || "replace";
+
+/** Rewrites the text and logs each decision (without the original values) */
+export function redactText(
+  scan: PhiScan,
+  decisions: Record<string, PhiDecision>,
+  placeholders: Map<string, string>
+): { text: string; log: RedactionLogEntry[] } {
+  const text = scan.text || "";
+  const timestamp = Date.now();
+  const edits: { start: number; end: number; replacement: string }[] = [];
+
+  const log = scan.findings.map((finding): RedactionLogEntry => {
+    const decision = decisionFor(decisions, finding);
+    const placeholder =
+      decision === "replace"
+        ? placeholders.get(finding.id)!
+        : decision === "redact"
+        ? REDACTED
+        : undefined;
+    if (placeholder) {
+      finding.occurrences.forEach((o) =>
+        edits.push({ ...o, replacement: placeholder })
+      );
+    }
+    return {
+      source: scan.source,
+      category: finding.category,
+      rule: finding.rule,
+      action:
+        decision === "replace"
+          ? "replaced"
+          : decision === "redact"
+          ? "redacted"
+          : "kept",
+      placeholder,
+      occurrences: finding.occurrences.length,
+      timestamp,
+    };
+  });
+
+  // Right to left so earlier offsets stay valid
+  let result = text;
+  edits
+    .sort((a, b) => b.start - a.start)
+    .forEach((e) => {
+      result = result.slice(0, e.start) + e.replacement + result.slice(e.end);
+    });
+
+  return { text: result, log };
+}
+
+/**
+ * Applies the review to every scanned file. Files with nothing to change are
+ * passed through untouched; redacted PDFs become plain-text files.
+ */
+export async function applyPhiReview(
+  scans: PhiScan[],
+  decisions: Record<string, PhiDecision>
+): Promise<{ files: FileInput[]; log: RedactionLogEntry[] }> {
+  const placeholders = assignPlaceholders(scans);
+  const files: FileInput[] = [];
+  const log: RedactionLogEntry[] = [];
+
+  for (const scan of scans) {
+    if (!scan.input) continue;
+    const redacted = redactText(scan, decisions, placeholders);
+    log.push(...redacted.log);
+
+    const changed = scan.findings.some(
+      (f) => decisionFor(decisions, f) !== "keep"
+    );
+    if (!changed) {
+      files.push(scan.input);
+      continue;
+    }
+
+    const isPdf = scan.input.file.type === "application/pdf";
+    const type = isPdf ? "text/plain" : scan.input.file.type || "text/plain";
+    const name = isPdf
+      ? scan.input.file.name.replace(/\.pdf$/i, "") + " (redacted).txt"
+      : scan.input.file.name;
+    const file = new File([redacted.text], name, { type });
+    files.push({ file, base64: await blobToBase64(file), type });
+  }
+
+  return { files, log };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PDF TEXT LAYER
+// ═══════════════════════════════════════════════════════════════════════════
+
+const latin1 = new TextDecoder("latin1");
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const unescapePdfString = (s: string) =>
+  s.replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_, esc: string) => {
+    if (/^[0-7]/.test(esc)) return String.fromCharCode(parseInt(esc, 8));
+    const map: Record<string, string> = { n: "\n", r: "\r", t: "\t" };
+    if (esc in map) return map[esc];
+    return /^[bf]$|^\r?\n$/.test(esc) ? "" : esc;
+  });
+
+// <48656C6C6F> - pairs of hex digits, a missing last digit is 0
+const decodeHexString = (hex: string) => {
+  const digits = hex.replace(/\s/g, "");
+  let result = "";
+  for (let i = 0; i < digits.length; i += 2) {
+    const byte = digits.slice(i, i + 2).padEnd(2, "0");
+    result += String.fromCharCode(parseInt(byte, 16));
+  }
+  return result;
+};
+
+const decodeStringOperand = (literal?: string, hex?: string) =>
+  literal !== undefined
+    ? unescapePdfString(literal)
+    : decodeHexString(hex || "");
+
+// Strings shown by Tj, TJ, ' and " - a TJ array is one run of text. Strings
+// are (literal) or <hex>; both are read as one byte per character.
+function textFromContentStream(content: string): string[] {
+  const runs: string[] = [];
+  const shown =
+    /\[((?:\\.|[^\]\\])*)\]\s*TJ|(?:\(((?:\\.|[^)\\])*)\)|<([0-9A-Fa-f\s]*)>)\s*(?:Tj|'|")/g;
+  for (const match of content.matchAll(shown)) {
+    if (match[1] !== undefined) {
+      const parts = [
+        ...match[1].matchAll(/\(((?:\\.|[^)\\])*)\)|<([0-9A-Fa-f\s]*)>/g),
+      ];
+      runs.push(parts.map((p) => decodeStringOperand(p[1], p[2])).join(""));
+    } else {
+      runs.push(decodeStringOperand(match[2], match[3]));
+    }
+  }
+  return runs;
+}
+
+// Two-byte (CID) fonts map glyph ids, not characters, so their strings can't
+// be read without the font's own mapping
+const CID_ENCODING = /\/Encoding\s*\/Identity-[HV]\b/;
+
+// Font files and metadata never hold page text, so skipping one that can't
+// be decoded loses nothing
+const NON_TEXT_STREAM =
+  /\/Subtype\s*\/(?:Type1C|CIDFontType0C|OpenType|XML)|\/Type\s*\/Metadata|\/Length[123]\b/;
+
+// The dictionary in front of a stream: from the ">>" just before the
+// "stream" keyword back to its matching "<<", however long it is
+function streamDictionary(raw: string, streamAt: number): string {
+  const close = raw.lastIndexOf(">>", streamAt);
+  if (close < 0) return "";
+  let depth = 0;
+  for (let i = close; i >= 0; i--) {
+    if (raw.startsWith(">>", i)) {
+      depth++;
+      i--;
+    } else if (raw.startsWith("<<", i)) {
+      depth--;
+      if (depth === 0) return raw.slice(i, close + 2);
+      i--;
+    }
+  }
+  return raw.slice(0, close + 2);
+}
+
+/**
+ * Shown text of every page, and whether all of it could be decoded: false
+ * when a font uses a two-byte encoding or a stream that may hold text uses
+ * a filter this reader doesn't handle.
+ */
+async function extractPdfText(
+  bytes: Uint8Array
+): Promise<{ text: string; complete: boolean }> {
+  // latin1 keeps one character per byte, so string offsets index the bytes
+  const raw = latin1.decode(bytes);
+  const runs: string[] = [];
+  let complete = !CID_ENCODING.test(raw);
+
+  for (const match of raw.matchAll(/(?<!end)stream\r?\n/g)) {
+    const start = match.index! + match[0].length;
+    const end = raw.indexOf("endstream", start);
+    if (end < 0) break;
+
+    // Images hold no text; form XObjects can, so they're read like pages
+    const header = streamDictionary(raw, match.index!);
+    if (/\/Subtype\s*\/Image\b/.test(header)) continue;
+
+    let content: string;
+    if (/\/FlateDecode/.test(header)) {
+      let body = bytes.subarray(start, end);
+      while (body.length && (body.at(-1) === 0x0a || body.at(-1) === 0x0d)) {
+        body = body.subarray(0, -1);
+      }
+      try {
+        content = latin1.decode(await inflate(body));
+      } catch {
+        // Other filters or damaged streams
+        if (!NON_TEXT_STREAM.test(header)) complete = false;
+        continue;
+      }
+    } else if (/\/Filter/.test(header)) {
+      if (!NON_TEXT_STREAM.test(header)) complete = false;
+      continue;
+    } else {
+      content = raw.slice(start, end);
+    }
+
+    // Font dictionaries may sit in compressed object streams
+    if (CID_ENCODING.test(content)) complete = false;
+    if (/\bBT\b/.test(content)) runs.push(...textFromContentStream(content));
+  }
+
+  return { text: runs.join(" "), complete };
+}
@@ -0,0 +1,240 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PROMPT SAFETY
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Uploaded documents - and the guides generated from them - are untrusted:
+ * a handout can carry text written to steer the model. Services fence that
+ * content between markers and append the "shared.untrusted-content" rule,
+ * which tells the model fenced text is reference material only.
+ *
+ * Fencing lowers the risk but can't remove it, so two local checks surface
+ * what slipped through: a heuristic detector for instruction-like passages in
+ * the input, and checks that the output still fits the expected shape and
+ * persona. Both only warn - nothing is blocked or rewritten.
+ */
+
+import type { FileInput, SafetyWarning, UserProfile } from "../types";
+import type { LLMPart } from "./llmProvider";
+import { readFileText } from "./phiScanner";
+import { renderPrompt, type RenderedPrompt } from "./promptTemplates";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FENCING
+// ═══════════════════════════════════════════════════════════════════════════
+
+const OPEN_MARKER = "<<<UNTRUSTED_SOURCE";
+const CLOSE_MARKER = "<<<END_UNTRUSTED_SOURCE>>>";
+
+// Marker look-alikes inside the content, which could close the fence early
+const MARKER_PATTERN = /<<<\s*(?:END_)?UNTRUSTED_SOURCE[^>]*>>>/gi;
+
+const openMarker = (label: string) =>
+  `${OPEN_MARKER} name="${label.replace(/["\n]/g, "'")}">>>`;
+
+/** Wrap text derived from uploads (a study guide, a section) in the fence */
+export function fenceText(label: string, text: string): string {
+  return [
+    openMarker(label),
+    text.replace(MARKER_PATTERN, "[marker removed]"),
+    CLOSE_MARKER,
+  ].join("\n");
+}
+
+/** Request parts for uploaded files, each between an open and close marker */
+export function fenceFileParts(files: FileInput[]): LLMPart[] {
+  return files.flatMap((file) => [
+    { text: openMarker(file.file.name) },
+    {
+      inlineData: {
+        mimeType: file.file.type,
+        data: file.base64.split(",")[1],
+      },
+    },
+    { text: CLOSE_MARKER },
+  ]);
+}
+
+/** The system prompt rule that goes with fenced content */
+export function untrustedContentPrompt(profile?: UserProfile): RenderedPrompt {
+  return renderPrompt(
+    "shared.untrusted-content",
+    { openMarker: `${OPEN_MARKER} ...>>>`, closeMarker: CLOSE_MARKER },
+    profile?.promptOverrides
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INPUT HEURISTICS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface InjectionFinding {
+  rule: string;
+  label: string;
+  excerpt: string;
+}
+
+// Phrasings that address a model rather than a reader. Kept narrow: medical
+// text says "act as a buffer" and "ignore the artefact" all the time.
+const INJECTION_RULES: { id: string; label: string; pattern: RegExp }[] = [
+  {
+    id: "override",
+    label: "Asks to ignore earlier instructions",
+    pattern:
+      /\b(?:ignore|disregard|forget|override)\b[^.\n]{0,40}\b(?:previous|prior|above|earlier|all|any|your|system)\b[^.\n]{0,20}\b(?:instructions?|prompts?|rules|directions)\b/gi,
+  },
+  {
+    id: "new-role",
+    label: "Tries to give the assistant a new role",
+    pattern:
+      /\b(?:you are now|from now on,? you(?: are| will| must)|pretend (?:to be|you are)|roleplay as|your new (?:role|task|instructions?) (?:is|are))\b/gi,
+  },
+  {
+    id: "prompt-leak",
+    label: "Mentions the system prompt",
+    pattern:
+      /\b(?:system prompt|system message|developer (?:message|mode)|jailbreak|reveal (?:your|the) (?:instructions|prompt))\b/gi,
+  },
+  {
+    id: "chat-markup",
+    label: "Contains chat-model markup",
+    pattern:
+      /<\|im_(?:start|end)\|>|<\|(?:system|assistant|user)\|>|\[\/?INST\]|<<\/?SYS>>|^[ \t]*#{0,3}[ \t]*(?:system|assistant)[ \t]*:/gim,
+  },
+  {
+    id: "output-control",
+    label: "Dictates what the response must say",
+    pattern:
+      /\b(?:respond|reply|answer|output) only with\b|\bdo not (?:mention|reveal|tell)\b[^.\n]{0,30}\b(?:user|student|learner|instructions)\b/gi,
+  },
+];
+
+const MAX_FINDINGS = 10;
+
+const excerptAround = (text: string, start: number, end: number) =>
+  text
+    .slice(Math.max(0, start - 40), Math.min(text.length, end + 60))
+    .replace(/\s+/g, " ")
+    .trim();
+
+/** Instruction-like passages in text, one per distinct excerpt */
+export function detectInjection(text: string): InjectionFinding[] {
+  const findings: InjectionFinding[] = [];
+  const seen = new Set<string>();
+
+  for (const rule of INJECTION_RULES) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const start = match.index ?? 0;
+      const excerpt = excerptAround(text, start, start + match[0].length);
+      if (seen.has(excerpt)) continue;
+      seen.add(excerpt);
+      findings.push({ rule: rule.id, label: rule.label, excerpt });
+      if (findings.length >= MAX_FINDINGS) return findings;
+    }
+  }
+  return findings;
+}
+
+/** Warnings for instruction-like passages in the readable uploads */
+export async function checkFilesForInjection(
+  files: FileInput[]
+): Promise<SafetyWarning[]> {
+  const warnings: SafetyWarning[] = [];
+  for (const file of files) {
+    const { text } = await readFileText(file);
+    if (!text) continue;
+    for (const finding of detectInjection(text)) {
+      warnings.push({
+        kind: "instruction-like-input",
+        source: file.file.name,
+        message: finding.label,
+        excerpt: finding.excerpt,
+      });
+    }
+  }
+  return warnings;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OUTPUT CHECKS
+// ═══════════════════════════════════════════════════════════════════════════
+
+// The assistant stepping out of its educator persona
+const PERSONA_DRIFT =
+  /\b(?:as an ai(?: language model)?|as a (?:large )?language model|i(?:'m| am) (?:sorry|unable)[^.\n]{0,20}\b(?:can(?:no|')t|unable|not able)|i can(?:no|')t (?:help|assist|comply)|my (?:system prompt|instructions (?:say|are))|i (?:have been|was) instructed to)\b/i;
+
+function driftWarning(
+  source: string,
+  text: string
+): SafetyWarning | undefined {
+  const drift = text.match(PERSONA_DRIFT);
+  if (drift) {
+    const start = drift.index ?? 0;
+    return {
+      kind: "persona-drift",
+      source,
+      message: "Steps out of the tutor persona",
+      excerpt: excerptAround(text, start, start + drift[0].length),
+    };
+  }
+  const echoed = detectInjection(text)[0];
+  if (echoed) {
+    return {
+      kind: "persona-drift",
+      source,
+      message: `Repeats instruction-like text (${echoed.label.toLowerCase()})`,
+      excerpt: echoed.excerpt,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Phase 1 output: the schema itself is enforced by validatePhase1, so this
+ * looks at the learner-facing strings and that a graph came back at all
+ */
+export function checkGraphOutput(result: {
+  title: string;
+  summary: string;
+  pearls: { content: string }[];
+  graphNodes: { label: string; description?: string }[];
+}): SafetyWarning[] {
+  const warnings: SafetyWarning[] = [];
+  if (result.graphNodes.length === 0) {
+    warnings.push({
+      kind: "schema-mismatch",
+      source: "Topic map",
+      message: "The topic map came back without any nodes",
+    });
+  }
+
+  const text = [
+    result.title,
+    result.summary,
+    ...result.pearls.map((p) => p.content),
+    ...result.graphNodes.map((n) => `${n.label}: ${n.description || ""}`),
+  ].join("\n");
+  const drift = driftWarning("Topic map", text);
+  if (drift) warnings.push(drift);
+  return warnings;
+}
+
+/** Phase 2 output: a markdown guide with sections, in the educator's voice */
+export function checkGuideOutput(markdown: string): SafetyWarning[] {
+  const warnings: SafetyWarning[] = [];
+  if (!/^##\s+\S/m.test(markdown)) {
+    warnings.push({
+      kind: "schema-mismatch",
+      source: "Study guide",
+      message: "The guide has no section headings",
+    });
+  }
+  const drift = driftWarning("Study guide", markdown);
+  if (drift) warnings.push(drift);
+  return warnings;
+}
+
+/** A chat reply, or undefined when it reads like the tutor */
+export function checkChatReply(text: string): SafetyWarning | undefined {
+  return driftWarning("Chat", text);
+}
@@ -0,0 +1,149 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * RELATIONSHIP TYPES
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * A controlled set of meanings for graph links, kept next to the model's free
+ * text ("blocks aldosterone arm of" stays as written; its type is "treats").
+ * Phase 1 asks for the type directly; links without one - older notes, hand
+ * drawn links, expansion suggestions - are typed from their text here. The
+ * type names the kind of relationship, while which end plays which role
+ * still follows the text: "treated with" is a treats link from the disease.
+ * Some verbs depend on the subject: a drug that "lowers blood pressure"
+ * treats, a haemorrhage that does so causes.
+ */
+
+import type {
+  AugmentedNote,
+  KnowledgeGraphData,
+  KnowledgeLink,
+  KnowledgeNode,
+  RelationshipType,
+} from "../types";
+
+export const RELATIONSHIP_TYPES: RelationshipType[] = [
+  "causes",
+  "treats",
+  "contraindicated-in",
+  "diagnoses",
+  "presents-with",
+  "part-of",
+  "risk-factor-for",
+  "complication-of",
+];
+
+export const RELATIONSHIP_TYPE_LABELS: Record<RelationshipType, string> = {
+  causes: "Causes",
+  treats: "Treats",
+  "contraindicated-in": "Contraindicated in",
+  diagnoses: "Diagnoses",
+  "presents-with": "Presents with",
+  "part-of": "Part of",
+  "risk-factor-for": "Risk factor for",
+  "complication-of": "Complication of",
+};
+
+const MEDICATION_GROUP = 3;
+
+// First match wins, so the narrower meanings come before "causes". Lowering a
+// risk or outcome is protective from any subject and goes ahead of the risk
+// pattern; plain lowering or preventing only treats when a drug does it
+// (flagged true), otherwise it falls through to "causes" with "decreases".
+const TYPE_PATTERNS: [RelationshipType, RegExp, boolean?][] = [
+  ["contraindicated-in", /contraindicat|\bavoid|should not|must not|unsafe/],
+  [
+    "treats",
+    /(?:reduc|lower|decreas|cut)\w*\s+(?:the\s+)?(?:risk|incidence|mortality|morbidity)/,
+  ],
+  ["treats", /protect|prevent|prophyla|lower|reduc|decreas|suppress/, true],
+  [
+    "complication-of",
+    /complicat|sequela|secondary to|arises? from|consequence of|results? from/,
+  ],
+  ["risk-factor-for", /risk|predispos|susceptib/],
+  [
+    "diagnoses",
+    /diagnos|detect|confirm|screen|measur|monitor|assess|evaluat|identif|\btest|visuali[sz]|imag|marker|rules? (in|out)/,
+  ],
+  [
+    "treats",
+    /treat|manag|reliev|alleviat|therap|first line|indicated|revers|antidot|inhibit|block|cure|correct/,
+  ],
+  [
+    "presents-with",
+    /present|manifest|\bsigns?\b|symptom|feature|characteri[sz]|exhibit|finding/,
+  ],
+  [
+    "part-of",
+    /part of|component|located|locali[sz]|contain|compris|consist|within|subtype|type of|form of|kind of|branch|segment|belongs? to|includ/,
+  ],
+  [
+    "causes",
+    /caus|lead|results? in|produc|induc|trigger|precipitat|drive|progress|increas|decreas|lower|prevent|activat|stimulat|promot|impair|damag|worsen|exacerbat|contribut|mediat|elevat|rais|suppress|releas/,
+  ],
+];
+
+export const isRelationshipType = (v: unknown): v is RelationshipType =>
+  RELATIONSHIP_TYPES.includes(v as RelationshipType);
+
+/**
+ * The type a relationship's text reads as, if any fits. `subjectGroup` is
+ * the source node's group, when known.
+ */
+export function classifyRelationship(
+  relationship: string,
+  subjectGroup?: number
+): RelationshipType | undefined {
+  const text = relationship.toLowerCase().replace(/[-_]+/g, " ");
+  return TYPE_PATTERNS.find(
+    ([, pattern, drugOnly]) =>
+      (!drugOnly || subjectGroup === MEDICATION_GROUP) && pattern.test(text)
+  )?.[0];
+}
+
+/**
+ * The link with its type filled in from its text when it has none. Pass the
+ * graph's nodes so the source node's group can be taken into account.
+ */
+export function typeLink<T extends KnowledgeLink>(
+  link: T,
+  nodes: KnowledgeNode[] = []
+): T {
+  if (link.type) return link;
+  // react-force-graph replaces link ends with node objects once rendered
+  const source: any = link.source;
+  const sourceId = typeof source === "object" && source ? source.id : source;
+  const type = classifyRelationship(
+    link.relationship,
+    nodes.find((n) => n.id === sourceId)?.group
+  );
+  return type ? { ...link, type } : link;
+}
+
+/** Graph with every untyped link typed from its text (same object if none) */
+export function typeGraphLinks(graph: KnowledgeGraphData): KnowledgeGraphData {
+  const links = graph.links.map((link) => typeLink(link, graph.nodes));
+  return links.some((l, i) => l !== graph.links[i])
+    ? { ...graph, links }
+    : graph;
+}
+
+/**
+ * Backfill for notes saved before links had types, including the graphs kept
+ * for undo. Returns the same note when nothing changed.
+ */
+export function typeNoteLinks(note: AugmentedNote): AugmentedNote {
+  const graphData = typeGraphLinks(note.graphData);
+  const graphHistory = note.graphHistory?.map((revision) => {
+    const previousGraph = typeGraphLinks(revision.previousGraph);
+    return previousGraph === revision.previousGraph
+      ? revision
+      : { ...revision, previousGraph };
+  });
+  const historyChanged = graphHistory?.some(
+    (revision, i) => revision !== note.graphHistory![i]
+  );
+  return graphData === note.graphData && !historyChanged
+    ? note
+    : { ...note, graphData, graphHistory };
+}
@@ -0,0 +1,303 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * SOURCE CHUNKER
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Plans Phase 1 map-reduce work for inputs too large for one request:
+ * - Long PDFs are split into page windows. There is no PDF parser in the
+ *   bundle, so each window re-sends the document with a page focus - the
+ *   request is not smaller, but every range gets a full extraction pass.
+ * - Long recordings are cut into time windows. MP3/ADTS and WAV are sliced
+ *   on frame/sample boundaries; other formats are decoded with Web Audio and
+ *   re-encoded as 16 kHz mono WAV.
+ * Small files stay together in one chunk so they keep their shared context.
+ */
+
+import type { FileInput } from "../types";
+import { blobToBase64 } from "../src/lib/repos/StorageRepository";
+
+export interface SourceChunk {
+  label: string; // Shown in the thinking UI, e.g. "Review.pdf · pp. 41-80"
+  files: FileInput[];
+  focus?: string; // Extra instruction scoping the extraction to this window
+}
+
+const PDF_CHUNK_THRESHOLD_PAGES = 60;
+const PDF_PAGES_PER_CHUNK = 40;
+const AUDIO_CHUNK_THRESHOLD_SECONDS = 25 * 60;
+const AUDIO_WINDOW_SECONDS = 15 * 60;
+const WAV_SAMPLE_RATE = 16000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PLANNING
+// ═══════════════════════════════════════════════════════════════════════════
+
+export async function planSourceChunks(
+  files: FileInput[]
+): Promise<SourceChunk[]> {
+  const small: FileInput[] = [];
+  const large: SourceChunk[] = [];
+
+  for (const input of files) {
+    try {
+      if (input.file.type === "application/pdf") {
+        const pages = countPdfPages(input.base64);
+        if (pages > PDF_CHUNK_THRESHOLD_PAGES) {
+          large.push(...chunkPdf(input, pages));
+          continue;
+        }
+      } else if (input.file.type.startsWith("audio/")) {
+        const duration = await probeAudioDuration(input.file);
+        if (duration > AUDIO_CHUNK_THRESHOLD_SECONDS) {
+          large.push(...(await chunkAudio(input, duration)));
+          continue;
+        }
+      }
+    } catch (error) {
+      console.warn(
+        `⚠️ [Chunker] Couldn't split ${input.file.name}, sending whole:`,
+        error
+      );
+    }
+    small.push(input);
+  }
+
+  const chunks: SourceChunk[] = [];
+  if (small.length > 0) {
+    chunks.push({
+      label:
+        small.length === 1 ? small[0].file.name : `${small.length} files`,
+      files: small,
+    });
+  }
+  chunks.push(...large);
+
+  if (large.length > 0) {
+    console.log(
+      `✂️ [Chunker] ${files.length} file(s) → ${chunks.length} Phase 1 chunks`
+    );
+  }
+  return chunks;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PDF
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Page objects, or the largest /Count in the page tree - whichever is higher.
+// Returns 0 when both are hidden in compressed object streams.
+function countPdfPages(dataUrl: string): number {
+  const binary = atob(dataUrl.split(",")[1] || "");
+  const pageObjects = (binary.match(/\/Type\s*\/Page(?![a-zA-Z])/g) || [])
+    .length;
+  const counts = [...binary.matchAll(/\/Count\s+(\d+)/g)].map((m) =>
+    Number(m[1])
+  );
+  return Math.max(pageObjects, ...counts, 0);
+}
+
+function chunkPdf(input: FileInput, pages: number): SourceChunk[] {
+  const chunks: SourceChunk[] = [];
+  for (let start = 1; start <= pages; start += PDF_PAGES_PER_CHUNK) {
+    const end = Math.min(pages, start + PDF_PAGES_PER_CHUNK - 1);
+    chunks.push({
+      label: `${input.file.name} · pp. ${start}-${end}`,
+      files: [input],
+      focus: `Extract ONLY from pages ${start}-${end} of ${pages} in "${input.file.name}". Other page ranges are processed separately and merged afterwards - do not summarise the rest of the document.`,
+    });
+  }
+  return chunks;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// AUDIO
+// ═══════════════════════════════════════════════════════════════════════════
+
+function probeAudioDuration(file: File): Promise<number> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const done = (duration: number) => {
+      URL.revokeObjectURL(url);
+      resolve(Number.isFinite(duration) ? duration : 0);
+    };
+    audio.preload = "metadata";
+    audio.onloadedmetadata = () => done(audio.duration);
+    audio.onerror = () => done(0);
+    audio.src = url;
+  });
+}
+
+const formatTime = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  const mm = String(m).padStart(2, "0");
+  const ss = String(s).padStart(2, "0");
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+async function chunkAudio(
+  input: FileInput,
+  duration: number
+): Promise<SourceChunk[]> {
+  const windows = Math.ceil(duration / AUDIO_WINDOW_SECONDS);
+  const type = input.file.type;
+  let blobs: Blob[];
+
+  if (["audio/wav", "audio/x-wav", "audio/wave"].includes(type)) {
+    blobs = sliceWav(await input.file.arrayBuffer(), windows);
+  } else if (["audio/mpeg", "audio/mp3", "audio/aac"].includes(type)) {
+    blobs = sliceFramedAudio(await input.file.arrayBuffer(), windows, type);
+  } else {
+    blobs = await decodeToWavWindows(input.file, windows);
+  }
+
+  return Promise.all(
+    blobs.map(async (blob, i) => {
+      const start = (duration / blobs.length) * i;
+      const end = Math.min(duration, (duration / blobs.length) * (i + 1));
+      const range = `${formatTime(start)}-${formatTime(end)}`;
+      const ext =
+        blob.type === "audio/wav" ? "wav" : input.file.name.split(".").pop();
+      const file = new File([blob], `${input.file.name} [${range}].${ext}`, {
+        type: blob.type,
+      });
+      return {
+        label: `${input.file.name} · ${range}`,
+        files: [{ file, base64: await blobToBase64(blob), type: blob.type }],
+        focus: `This recording is the ${range} window of a ${formatTime(duration)} lecture. Extract everything taught in this window.`,
+      };
+    })
+  );
+}
+
+// MP3 and ADTS frames start with an 11/12-bit sync word, so cutting at the
+// next sync after each byte offset yields independently decodable slices
+function sliceFramedAudio(
+  buffer: ArrayBuffer,
+  windows: number,
+  type: string
+): Blob[] {
+  const bytes = new Uint8Array(buffer);
+  const cuts = [0];
+  for (let i = 1; i < windows; i++) {
+    let pos = Math.floor((bytes.length / windows) * i);
+    while (
+      pos < bytes.length - 1 &&
+      !(bytes[pos] === 0xff && (bytes[pos + 1] & 0xe0) === 0xe0)
+    ) {
+      pos++;
+    }
+    cuts.push(pos);
+  }
+  cuts.push(bytes.length);
+  return cuts
+    .slice(0, -1)
+    .map(
+      (start, i) => new Blob([bytes.slice(start, cuts[i + 1])], { type })
+    );
+}
+
+// Re-use the source's format header for each slice of its PCM data
+function sliceWav(buffer: ArrayBuffer, windows: number): Blob[] {
+  const view = new DataView(buffer);
+  let offset = 12;
+  let fmt: { channels: number; sampleRate: number; bits: number } | null =
+    null;
+
+  while (offset + 8 <= view.byteLength) {
+    const id = String.fromCharCode(...new Uint8Array(buffer, offset, 4));
+    const size = view.getUint32(offset + 4, true);
+    if (id === "fmt ") {
+      fmt = {
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        bits: view.getUint16(offset + 22, true),
+      };
+    } else if (id === "data" && fmt) {
+      const blockAlign = (fmt.channels * fmt.bits) / 8;
+      const data = new Uint8Array(
+        buffer,
+        offset + 8,
+        Math.min(size, view.byteLength - offset - 8)
+      );
+      const perWindow =
+        Math.ceil(data.length / windows / blockAlign) * blockAlign;
+      const blobs: Blob[] = [];
+      for (let start = 0; start < data.length; start += perWindow) {
+        const slice = data.subarray(start, start + perWindow);
+        blobs.push(
+          new Blob(
+            [
+              wavHeader(slice.length, fmt.channels, fmt.sampleRate, fmt.bits),
+              slice,
+            ],
+            { type: "audio/wav" }
+          )
+        );
+      }
+      return blobs;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error("Unsupported WAV layout");
+}
+
+// Formats without a sliceable frame structure (m4a, ogg, webm)
+async function decodeToWavWindows(
+  file: File,
+  windows: number
+): Promise<Blob[]> {
+  const context = new OfflineAudioContext(1, 1, WAV_SAMPLE_RATE);
+  const decoded = await context.decodeAudioData(await file.arrayBuffer());
+  const perWindow = Math.ceil(decoded.length / windows);
+  const blobs: Blob[] = [];
+
+  for (let start = 0; start < decoded.length; start += perWindow) {
+    const length = Math.min(perWindow, decoded.length - start);
+    // Downmix to mono 16-bit PCM
+    const pcm = new Int16Array(length);
+    for (let i = 0; i < length; i++) {
+      let sum = 0;
+      for (let c = 0; c < decoded.numberOfChannels; c++) {
+        sum += decoded.getChannelData(c)[start + i];
+      }
+      const sample = Math.max(-1, Math.min(1, sum / decoded.numberOfChannels));
+      pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    }
+    blobs.push(
+      new Blob([wavHeader(pcm.byteLength, 1, decoded.sampleRate, 16), pcm], {
+        type: "audio/wav",
+      })
+    );
+  }
+  return blobs;
+}
+
+function wavHeader(
+  dataLength: number,
+  channels: number,
+  sampleRate: number,
+  bits: number
+): ArrayBuffer {
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const write = (offset: number, text: string) =>
+    [...text].forEach((ch, i) => view.setUint8(offset + i, ch.charCodeAt(0)));
+
+  write(0, "RIFF");
+  view.setUint32(4, 36 + dataLength, true);
+  write(8, "WAVE");
+  write(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, (sampleRate * channels * bits) / 8, true);
+  view.setUint16(32, (channels * bits) / 8, true);
+  view.setUint16(34, bits, true);
+  write(36, "data");
+  view.setUint32(40, dataLength, true);
+  return header;
+}
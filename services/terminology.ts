@@ -0,0 +1,531 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * TERMINOLOGY MAPPING
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Links topic map nodes to standard vocabularies so the same concept can be
+ * recognised across notes whatever the model called it: ICD-10 for
+ * pathology, ATC for medications (with the ATC class as the drug class) and
+ * FMA for anatomy. The vocabularies are small bundled subsets covering
+ * common teaching topics, matched offline by normalised name and, failing
+ * that, by character-bigram similarity.
+ *
+ * Mapping is a step the learner runs per note; codes are stored on the node
+ * and cross-note features key on conceptKey(), which prefers a code and
+ * falls back to the normalised label.
+ */
+
+import type {
+  ConceptCode,
+  KnowledgeGraphData,
+  KnowledgeNode,
+  TerminologySystem,
+} from "../types";
+
+// [code, preferred term, other names]
+type VocabularyEntry = [string, string, string[]?];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BUNDLED VOCABULARIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+const ICD10: VocabularyEntry[] = [
+  ["I10", "Essential hypertension", ["hypertension", "high blood pressure", "htn"]],
+  ["I20", "Angina pectoris", ["angina", "stable angina", "unstable angina"]],
+  ["I21", "Acute myocardial infarction", ["myocardial infarction", "mi", "heart attack", "stemi", "nstemi", "acute coronary syndrome"]],
+  ["I26", "Pulmonary embolism", ["pe"]],
+  ["I27", "Pulmonary hypertension"],
+  ["I30", "Acute pericarditis", ["pericarditis"]],
+  ["I33", "Acute and subacute endocarditis", ["endocarditis", "infective endocarditis"]],
+  ["I35.0", "Aortic valve stenosis", ["aortic stenosis"]],
+  ["I42", "Cardiomyopathy"],
+  ["I42.0", "Dilated cardiomyopathy", ["dcm"]],
+  ["I42.1", "Obstructive hypertrophic cardiomyopathy", ["hypertrophic obstructive cardiomyopathy", "hocm"]],
+  ["I42.2", "Other hypertrophic cardiomyopathy", ["hypertrophic cardiomyopathy", "hcm"]],
+  ["I46", "Cardiac arrest"],
+  ["I48", "Atrial fibrillation and flutter", ["atrial fibrillation", "af", "afib", "atrial flutter"]],
+  ["I50", "Heart failure", ["congestive heart failure", "chf", "hf", "cardiac failure", "hfref", "hfpef"]],
+  ["I60", "Subarachnoid haemorrhage", ["sah"]],
+  ["I61", "Intracerebral haemorrhage", ["haemorrhagic stroke", "ich"]],
+  ["I63", "Cerebral infarction", ["ischaemic stroke", "stroke", "cva"]],
+  ["I70", "Atherosclerosis"],
+  ["I80.2", "Deep vein thrombosis", ["dvt", "deep venous thrombosis"]],
+  ["J18", "Pneumonia, organism unspecified", ["pneumonia", "community acquired pneumonia", "cap"]],
+  ["J44", "Chronic obstructive pulmonary disease", ["copd", "emphysema", "chronic bronchitis"]],
+  ["J45", "Asthma"],
+  ["J80", "Acute respiratory distress syndrome", ["ards"]],
+  ["J81", "Pulmonary oedema", ["acute pulmonary oedema"]],
+  ["J93", "Pneumothorax"],
+  ["E03", "Hypothyroidism"],
+  ["E05", "Thyrotoxicosis", ["hyperthyroidism", "graves disease"]],
+  ["E10", "Type 1 diabetes mellitus", ["type 1 diabetes", "t1dm"]],
+  ["E10.1", "Type 1 diabetes mellitus with ketoacidosis", ["diabetic ketoacidosis", "dka"]],
+  ["E11", "Type 2 diabetes mellitus", ["type 2 diabetes", "t2dm", "diabetes mellitus"]],
+  ["E16.2", "Hypoglycaemia", ["hypoglycemia"]],
+  ["E24", "Cushing syndrome", ["cushings syndrome", "cushing's syndrome"]],
+  ["E26", "Hyperaldosteronism", ["conn syndrome", "primary aldosteronism"]],
+  ["E27.1", "Primary adrenocortical insufficiency", ["addison disease", "addisons disease", "adrenal insufficiency"]],
+  ["E66", "Obesity"],
+  ["E78", "Disorders of lipoprotein metabolism", ["hyperlipidaemia", "dyslipidaemia", "hypercholesterolaemia"]],
+  ["E87.1", "Hyponatraemia", ["hyponatremia"]],
+  ["E87.5", "Hyperkalaemia", ["hyperkalemia"]],
+  ["E87.6", "Hypokalaemia", ["hypokalemia"]],
+  ["A41", "Sepsis", ["septicaemia", "septic shock"]],
+  ["A15", "Respiratory tuberculosis", ["tuberculosis", "tb", "pulmonary tuberculosis"]],
+  ["B24", "HIV disease", ["hiv", "aids"]],
+  ["D50", "Iron deficiency anaemia", ["iron deficiency anemia"]],
+  ["K21", "Gastro-oesophageal reflux disease", ["gord", "gerd", "reflux"]],
+  ["K27", "Peptic ulcer", ["peptic ulcer disease", "pud"]],
+  ["K35", "Acute appendicitis", ["appendicitis"]],
+  ["K74", "Fibrosis and cirrhosis of liver", ["cirrhosis", "liver cirrhosis"]],
+  ["K81", "Cholecystitis"],
+  ["K85", "Acute pancreatitis", ["pancreatitis"]],
+  ["N04", "Nephrotic syndrome"],
+  ["N17", "Acute kidney failure", ["acute kidney injury", "aki", "acute renal failure"]],
+  ["N18", "Chronic kidney disease", ["ckd", "chronic renal failure"]],
+  ["N39.0", "Urinary tract infection", ["uti"]],
+  ["M06.9", "Rheumatoid arthritis", ["ra"]],
+  ["M10", "Gout"],
+  ["M32", "Systemic lupus erythematosus", ["sle", "lupus"]],
+  ["M81", "Osteoporosis"],
+  ["G03", "Meningitis"],
+  ["G20", "Parkinson disease", ["parkinsons disease", "parkinson's disease"]],
+  ["G30", "Alzheimer disease", ["alzheimers disease", "alzheimer's disease"]],
+  ["G35", "Multiple sclerosis", ["ms"]],
+  ["G40", "Epilepsy", ["seizure disorder"]],
+  ["G43", "Migraine"],
+  ["F20", "Schizophrenia"],
+  ["F32", "Depressive episode", ["depression", "major depressive disorder"]],
+  ["C18", "Malignant neoplasm of colon", ["colon cancer", "colorectal cancer"]],
+  ["C34", "Malignant neoplasm of bronchus and lung", ["lung cancer"]],
+  ["C50", "Malignant neoplasm of breast", ["breast cancer"]],
+  ["C61", "Malignant neoplasm of prostate", ["prostate cancer"]],
+  ["R57", "Shock", ["circulatory shock"]],
+  ["R57.0", "Cardiogenic shock"],
+  ["T78.2", "Anaphylactic shock", ["anaphylaxis"]],
+];
+
+const ATC: VocabularyEntry[] = [
+  // Drug classes (ATC levels 3-4)
+  ["C07A", "Beta blocking agents", ["beta blockers", "beta-blockers"]],
+  ["C09AA", "ACE inhibitors, plain", ["ace inhibitors", "acei"]],
+  ["C09CA", "Angiotensin II receptor blockers, plain", ["arbs", "angiotensin receptor blockers"]],
+  ["C03CA", "Sulfonamides, plain", ["loop diuretics"]],
+  ["C03DA", "Aldosterone antagonists", ["mineralocorticoid receptor antagonists", "mras"]],
+  ["C08CA", "Dihydropyridine derivatives", ["dihydropyridine calcium channel blockers"]],
+  ["C10AA", "HMG CoA reductase inhibitors", ["statins"]],
+  ["A10BK", "SGLT2 inhibitors", ["sglt2i", "gliflozins"]],
+  ["A02BC", "Proton pump inhibitors", ["ppis", "ppi"]],
+  ["B01AF", "Direct factor Xa inhibitors", ["factor xa inhibitors"]],
+  ["N06AB", "Selective serotonin reuptake inhibitors", ["ssris", "ssri"]],
+  ["H02AB", "Glucocorticoids", ["corticosteroids", "steroids"]],
+  // Substances (ATC level 5)
+  ["B01AC06", "Acetylsalicylic acid", ["aspirin"]],
+  ["B01AC04", "Clopidogrel"],
+  ["B01AA03", "Warfarin"],
+  ["B01AB01", "Heparin", ["unfractionated heparin"]],
+  ["B01AB05", "Enoxaparin"],
+  ["B01AF02", "Apixaban"],
+  ["B01AF01", "Rivaroxaban"],
+  ["B01AE07", "Dabigatran etexilate", ["dabigatran"]],
+  ["B01AD02", "Alteplase", ["tpa"]],
+  ["B02AA02", "Tranexamic acid", ["txa"]],
+  ["C03CA01", "Furosemide", ["frusemide", "lasix"]],
+  ["C03CA02", "Bumetanide"],
+  ["C03DA01", "Spironolactone"],
+  ["C03AA03", "Hydrochlorothiazide"],
+  ["C07AB07", "Bisoprolol"],
+  ["C07AB02", "Metoprolol"],
+  ["C07AB03", "Atenolol"],
+  ["C07AA05", "Propranolol"],
+  ["C07AG02", "Carvedilol"],
+  ["C09AA05", "Ramipril"],
+  ["C09AA03", "Lisinopril"],
+  ["C09AA02", "Enalapril"],
+  ["C09CA01", "Losartan"],
+  ["C09CA03", "Valsartan"],
+  ["C09DX04", "Valsartan and sacubitril", ["sacubitril/valsartan", "sacubitril valsartan", "entresto"]],
+  ["C08CA01", "Amlodipine"],
+  ["C08DB01", "Diltiazem"],
+  ["C08DA01", "Verapamil"],
+  ["C01AA05", "Digoxin"],
+  ["C01BD01", "Amiodarone"],
+  ["C01DA02", "Glyceryl trinitrate", ["nitroglycerin", "gtn"]],
+  ["C01CA24", "Epinephrine", ["adrenaline"]],
+  ["C01CA03", "Norepinephrine", ["noradrenaline"]],
+  ["C01CA07", "Dobutamine"],
+  ["C10AA05", "Atorvastatin"],
+  ["C10AA01", "Simvastatin"],
+  ["C10AA07", "Rosuvastatin"],
+  ["A10BA02", "Metformin"],
+  ["A10BB09", "Gliclazide"],
+  ["A10BK03", "Empagliflozin"],
+  ["A10BK01", "Dapagliflozin"],
+  ["H03AA01", "Levothyroxine sodium", ["levothyroxine", "thyroxine"]],
+  ["H02AB06", "Prednisolone"],
+  ["H02AB09", "Hydrocortisone"],
+  ["H02AB02", "Dexamethasone"],
+  ["R03AC02", "Salbutamol", ["albuterol"]],
+  ["R03BB01", "Ipratropium bromide", ["ipratropium"]],
+  ["R03BB04", "Tiotropium bromide", ["tiotropium"]],
+  ["A02BC01", "Omeprazole"],
+  ["A02BC02", "Pantoprazole"],
+  ["A04AA01", "Ondansetron"],
+  ["N02BE01", "Paracetamol", ["acetaminophen"]],
+  ["N02AA01", "Morphine"],
+  ["M01AE01", "Ibuprofen"],
+  ["J01CA04", "Amoxicillin"],
+  ["J01CR02", "Amoxicillin and beta-lactamase inhibitor", ["co-amoxiclav", "amoxicillin clavulanate", "augmentin"]],
+  ["J01DD04", "Ceftriaxone"],
+  ["J01XA01", "Vancomycin"],
+  ["J01GB03", "Gentamicin"],
+  ["J01MA02", "Ciprofloxacin"],
+  ["J01AA02", "Doxycycline"],
+  ["J01XD01", "Metronidazole"],
+  ["J01FA10", "Azithromycin"],
+  ["M04AA01", "Allopurinol"],
+  ["M04AC01", "Colchicine"],
+  ["N03AX14", "Levetiracetam"],
+  ["N06AB06", "Sertraline"],
+  ["N05AD01", "Haloperidol"],
+  ["N05BA06", "Lorazepam"],
+  ["V03AB15", "Naloxone"],
+  ["A12BA01", "Potassium chloride"],
+  ["A12AA03", "Calcium gluconate"],
+  ["B05XA02", "Sodium bicarbonate"],
+];
+
+// ATC level 4 (chemical subgroup) names, shown as the drug class
+export const ATC_CLASSES: Record<string, string> = {
+  C07A: "Beta blocking agents",
+  B01AA: "Vitamin K antagonists",
+  B01AB: "Heparin group",
+  B01AC: "Platelet aggregation inhibitors",
+  B01AD: "Thrombolytic enzymes",
+  B01AE: "Direct thrombin inhibitors",
+  B01AF: "Direct factor Xa inhibitors",
+  B02AA: "Antifibrinolytic amino acids",
+  C03CA: "Loop diuretics (sulfonamides)",
+  C03DA: "Aldosterone antagonists",
+  C03AA: "Thiazides",
+  C07AA: "Non-selective beta blockers",
+  C07AB: "Selective beta blockers",
+  C07AG: "Alpha and beta blockers",
+  C09AA: "ACE inhibitors",
+  C09CA: "Angiotensin II receptor blockers",
+  C09DX: "ARB combinations",
+  C08CA: "Dihydropyridine calcium channel blockers",
+  C08DA: "Phenylalkylamine calcium channel blockers",
+  C08DB: "Benzothiazepine calcium channel blockers",
+  C01AA: "Digitalis glycosides",
+  C01BD: "Class III antiarrhythmics",
+  C01CA: "Adrenergic and dopaminergic agents",
+  C01DA: "Organic nitrates",
+  C10AA: "HMG-CoA reductase inhibitors (statins)",
+  A10BA: "Biguanides",
+  A10BB: "Sulfonylureas",
+  A10BK: "SGLT2 inhibitors",
+  H03AA: "Thyroid hormones",
+  H02AB: "Glucocorticoids",
+  R03AC: "Selective beta-2 agonists",
+  R03BB: "Inhaled anticholinergics",
+  A02BC: "Proton pump inhibitors",
+  A04AA: "5-HT3 antagonists",
+  N02BE: "Anilides",
+  N02AA: "Natural opium alkaloids",
+  M01AE: "Propionic acid NSAIDs",
+  J01CA: "Extended-spectrum penicillins",
+  J01CR: "Penicillin and beta-lactamase inhibitor combinations",
+  J01DD: "Third-generation cephalosporins",
+  J01XA: "Glycopeptide antibacterials",
+  J01GB: "Aminoglycosides",
+  J01MA: "Fluoroquinolones",
+  J01AA: "Tetracyclines",
+  J01XD: "Imidazole antibacterials",
+  J01FA: "Macrolides",
+  M04AA: "Uric acid production inhibitors",
+  M04AC: "Antigout preparations",
+  N03AX: "Other antiepileptics",
+  N06AB: "Selective serotonin reuptake inhibitors",
+  N05AD: "Butyrophenone antipsychotics",
+  N05BA: "Benzodiazepines",
+  V03AB: "Antidotes",
+  A12BA: "Potassium supplements",
+  A12AA: "Calcium supplements",
+  B05XA: "Electrolyte solutions",
+};
+
+const FMA: VocabularyEntry[] = [
+  ["7088", "Heart"],
+  ["7096", "Right atrium"],
+  ["7097", "Left atrium"],
+  ["7098", "Right ventricle"],
+  ["9466", "Left ventricle"],
+  ["9869", "Pericardium"],
+  ["3734", "Aorta"],
+  ["7195", "Lung", ["lungs"]],
+  ["7197", "Liver"],
+  ["7202", "Gallbladder"],
+  ["7198", "Pancreas"],
+  ["7196", "Spleen"],
+  ["7131", "Esophagus", ["oesophagus"]],
+  ["7148", "Stomach"],
+  ["7200", "Small intestine"],
+  ["7201", "Large intestine", ["colon"]],
+  ["7203", "Kidney", ["kidneys"]],
+  ["15900", "Urinary bladder", ["bladder"]],
+  ["9603", "Thyroid gland", ["thyroid"]],
+  ["9604", "Adrenal gland", ["adrenal", "adrenal glands"]],
+  ["50801", "Brain"],
+  ["7647", "Spinal cord"],
+  ["7163", "Skin"],
+];
+
+const VOCABULARIES: Record<TerminologySystem, VocabularyEntry[]> = {
+  "ICD-10": ICD10,
+  ATC,
+  FMA,
+};
+
+// Node group → vocabularies worth searching (1: Core could be anything)
+const SYSTEMS_BY_GROUP: Record<number, TerminologySystem[]> = {
+  1: ["ICD-10", "ATC", "FMA"],
+  2: ["ICD-10"],
+  3: ["ATC"],
+  4: ["FMA"],
+};
+
+export const TERMINOLOGY_SYSTEM_LABELS: Record<TerminologySystem, string> = {
+  "ICD-10": "ICD-10",
+  ATC: "ATC",
+  FMA: "Anatomy (FMA)",
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MATCHING
+// ═══════════════════════════════════════════════════════════════════════════
+
+const FUZZY_THRESHOLD = 0.85;
+
+// Two-letter abbreviations name several things ("MS": multiple sclerosis or
+// mitral stenosis), so they only count when the node's own text also names
+// the concept
+const AMBIGUOUS_LENGTH = 2;
+
+/** Whether a normalised name is too short to identify a concept on its own */
+export const isAmbiguousTerm = (name: string) =>
+  name.length <= AMBIGUOUS_LENGTH;
+
+// Case, punctuation, possessives and British/US spelling don't matter
+export const normaliseTerm = (term: string) =>
+  term
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/'s\b/g, "s")
+    .replace(/ae/g, "e")
+    .replace(/oe(?=[sd])/g, "e")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+function bigrams(text: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  const padded = ` ${text} `;
+  for (let i = 0; i < padded.length - 1; i++) {
+    const gram = padded.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+}
+
+// Sørensen–Dice over character bigrams
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let shared = 0;
+  let total = 0;
+  gramsA.forEach((count, gram) => {
+    shared += Math.min(count, gramsB.get(gram) || 0);
+    total += count;
+  });
+  gramsB.forEach((count) => (total += count));
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+// Normalised names per entry, built once per system
+const indexCache = new Map<TerminologySystem, [VocabularyEntry, string[]][]>();
+
+function indexOf(system: TerminologySystem) {
+  let index = indexCache.get(system);
+  if (!index) {
+    index = VOCABULARIES[system].map((entry) => [
+      entry,
+      [entry[1], ...(entry[2] || [])].map(normaliseTerm),
+    ]);
+    indexCache.set(system, index);
+  }
+  return index;
+}
+
+// Whether the node's text spells out one of the entry's full names
+const namedInContext = (names: string[], context: string) =>
+  names.some(
+    (name) =>
+      !isAmbiguousTerm(name) && ` ${context} `.includes(` ${name} `)
+  );
+
+function bestMatch(
+  system: TerminologySystem,
+  terms: string[],
+  context: string
+): ConceptCode | undefined {
+  let best: ConceptCode | undefined;
+  for (const [[code, display], names] of indexOf(system)) {
+    for (const term of terms) {
+      for (const name of names) {
+        // Short names (abbreviations) only count when they match exactly;
+        // a drug name followed by its salt or form ("metoprolol succinate")
+        // counts as a close match
+        const score =
+          term === name
+            ? !isAmbiguousTerm(name) || namedInContext(names, context)
+              ? 1
+              : 0
+            : Math.min(term.length, name.length) < 5
+            ? 0
+            : system === "ATC" && term.startsWith(`${name} `)
+            ? FUZZY_THRESHOLD
+            : similarity(term, name);
+        if (score >= FUZZY_THRESHOLD && (!best || score > best.score)) {
+          best = {
+            system,
+            code,
+            display,
+            match: score === 1 ? "exact" : "fuzzy",
+            score: Math.round(score * 100) / 100,
+          };
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/** The best code per vocabulary for a node, from its label and synonyms */
+export function mapNodeToCodes(node: KnowledgeNode): ConceptCode[] {
+  const systems = SYSTEMS_BY_GROUP[node.group] || [];
+  const terms = [node.label, ...(node.synonyms || [])]
+    .map(normaliseTerm)
+    .filter(Boolean);
+  const context = normaliseTerm(
+    [...terms, node.description, node.details].filter(Boolean).join(" ")
+  );
+
+  const codes = systems
+    .map((system) => bestMatch(system, terms, context))
+    .filter((code): code is ConceptCode => !!code);
+  // Core nodes: keep only the strongest vocabulary, not one of each
+  return node.group === 1
+    ? codes.sort((a, b) => b.score - a.score).slice(0, 1)
+    : codes;
+}
+
+/** The graph with codes on every node that maps, and how many did */
+export function mapGraphTerminology(graph: KnowledgeGraphData): {
+  graphData: KnowledgeGraphData;
+  mapped: number;
+} {
+  let mapped = 0;
+  const nodes = graph.nodes.map((node) => {
+    const codes = mapNodeToCodes(node);
+    if (codes.length > 0) mapped++;
+    const { codes: _previous, ...rest } = node;
+    return codes.length > 0 ? { ...rest, codes } : rest;
+  });
+  return { graphData: { ...graph, nodes }, mapped };
+}
+
+/** "Selective beta blockers" for "C07AB07"; class codes name themselves */
+export const atcClassOf = (code: string) =>
+  ATC_CLASSES[code.slice(0, 5)] || ATC_CLASSES[code.slice(0, 4)];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SPECIALTIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Code prefix → teaching specialty; the longest matching prefix wins, so
+// cerebrovascular "I6x" goes to neurology rather than cardiology
+const SPECIALTY_BY_PREFIX: Partial<
+  Record<TerminologySystem, Record<string, string>>
+> = {
+  "ICD-10": {
+    A: "Infectious Disease",
+    B: "Infectious Disease",
+    C: "Oncology",
+    D: "Haematology",
+    E: "Endocrinology",
+    F: "Psychiatry",
+    G: "Neurology",
+    I: "Cardiology",
+    I6: "Neurology",
+    J: "Respiratory",
+    K: "Gastroenterology",
+    M: "Rheumatology",
+    N: "Nephrology",
+    R57: "Emergency Medicine",
+    T: "Emergency Medicine",
+  },
+  ATC: {
+    A: "Gastroenterology",
+    A10: "Endocrinology",
+    B: "Haematology",
+    C: "Cardiology",
+    H: "Endocrinology",
+    J: "Infectious Disease",
+    L: "Oncology",
+    M: "Rheumatology",
+    N: "Neurology",
+    N05: "Psychiatry",
+    N06: "Psychiatry",
+    R: "Respiratory",
+    V03: "Emergency Medicine",
+  },
+};
+
+/** Specialty a code belongs to, e.g. "Cardiology" for "I50"; none for FMA */
+export function specialtyOf(code: ConceptCode): string | undefined {
+  const table = SPECIALTY_BY_PREFIX[code.system];
+  if (!table) return undefined;
+  for (let length = code.code.length; length > 0; length--) {
+    const specialty = table[code.code.slice(0, length)];
+    if (specialty) return specialty;
+  }
+  return undefined;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CROSS-NOTE KEYS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Identity of a node's concept across notes: its first code when mapped
+ * ("ICD-10:I50"), otherwise its normalised label ("label:heart failure")
+ */
+export function conceptKey(node: KnowledgeNode): string {
+  const code = node.codes?.[0];
+  return code
+    ? `${code.system}:${code.code}`
+    : `label:${normaliseTerm(node.label)}`;
+}
+
+/** Whether two nodes - from any notes - are the same concept */
+export function sameConcept(a: KnowledgeNode, b: KnowledgeNode): boolean {
+  if (conceptKey(a) === conceptKey(b)) return true;
+  // One side mapped and the other not: a shared code or label still counts
+  const codes = new Set((a.codes || []).map((c) => `${c.system}:${c.code}`));
+  return (
+    (b.codes || []).some((c) => codes.has(`${c.system}:${c.code}`)) ||
+    normaliseTerm(a.label) === normaliseTerm(b.label)
+  );
+}
@@ -0,0 +1,214 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * USAGE METERING
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Records token counts for every model call in the IndexedDB usage ledger,
+ * attributed to a note and a call type (LLMTask), with an estimated cost
+ * from the price table. Services wrap their provider with withUsageMeter;
+ * the settings panel reads summaries back with summarizeUsage.
+ */
+
+import type { ModelPrice, UsageEntry } from "../types";
+import { ProfileRepository } from "../src/lib/repos/ProfileRepository";
+import { UsageRepository } from "../src/lib/repos/UsageRepository";
+import { recordToUsage, usageToRecord } from "../src/lib/utils/converters";
+import type {
+  LLMProvider,
+  LLMRequest,
+  LLMTask,
+  LLMUsage,
+} from "./llmProvider";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PRICE TABLE
+// ═══════════════════════════════════════════════════════════════════════════
+
+// USD per 1M tokens (Gemini API paid tier, text/image/video input).
+// Models missing from the table - local servers, demo - are costed at zero
+// unless the profile adds a price for them.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gemini-2.5-flash": { input: 0.3, output: 2.5, cached: 0.075 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4, cached: 0.025 },
+  "gemini-2.5-pro": { input: 1.25, output: 10, cached: 0.31 },
+};
+
+export const USAGE_TASK_LABELS: Record<LLMTask, string> = {
+  metadata: "Phase 1 · graph",
+  "metadata-repair": "Phase 1 · schema repair",
+  "metadata-summary": "Phase 1 · combined summary",
+  guide: "Phase 2 · guide",
+  "guide-continuation": "Phase 2 · continuation",
+  "guide-patch": "Add sources",
+  section: "Section rewrite",
+  "node-expansion": "Node expansion",
+  chat: "Chat turn",
+  "quiz-question": "Quiz question",
+  "quiz-feedback": "Quiz feedback",
+  clinical: "Clinical case",
+  idk: "\"I don't know\"",
+};
+
+// Chat-side call types, reported separately from the note's generation cost
+const CHAT_TASKS: string[] = [
+  "chat",
+  "quiz-question",
+  "quiz-feedback",
+  "clinical",
+  "idk",
+];
+
+export async function getModelPrices(): Promise<Record<string, ModelPrice>> {
+  const profile = await ProfileRepository.get();
+  return { ...DEFAULT_MODEL_PRICES, ...(profile?.model_prices || {}) };
+}
+
+export function estimateCost(usage: LLMUsage, price?: ModelPrice): number {
+  if (!price) return 0;
+  const uncached = Math.max(0, usage.inputTokens - usage.cachedTokens);
+  return (
+    (uncached * price.input +
+      usage.cachedTokens * (price.cached ?? price.input) +
+      (usage.outputTokens + usage.thinkingTokens) * price.output) /
+    1_000_000
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RECORDING
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function recordUsage(
+  provider: LLMProvider,
+  task: LLMTask,
+  usage: LLMUsage,
+  noteId?: string
+): Promise<void> {
+  const prices = await getModelPrices();
+  const entry: UsageEntry = {
+    id: crypto.randomUUID(),
+    noteId,
+    task,
+    provider: provider.id,
+    model: provider.model,
+    ...usage,
+    costUsd: estimateCost(usage, prices[provider.model]),
+    createdAt: Date.now(),
+  };
+  await UsageRepository.add(usageToRecord(entry));
+  console.log(
+    `🧾 [Usage] ${task}: ${usage.inputTokens} in / ${usage.outputTokens} out / ${usage.thinkingTokens} thinking ($${entry.costUsd.toFixed(4)})`
+  );
+}
+
+/**
+ * Wrap a provider so every request it serves is written to the usage ledger
+ * under its task and the given note. Ledger failures never fail the call.
+ */
+export function withUsageMeter(
+  provider: LLMProvider,
+  noteId?: string
+): LLMProvider {
+  const metered = <T extends LLMRequest>(request: T): T => ({
+    ...request,
+    onUsage: (usage) => {
+      request.onUsage?.(usage);
+      recordUsage(provider, request.task || "chat", usage, noteId).catch(
+        (error) => console.warn("⚠️ [Usage] Couldn't record call:", error)
+      );
+    },
+  });
+
+  return {
+    id: provider.id,
+    model: provider.model,
+    capabilities: provider.capabilities,
+    streamText: (request) => provider.streamText(metered(request)),
+    generateJson: (request) => provider.generateJson(metered(request)),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REPORTING
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  cachedTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byTask: { task: string; totals: UsageTotals }[]; // Most expensive first
+  byNote: {
+    noteId?: string; // Undefined = calls not tied to a note
+    generation: UsageTotals;
+    chat: UsageTotals;
+  }[]; // Most expensive first
+}
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  thinkingTokens: 0,
+  cachedTokens: 0,
+  costUsd: 0,
+});
+
+function addTo(totals: UsageTotals, entry: UsageEntry): void {
+  totals.calls++;
+  totals.inputTokens += entry.inputTokens;
+  totals.outputTokens += entry.outputTokens;
+  totals.thinkingTokens += entry.thinkingTokens;
+  totals.cachedTokens += entry.cachedTokens;
+  totals.costUsd += entry.costUsd;
+}
+
+export async function summarizeUsage(since?: number): Promise<UsageSummary> {
+  const entries = (await UsageRepository.listAll())
+    .map(recordToUsage)
+    .filter((e) => !since || e.createdAt >= since);
+
+  const total = emptyTotals();
+  const byTask = new Map<string, UsageTotals>();
+  const byNote = new Map<
+    string,
+    { noteId?: string; generation: UsageTotals; chat: UsageTotals }
+  >();
+
+  for (const entry of entries) {
+    addTo(total, entry);
+
+    if (!byTask.has(entry.task)) byTask.set(entry.task, emptyTotals());
+    addTo(byTask.get(entry.task)!, entry);
+
+    const key = entry.noteId || "";
+    if (!byNote.has(key)) {
+      byNote.set(key, {
+        noteId: entry.noteId,
+        generation: emptyTotals(),
+        chat: emptyTotals(),
+      });
+    }
+    const note = byNote.get(key)!;
+    addTo(CHAT_TASKS.includes(entry.task) ? note.chat : note.generation, entry);
+  }
+
+  return {
+    total,
+    byTask: [...byTask.entries()]
+      .map(([task, totals]) => ({ task, totals }))
+      .sort((a, b) => b.totals.costUsd - a.totals.costUsd),
+    byNote: [...byNote.values()].sort(
+      (a, b) =>
+        b.generation.costUsd +
+        b.chat.costUsd -
+        (a.generation.costUsd + a.chat.costUsd)
+    ),
+  };
+}
@@ -11,6 +11,7 @@
  * - files: Binary storage bucket (audio, PDFs, images)
  * - profile: User settings and preferences
  * - chats: AI conversation history
+ * - usage: Token counts and estimated cost per model call
  */
 
 import { openDB, type IDBPDatabase } from "idb";
@@ -20,7 +21,7 @@ import { openDB, type IDBPDatabase } from "idb";
 // ═══════════════════════════════════════════════════════════════════════════
 
 const DB_NAME = "synapse_med_v1";
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPE DEFINITIONS
@@ -48,6 +49,104 @@ export interface NoteRecord {
   // References to uploaded file IDs stored in `files` object store
   source_file_ids?: string[];
   sources: Array<{ title: string; uri: string }>;
+  // Resumable generation checkpoint - absent once the note is complete
+  draft?: {
+    topic_name: string;
+    phase: "metadata" | "markdown";
+    partial_markdown?: string;
+    last_complete_heading?: string;
+    continuation_count: number;
+    error?: string;
+    updated_at: string;
+  };
+  // Undo stack for per-section rewrites (newest last)
+  section_history?: Array<{
+    heading: string;
+    previous_content: string;
+    action: "regenerate" | "expand" | "concise" | "rewrite-level";
+    target_level?: string;
+    created_at: string;
+  }>;
+  // Undo stack for manual graph edits (newest last)
+  graph_history?: Array<{
+    summary: string;
+    previous_graph: {
+      nodes: Array<any>;
+      links: Array<any>;
+    };
+    created_at: string;
+  }>;
+  // Background queue entry - absent once the note has been generated
+  queue?: {
+    status: "queued" | "building-graph" | "writing" | "failed";
+    topic_name: string;
+    attempts: number;
+    error?: string;
+    enqueued_at: string;
+  };
+  // Per-note override of the profile's output language (BCP 47 code)
+  output_language?: string;
+  // PHI review decisions - categories and placeholders only, never the text
+  redaction_log?: {
+    source: string;
+    category:
+      | "name"
+      | "mrn"
+      | "date-of-birth"
+      | "date"
+      | "phone"
+      | "email"
+      | "address"
+      | "id-number";
+    rule: string;
+    action: "replaced" | "redacted" | "kept";
+    placeholder?: string;
+    occurrences: number;
+    timestamp: number;
+  }[];
+  // Verdicts on high-risk guide claims from the Verification report
+  claim_reviews?: Array<{
+    claim_id: string;
+    text: string;
+    status: "verified" | "disputed" | "corrected";
+    correction?: string;
+    reviewed_at: string;
+  }>;
+  // Prompt-injection checks that flagged its sources or output
+  safety_warnings?: {
+    kind: "instruction-like-input" | "schema-mismatch" | "persona-drift";
+    source: string;
+    message: string;
+    excerpt?: string;
+  }[];
+  // How the note was generated - absent on notes from before it was recorded
+  provenance?: {
+    provider: "gemini" | "openai-compatible" | "demo";
+    model: string;
+    // Prompt template tags ("id@vN", "+custom.hash" for overrides)
+    prompt_versions: string[];
+    settings: Record<
+      "metadata" | "guide",
+      {
+        model?: string; // Per-task model, when it differed from the note's
+        temperature: number;
+        thinking_budget?: number;
+        max_output_tokens?: number;
+        grounding: boolean;
+      }
+    >;
+    profile: {
+      discipline?: string;
+      level?: string;
+      teaching_style?: string;
+      exam_goal?: string;
+    };
+    continuation_count: number;
+    phases: {
+      metadata?: { started_at: string; completed_at: string };
+      markdown?: { started_at: string; completed_at: string };
+    };
+  };
   created_at: string;
   updated_at: string;
   synced_at?: string | null;
@@ -80,6 +179,35 @@ export interface ProfileRecord {
   specialties?: string[];
   learning_goals?: string;
   api_key?: string; // Google Gemini API Key (BYOK - encrypted in browser storage)
+  llm_provider?: "gemini" | "openai-compatible" | "demo"; // Absent on older profiles = gemini
+  llm_base_url?: string;
+  llm_model?: string;
+  llm_api_key?: string;
+  queue_concurrency?: number;
+  // USD per 1M tokens, keyed by model name
+  model_prices?: Record<
+    string,
+    { input: number; output: number; cached?: number }
+  >;
+  // Custom prompt template bodies, keyed by template id
+  prompt_overrides?: Record<
+    string,
+    { body: string; base_version: number; updated_at: string }
+  >;
+  // Per-task model overrides, keyed by task (metadata, guide, tutor, ...)
+  task_settings?: Record<
+    string,
+    {
+      model?: string;
+      model_provider?: "gemini" | "openai-compatible" | "demo";
+      temperature?: number;
+      thinking_budget?: number;
+      max_output_tokens?: number;
+    }
+  >;
+  guide_length?: "rapid-review" | "standard" | "deep-dive";
+  output_language?: string; // BCP 47 code
+  bilingual_terms?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -94,6 +222,21 @@ export interface ChatRecord {
   updated_at: string;
 }
 
+/** Usage record - one model call, attributed to a note and call type */
+export interface UsageRecord {
+  id: string;
+  note_id?: string;
+  task: string;
+  provider: "gemini" | "openai-compatible" | "demo";
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  thinking_tokens: number;
+  cached_tokens: number;
+  cost_usd: number;
+  created_at: string;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // DATABASE CONNECTION
 // ═══════════════════════════════════════════════════════════════════════════
@@ -144,6 +287,15 @@ export async function getDB(): Promise<IDBPDatabase> {
         console.log("  ✓ Created chats store (keyPath: note_id)");
       }
 
+      // Usage ledger (v2)
+      if (!db.objectStoreNames.contains("usage")) {
+        const usageStore = db.createObjectStore("usage", { keyPath: "id" });
+        usageStore.createIndex("by_note", "note_id");
+        usageStore.createIndex("by_task", "task");
+        usageStore.createIndex("by_created", "created_at");
+        console.log("  ✓ Created usage store");
+      }
+
       console.log("✅ [DB] Schema ready");
     },
   });
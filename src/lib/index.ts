@@ -27,6 +27,7 @@ export {
 } from "./repos/StorageRepository";
 export { ProfileRepository } from "./repos/ProfileRepository";
 export { ChatRepository } from "./repos/ChatRepository";
+export { UsageRepository } from "./repos/UsageRepository";
 
 // Converters
 export {
@@ -34,6 +35,9 @@ export {
   recordToNote,
   profileToRecord,
   recordToProfile,
+  usageToRecord,
+  recordToUsage,
+  fileRecordToInput,
 } from "./utils/converters";
 
 // Schema & utilities
@@ -45,6 +49,7 @@ export type {
   FileRecord,
   ProfileRecord,
   ChatRecord,
+  UsageRecord,
 } from "./db/schema";
 
 export type { ChatMessage } from "./repos/ChatRepository";
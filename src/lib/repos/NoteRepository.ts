@@ -49,6 +49,15 @@ export const NoteRepository = {
       source_file_names: note.source_file_names || [],
       source_file_ids: (note as any).source_file_ids || [],
       sources: note.sources || [],
+      draft: note.draft,
+      section_history: note.section_history,
+      graph_history: note.graph_history,
+      queue: note.queue,
+      output_language: note.output_language,
+      redaction_log: note.redaction_log,
+      safety_warnings: note.safety_warnings,
+      claim_reviews: note.claim_reviews,
+      provenance: note.provenance,
       created_at: note.created_at || now,
       updated_at: now,
       synced_at: null, // Mark as needs sync
@@ -47,6 +47,18 @@ export const ProfileRepository = {
       specialties: profile.specialties ?? existing?.specialties,
       learning_goals: profile.learning_goals ?? existing?.learning_goals,
       api_key: profile.api_key ?? existing?.api_key,
+      llm_provider: profile.llm_provider ?? existing?.llm_provider,
+      llm_base_url: profile.llm_base_url ?? existing?.llm_base_url,
+      llm_model: profile.llm_model ?? existing?.llm_model,
+      llm_api_key: profile.llm_api_key ?? existing?.llm_api_key,
+      queue_concurrency:
+        profile.queue_concurrency ?? existing?.queue_concurrency,
+      model_prices: profile.model_prices ?? existing?.model_prices,
+      prompt_overrides: profile.prompt_overrides ?? existing?.prompt_overrides,
+      task_settings: profile.task_settings ?? existing?.task_settings,
+      guide_length: profile.guide_length ?? existing?.guide_length,
+      output_language: profile.output_language ?? existing?.output_language,
+      bilingual_terms: profile.bilingual_terms ?? existing?.bilingual_terms,
       created_at: existing?.created_at || now,
       updated_at: now,
     };
@@ -80,6 +92,21 @@ export const ProfileRepository = {
     return !!apiKey && apiKey.startsWith("AIza");
   },
 
+  /**
+   * Check if any model backend is usable: a Gemini key, a local endpoint,
+   * or demo mode (which needs no key at all). Checks the stored profile, or
+   * settings not saved yet (onboarding) when given.
+   */
+  async hasModelAccess(
+    settings?: Pick<Partial<ProfileRecord>, "llm_provider" | "api_key">
+  ): Promise<boolean> {
+    const profile = settings ?? (await this.get());
+    if (profile?.llm_provider === "demo") return true;
+    // A local endpoint falls back to the default URL and needs no key
+    if (profile?.llm_provider === "openai-compatible") return true;
+    return !!profile?.api_key && profile.api_key.startsWith("AIza");
+  },
+
   /**
    * Check if profile exists
    */
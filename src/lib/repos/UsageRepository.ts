@@ -0,0 +1,49 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * USAGE REPOSITORY
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Append-only ledger of model calls: token counts and estimated cost.
+ * Maps to: Postgres usage table (note_id foreign key, nullable)
+ */
+
+import { getDB, type UsageRecord } from "../db/schema";
+
+export const UsageRepository = {
+  /**
+   * Record one model call
+   */
+  async add(record: UsageRecord): Promise<void> {
+    const db = await getDB();
+    await db.put("usage", record);
+  },
+
+  /**
+   * Get every call made for a note (generation and chat)
+   */
+  async getForNote(noteId: string): Promise<UsageRecord[]> {
+    const db = await getDB();
+    return db.getAllFromIndex("usage", "by_note", noteId) as Promise<
+      UsageRecord[]
+    >;
+  },
+
+  /**
+   * Get all calls, oldest first
+   */
+  async listAll(): Promise<UsageRecord[]> {
+    const db = await getDB();
+    return db.getAllFromIndex("usage", "by_created") as Promise<
+      UsageRecord[]
+    >;
+  },
+
+  /**
+   * Clear the ledger
+   */
+  async clear(): Promise<void> {
+    const db = await getDB();
+    await db.clear("usage");
+    console.log("🗑️ [Usage] Cleared all");
+  },
+};
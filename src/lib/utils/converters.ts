@@ -7,8 +7,26 @@
  * database records (NoteRecord, ProfileRecord).
  */
 
-import type { AugmentedNote, UserProfile } from "../../../types";
-import type { NoteRecord, ProfileRecord } from "../db/schema";
+import type {
+  AugmentedNote,
+  ClinicalDiscipline,
+  ExamGoal,
+  FileInput,
+  GenerationProvenance,
+  GenerationSettings,
+  PhaseTiming,
+  TeachingStyle,
+  TrainingLevel,
+  UsageEntry,
+  UserProfile,
+} from "../../../types";
+import type {
+  FileRecord,
+  NoteRecord,
+  ProfileRecord,
+  UsageRecord,
+} from "../db/schema";
+import { blobToBase64 } from "../repos/StorageRepository";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // NOTE CONVERSIONS
@@ -32,6 +50,49 @@ export function noteToRecord(
     source_file_names: note.sourceFileNames,
     source_file_ids: note.sourceFileIds || [],
     sources: note.sources,
+    draft: note.draft
+      ? {
+          topic_name: note.draft.topicName,
+          phase: note.draft.phase,
+          partial_markdown: note.draft.partialMarkdown,
+          last_complete_heading: note.draft.lastCompleteHeading,
+          continuation_count: note.draft.continuationCount,
+          error: note.draft.error,
+          updated_at: new Date(note.draft.updatedAt).toISOString(),
+        }
+      : undefined,
+    section_history: note.sectionHistory?.map((r) => ({
+      heading: r.heading,
+      previous_content: r.previousContent,
+      action: r.action,
+      target_level: r.targetLevel,
+      created_at: new Date(r.createdAt).toISOString(),
+    })),
+    graph_history: note.graphHistory?.map((r) => ({
+      summary: r.summary,
+      previous_graph: r.previousGraph,
+      created_at: new Date(r.createdAt).toISOString(),
+    })),
+    queue: note.queue
+      ? {
+          status: note.queue.status,
+          topic_name: note.queue.topicName,
+          attempts: note.queue.attempts,
+          error: note.queue.error,
+          enqueued_at: new Date(note.queue.enqueuedAt).toISOString(),
+        }
+      : undefined,
+    output_language: note.outputLanguage,
+    redaction_log: note.redactionLog?.map((entry) => ({ ...entry })),
+    safety_warnings: note.safetyWarnings?.map((warning) => ({ ...warning })),
+    claim_reviews: note.claimReviews?.map((r) => ({
+      claim_id: r.claimId,
+      text: r.text,
+      status: r.status,
+      correction: r.correction,
+      reviewed_at: new Date(r.reviewedAt).toISOString(),
+    })),
+    provenance: note.provenance && provenanceToRecord(note.provenance),
   };
 }
 
@@ -52,6 +113,130 @@ export function recordToNote(record: NoteRecord): AugmentedNote {
     sourceFileNames: record.source_file_names,
     sourceFileIds: record.source_file_ids || [],
     sources: record.sources,
+    draft: record.draft
+      ? {
+          topicName: record.draft.topic_name,
+          phase: record.draft.phase,
+          partialMarkdown: record.draft.partial_markdown,
+          lastCompleteHeading: record.draft.last_complete_heading,
+          continuationCount: record.draft.continuation_count,
+          error: record.draft.error,
+          updatedAt: new Date(record.draft.updated_at).getTime(),
+        }
+      : undefined,
+    sectionHistory: record.section_history?.map((r) => ({
+      heading: r.heading,
+      previousContent: r.previous_content,
+      action: r.action,
+      targetLevel: r.target_level as TrainingLevel | undefined,
+      createdAt: new Date(r.created_at).getTime(),
+    })),
+    graphHistory: record.graph_history?.map((r) => ({
+      summary: r.summary,
+      previousGraph: r.previous_graph,
+      createdAt: new Date(r.created_at).getTime(),
+    })),
+    queue: record.queue
+      ? {
+          status: record.queue.status,
+          topicName: record.queue.topic_name,
+          attempts: record.queue.attempts,
+          error: record.queue.error,
+          enqueuedAt: new Date(record.queue.enqueued_at).getTime(),
+        }
+      : undefined,
+    outputLanguage: record.output_language,
+    redactionLog: record.redaction_log?.map((entry) => ({ ...entry })),
+    safetyWarnings: record.safety_warnings?.map((warning) => ({ ...warning })),
+    claimReviews: record.claim_reviews?.map((r) => ({
+      claimId: r.claim_id,
+      text: r.text,
+      status: r.status,
+      correction: r.correction,
+      reviewedAt: new Date(r.reviewed_at).getTime(),
+    })),
+    provenance: record.provenance && recordToProvenance(record.provenance),
+  };
+}
+
+type ProvenanceRecord = NonNullable<NoteRecord["provenance"]>;
+
+const timingToRecord = (t?: PhaseTiming) =>
+  t && {
+    started_at: new Date(t.startedAt).toISOString(),
+    completed_at: new Date(t.completedAt).toISOString(),
+  };
+
+const recordToTiming = (t?: {
+  started_at: string;
+  completed_at: string;
+}): PhaseTiming | undefined =>
+  t && {
+    startedAt: new Date(t.started_at).getTime(),
+    completedAt: new Date(t.completed_at).getTime(),
+  };
+
+const settingsToRecord = (s: GenerationSettings) => ({
+  model: s.model,
+  temperature: s.temperature,
+  thinking_budget: s.thinkingBudget,
+  max_output_tokens: s.maxOutputTokens,
+  grounding: s.grounding,
+});
+
+const recordToSettings = (
+  s: ProvenanceRecord["settings"]["guide"]
+): GenerationSettings => ({
+  model: s.model,
+  temperature: s.temperature,
+  thinkingBudget: s.thinking_budget,
+  maxOutputTokens: s.max_output_tokens,
+  grounding: s.grounding,
+});
+
+function provenanceToRecord(p: GenerationProvenance): ProvenanceRecord {
+  return {
+    provider: p.provider,
+    model: p.model,
+    prompt_versions: p.promptVersions,
+    settings: {
+      metadata: settingsToRecord(p.settings.metadata),
+      guide: settingsToRecord(p.settings.guide),
+    },
+    profile: {
+      discipline: p.profile.discipline,
+      level: p.profile.level,
+      teaching_style: p.profile.teachingStyle,
+      exam_goal: p.profile.examGoal,
+    },
+    continuation_count: p.continuationCount,
+    phases: {
+      metadata: timingToRecord(p.phases.metadata),
+      markdown: timingToRecord(p.phases.markdown),
+    },
+  };
+}
+
+function recordToProvenance(r: ProvenanceRecord): GenerationProvenance {
+  return {
+    provider: r.provider,
+    model: r.model,
+    promptVersions: r.prompt_versions,
+    settings: {
+      metadata: recordToSettings(r.settings.metadata),
+      guide: recordToSettings(r.settings.guide),
+    },
+    profile: {
+      discipline: r.profile.discipline as ClinicalDiscipline | undefined,
+      level: r.profile.level as TrainingLevel | undefined,
+      teachingStyle: r.profile.teaching_style as TeachingStyle | undefined,
+      examGoal: r.profile.exam_goal as ExamGoal | undefined,
+    },
+    continuationCount: r.continuation_count,
+    phases: {
+      metadata: recordToTiming(r.phases.metadata),
+      markdown: recordToTiming(r.phases.markdown),
+    },
   };
 }
 
@@ -79,6 +264,41 @@ export function profileToRecord(
     specialties: profile.specialties,
     learning_goals: profile.learningGoals,
     api_key: profile.apiKey,
+    llm_provider: profile.llmProvider,
+    llm_base_url: profile.llmBaseUrl,
+    llm_model: profile.llmModel,
+    llm_api_key: profile.llmApiKey,
+    queue_concurrency: profile.queueConcurrency,
+    model_prices: profile.modelPrices,
+    prompt_overrides: profile.promptOverrides
+      ? Object.fromEntries(
+          Object.entries(profile.promptOverrides).map(([id, o]) => [
+            id,
+            {
+              body: o.body,
+              base_version: o.baseVersion,
+              updated_at: new Date(o.updatedAt).toISOString(),
+            },
+          ])
+        )
+      : undefined,
+    task_settings: profile.taskSettings
+      ? Object.fromEntries(
+          Object.entries(profile.taskSettings).map(([task, t]) => [
+            task,
+            {
+              model: t?.model,
+              model_provider: t?.modelProvider,
+              temperature: t?.temperature,
+              thinking_budget: t?.thinkingBudget,
+              max_output_tokens: t?.maxOutputTokens,
+            },
+          ])
+        )
+      : undefined,
+    guide_length: profile.guideLength,
+    output_language: profile.outputLanguage,
+    bilingual_terms: profile.bilingualTerms,
   };
 }
 
@@ -103,7 +323,103 @@ export function recordToProfile(
     specialties: record.specialties,
     learningGoals: record.learning_goals,
     apiKey: record.api_key,
+    llmProvider: record.llm_provider,
+    llmBaseUrl: record.llm_base_url,
+    llmModel: record.llm_model,
+    llmApiKey: record.llm_api_key,
+    queueConcurrency: record.queue_concurrency,
+    modelPrices: record.model_prices,
+    promptOverrides: record.prompt_overrides
+      ? Object.fromEntries(
+          Object.entries(record.prompt_overrides).map(([id, o]) => [
+            id,
+            {
+              body: o.body,
+              baseVersion: o.base_version,
+              updatedAt: new Date(o.updated_at).getTime(),
+            },
+          ])
+        )
+      : undefined,
+    taskSettings: record.task_settings
+      ? Object.fromEntries(
+          Object.entries(record.task_settings).map(([task, t]) => [
+            task,
+            {
+              model: t.model,
+              modelProvider: t.model_provider,
+              temperature: t.temperature,
+              thinkingBudget: t.thinking_budget,
+              maxOutputTokens: t.max_output_tokens,
+            },
+          ])
+        )
+      : undefined,
+    guideLength: record.guide_length,
+    outputLanguage: record.output_language,
+    bilingualTerms: record.bilingual_terms,
     createdAt: new Date(record.created_at).getTime(),
     updatedAt: new Date(record.updated_at).getTime(),
   };
 }
+
+// ═══════════════════════════════════════════════════════════════════════════
+// USAGE CONVERSIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Convert UsageEntry (app format) to UsageRecord (DB format)
+ */
+export function usageToRecord(entry: UsageEntry): UsageRecord {
+  return {
+    id: entry.id,
+    note_id: entry.noteId,
+    task: entry.task,
+    provider: entry.provider,
+    model: entry.model,
+    input_tokens: entry.inputTokens,
+    output_tokens: entry.outputTokens,
+    thinking_tokens: entry.thinkingTokens,
+    cached_tokens: entry.cachedTokens,
+    cost_usd: entry.costUsd,
+    created_at: new Date(entry.createdAt).toISOString(),
+  };
+}
+
+/**
+ * Convert UsageRecord (DB format) to UsageEntry (app format)
+ */
+export function recordToUsage(record: UsageRecord): UsageEntry {
+  return {
+    id: record.id,
+    noteId: record.note_id,
+    task: record.task,
+    provider: record.provider,
+    model: record.model,
+    inputTokens: record.input_tokens,
+    outputTokens: record.output_tokens,
+    thinkingTokens: record.thinking_tokens,
+    cachedTokens: record.cached_tokens,
+    costUsd: record.cost_usd,
+    createdAt: new Date(record.created_at).getTime(),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FILE CONVERSIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Convert FileRecord (DB format) back to FileInput (API format) so stored
+ * uploads can be re-sent to the model, e.g. when resuming a generation
+ */
+export async function fileRecordToInput(record: FileRecord): Promise<FileInput> {
+  const file = new File([record.blob], record.file_name, {
+    type: record.mime_type,
+  });
+  return {
+    file,
+    base64: await blobToBase64(record.blob),
+    type: record.mime_type,
+  };
+}
@@ -42,12 +42,36 @@ export interface KnowledgeNode {
   labValues?: string[]; // Relevant lab values with normal ranges
   medications?: string[]; // Related medications
   imageKeywords?: string[]; // Keywords for image search
+  codes?: ConceptCode[]; // Standard vocabulary codes, set by terminology mapping
 }
 
+// Standard vocabularies nodes can be mapped to (bundled offline subsets)
+export type TerminologySystem = "ICD-10" | "ATC" | "FMA";
+
+export interface ConceptCode {
+  system: TerminologySystem;
+  code: string; // e.g. "I50", "C07AB07", "7088" (FMA)
+  display: string; // Preferred term in the vocabulary
+  match: "exact" | "fuzzy"; // How the node's label or a synonym matched
+  score: number; // 0-1 similarity of the best-matching term
+}
+
+// Controlled meaning of a link (see services/relationshipTypes)
+export type RelationshipType =
+  | "causes"
+  | "treats"
+  | "contraindicated-in"
+  | "diagnoses"
+  | "presents-with"
+  | "part-of"
+  | "risk-factor-for"
+  | "complication-of";
+
 export interface KnowledgeLink {
   source: string;
   target: string;
-  relationship: string;
+  relationship: string; // Free text as written, e.g. "blocks aldosterone arm of"
+  type?: RelationshipType; // Normalised meaning; absent when none fits
 }
 
 export interface KnowledgeGraphData {
@@ -69,6 +93,171 @@ export interface AugmentedNote {
   // IDs of uploaded files persisted to IndexedDB (optional)
   sourceFileIds?: string[];
   sources: Source[]; // Verified sources from Grounding
+  draft?: GenerationCheckpoint; // Present only while generation is unfinished
+  sectionHistory?: SectionRevision[]; // Undo stack for per-section rewrites (newest last)
+  graphHistory?: GraphRevision[]; // Undo stack for manual graph edits (newest last)
+  queue?: QueueEntry; // Present while the note waits in the background queue
+  provenance?: GenerationProvenance; // How it was generated (absent on older notes)
+  outputLanguage?: string; // Overrides the profile's output language for this note
+  redactionLog?: RedactionLogEntry[]; // PHI review decisions for its sources and chat
+  safetyWarnings?: SafetyWarning[]; // Prompt-injection checks on its sources and output
+  claimReviews?: ClaimReview[]; // Learner verdicts on high-risk claims (Verification report)
+}
+
+// How a note was generated: shown in "Generation details" and exported with
+// the guide, so a shared copy can be traced back to the run that produced it
+export interface GenerationProvenance {
+  provider: LLMProviderType;
+  model: string;
+  promptVersions: string[]; // Prompt templates used, e.g. "phase1.user-context@v1"
+  settings: {
+    metadata: GenerationSettings; // Phase 1 (knowledge graph)
+    guide: GenerationSettings; // Phase 2 (study guide)
+  };
+  profile: Pick<
+    UserProfile,
+    "discipline" | "level" | "teachingStyle" | "examGoal"
+  >; // Snapshot at generation time
+  continuationCount: number; // Phase 2 continuation requests
+  phases: {
+    metadata?: PhaseTiming;
+    markdown?: PhaseTiming; // Absent until the guide is complete
+  };
+}
+
+export interface GenerationSettings {
+  model?: string; // Absent on notes from before per-task models
+  temperature: number;
+  thinkingBudget?: number; // Tokens; absent = model default
+  maxOutputTokens?: number;
+  grounding: boolean; // Google Search grounding requested
+}
+
+export interface PhaseTiming {
+  startedAt: number; // Timestamp
+  completedAt: number; // Timestamp
+}
+
+// Background generation queue. Entries live on their note, so the queue
+// survives a reload; the entry is removed once the guide is complete.
+export type QueueStatus = "queued" | "building-graph" | "writing" | "failed";
+
+export interface QueueEntry {
+  status: QueueStatus;
+  topicName: string;
+  attempts: number; // Finished runs, including failed ones
+  error?: string; // Why the last run failed (shown in the library)
+  enqueuedAt: number; // Timestamp - queue order
+}
+
+// Per-heading actions in the guide tab
+export type SectionAction = "regenerate" | "expand" | "concise" | "rewrite-level";
+
+// Section content as it was before a rewrite - restored by "Undo"
+export interface SectionRevision {
+  heading: string; // '## ' heading text as it appears in markdownContent
+  position?: number; // Index among the '## ' sections
+  previousContent: string; // Full section markdown including the heading line
+  action: SectionAction;
+  targetLevel?: TrainingLevel; // For "rewrite-level"
+  createdAt: number; // Timestamp
+}
+
+// Graph as it was before a manual edit - restored by "Undo"
+export interface GraphRevision {
+  summary: string; // e.g. 'Deleted "Aspirin"' (see graphEditing)
+  previousGraph: KnowledgeGraphData;
+  createdAt: number; // Timestamp
+}
+
+// Learner's verdict on a high-risk guide claim - shown inline after the claim
+export type ClaimStatus = "verified" | "disputed" | "corrected";
+
+export interface ClaimReview {
+  claimId: string; // Hash of the normalised claim text (see claimVerification)
+  text: string; // Claim as it read when reviewed
+  status: ClaimStatus;
+  correction?: string; // Corrected statement, for "corrected"
+  reviewedAt: number; // Timestamp
+}
+
+// Persisted progress of an interrupted two-phase generation.
+// Phase 1 output lives on the note itself (title, pearls, graphData);
+// this records how far Phase 2 got so it can continue instead of restarting.
+export interface GenerationCheckpoint {
+  topicName: string;
+  phase: "metadata" | "markdown"; // Last phase that produced usable output
+  partialMarkdown?: string; // Complete sections only - never a half-written one
+  lastCompleteHeading?: string; // From detectTruncation / section tracking
+  continuationCount: number;
+  error?: string; // Why the run stopped (shown in the library)
+  updatedAt: number; // Timestamp
+}
+
+// Outcome of "Add sources": the merged note plus what changed, shown for
+// review before anything is written to the library
+export interface SourceMergePreview {
+  note: AugmentedNote; // Merged note - not persisted until the user accepts
+  addedNodes: KnowledgeNode[];
+  mergedNodes: { incoming: string; existing: string }[]; // Duplicates folded into existing nodes (labels)
+  addedLinks: KnowledgeLink[];
+  addedPearls: ClinicalPearl[];
+  addedSources: Source[];
+  updatedSections: string[]; // Headings rewritten in place
+  addedSections: string[]; // Headings appended to the guide
+}
+
+// Structural problem found while validating Phase 1 output
+export interface Phase1ValidationIssue {
+  path: string; // e.g. "graphNodes[3].group"
+  message: string;
+}
+
+// What schema validation did to the Phase 1 payload (shown in ThinkingModal)
+export interface Phase1ValidationReport {
+  repairAttempts: number; // Repair requests sent back to the model
+  repaired: Phase1ValidationIssue[]; // Errors the model fixed on request
+  fixed: Phase1ValidationIssue[]; // Corrected client-side (defaults, clamping)
+  dropped: Phase1ValidationIssue[]; // Items removed from the graph
+  unresolved: Phase1ValidationIssue[]; // Errors still present after repair
+}
+
+// Per-chunk Phase 1 status when a large input is processed map-reduce
+export interface SourceChunkProgress {
+  label: string; // e.g. "Review.pdf · pp. 41-80" or "Lecture.mp3 · 15:00-30:00"
+  status: "queued" | "running" | "done" | "failed";
+  nodeCount?: number;
+  error?: string;
+}
+
+// Kinds of patient identifier the local PHI scanner looks for
+export type PhiCategory =
+  | "name"
+  | "mrn"
+  | "date-of-birth"
+  | "date"
+  | "phone"
+  | "email"
+  | "address"
+  | "id-number";
+
+// One reviewed identifier. The original text is never stored.
+export interface RedactionLogEntry {
+  source: string; // File name, or "Chat" for a chat message
+  category: PhiCategory;
+  rule: string; // Scanner rule that flagged it
+  action: "replaced" | "redacted" | "kept";
+  placeholder?: string; // What was sent instead, e.g. "[NAME-1]"
+  occurrences: number;
+  timestamp: number;
+}
+
+// A prompt-injection check that flagged something (see promptSafety)
+export interface SafetyWarning {
+  kind: "instruction-like-input" | "schema-mismatch" | "persona-drift";
+  source: string; // File name, or the output that was checked
+  message: string;
+  excerpt?: string; // Short quote of the flagged passage
 }
 
 export interface FileInput {
@@ -116,6 +305,10 @@ export type ExamGoal =
   | "General Knowledge"
   | "Custom";
 
+// Model backend: Google Gemini (cloud), any OpenAI-compatible server (Ollama, LM Studio, vLLM),
+// or the offline demo that replays recorded fixtures
+export type LLMProviderType = "gemini" | "openai-compatible" | "demo";
+
 export interface UserProfile {
   name: string;
   discipline?: ClinicalDiscipline; // Made optional
@@ -130,6 +323,65 @@ export interface UserProfile {
   specialties?: string[]; // e.g., ["Cardiology", "Nephrology"]
   learningGoals?: string; // Free-text learning objectives
   apiKey?: string; // Google Gemini API Key (BYOK - stored locally, never sent to our servers)
+  llmProvider?: LLMProviderType; // Defaults to "gemini"
+  llmBaseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  llmModel?: string; // Model name for the OpenAI-compatible endpoint
+  llmApiKey?: string; // Optional bearer token for the OpenAI-compatible endpoint
+  queueConcurrency?: number; // Background queue topics processed at once (default 2)
+  modelPrices?: Record<string, ModelPrice>; // Per-model overrides of the default price table
+  promptOverrides?: Record<string, PromptOverride>; // Custom bodies keyed by prompt template id
+  taskSettings?: Partial<Record<ModelTask, TaskModelSettings>>; // Per-task overrides of the defaults
+  guideLength?: GuideLength; // Defaults to "standard"
+  outputLanguage?: string; // BCP 47 code for generated content; defaults to "en"
+  bilingualTerms?: boolean; // Follow key terms with the English term in parentheses
   createdAt: number; // Timestamp
   updatedAt: number; // Timestamp
 }
+
+// Pipeline steps with their own model settings (Settings → Models)
+export type ModelTask =
+  | "metadata"
+  | "guide"
+  | "tutor"
+  | "quiz-question"
+  | "quiz-feedback"
+  | "clinical";
+
+export interface TaskModelSettings {
+  model?: string; // Absent = the provider's configured model
+  modelProvider?: LLMProviderType; // Backend `model` names a model of (absent = "gemini")
+  temperature?: number;
+  thinkingBudget?: number; // Tokens; 0 disables thinking
+  maxOutputTokens?: number;
+}
+
+export type GuideLength = "rapid-review" | "standard" | "deep-dive";
+
+// User's replacement body for one prompt template
+export interface PromptOverride {
+  body: string;
+  baseVersion: number; // Template version the override was written against
+  updatedAt: number; // Timestamp
+}
+
+// USD per 1M tokens for one model, used to estimate what a call cost
+export interface ModelPrice {
+  input: number;
+  output: number; // Thinking tokens are billed at the output rate
+  cached?: number; // Cached input tokens; falls back to the input rate
+}
+
+// One model call in the usage ledger
+export interface UsageEntry {
+  id: string;
+  noteId?: string; // Note the call worked on (generation or its chat)
+  task: string; // Call type, e.g. "metadata", "guide", "chat", "quiz-feedback"
+  provider: LLMProviderType;
+  model: string;
+  inputTokens: number; // Includes cachedTokens
+  outputTokens: number;
+  thinkingTokens: number;
+  cachedTokens: number;
+  costUsd: number; // Estimated with the price table in effect at call time
+  createdAt: number; // Timestamp
+}
@@ -1,5 +1,7 @@
 // utils/tableFormatter.ts
 
+import { isLabTable, labTableRows } from "../services/labValues";
+
 /**
  * Sanitizes cell content to prevent breaking Markdown table syntax.
  * 1. Replaces pipes (|) with HTML entity.
@@ -129,9 +131,11 @@ export function embedTablesInMarkdown(markdown: string): string {
         if (key) tableData = parsedData[key];
       }
 
-      // 3. Generate Table
+      // 3. Generate Table (lab tables get tidied and converted ranges)
       if (tableData.length > 0) {
-        return generateDynamicTable(tableData);
+        return generateDynamicTable(
+          isLabTable(tableData) ? labTableRows(tableData) : tableData
+        );
       }
 
       return match; // Return original if no valid data found